@@ -1,5 +1,5 @@
 /**
- * Tree Test Results - Google Apps Script 12/18/2025 9:51 PM
+ * Tree Test Results - Google Apps Script 10/19/2026 6:00 PM
  * 
  * This script creates a webhook endpoint that receives participant results
  * and appends them to your Google Sheet.
@@ -257,6 +257,7 @@ function getTaskCountFromData(rowData) {
 
 /**
  * Get or create headers in the sheet
+ * Extra columns such as "URL Parameters", "Questionnaire Answers", "Task Follow-up Answers", "Task Order", "Random Seed", "Tree Order", "Tree Variant", "Task Events" and "Disqualification Reason" are kept after the task columns
  */
 function getOrCreateHeaders(sheet, rowData) {
   const lastRow = sheet.getLastRow();
@@ -273,11 +274,9 @@ function getOrCreateHeaders(sheet, rowData) {
 
     // If submitted data has more tasks than existing headers, expand headers
     if (requiredTasks > existingTaskCount) {
-      // Get base headers (first 5 columns)
-      const baseHeaders = existingHeaders.slice(0, 5);
-
-      // Add new task headers
-      const newHeaders = [...baseHeaders];
+      // Insert the new task columns right after the last task column so extra columns keep their data
+      const insertAt = 5 + existingTaskCount * 4 + 1; // 1-indexed column after base headers and existing tasks
+      const newHeaders = [];
       for (let i = existingTaskCount + 1; i <= requiredTasks; i++) {
         newHeaders.push(`Task ${i} Path Taken`);
         newHeaders.push(`Task ${i} Path Outcome`);
@@ -285,17 +284,26 @@ function getOrCreateHeaders(sheet, rowData) {
         newHeaders.push(`Task ${i} Time`);
       }
 
-      // Update header row
-      sheet.getRange(1, 1, 1, newHeaders.length).setValues([newHeaders]);
-
-      // Re-format header row
-      const headerRange = sheet.getRange(1, 1, 1, newHeaders.length);
-      headerRange.setFontWeight('bold');
-      headerRange.setBackground('#4285f4');
-      headerRange.setFontColor('#ffffff');
+      if (insertAt <= sheet.getLastColumn()) {
+        sheet.insertColumnsBefore(insertAt, newHeaders.length);
+      }
+      sheet.getRange(1, insertAt, 1, newHeaders.length).setValues([newHeaders]);
     }
   }
 
+  // Append any extra columns (e.g. "URL Parameters") the sheet doesn't have yet
+  const currentHeaders = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
+  const missingHeaders = Object.keys(rowData).filter(key => !currentHeaders.includes(key));
+  if (missingHeaders.length > 0) {
+    sheet.getRange(1, sheet.getLastColumn() + 1, 1, missingHeaders.length).setValues([missingHeaders]);
+  }
+
+  // Re-format header row
+  const headerRange = sheet.getRange(1, 1, 1, sheet.getLastColumn());
+  headerRange.setFontWeight('bold');
+  headerRange.setBackground('#4285f4');
+  headerRange.setFontColor('#ffffff');
+
   // Return current headers
   const headerRow = sheet.getRange(1, 1, 1, sheet.getLastColumn()).getValues()[0];
   return headerRow.filter(h => h !== ''); // Remove empty cells
@@ -566,7 +574,7 @@ function handleFetchResults(studyId) {
       // Extract participant metadata
       const participantId = rowObj['Participant ID'] || '';
       const rawStatus = (rowObj['Status'] || '').toString().trim().toLowerCase();
-      const status = rawStatus === 'completed' ? 'completed' : 'incomplete';
+      const status = rawStatus === 'completed' ? 'completed' : rawStatus === 'disqualified' ? 'disqualified' : 'incomplete';
       const startedAt = rowObj['Start Time (UTC)'] || new Date().toISOString();
       const completedAt = rowObj['End Time (UTC)'] || null;
 
@@ -589,12 +597,19 @@ function handleFetchResults(studyId) {
         const confidence = rowObj[`Task ${taskNum}: How confident are you with your answer?`];
         const timeSeconds = parseFloat(rowObj[`Task ${taskNum} Time`]) || 0;
 
+        // No outcome means the task was never reached or not shown (partial task sets)
+        if (!outcomeStr) {
+          taskNum++;
+          continue;
+        }
+
         // Map outcome string back to PathOutcome type
         let outcome = 'failure';
         if (outcomeStr.includes('Direct Success')) outcome = 'direct-success';
         else if (outcomeStr.includes('Indirect Success')) outcome = 'indirect-success';
         else if (outcomeStr.includes('Direct Skip')) outcome = 'direct-skip';
         else if (outcomeStr.includes('Indirect Skip')) outcome = 'indirect-skip';
+        else if (outcomeStr.includes('Timeout')) outcome = 'timeout';
         else if (outcomeStr.includes('Failure')) outcome = 'failure';
 
         // Parse path taken (split by '/')
@@ -605,7 +620,7 @@ function handleFetchResults(studyId) {
           taskDescription: `Task ${taskNum}`,
           pathTaken: pathTakenArray,
           outcome: outcome,
-          confidence: confidence ? parseInt(confidence) : undefined,
+          confidence: confidence !== '' && confidence !== null && confidence !== undefined ? parseInt(confidence) : undefined, // 0 is valid on 0-10 scales
           timeSeconds: timeSeconds,
           timestamp: startedAt // Use study start time as task timestamp
         });
@@ -613,8 +628,79 @@ function handleFetchResults(studyId) {
         taskNum++;
       }
 
-      // Only include results that have at least one task
-      if (taskResults.length > 0) {
+      // Captured URL parameters are stored as JSON
+      let urlParameters;
+      if (rowObj['URL Parameters']) {
+        try {
+          urlParameters = JSON.parse(rowObj['URL Parameters']);
+        } catch (e) {
+          // Ignore parse errors
+        }
+      }
+
+      // Questionnaire answers are stored as JSON, keyed by question ID
+      let questionnaireAnswers;
+      if (rowObj['Questionnaire Answers']) {
+        try {
+          questionnaireAnswers = JSON.parse(rowObj['Questionnaire Answers']);
+        } catch (e) {
+          // Ignore parse errors
+        }
+      }
+
+      // Task follow-up answers are stored as JSON, keyed by task number and then question ID
+      if (rowObj['Task Follow-up Answers']) {
+        try {
+          const followUpAnswers = JSON.parse(rowObj['Task Follow-up Answers']);
+          taskResults.forEach((task) => {
+            const number = task.taskId.replace('task-', '');
+            if (followUpAnswers[number]) {
+              task.followUpAnswers = followUpAnswers[number];
+            }
+          });
+        } catch (e) {
+          // Ignore parse errors
+        }
+      }
+
+      // The presented order is stored as task numbers, e.g. "3,1,2"
+      let taskOrder;
+      if (rowObj['Task Order']) {
+        taskOrder = rowObj['Task Order'].toString().split(',').map(number => `task-${number.trim()}`);
+      }
+
+      const randomSeed = rowObj['Random Seed'] !== '' && rowObj['Random Seed'] !== undefined ? Number(rowObj['Random Seed']) : undefined;
+
+      // The displayed sibling order is stored as JSON, keyed by parent path
+      let treeOrder;
+      if (rowObj['Tree Order']) {
+        try {
+          treeOrder = JSON.parse(rowObj['Tree Order']);
+        } catch (e) {
+          // Ignore parse errors
+        }
+      }
+
+      const treeVariant = rowObj['Tree Variant'] ? rowObj['Tree Variant'].toString() : undefined;
+      const disqualificationReason = rowObj['Disqualification Reason'] ? rowObj['Disqualification Reason'].toString() : undefined;
+
+      // Click events are stored as JSON, keyed by task number; each event is [type, path, milliseconds]
+      if (rowObj['Task Events']) {
+        try {
+          const taskEvents = JSON.parse(rowObj['Task Events']);
+          taskResults.forEach((task) => {
+            const number = task.taskId.replace('task-', '');
+            if (Array.isArray(taskEvents[number])) {
+              task.events = taskEvents[number].map(event => ({ type: event[0], path: event[1], time: event[2] }));
+            }
+          });
+        } catch (e) {
+          // Ignore parse errors
+        }
+      }
+
+      // Only include results from sheets with task columns; participants who reached no task are still counted
+      if (taskNum > 1) {
         results.push({
           participantId: participantId,
           studyId: studyId,
@@ -623,7 +709,14 @@ function handleFetchResults(studyId) {
           startedAt: startedAt,
           completedAt: completedAt,
           totalActiveTime: totalActiveTime,
-          taskResults: taskResults
+          taskResults: taskResults,
+          urlParameters: urlParameters,
+          questionnaireAnswers: questionnaireAnswers,
+          taskOrder: taskOrder,
+          randomSeed: randomSeed,
+          treeOrder: treeOrder,
+          treeVariant: treeVariant,
+          disqualificationReason: disqualificationReason
         });
       }
     });
@@ -0,0 +1,337 @@
+import { Plus, Trash2, ArrowUp, ArrowDown } from "lucide-react";
+import type { Question, QuestionnaireBlock, QuestionType, StudyConfig } from "@/lib/types/study";
+import { createQuestion, DEFAULT_LIKERT_POINTS, QUESTION_TYPE_LABELS, QUESTIONNAIRE_BLOCKS, SUS_STATEMENTS } from "@/lib/utils/questionnaires";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type Questionnaires = NonNullable<StudyConfig["questionnaires"]>;
+
+interface QuestionnaireEditorProps {
+    questionnaires: StudyConfig["questionnaires"];
+    onChange: (questionnaires: StudyConfig["questionnaires"]) => void;
+}
+
+const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export function QuestionnaireEditor({ questionnaires, onChange }: QuestionnaireEditorProps) {
+    const updateBlock = (block: QuestionnaireBlock, questions: Question[]) => {
+        const next: Questionnaires = { ...questionnaires, [block]: questions };
+        if (questions.length === 0) {
+            delete next[block];
+        }
+        onChange(Object.keys(next).length > 0 ? next : undefined);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Questionnaires</h2>
+                <p className="text-gray-600">
+                    Ask participants questions before and after the tasks. Answers are saved with each result and can be compared against task success in the Analyzer.
+                </p>
+            </div>
+
+            {QUESTIONNAIRE_BLOCKS.map((block) => (
+                <QuestionBlockEditor
+                    key={block.id}
+                    label={block.label}
+                    description={block.description}
+                    isScreener={block.id === "screener"}
+                    questions={questionnaires?.[block.id] || []}
+                    onChange={(questions) => updateBlock(block.id, questions)}
+                />
+            ))}
+        </div>
+    );
+}
+
+interface QuestionBlockEditorProps {
+    label: string;
+    description: string;
+    isScreener: boolean;
+    questions: Question[];
+    onChange: (questions: Question[]) => void;
+}
+
+function QuestionBlockEditor({ label, description, isScreener, questions, onChange }: QuestionBlockEditorProps) {
+    const updateQuestion = (questionId: string, updates: Partial<Question>) => {
+        onChange(questions.map((q) => (q.id === questionId ? { ...q, ...updates } : q)));
+    };
+
+    const moveQuestion = (index: number, direction: "up" | "down") => {
+        const newIndex = direction === "up" ? index - 1 : index + 1;
+        if (newIndex < 0 || newIndex >= questions.length) return;
+
+        const newQuestions = [...questions];
+        [newQuestions[index], newQuestions[newIndex]] = [newQuestions[newIndex], newQuestions[index]];
+        onChange(newQuestions);
+    };
+
+    const changeType = (question: Question, type: QuestionType) => {
+        // Keep the text and required flag, reset the type-specific fields
+        const { id, text, required } = question;
+        onChange(questions.map((q) => (q.id === id ? { ...createQuestion(type), id, text, required } : q)));
+    };
+
+    return (
+        <div className="rounded-lg border border-gray-200 p-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900">
+                        {label} <span className="text-sm font-normal text-blue-600">({questions.length})</span>
+                    </h3>
+                    <p className="text-sm text-gray-600">{description}</p>
+                </div>
+                <Select onValueChange={(type) => onChange([...questions, createQuestion(type as QuestionType)])} value="">
+                    <SelectTrigger className="w-48 h-8 text-xs">
+                        <SelectValue placeholder="Add question..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {QUESTION_TYPES.map((type) => (
+                            <SelectItem key={type} value={type} className="text-xs">
+                                {QUESTION_TYPE_LABELS[type]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {questions.length === 0 ? (
+                <p className="text-sm text-gray-500 italic">No questions. This block is skipped.</p>
+            ) : (
+                <div className="space-y-4">
+                    {questions.map((question, index) => (
+                        <div key={question.id} className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+                            <div className="flex items-start gap-2">
+                                <div className="flex h-10 w-12 shrink-0 items-center justify-center rounded-md border bg-white text-xs font-medium text-muted-foreground">
+                                    Q{index + 1}
+                                </div>
+                                <Input
+                                    value={question.text}
+                                    onChange={(e) => updateQuestion(question.id, { text: e.target.value })}
+                                    placeholder={question.type === "sus" ? "Optional intro, e.g. Thinking about the website..." : "Enter the question..."}
+                                    className="flex-1 bg-white"
+                                />
+                                <Select value={question.type} onValueChange={(type) => changeType(question, type as QuestionType)}>
+                                    <SelectTrigger className="w-52 bg-white">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {QUESTION_TYPES.map((type) => (
+                                            <SelectItem key={type} value={type}>
+                                                {QUESTION_TYPE_LABELS[type]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <div className="flex gap-1">
+                                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveQuestion(index, "up")} disabled={index === 0} title="Move up">
+                                        <ArrowUp className="h-4 w-4 text-gray-500 hover:text-gray-700" />
+                                    </Button>
+                                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveQuestion(index, "down")} disabled={index === questions.length - 1} title="Move down">
+                                        <ArrowDown className="h-4 w-4 text-gray-500 hover:text-gray-700" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8 text-gray-400 hover:text-red-500"
+                                        onClick={() => onChange(questions.filter((q) => q.id !== question.id))}
+                                        title="Delete question"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+
+                            <div className="pl-14 space-y-3">
+                                <QuestionTypeFields question={question} isScreener={isScreener} onChange={(updates) => updateQuestion(question.id, updates)} />
+
+                                <div className="flex items-center gap-2">
+                                    <Switch
+                                        id={`required-${question.id}`}
+                                        checked={question.required ?? false}
+                                        onCheckedChange={(required) => updateQuestion(question.id, { required })}
+                                    />
+                                    <Label htmlFor={`required-${question.id}`} className="text-xs text-gray-700">Required</Label>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+interface QuestionTypeFieldsProps {
+    question: Question;
+    isScreener?: boolean;
+    onChange: (updates: Partial<Question>) => void;
+}
+
+export function QuestionTypeFields({ question, isScreener = false, onChange }: QuestionTypeFieldsProps) {
+    if (question.type === "single-choice" || question.type === "multiple-choice") {
+        const options = question.options || [];
+        const qualifying = question.qualifyingOptions || [];
+        const quotas = question.quotas || {};
+        const canSetQuotas = isScreener && question.type === "single-choice";
+
+        // Qualifying options and quotas are keyed by the option text, so keep them in step with the options
+        const screenerUpdates = (previous: string, next: string | null): Partial<Question> => {
+            const nextQualifying = qualifying.flatMap(o => (o !== previous ? [o] : next !== null ? [next] : []));
+            const nextQuotas = Object.fromEntries(
+                Object.entries(quotas).flatMap(([o, limit]) => (o !== previous ? [[o, limit]] : next !== null ? [[next, limit]] : []))
+            );
+            return {
+                qualifyingOptions: nextQualifying.length > 0 ? nextQualifying : undefined,
+                quotas: Object.keys(nextQuotas).length > 0 ? nextQuotas : undefined,
+            };
+        };
+        const renameOption = (index: number, value: string) => {
+            onChange({ options: options.map((o, i) => (i === index ? value : o)), ...screenerUpdates(options[index], value) });
+        };
+        const removeOption = (index: number) => {
+            onChange({ options: options.filter((_, i) => i !== index), ...screenerUpdates(options[index], null) });
+        };
+        const toggleQualifying = (option: string) => {
+            const next = qualifying.includes(option) ? qualifying.filter(o => o !== option) : [...qualifying, option];
+            onChange({ qualifyingOptions: next.length > 0 ? next : undefined });
+        };
+        const setQuota = (option: string, value: string) => {
+            const next = { ...quotas };
+            const limit = parseInt(value);
+            if (isNaN(limit) || limit < 0) {
+                delete next[option];
+            } else {
+                next[option] = limit;
+            }
+            onChange({ quotas: Object.keys(next).length > 0 ? next : undefined });
+        };
+
+        return (
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-medium text-gray-700">
+                        Options <span className="text-blue-600">({options.length})</span>
+                    </label>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 text-xs text-blue-600 hover:text-blue-800"
+                        onClick={() => onChange({ options: [...options, ""] })}
+                    >
+                        <Plus className="mr-1 h-3 w-3" />
+                        Add Option
+                    </Button>
+                </div>
+                <div className="space-y-2 pl-2 border-l-2 border-gray-200">
+                    {options.map((option, optionIndex) => (
+                        <div key={optionIndex} className="flex items-center gap-2">
+                            <Input
+                                value={option}
+                                onChange={(e) => renameOption(optionIndex, e.target.value)}
+                                placeholder={`Option ${optionIndex + 1}`}
+                                className="h-8 bg-white text-sm"
+                            />
+                            {isScreener && (
+                                <label className="flex shrink-0 items-center gap-1 text-xs text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={qualifying.includes(option)}
+                                        disabled={!option.trim()}
+                                        onChange={() => toggleQualifying(option)}
+                                    />
+                                    Qualifies
+                                </label>
+                            )}
+                            {canSetQuotas && (
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    value={quotas[option] ?? ""}
+                                    onChange={(e) => setQuota(option, e.target.value)}
+                                    placeholder="Quota"
+                                    title="Maximum number of qualified participants who can pick this option"
+                                    disabled={!option.trim()}
+                                    className="h-8 w-24 shrink-0 bg-white text-sm"
+                                />
+                            )}
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-gray-400 hover:text-red-500"
+                                disabled={options.length <= 1}
+                                onClick={() => removeOption(optionIndex)}
+                                title="Remove option"
+                            >
+                                <Trash2 className="h-3 w-3" />
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+                {isScreener && (
+                    <p className="text-xs text-gray-500">
+                        Tick the options that qualify; participants who pick none of them are screened out. Leave all unticked to let everyone continue.
+                        {canSetQuotas && " Quotas cap how many qualified participants can pick an option and are only enforced when the storage can fetch results."}
+                    </p>
+                )}
+            </div>
+        );
+    }
+
+    if (question.type === "likert") {
+        return (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div className="space-y-1">
+                    <label className="text-xs font-medium text-gray-700">Scale</label>
+                    <Select
+                        value={String(question.scalePoints || DEFAULT_LIKERT_POINTS)}
+                        onValueChange={(value) => onChange({ scalePoints: parseInt(value) })}
+                    >
+                        <SelectTrigger className="h-8 bg-white text-sm">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {[3, 4, 5, 6, 7, 10].map((points) => (
+                                <SelectItem key={points} value={String(points)}>1 to {points}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-medium text-gray-700">Lowest label</label>
+                    <Input
+                        value={question.minLabel || ""}
+                        onChange={(e) => onChange({ minLabel: e.target.value || undefined })}
+                        placeholder="e.g. Strongly disagree"
+                        className="h-8 bg-white text-sm"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <label className="text-xs font-medium text-gray-700">Highest label</label>
+                    <Input
+                        value={question.maxLabel || ""}
+                        onChange={(e) => onChange({ maxLabel: e.target.value || undefined })}
+                        placeholder="e.g. Strongly agree"
+                        className="h-8 bg-white text-sm"
+                    />
+                </div>
+            </div>
+        );
+    }
+
+    if (question.type === "sus") {
+        return (
+            <p className="text-xs text-gray-500">
+                Participants rate the {SUS_STATEMENTS.length} standard SUS statements from 1 (strongly disagree) to 5 (strongly agree). The Analyzer reports the 0-100 SUS score.
+            </p>
+        );
+    }
+
+    return (
+        <p className="text-xs text-gray-500">Participants answer in their own words.</p>
+    );
+}
@@ -1,6 +1,16 @@
-import type { StudySettings } from "@/lib/types/study";
+import { useState } from "react";
+import type { CompletionSettings, ConfidenceScaleSettings, StudySettings } from "@/lib/types/study";
+import type { ConfidenceIntervalMethod } from "@/lib/types";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CONFIDENCE_INTERVAL_METHODS, DEFAULT_CONFIDENCE_INTERVAL_METHOD } from "@/lib/stats/confidence-intervals";
+import { DEFAULT_REDIRECT_DELAY_SECONDS } from "@/lib/utils/completion";
+import { DEFAULT_SCREENED_OUT_MESSAGE } from "@/lib/utils/screener";
+import { CONFIDENCE_SCALE_RANGES, DEFAULT_CONFIDENCE_SCALE, resolveConfidenceScale } from "@/lib/utils/confidence-scale";
+import { DEFAULT_SESSION_RESUME_MINUTES } from "@/lib/utils/participant-session";
 
 interface SettingsEditorProps {
     settings: StudySettings;
@@ -12,6 +22,45 @@ export function SettingsEditor({ settings, onChange }: SettingsEditorProps) {
         onChange({ ...settings, [key]: value });
     };
 
+    // Edited as free text and parsed on blur so typing a comma doesn't drop the next name
+    const [urlParametersText, setUrlParametersText] = useState((settings.capturedUrlParameters || []).join(", "));
+    const capturedUrlParameters = settings.capturedUrlParameters || [];
+
+    const commitUrlParameters = () => {
+        const names = Array.from(new Set(urlParametersText.split(",").map(name => name.trim()).filter(name => name.length > 0)));
+        setUrlParametersText(names.join(", "));
+        onChange({
+            ...settings,
+            capturedUrlParameters: names.length > 0 ? names : undefined,
+            participantIdParameter: settings.participantIdParameter && names.includes(settings.participantIdParameter)
+                ? settings.participantIdParameter
+                : undefined,
+        });
+    };
+
+    const completion = settings.completion || {};
+
+    const updateCompletion = <K extends keyof CompletionSettings>(key: K, value: CompletionSettings[K]) => {
+        const next: CompletionSettings = { ...completion, [key]: value };
+        if (value === undefined || value === "") {
+            delete next[key];
+        }
+        updateSetting("completion", Object.keys(next).length > 0 ? next : undefined);
+    };
+
+    const confidenceScale = resolveConfidenceScale(settings.confidenceScale);
+
+    // Only non-default values are stored, so studies keep following the defaults
+    const updateConfidenceScale = (updates: ConfidenceScaleSettings) => {
+        const next: ConfidenceScaleSettings = { ...settings.confidenceScale, ...updates };
+        (Object.keys(next) as (keyof ConfidenceScaleSettings)[]).forEach(key => {
+            if (next[key] === undefined || next[key] === "" || next[key] === DEFAULT_CONFIDENCE_SCALE[key]) {
+                delete next[key];
+            }
+        });
+        updateSetting("confidenceScale", Object.keys(next).length > 0 ? next : undefined);
+    };
+
     return (
         <div className="space-y-6">
             <div>
@@ -69,6 +118,266 @@ export function SettingsEditor({ settings, onChange }: SettingsEditorProps) {
                         This message will be shown after participants complete all tasks and submit their responses.
                     </p>
                 </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="screened-out-message">Screened-Out Message</Label>
+                    <Textarea
+                        id="screened-out-message"
+                        value={settings.screenedOutMessage || ""}
+                        onChange={(e) => updateSetting("screenedOutMessage", e.target.value || undefined)}
+                        placeholder={DEFAULT_SCREENED_OUT_MESSAGE}
+                        className="min-h-[80px] font-mono text-sm"
+                    />
+                    <p className="text-xs text-gray-500">
+                        Shown to participants whose screener answers don't qualify or whose quota is already full.
+                    </p>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="confidence-interval-method">Confidence Interval Method</Label>
+                    <Select
+                        value={settings.confidenceIntervalMethod || DEFAULT_CONFIDENCE_INTERVAL_METHOD}
+                        onValueChange={(value) => updateSetting("confidenceIntervalMethod", value as ConfidenceIntervalMethod)}
+                    >
+                        <SelectTrigger id="confidence-interval-method" className="max-w-sm">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(CONFIDENCE_INTERVAL_METHODS) as ConfidenceIntervalMethod[]).map((method) => (
+                                <SelectItem key={method} value={method}>
+                                    {CONFIDENCE_INTERVAL_METHODS[method].label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <p className="text-xs text-gray-500">
+                        Used for the success and directness intervals when results are imported into the Analyzer.{" "}
+                        {CONFIDENCE_INTERVAL_METHODS[settings.confidenceIntervalMethod || DEFAULT_CONFIDENCE_INTERVAL_METHOD].description}
+                    </p>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="captured-url-parameters">URL Parameters to Capture</Label>
+                    <Input
+                        id="captured-url-parameters"
+                        value={urlParametersText}
+                        onChange={(e) => setUrlParametersText(e.target.value)}
+                        onBlur={commitUrlParameters}
+                        placeholder="e.g. PROLIFIC_PID, STUDY_ID, SESSION_ID"
+                        className="max-w-md font-mono text-sm"
+                    />
+                    <p className="text-xs text-gray-500">
+                        Comma-separated query parameter names. Values found on the participant link (e.g. <code>/test/:studyId?PROLIFIC_PID=...</code>) are saved with each result and appear as participant attributes in the Analyzer.
+                    </p>
+                </div>
+
+                {capturedUrlParameters.length > 0 && (
+                    <div className="space-y-2">
+                        <Label htmlFor="participant-id-parameter">Participant ID</Label>
+                        <Select
+                            value={settings.participantIdParameter || "generated"}
+                            onValueChange={(value) => updateSetting("participantIdParameter", value === "generated" ? undefined : value)}
+                        >
+                            <SelectTrigger id="participant-id-parameter" className="max-w-sm">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="generated">Generate a random ID</SelectItem>
+                                {capturedUrlParameters.map((name) => (
+                                    <SelectItem key={name} value={name}>
+                                        Use {name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-xs text-gray-500">
+                            When the chosen parameter is missing from the link, a random ID is generated instead.
+                        </p>
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    <Label htmlFor="session-resume-minutes">Resume Interrupted Sessions (minutes)</Label>
+                    <Input
+                        id="session-resume-minutes"
+                        type="number"
+                        min={0}
+                        value={settings.sessionResumeMinutes ?? ""}
+                        onChange={(e) => updateSetting("sessionResumeMinutes", e.target.value === "" ? undefined : Math.max(0, Number(e.target.value)))}
+                        placeholder={String(DEFAULT_SESSION_RESUME_MINUTES)}
+                        className="max-w-[10rem]"
+                    />
+                    <p className="text-xs text-gray-500">
+                        Participants who reload the page or come back within this time continue where they left off, as the same participant. Set to 0 to always start over.
+                    </p>
+                </div>
+            </div>
+
+            <div className="space-y-4 border-t pt-6">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900">Confidence Rating</h3>
+                        <p className="text-sm text-gray-600">
+                            Asked after each answer (not after a skip). The Analyzer compares the ratings with task success.
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Switch
+                            id="confidence-enabled"
+                            checked={confidenceScale.enabled}
+                            onCheckedChange={(enabled) => updateConfidenceScale({ enabled })}
+                        />
+                        <Label htmlFor="confidence-enabled" className="text-sm">Ask for a rating</Label>
+                    </div>
+                </div>
+
+                {confidenceScale.enabled && (
+                    <>
+                        <div className="space-y-2">
+                            <Label htmlFor="confidence-question">Question</Label>
+                            <Input
+                                id="confidence-question"
+                                value={settings.confidenceScale?.question || ""}
+                                onChange={(e) => updateConfidenceScale({ question: e.target.value })}
+                                placeholder={DEFAULT_CONFIDENCE_SCALE.question}
+                            />
+                        </div>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                                <Label htmlFor="confidence-range">Scale</Label>
+                                <Select
+                                    value={`${confidenceScale.min}-${confidenceScale.max}`}
+                                    onValueChange={(value) => {
+                                        const [min, max] = value.split("-").map(Number);
+                                        updateConfidenceScale({ min, max });
+                                    }}
+                                >
+                                    <SelectTrigger id="confidence-range">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {CONFIDENCE_SCALE_RANGES.map(({ min, max }) => (
+                                            <SelectItem key={`${min}-${max}`} value={`${min}-${max}`}>
+                                                {min} to {max}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            {/* Labels are stored as typed so they can be cleared to show numbers only */}
+                            <div className="space-y-2">
+                                <Label htmlFor="confidence-min-label">Lowest Label</Label>
+                                <Input
+                                    id="confidence-min-label"
+                                    value={confidenceScale.minLabel}
+                                    onChange={(e) => updateSetting("confidenceScale", { ...settings.confidenceScale, minLabel: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="confidence-max-label">Highest Label</Label>
+                                <Input
+                                    id="confidence-max-label"
+                                    value={confidenceScale.maxLabel}
+                                    onChange={(e) => updateSetting("confidenceScale", { ...settings.confidenceScale, maxLabel: e.target.value })}
+                                />
+                            </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <Switch
+                                id="confidence-required"
+                                checked={confidenceScale.required}
+                                onCheckedChange={(required) => updateConfidenceScale({ required })}
+                            />
+                            <Label htmlFor="confidence-required" className="text-sm">Require a rating before continuing</Label>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            <div className="space-y-4 border-t pt-6">
+                <div>
+                    <h3 className="text-lg font-semibold text-gray-900">Completion & Redirects</h3>
+                    <p className="text-sm text-gray-600">
+                        Send participants back to a recruitment panel (e.g. Prolific, MTurk) when they leave the study.
+                        Redirect URLs can include <code>{"{participantId}"}</code> and any captured URL parameter, e.g. <code>{"{PROLIFIC_PID}"}</code>.
+                    </p>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="completion-redirect-url">Completion Redirect URL</Label>
+                    <Input
+                        id="completion-redirect-url"
+                        value={completion.redirectUrl || ""}
+                        onChange={(e) => updateCompletion("redirectUrl", e.target.value)}
+                        placeholder="https://app.prolific.com/submissions/complete?cc=XXXXXX"
+                        className="font-mono text-sm"
+                    />
+                    <p className="text-xs text-gray-500">
+                        Participants are redirected here after their results are submitted. Leave empty to stay on the completion message.
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="completion-code">Completion Code</Label>
+                        <Input
+                            id="completion-code"
+                            value={completion.completionCode || ""}
+                            onChange={(e) => updateCompletion("completionCode", e.target.value)}
+                            placeholder="e.g. C1A2B3C4"
+                            className="font-mono text-sm"
+                        />
+                        <p className="text-xs text-gray-500">
+                            Shown with a copy button below the completion message.
+                        </p>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="redirect-delay">Redirect Delay (seconds)</Label>
+                        <Input
+                            id="redirect-delay"
+                            type="number"
+                            min={0}
+                            max={60}
+                            value={completion.redirectDelaySeconds ?? ""}
+                            onChange={(e) => updateCompletion("redirectDelaySeconds", e.target.value === "" ? undefined : Math.max(0, Number(e.target.value)))}
+                            placeholder={String(DEFAULT_REDIRECT_DELAY_SECONDS)}
+                        />
+                        <p className="text-xs text-gray-500">
+                            Time to read the completion message before the redirect.
+                        </p>
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="screened-out-redirect-url">Screened-Out Redirect URL</Label>
+                    <Input
+                        id="screened-out-redirect-url"
+                        value={completion.screenedOutRedirectUrl || ""}
+                        onChange={(e) => updateCompletion("screenedOutRedirectUrl", e.target.value)}
+                        placeholder="https://app.prolific.com/submissions/complete?cc=SCREENED"
+                        className="font-mono text-sm"
+                    />
+                    <p className="text-xs text-gray-500">
+                        Used for participants who don't qualify for the study.
+                    </p>
+                </div>
+
+                <div className="space-y-2">
+                    <Label htmlFor="closed-redirect-url">Study Closed Redirect URL</Label>
+                    <Input
+                        id="closed-redirect-url"
+                        value={completion.closedRedirectUrl || ""}
+                        onChange={(e) => updateCompletion("closedRedirectUrl", e.target.value)}
+                        placeholder="https://app.prolific.com/submissions/complete?cc=CLOSED"
+                        className="font-mono text-sm"
+                    />
+                    <p className="text-xs text-gray-500">
+                        Used for participants who open the link after the study has been closed.
+                    </p>
+                </div>
             </div>
         </div>
     );
@@ -9,6 +9,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { TreePathSelector } from "@/components/ui/tree-path-selector";
 import { TaskRandomizationSettings } from "./TaskRandomizationSettings";
+import { TaskFollowUpEditor } from "./TaskFollowUpEditor";
 
 interface TaskEditorProps {
     tasks: Task[];
@@ -152,11 +153,11 @@ export function TaskEditor({ tasks, tree, settings, onChange, onSettingsChange }
                 </Popover>
             </div>
 
-            {/* Task Randomization Toggle */}
+            {/* Task Order Settings */}
             <TaskRandomizationSettings
-                randomizeTasks={settings.randomizeTasks ?? false}
+                settings={settings}
                 taskCount={tasks.length}
-                onChange={(randomizeTasks) => onSettingsChange({ ...settings, randomizeTasks })}
+                onChange={onSettingsChange}
             />
 
             {tasks.length === 0 ? (
@@ -275,6 +276,34 @@ export function TaskEditor({ tasks, tree, settings, onChange, onSettingsChange }
                                         </p>
                                     )}
                                 </div>
+
+                                <div className="flex items-center gap-2">
+                                    <label htmlFor={`time-limit-${task.id}`} className="text-xs font-medium text-gray-700">
+                                        Time limit (seconds)
+                                    </label>
+                                    <Input
+                                        id={`time-limit-${task.id}`}
+                                        type="number"
+                                        min={1}
+                                        value={task.timeLimitSeconds ?? ""}
+                                        onChange={(e) => {
+                                            const seconds = parseInt(e.target.value);
+                                            updateTask(task.id, { timeLimitSeconds: seconds > 0 ? seconds : undefined });
+                                        }}
+                                        placeholder="No limit"
+                                        className="h-8 w-28 text-sm"
+                                    />
+                                    <span className="text-xs text-gray-500">
+                                        When time runs out the task ends and is recorded as a timeout
+                                    </span>
+                                </div>
+
+                                <TaskFollowUpEditor
+                                    questions={task.followUpQuestions || []}
+                                    onChange={(followUpQuestions) =>
+                                        updateTask(task.id, { followUpQuestions: followUpQuestions.length > 0 ? followUpQuestions : undefined })
+                                    }
+                                />
                             </div>
                         );
                     })}
@@ -0,0 +1,119 @@
+import { Trash2 } from "lucide-react";
+import type { FollowUpCondition, QuestionType, TaskFollowUpQuestion } from "@/lib/types/study";
+import { createQuestion, QUESTION_TYPE_LABELS } from "@/lib/utils/questionnaires";
+import { FOLLOW_UP_CONDITION_LABELS, FOLLOW_UP_QUESTION_TYPES } from "@/lib/utils/task-follow-ups";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { QuestionTypeFields } from "./QuestionnaireEditor";
+
+interface TaskFollowUpEditorProps {
+    questions: TaskFollowUpQuestion[];
+    onChange: (questions: TaskFollowUpQuestion[]) => void;
+}
+
+export function TaskFollowUpEditor({ questions, onChange }: TaskFollowUpEditorProps) {
+    const updateQuestion = (questionId: string, updates: Partial<TaskFollowUpQuestion>) => {
+        onChange(questions.map((q) => (q.id === questionId ? { ...q, ...updates } : q)));
+    };
+
+    const changeType = (question: TaskFollowUpQuestion, type: QuestionType) => {
+        // Keep the text, required flag and condition, reset the type-specific fields
+        const { id, text, required, showWhen } = question;
+        onChange(questions.map((q) => (q.id === id ? { ...createQuestion(type), id, text, required, showWhen } : q)));
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-medium text-gray-700">
+                    Follow-up Questions <span className="text-blue-600">({questions.length})</span>
+                </label>
+                <Select onValueChange={(type) => onChange([...questions, createQuestion(type as QuestionType)])} value="">
+                    <SelectTrigger className="w-40 h-6 text-xs">
+                        <SelectValue placeholder="Add follow-up..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {FOLLOW_UP_QUESTION_TYPES.map((type) => (
+                            <SelectItem key={type} value={type} className="text-xs">
+                                {QUESTION_TYPE_LABELS[type]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+
+            {questions.length === 0 ? (
+                <p className="text-xs text-gray-500 italic py-2">
+                    Optionally ask something after this task, e.g. "What were you expecting to find?"
+                </p>
+            ) : (
+                <div className="space-y-3 pl-2 border-l-2 border-gray-100">
+                    {questions.map((question) => (
+                        <div key={question.id} className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-3">
+                            <div className="flex items-center gap-2">
+                                <Input
+                                    value={question.text}
+                                    onChange={(e) => updateQuestion(question.id, { text: e.target.value })}
+                                    placeholder="Enter the question..."
+                                    className="h-8 flex-1 bg-white text-sm"
+                                />
+                                <Select value={question.type} onValueChange={(type) => changeType(question, type as QuestionType)}>
+                                    <SelectTrigger className="h-8 w-40 bg-white text-sm">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {FOLLOW_UP_QUESTION_TYPES.map((type) => (
+                                            <SelectItem key={type} value={type}>
+                                                {QUESTION_TYPE_LABELS[type]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 text-gray-400 hover:text-red-500"
+                                    onClick={() => onChange(questions.filter((q) => q.id !== question.id))}
+                                    title="Delete question"
+                                >
+                                    <Trash2 className="h-3 w-3" />
+                                </Button>
+                            </div>
+
+                            <QuestionTypeFields question={question} onChange={(updates) => updateQuestion(question.id, updates)} />
+
+                            <div className="flex flex-wrap items-center gap-4">
+                                <Select
+                                    value={question.showWhen || "always"}
+                                    onValueChange={(value) => updateQuestion(question.id, { showWhen: value === "always" ? undefined : value as FollowUpCondition })}
+                                >
+                                    <SelectTrigger className="h-8 w-64 bg-white text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(FOLLOW_UP_CONDITION_LABELS) as FollowUpCondition[]).map((condition) => (
+                                            <SelectItem key={condition} value={condition} className="text-xs">
+                                                {FOLLOW_UP_CONDITION_LABELS[condition]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <div className="flex items-center gap-2">
+                                    <Switch
+                                        id={`required-${question.id}`}
+                                        checked={question.required ?? false}
+                                        onCheckedChange={(required) => updateQuestion(question.id, { required })}
+                                    />
+                                    <Label htmlFor={`required-${question.id}`} className="text-xs text-gray-700">Required</Label>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,20 +1,31 @@
+import type { StudySettings, TaskOrderStrategy } from "@/lib/types/study";
+import { getTaskOrderStrategy, TASK_ORDER_LABELS } from "@/lib/utils/task-randomizer";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface TaskRandomizationSettingsProps {
-    randomizeTasks: boolean;
+    settings: StudySettings;
     taskCount: number;
-    onChange: (randomizeTasks: boolean) => void;
+    onChange: (settings: StudySettings) => void;
 }
 
+const TASK_ORDER_DESCRIPTIONS: Record<TaskOrderStrategy, string> = {
+    "fixed": "Every participant sees the tasks in the order listed below.",
+    "random": "Each participant sees the tasks in a random order.",
+    "latin-square": "Participants take turns through balanced orders, so each task appears in each position, and after each other task, equally often.",
+    "fixed-first": "The first task (e.g. a warm-up) always comes first; the rest are in a random order.",
+};
+
 /**
- * Task Randomization Settings Component
- * 
- * Displays a toggle for enabling task randomization.
- * Only shown when there are 2+ tasks (no point randomizing 1 task).
+ * Task Order Settings Component
+ *
+ * Chooses how tasks are ordered for each participant, and optionally shows
+ * each participant only some of the tasks. Results are still analyzed by the original task.
+ * Only shown when there are 2+ tasks (no point ordering 1 task).
  */
 export function TaskRandomizationSettings({
-    randomizeTasks,
+    settings,
     taskCount,
     onChange,
 }: TaskRandomizationSettingsProps) {
@@ -23,25 +34,67 @@ export function TaskRandomizationSettings({
         return null;
     }
 
+    const strategy = getTaskOrderStrategy(settings);
+
+    // taskOrder replaces the older randomizeTasks flag
+    const updateStrategy = (taskOrder: TaskOrderStrategy) => {
+        onChange({ ...settings, taskOrder, randomizeTasks: undefined });
+    };
+
+    const updateTasksPerParticipant = (value: string) => {
+        const count = parseInt(value);
+        onChange({ ...settings, tasksPerParticipant: count > 0 && count < taskCount ? count : undefined });
+    };
+
     return (
-        <div className="rounded-lg border border-gray-200 bg-gray-50 p-6">
-            <div className="flex items-center justify-between">
-                <div className="space-y-1 flex-1">
-                    <Label htmlFor="randomize-tasks" className="text-base font-medium text-gray-900">
-                        Randomize task order for each participant
-                    </Label>
-                    <p className="text-sm text-gray-600">
-                        Each participant will see tasks in a random order. Results will still be analyzed by the original task.
-                    </p>
+        <div className="rounded-lg border border-gray-200 bg-gray-50 p-6 space-y-4">
+            <div className="space-y-2">
+                <Label htmlFor="task-order" className="text-base font-medium text-gray-900">
+                    Task order
+                </Label>
+                <Select value={strategy} onValueChange={(value) => updateStrategy(value as TaskOrderStrategy)}>
+                    <SelectTrigger id="task-order" className="max-w-sm bg-white">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(Object.keys(TASK_ORDER_LABELS) as TaskOrderStrategy[]).map((value) => (
+                            <SelectItem key={value} value={value}>
+                                {TASK_ORDER_LABELS[value]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <p className="text-sm text-gray-600">{TASK_ORDER_DESCRIPTIONS[strategy]}</p>
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor="tasks-per-participant" className="text-sm font-medium text-gray-900">
+                    Tasks per participant
+                </Label>
+                <div className="flex items-center gap-2">
+                    <Input
+                        id="tasks-per-participant"
+                        type="number"
+                        min={1}
+                        max={taskCount}
+                        value={settings.tasksPerParticipant ?? ""}
+                        onChange={(e) => updateTasksPerParticipant(e.target.value)}
+                        placeholder={`All ${taskCount}`}
+                        className="w-28 bg-white"
+                    />
+                    <span className="text-sm text-gray-600">of {taskCount}</span>
                 </div>
-                <Switch
-                    id="randomize-tasks"
-                    checked={randomizeTasks}
-                    onCheckedChange={onChange}
-                    className="ml-4"
-                />
+                <p className="text-sm text-gray-600">
+                    Show each participant only some of the tasks, picking those shown least so far to keep exposure even.
+                </p>
             </div>
+
+            {(strategy === "latin-square" || settings.tasksPerParticipant) && (
+                <p className="text-xs text-gray-500">
+                    Balancing counts earlier participants from the stored results. If your storage can't list results,
+                    orders and task sets are picked at random instead.
+                </p>
+            )}
         </div>
     );
 }
-
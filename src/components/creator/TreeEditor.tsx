@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect, useMemo } from "react";
-import { ChevronDown, ChevronRight, Plus, Trash2 } from "lucide-react";
-import type { TreeNode } from "@/lib/types/study";
+import { ChevronDown, ChevronRight, Pin, Plus, Shuffle, Trash2 } from "lucide-react";
+import type { StudySettings, TreeNode } from "@/lib/types/study";
 import type { Item } from "@/lib/types";
 import { generateId } from "@/lib/utils/id-generator";
 import { parseTreeFromString } from "@/lib/data-parser";
@@ -11,10 +11,11 @@ import { Textarea } from "@/components/ui/textarea";
 
 interface TreeEditorProps {
     tree: TreeNode[];
+    settings?: Pick<StudySettings, "randomizeTreeOrder" | "treeOrderScope">; // Shows the pin and shuffle controls when sibling order is randomized
     onChange: (tree: TreeNode[]) => void;
 }
 
-export function TreeEditor({ tree, onChange }: TreeEditorProps) {
+export function TreeEditor({ tree, settings, onChange }: TreeEditorProps) {
     const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
     const [treeText, setTreeText] = useState("");
     const [parseError, setParseError] = useState<string | null>(null);
@@ -43,13 +44,19 @@ export function TreeEditor({ tree, onChange }: TreeEditorProps) {
     }, [currentTreeText, isEditingText, treeText]);
 
     // Convert Item[] (from parser) to TreeNode[] (for study config)
-    const convertItemsToTreeNodes = (items: Item[]): TreeNode[] => {
-        return items.map(item => ({
-            id: generateId(),
-            name: item.name,
-            link: item.link,
-            children: item.children ? convertItemsToTreeNodes(item.children) : []
-        }));
+    // Pins and shuffle marks aren't part of the text format, so they are kept from nodes with the same name
+    const convertItemsToTreeNodes = (items: Item[], previous: TreeNode[] = []): TreeNode[] => {
+        return items.map(item => {
+            const match = previous.find(node => node.name.toLowerCase() === item.name.toLowerCase());
+            return {
+                id: generateId(),
+                name: item.name,
+                link: item.link,
+                children: item.children ? convertItemsToTreeNodes(item.children, match?.children) : [],
+                ...(match?.shuffleChildren && { shuffleChildren: true }),
+                ...(match?.pinned && { pinned: true }),
+            };
+        });
     };
 
     // Helper to get all node IDs recursively
@@ -72,7 +79,7 @@ export function TreeEditor({ tree, onChange }: TreeEditorProps) {
 
         try {
             const parsedItems = parseTreeFromString(treeText);
-            const treeNodes = convertItemsToTreeNodes(parsedItems);
+            const treeNodes = convertItemsToTreeNodes(parsedItems, tree);
             onChange(treeNodes);
             setParseError(null);
             setIsEditingText(false);
@@ -178,6 +185,7 @@ export function TreeEditor({ tree, onChange }: TreeEditorProps) {
         const isExpanded = expandedNodes.has(node.id);
         const hasChildren = node.children && node.children.length > 0;
         const isLeaf = !hasChildren;
+        const isRandomized = settings?.randomizeTreeOrder === true;
 
         return (
             <div key={node.id} className="mb-2">
@@ -218,6 +226,28 @@ export function TreeEditor({ tree, onChange }: TreeEditorProps) {
 
                     {/* Action Buttons */}
                     <div className="flex gap-1">
+                        {isRandomized && settings?.treeOrderScope === "branches" && hasChildren && (
+                            <Button
+                                onClick={() => updateNode(node.id, { shuffleChildren: node.shuffleChildren ? undefined : true })}
+                                size="icon"
+                                variant={node.shuffleChildren ? "secondary" : "ghost"}
+                                className={`h-8 w-8 ${node.shuffleChildren ? "text-blue-600" : "text-gray-400"}`}
+                                title={node.shuffleChildren ? "Children are shuffled for each participant" : "Shuffle children for each participant"}
+                            >
+                                <Shuffle className="h-3 w-3" />
+                            </Button>
+                        )}
+                        {isRandomized && (
+                            <Button
+                                onClick={() => updateNode(node.id, { pinned: node.pinned ? undefined : true })}
+                                size="icon"
+                                variant={node.pinned ? "secondary" : "ghost"}
+                                className={`h-8 w-8 ${node.pinned ? "text-blue-600" : "text-gray-400"}`}
+                                title={node.pinned ? "Pinned: keeps its position when siblings are shuffled" : "Pin to keep its position when siblings are shuffled"}
+                            >
+                                <Pin className="h-3 w-3" />
+                            </Button>
+                        )}
                         <Button
                             onClick={() => addChildNode(node.id)}
                             size="sm"
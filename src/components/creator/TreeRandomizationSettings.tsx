@@ -0,0 +1,91 @@
+import type { StudySettings, TreeOrderScope } from "@/lib/types/study";
+import { TREE_ORDER_SCOPE_LABELS } from "@/lib/utils/tree-randomizer";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface TreeRandomizationSettingsProps {
+    settings: StudySettings;
+    onChange: (settings: StudySettings) => void;
+}
+
+const TREE_ORDER_SCOPE_DESCRIPTIONS: Record<TreeOrderScope, string> = {
+    "all": "Items at each level of the tree are shown in a random order.",
+    "branches": "Only the children of nodes marked with the shuffle button in the tree below are shown in a random order.",
+};
+
+/**
+ * Tree Randomization Settings Component
+ *
+ * Displays a toggle for shuffling sibling order in the tree for each participant,
+ * and which sibling lists are shuffled. Pinned nodes keep their position.
+ * The order comes from the participant's seed, so it can be replayed with ?seed=.
+ */
+export function TreeRandomizationSettings({ settings, onChange }: TreeRandomizationSettingsProps) {
+    const scope = settings.treeOrderScope ?? "all";
+
+    return (
+        <div className="rounded-lg border border-gray-200 bg-gray-50 p-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="space-y-1 flex-1">
+                    <Label htmlFor="randomize-tree-order" className="text-base font-medium text-gray-900">
+                        Randomize sibling order for each participant
+                    </Label>
+                    <p className="text-sm text-gray-600">
+                        Labels are shown in a random order, so labels near the top aren't picked for their position.
+                        The order each participant saw is recorded with their result.
+                    </p>
+                </div>
+                <Switch
+                    id="randomize-tree-order"
+                    checked={settings.randomizeTreeOrder ?? false}
+                    onCheckedChange={(randomizeTreeOrder) => onChange({ ...settings, randomizeTreeOrder: randomizeTreeOrder || undefined })}
+                    className="ml-4"
+                />
+            </div>
+
+            {settings.randomizeTreeOrder && (
+                <>
+                    <div className="space-y-2">
+                        <Label htmlFor="tree-order-scope" className="text-sm font-medium text-gray-900">
+                            Shuffle
+                        </Label>
+                        <Select
+                            value={scope}
+                            onValueChange={(value) => onChange({ ...settings, treeOrderScope: value === "all" ? undefined : value as TreeOrderScope })}
+                        >
+                            <SelectTrigger id="tree-order-scope" className="max-w-sm bg-white">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(TREE_ORDER_SCOPE_LABELS) as TreeOrderScope[]).map((value) => (
+                                    <SelectItem key={value} value={value}>
+                                        {TREE_ORDER_SCOPE_LABELS[value]}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-sm text-gray-600">{TREE_ORDER_SCOPE_DESCRIPTIONS[scope]}</p>
+                    </div>
+
+                    {scope === "branches" && (
+                        <div className="flex items-center gap-3">
+                            <Switch
+                                id="shuffle-top-level"
+                                checked={settings.shuffleTopLevel ?? false}
+                                onCheckedChange={(shuffleTopLevel) => onChange({ ...settings, shuffleTopLevel: shuffleTopLevel || undefined })}
+                            />
+                            <Label htmlFor="shuffle-top-level" className="text-sm text-gray-900">
+                                Also shuffle the top-level nodes
+                            </Label>
+                        </div>
+                    )}
+
+                    <p className="text-xs text-gray-500">
+                        Pin a node with the pin button in the tree below to keep it where it is, e.g. "Other" at the end of its list.
+                    </p>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,157 @@
+import { Copy, Plus, Trash2 } from "lucide-react";
+import type { StudyConfig, TreeVariantAssignment } from "@/lib/types/study";
+import {
+    createTreeVariant,
+    getTreeVariants,
+    hasTreeVariants,
+    MAIN_TREE_VARIANT_ID,
+    TREE_VARIANT_ASSIGNMENT_LABELS,
+    updateTreeVariant,
+} from "@/lib/utils/tree-variants";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface TreeVariantsEditorProps {
+    study: StudyConfig;
+    activeVariantId: string; // Tree being edited below
+    onActiveVariantChange: (variantId: string) => void;
+    onChange: (study: StudyConfig) => void;
+}
+
+/**
+ * Tree Variants Editor Component
+ *
+ * Lists the trees participants are split between and how they're assigned.
+ * The first tree is the study's main tree; each variant has its own expected paths on the Tasks tab.
+ */
+export function TreeVariantsEditor({ study, activeVariantId, onActiveVariantChange, onChange }: TreeVariantsEditorProps) {
+    const variants = getTreeVariants(study);
+    const activeVariant = variants.find((variant) => variant.id === activeVariantId) || variants[0];
+    const assignment = study.settings.treeVariantAssignment ?? "round-robin";
+
+    const addVariant = (copy: boolean) => {
+        const variant = createTreeVariant(study, copy ? activeVariant : undefined);
+        onChange({ ...study, treeVariants: [...(study.treeVariants || []), variant] });
+        onActiveVariantChange(variant.id);
+    };
+
+    const deleteVariant = (variantId: string) => {
+        const remaining = (study.treeVariants || []).filter((variant) => variant.id !== variantId);
+        onChange({ ...study, treeVariants: remaining.length > 0 ? remaining : undefined });
+        onActiveVariantChange(MAIN_TREE_VARIANT_ID);
+    };
+
+    return (
+        <div className="rounded-lg border border-gray-200 bg-gray-50 p-6 mb-6 space-y-4">
+            <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                    <h3 className="text-base font-medium text-gray-900">Tree variants</h3>
+                    <p className="text-sm text-gray-600">
+                        Test alternative trees in the same study. Each participant is shown one tree, and the Analyzer splits the results by tree.
+                    </p>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    <Button variant="outline" size="sm" onClick={() => addVariant(false)}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Tree
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => addVariant(true)} disabled={activeVariant.tree.length === 0}>
+                        <Copy className="h-4 w-4 mr-1" />
+                        Copy {activeVariant.name}
+                    </Button>
+                </div>
+            </div>
+
+            {hasTreeVariants(study) && (
+                <>
+                    <div className="flex flex-wrap gap-2">
+                        {variants.map((variant) => (
+                            <Button
+                                key={variant.id}
+                                variant={variant.id === activeVariant.id ? "default" : "outline"}
+                                size="sm"
+                                onClick={() => onActiveVariantChange(variant.id)}
+                            >
+                                {variant.name}
+                            </Button>
+                        ))}
+                    </div>
+
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="tree-variant-name" className="text-sm font-medium text-gray-900">
+                                Name
+                            </Label>
+                            <Input
+                                id="tree-variant-name"
+                                value={activeVariant.name}
+                                onChange={(e) => onChange(updateTreeVariant(study, activeVariant.id, { name: e.target.value }))}
+                                className="w-56 bg-white"
+                            />
+                        </div>
+                        {assignment === "weighted" && (
+                            <div className="space-y-2">
+                                <Label htmlFor="tree-variant-weight" className="text-sm font-medium text-gray-900">
+                                    Weight
+                                </Label>
+                                <Input
+                                    id="tree-variant-weight"
+                                    type="number"
+                                    min={0}
+                                    value={activeVariant.weight ?? 1}
+                                    onChange={(e) => {
+                                        const weight = parseFloat(e.target.value);
+                                        onChange(updateTreeVariant(study, activeVariant.id, { weight: isNaN(weight) ? undefined : Math.max(0, weight) }));
+                                    }}
+                                    className="w-24 bg-white"
+                                />
+                            </div>
+                        )}
+                        {activeVariant.id !== MAIN_TREE_VARIANT_ID && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteVariant(activeVariant.id)}
+                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                Delete {activeVariant.name}
+                            </Button>
+                        )}
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="tree-variant-assignment" className="text-sm font-medium text-gray-900">
+                            Assign participants
+                        </Label>
+                        <Select
+                            value={assignment}
+                            onValueChange={(value) => onChange({
+                                ...study,
+                                settings: { ...study.settings, treeVariantAssignment: value === "round-robin" ? undefined : value as TreeVariantAssignment },
+                            })}
+                        >
+                            <SelectTrigger id="tree-variant-assignment" className="max-w-sm bg-white">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {(Object.keys(TREE_VARIANT_ASSIGNMENT_LABELS) as TreeVariantAssignment[]).map((value) => (
+                                    <SelectItem key={value} value={value}>
+                                        {TREE_VARIANT_ASSIGNMENT_LABELS[value]}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <p className="text-sm text-gray-600">
+                            {assignment === "weighted"
+                                ? "Each participant is shown a tree at random, in proportion to its weight."
+                                : "Each participant is shown the tree with the fewest participants so far."}
+                        </p>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,73 @@
+import type { TaskEvent, TaskEventType } from "@/lib/types/study";
+import { getHesitationTime, getTimeToFirstClick } from "@/lib/stats/click-events";
+import { TASK_EVENT_LABELS } from "@/lib/utils/task-events";
+import { cn } from "@/lib/utils";
+
+interface ClickTimelineProps {
+    taskIndex: number;
+    events: TaskEvent[];
+    firstClickDepth?: number; // Tree level counted as the first click, see getFirstClickDepth
+}
+
+const EVENT_COLORS: Record<TaskEventType, string> = {
+    "expand": "bg-blue-500",
+    "collapse": "bg-gray-400",
+    "breadcrumb-back": "bg-orange-400",
+    "select": "bg-green-500",
+    "skip": "bg-red-400",
+};
+
+/**
+ * Click Timeline Component
+ *
+ * One participant's clicks during a task, placed on a time axis and listed with their offsets.
+ * The longest pause is highlighted in the list.
+ */
+export function ClickTimeline({ taskIndex, events, firstClickDepth = 1 }: ClickTimelineProps) {
+    const timeToFirstClick = getTimeToFirstClick(events, firstClickDepth);
+    const hesitation = getHesitationTime(events);
+    const duration = Math.max(events[events.length - 1]?.time ?? 0, 1);
+    const longestPauseIndex = events.findIndex((event, i) =>
+        i > 0 && hesitation !== null && (event.time - events[i - 1].time) / 1000 === hesitation
+    );
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-baseline gap-x-3 text-xs">
+                <span className="font-medium text-gray-900">T{taskIndex}</span>
+                <span className="text-gray-500">
+                    First click {timeToFirstClick !== null ? `${timeToFirstClick.toFixed(1)}s` : "N/A"}
+                </span>
+                <span className="text-gray-500">
+                    Longest pause {hesitation !== null ? `${hesitation.toFixed(1)}s` : "N/A"}
+                </span>
+            </div>
+
+            <div className="relative h-3 rounded-full bg-gray-100">
+                {events.map((event, i) => (
+                    <div
+                        key={i}
+                        className={cn("absolute top-0 h-3 w-1.5 -translate-x-1/2 rounded-full", EVENT_COLORS[event.type])}
+                        style={{ left: `${(event.time / duration) * 100}%` }}
+                        title={`${formatOffset(event.time)} ${TASK_EVENT_LABELS[event.type]} ${event.path || "the top level"}`}
+                    />
+                ))}
+            </div>
+
+            <ol className="space-y-0.5 text-xs">
+                {events.map((event, i) => (
+                    <li key={i} className={cn("flex gap-3", i === longestPauseIndex && "rounded bg-orange-50")}>
+                        <span className="w-14 flex-shrink-0 text-right font-mono text-gray-400">{formatOffset(event.time)}</span>
+                        <span className={cn("mt-1 h-2 w-2 flex-shrink-0 rounded-full", EVENT_COLORS[event.type])} />
+                        <span className="w-24 flex-shrink-0 text-gray-500">{TASK_EVENT_LABELS[event.type]}</span>
+                        <span className="font-mono text-gray-700">{event.path || "the top level"}</span>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+}
+
+function formatOffset(milliseconds: number): string {
+    return `${(milliseconds / 1000).toFixed(1)}s`;
+}
@@ -0,0 +1,195 @@
+import { useMemo, useState } from "react";
+import type { UploadedData, ComparisonTaskMatch, ComparisonWinner, ComparisonMetric } from "@/lib/types";
+import { compareStudies, formatPValue } from "@/lib/stats/study-comparison";
+import { formatRateInterval } from "@/lib/stats/confidence-intervals";
+import { generateComparisonMarkdownReport } from "@/lib/markdown-generator";
+import { downloadFile } from "@/lib/data-exporter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Trophy } from "lucide-react";
+
+interface CompareTabProps {
+    data: UploadedData;
+    studies: UploadedData[];
+}
+
+export function CompareTab({ data, studies }: CompareTabProps) {
+    const otherStudies = useMemo(() => studies.filter(s => s.id !== data.id), [studies, data.id]);
+    const [compareStudyId, setCompareStudyId] = useState<string>(otherStudies[0]?.id || "");
+    const [matchBy, setMatchBy] = useState<ComparisonTaskMatch>("description");
+
+    const compareStudy = otherStudies.find(s => s.id === compareStudyId);
+
+    const comparison = useMemo(
+        () => compareStudy ? compareStudies(data, compareStudy, { matchBy }) : null,
+        [data, compareStudy, matchBy]
+    );
+
+    const handleDownloadReport = () => {
+        if (!comparison) return;
+        const filename = `tree-test-comparison-${new Date().toISOString().split('T')[0]}.md`;
+        downloadFile(generateComparisonMarkdownReport(comparison), filename, "text/markdown");
+    };
+
+    if (otherStudies.length === 0) {
+        return (
+            <Card>
+                <CardContent className="py-12 text-center text-sm text-gray-500">
+                    Upload or import a second study to compare it against this one.
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const winnerLabel = (winner: ComparisonWinner) => {
+        if (!comparison || !winner) return <span className="text-xs text-gray-400">No significant difference</span>;
+        return (
+            <div className="flex items-center gap-1 text-green-600">
+                <Trophy className="h-4 w-4" />
+                <span className="text-xs font-medium">
+                    {winner} · {winner === "A" ? comparison.studyA.name : comparison.studyB.name}
+                </span>
+            </div>
+        );
+    };
+
+    const renderRateCell = (metric: ComparisonMetric) => (
+        <div className="space-y-0.5">
+            <div className="text-sm">
+                <span className={metric.winner === "A" ? "font-semibold text-green-600" : ""}>{metric.a.rate}%</span>
+                <span className="text-gray-400"> vs </span>
+                <span className={metric.winner === "B" ? "font-semibold text-green-600" : ""}>{metric.b.rate}%</span>
+            </div>
+            <div className="text-[10px] text-gray-400">
+                A {formatRateInterval(metric.a)} · B {formatRateInterval(metric.b)}
+            </div>
+            <div className={`text-[10px] ${metric.significant ? "font-medium text-purple-600" : "text-gray-400"}`}>
+                {formatPValue(metric.pValue)} ({metric.test === "fisher-exact" ? "Fisher's exact" : "z-test"})
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+                <div>
+                    <h2 className="text-xl sm:text-2xl font-bold tracking-tight">Compare Studies</h2>
+                    <p className="text-sm text-gray-500">
+                        Test this study (A) against another study (B), such as a current tree against a proposed one.
+                    </p>
+                </div>
+                <Button variant="outline" size="sm" className="gap-2" onClick={handleDownloadReport} disabled={!comparison}>
+                    <Download className="h-4 w-4" />
+                    Download Comparison Report
+                </Button>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-1">
+                    <div className="text-xs font-medium text-gray-500">Compare with (B)</div>
+                    <Select value={compareStudyId} onValueChange={setCompareStudyId}>
+                        <SelectTrigger>
+                            <SelectValue placeholder="Select a study" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {otherStudies.map((study) => (
+                                <SelectItem key={study.id} value={study.id}>
+                                    {study.name || "Untitled Analysis"} ({study.participants.length} participants)
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="space-y-1">
+                    <div className="text-xs font-medium text-gray-500">Match tasks by</div>
+                    <Select value={matchBy} onValueChange={(value) => setMatchBy(value as ComparisonTaskMatch)}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="description">Task description</SelectItem>
+                            <SelectItem value="id">Task ID</SelectItem>
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            {comparison && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="text-lg">
+                            A: {comparison.studyA.name} ({comparison.studyA.participants}) vs B: {comparison.studyB.name} ({comparison.studyB.participants})
+                        </CardTitle>
+                        <p className="text-xs text-gray-500">
+                            Significant at α = {comparison.alpha}. Success and directness use a two-proportion z-test, or Fisher's exact test for small counts.
+                            Time uses the Mann-Whitney U test. The winner is decided by success, then directness, then time.
+                        </p>
+                    </CardHeader>
+                    <CardContent className="p-0">
+                        <div className="overflow-x-auto">
+                            <table className="w-full">
+                                <thead className="border-b bg-gray-50">
+                                    <tr>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Task</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Success (A vs B)</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Directness (A vs B)</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Median Time (A vs B)</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Winner</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {comparison.tasks.map((task) => (
+                                        <tr key={`${task.taskA.id}-${task.taskB.id}`} className="border-b align-top last:border-0">
+                                            <td className="px-4 py-3 max-w-xs">
+                                                <div className="text-sm font-medium">
+                                                    T{task.taskA.index}{task.taskA.index !== task.taskB.index ? ` / T${task.taskB.index}` : ""}
+                                                </div>
+                                                <div className="text-xs text-gray-500">{task.description}</div>
+                                            </td>
+                                            <td className="px-4 py-3">{renderRateCell(task.success)}</td>
+                                            <td className="px-4 py-3">{renderRateCell(task.directness)}</td>
+                                            <td className="px-4 py-3">
+                                                <div className="space-y-0.5">
+                                                    <div className="text-sm">
+                                                        <span className={task.time.winner === "A" ? "font-semibold text-green-600" : ""}>{task.time.medianA}s</span>
+                                                        <span className="text-gray-400"> vs </span>
+                                                        <span className={task.time.winner === "B" ? "font-semibold text-green-600" : ""}>{task.time.medianB}s</span>
+                                                    </div>
+                                                    <div className={`text-[10px] ${task.time.significant ? "font-medium text-purple-600" : "text-gray-400"}`}>
+                                                        {formatPValue(task.time.pValue)} (Mann-Whitney)
+                                                    </div>
+                                                </div>
+                                            </td>
+                                            <td className="px-4 py-3">{winnerLabel(task.winner)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {comparison.tasks.length === 0 && (
+                            <div className="py-12 text-center text-sm text-gray-500">
+                                No tasks matched. Try matching by {matchBy === "description" ? "task ID" : "task description"} instead.
+                            </div>
+                        )}
+
+                        {(comparison.unmatchedA.length > 0 || comparison.unmatchedB.length > 0) && (
+                            <div className="border-t p-4 text-xs text-gray-500">
+                                <div className="mb-1 font-medium text-gray-700">Unmatched tasks</div>
+                                <ul className="space-y-0.5">
+                                    {comparison.unmatchedA.map((task) => (
+                                        <li key={`a-${task.id}`}>A, Task {task.index}: {task.description}</li>
+                                    ))}
+                                    {comparison.unmatchedB.map((task) => (
+                                        <li key={`b-${task.id}`}>B, Task {task.index}: {task.description}</li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
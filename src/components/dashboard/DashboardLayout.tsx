@@ -1,27 +1,58 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import type { UploadedData } from "@/lib/types";
+import { applyExclusions, getExcludedCount } from "@/lib/utils/exclusions";
+import { applySegmentFilters, getAttributeValues } from "@/lib/utils/segments";
+import { applySelectedTreeVariant, getAnalyzerTreeVariants, splitByTreeVariant } from "@/lib/utils/tree-variants";
+import { hasQuestionnaireData } from "@/lib/stats/questionnaires";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BarChart3, PieChart as PieChartIcon, Network, Users, FileText, Edit2, Share2 } from "lucide-react";
+import { BarChart3, PieChart as PieChartIcon, Network, Users, FileText, Edit2, Share2, GitCompare, MessageSquare } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
 import { OverviewTab } from "./OverviewTab";
 import { TasksTab } from "./TasksTab";
 import { ParticipantsTab } from "./ParticipantsTab";
 import { PietreeTab } from "./PietreeTab";
+import { QuestionnairesTab } from "./QuestionnairesTab";
 import { ExportTab } from "./ExportTab";
+import { CompareTab } from "./CompareTab";
+import { SegmentFilterBar } from "./SegmentFilterBar";
+import { TreeVariantBar } from "./TreeVariantBar";
 import { ShareDialog } from "@/components/sharing/ShareDialog";
 
 interface DashboardLayoutProps {
     data: UploadedData;
     onDataChange: (data: UploadedData) => void;
     onDelete?: () => void;
+    studies?: UploadedData[]; // All analyzer studies, used as comparison candidates
 }
 
-export function DashboardLayout({ data, onDataChange, onDelete: _onDelete }: DashboardLayoutProps) {
+export function DashboardLayout({ data, onDataChange, onDelete: _onDelete, studies = [] }: DashboardLayoutProps) {
     const [activeTab, setActiveTab] = useState("overview");
     const [editingName, setEditingName] = useState(false);
     const [editingCreator, setEditingCreator] = useState(false);
     const [shareDialogOpen, setShareDialogOpen] = useState(false);
+    // Analysis tabs only see included participants of the selected tree in the active segment;
+    // the Participants tab manages exclusions on the full data
+    const treeVariants = useMemo(() => getAnalyzerTreeVariants(data), [data]);
+    const selectedVariantId = (treeVariants.find(v => v.id === data.selectedTreeVariant) || treeVariants[0])?.id;
+    const variantData = useMemo(() => applySelectedTreeVariant(data), [data]);
+    const segmentData = useMemo(() => applySegmentFilters(variantData), [variantData]);
+    const analysisData = useMemo(() => applyExclusions(segmentData), [segmentData]);
+    const attributeValues = useMemo(() => getAttributeValues(data), [data]);
+    const visibleParticipantIds = useMemo(
+        () => segmentData === data ? undefined : new Set(segmentData.participants.map(p => p.id)),
+        [data, segmentData]
+    );
+    const excludedCount = getExcludedCount(data);
+
+    // Each tree can be compared against the study's other trees as well as other studies
+    const variantStudies = useMemo(() => splitByTreeVariant(data), [data]);
+    const compareData = variantStudies.find(s => s.id === `${data.id}:${selectedVariantId}`) || data;
+    const compareStudies = useMemo(
+        () => [...variantStudies, ...studies.filter(s => s.id !== data.id)],
+        [variantStudies, studies, data.id]
+    );
 
     return (
         <div className="h-full">
@@ -95,8 +126,20 @@ export function DashboardLayout({ data, onDataChange, onDelete: _onDelete }: Das
                                 )}
                                 <span className="text-sm text-gray-400">•</span>
                                 <span className="text-sm text-gray-500">
-                                    {data.participants.length} participants • {data.tasks.length} tasks
+                                    {analysisData.participants.length} participants • {data.tasks.length} tasks
                                 </span>
+                                {excludedCount > 0 && (
+                                    <>
+                                        <span className="text-sm text-gray-400">•</span>
+                                        <label className="flex items-center gap-2 text-sm text-gray-500">
+                                            <Switch
+                                                checked={!!data.showExcluded}
+                                                onCheckedChange={(checked) => onDataChange({ ...data, showExcluded: checked })}
+                                            />
+                                            Show {excludedCount} excluded
+                                        </label>
+                                    </>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -104,6 +147,27 @@ export function DashboardLayout({ data, onDataChange, onDelete: _onDelete }: Das
             </div>
 
             <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+                {selectedVariantId && (
+                    <div className="mb-4">
+                        <TreeVariantBar
+                            data={data}
+                            variants={treeVariants}
+                            selectedId={selectedVariantId}
+                            onSelect={(selectedTreeVariant) => onDataChange({ ...data, selectedTreeVariant })}
+                        />
+                    </div>
+                )}
+                {attributeValues.size > 0 && (
+                    <div className="mb-6">
+                        <SegmentFilterBar
+                            attributes={attributeValues}
+                            filters={data.segmentFilters || []}
+                            onFiltersChange={(segmentFilters) => onDataChange({ ...data, segmentFilters })}
+                            matchingCount={segmentData.participants.length}
+                            totalCount={variantData.participants.length}
+                        />
+                    </div>
+                )}
                 <Tabs className="space-y-6">
                     <TabsList className="flex w-full overflow-x-auto lg:justify-start">
                         <TabsTrigger value="overview" isActive={activeTab === "overview"} onClick={() => setActiveTab("overview")} className="flex-shrink-0">
@@ -118,10 +182,20 @@ export function DashboardLayout({ data, onDataChange, onDelete: _onDelete }: Das
                             <Users className="mr-1 sm:mr-2 h-4 w-4" />
                             <span className="hidden sm:inline">Participants</span>
                         </TabsTrigger>
+                        {hasQuestionnaireData(data) && (
+                            <TabsTrigger value="questionnaires" isActive={activeTab === "questionnaires"} onClick={() => setActiveTab("questionnaires")} className="flex-shrink-0">
+                                <MessageSquare className="mr-1 sm:mr-2 h-4 w-4" />
+                                <span className="hidden sm:inline">Questionnaires</span>
+                            </TabsTrigger>
+                        )}
                         <TabsTrigger value="pietree" isActive={activeTab === "pietree"} onClick={() => setActiveTab("pietree")} className="flex-shrink-0">
                             <Network className="mr-1 sm:mr-2 h-4 w-4" />
                             <span className="hidden sm:inline">Pietree</span>
                         </TabsTrigger>
+                        <TabsTrigger value="compare" isActive={activeTab === "compare"} onClick={() => setActiveTab("compare")} className="flex-shrink-0">
+                            <GitCompare className="mr-1 sm:mr-2 h-4 w-4" />
+                            <span className="hidden sm:inline">Compare</span>
+                        </TabsTrigger>
                         <TabsTrigger value="export" isActive={activeTab === "export"} onClick={() => setActiveTab("export")} className="flex-shrink-0">
                             <FileText className="mr-1 sm:mr-2 h-4 w-4" />
                             <span className="hidden sm:inline">Export</span>
@@ -129,23 +203,34 @@ export function DashboardLayout({ data, onDataChange, onDelete: _onDelete }: Das
                     </TabsList>
 
                     <TabsContent value="overview" activeValue={activeTab}>
-                        <OverviewTab data={data} />
+                        <OverviewTab data={analysisData} screeningData={segmentData} />
                     </TabsContent>
 
                     <TabsContent value="tasks" activeValue={activeTab}>
-                        <TasksTab data={data} />
+                        <TasksTab
+                            data={analysisData}
+                            onIntervalMethodChange={(method) => onDataChange({ ...data, confidenceIntervalMethod: method })}
+                        />
                     </TabsContent>
 
                     <TabsContent value="participants" activeValue={activeTab}>
-                        <ParticipantsTab data={data} />
+                        <ParticipantsTab data={data} onDataChange={onDataChange} visibleParticipantIds={visibleParticipantIds} />
+                    </TabsContent>
+
+                    <TabsContent value="questionnaires" activeValue={activeTab}>
+                        <QuestionnairesTab data={analysisData} />
                     </TabsContent>
 
                     <TabsContent value="pietree" activeValue={activeTab}>
-                        <PietreeTab data={data} />
+                        <PietreeTab data={analysisData} />
+                    </TabsContent>
+
+                    <TabsContent value="compare" activeValue={activeTab}>
+                        <CompareTab key={compareData.id} data={compareData} studies={compareStudies} />
                     </TabsContent>
 
                     <TabsContent value="export" activeValue={activeTab}>
-                        <ExportTab data={data} />
+                        <ExportTab data={segmentData} />
                     </TabsContent>
                 </Tabs>
             </main>
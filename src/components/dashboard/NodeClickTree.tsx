@@ -0,0 +1,124 @@
+import { useMemo, useState } from "react";
+import type { NodeClickStats } from "@/lib/types";
+import { ChevronDown, ChevronRight, CheckCircle, XCircle, Target } from "lucide-react";
+
+interface NodeClickTreeProps {
+    nodes: NodeClickStats[];
+}
+
+// Expand every branch that lies on a correct path so divergence points are visible immediately
+function getInitiallyExpanded(nodes: NodeClickStats[], expanded = new Set<string>()): Set<string> {
+    nodes.forEach((node) => {
+        if (node.isOnCorrectPath && node.children.length > 0) {
+            expanded.add(node.path);
+            getInitiallyExpanded(node.children, expanded);
+        }
+    });
+    return expanded;
+}
+
+export function NodeClickTree({ nodes }: NodeClickTreeProps) {
+    const [expandedNodes, setExpandedNodes] = useState<Set<string>>(() => getInitiallyExpanded(nodes));
+    const [showUnvisited, setShowUnvisited] = useState(false);
+
+    const hasVisits = useMemo(() => nodes.some((node) => node.participantCount > 0), [nodes]);
+
+    const toggleNode = (path: string) => {
+        setExpandedNodes(prev => {
+            const newSet = new Set(prev);
+            if (newSet.has(path)) {
+                newSet.delete(path);
+            } else {
+                newSet.add(path);
+            }
+            return newSet;
+        });
+    };
+
+    const renderNode = (node: NodeClickStats) => {
+        if (!showUnvisited && node.participantCount === 0) return null;
+
+        const isExpanded = expandedNodes.has(node.path);
+        const visibleChildren = showUnvisited ? node.children : node.children.filter((child) => child.participantCount > 0);
+
+        return (
+            <div key={node.path}>
+                <div className="grid grid-cols-12 items-center gap-2 border-b py-2 text-sm last:border-0">
+                    <div className="col-span-6 flex items-center gap-1" style={{ paddingLeft: `${(node.depth - 1) * 20}px` }}>
+                        {visibleChildren.length > 0 ? (
+                            <button onClick={() => toggleNode(node.path)} className="rounded p-0.5 hover:bg-gray-100">
+                                {isExpanded ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                            </button>
+                        ) : (
+                            <span className="w-5" />
+                        )}
+                        {node.isOnCorrectPath ? (
+                            <CheckCircle className="h-4 w-4 flex-shrink-0 text-green-500" />
+                        ) : (
+                            <XCircle className="h-4 w-4 flex-shrink-0 text-gray-300" />
+                        )}
+                        <span className={`truncate ${node.isOnCorrectPath ? "font-medium text-gray-900" : "text-gray-600"}`}>{node.name}</span>
+                        {node.averagePosition !== undefined && (
+                            <span className="flex-shrink-0 text-xs text-gray-400" title="Mean position the node was displayed at among its siblings">
+                                #{node.averagePosition}
+                            </span>
+                        )}
+                        {node.isCorrectDestination && (
+                            <span title="Correct answer">
+                                <Target className="h-3.5 w-3.5 flex-shrink-0 text-green-600" />
+                            </span>
+                        )}
+                    </div>
+                    <div className="col-span-2 text-right">
+                        <div>{node.firstClickCount} <span className="text-xs text-gray-500">({node.firstClickPercentage}%)</span></div>
+                    </div>
+                    <div className="col-span-3">
+                        <div className="flex items-center gap-2">
+                            <div className="h-2 flex-1 overflow-hidden rounded-full bg-gray-100">
+                                <div
+                                    className={`h-full ${node.isOnCorrectPath ? "bg-green-500" : "bg-red-400"}`}
+                                    style={{ width: `${node.participantPercentage}%` }}
+                                />
+                            </div>
+                            <span className="w-16 text-right text-xs text-gray-600">
+                                {node.participantCount} ({node.participantPercentage}%)
+                            </span>
+                        </div>
+                    </div>
+                    <div className="col-span-1 text-right text-xs text-gray-500">{node.totalClickCount}</div>
+                </div>
+                {isExpanded && visibleChildren.map(renderNode)}
+            </div>
+        );
+    };
+
+    if (!hasVisits) {
+        return <p className="text-center text-sm text-gray-500">No click data recorded.</p>;
+    }
+
+    return (
+        <div>
+            <div className="mb-2 flex items-center justify-between">
+                <p className="text-xs text-gray-500">
+                    First click is the share of participants who reached the parent and chose this node first.
+                    Passed through is the share of all participants who visited the node.
+                </p>
+                <label className="flex flex-shrink-0 items-center gap-2 text-xs text-gray-600">
+                    <input
+                        type="checkbox"
+                        checked={showUnvisited}
+                        onChange={(e) => setShowUnvisited(e.target.checked)}
+                    />
+                    Show unvisited nodes
+                </label>
+            </div>
+            <div className="grid grid-cols-12 gap-2 border-b pb-2 text-xs font-medium text-gray-500">
+                <div className="col-span-6">Node</div>
+                <div className="col-span-2 text-right">First Click</div>
+                <div className="col-span-3">Passed Through</div>
+                <div className="col-span-1 text-right">Clicks</div>
+            </div>
+            {nodes.map(renderNode)}
+        </div>
+    );
+}
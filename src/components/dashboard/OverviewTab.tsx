@@ -1,20 +1,37 @@
 import { useMemo, useState } from "react";
 import { getMetricColor } from "@/lib/utils";
-import type { UploadedData } from "@/lib/types";
+import type { FindabilityMode, UploadedData } from "@/lib/types";
 import { calculateOverviewStats } from "@/lib/stats";
+import { calculateFindability } from "@/lib/stats/findability";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { TreeViewer } from "./TreeViewer";
+import { SegmentComparisonCard } from "./SegmentComparisonCard";
+import { ScreeningFunnelCard } from "./ScreeningFunnelCard";
+import { TaskOrderEffectsCard } from "./TaskOrderEffectsCard";
 import { ChevronDown, ChevronUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface OverviewTabProps {
     data: UploadedData;
+    screeningData?: UploadedData; // Same participants before disqualified ones are removed, for the screening funnel
 }
 
-export function OverviewTab({ data }: OverviewTabProps) {
+export function OverviewTab({ data, screeningData }: OverviewTabProps) {
     const stats = useMemo(() => calculateOverviewStats(data), [data]);
     const [isTreeVisible, setIsTreeVisible] = useState(false);
+    const [heatmapMode, setHeatmapMode] = useState<FindabilityMode | null>(null);
+    const [selectedNodePath, setSelectedNodePath] = useState<string | null>(null);
+
+    const findability = useMemo(() => calculateFindability(data), [data]);
+    const selectedNode = selectedNodePath ? findability.get(selectedNodePath) : undefined;
+
+    const heatmapModes: { value: FindabilityMode | null; label: string; description: string }[] = [
+        { value: null, label: "Off", description: "" },
+        { value: "traffic", label: "Traffic", description: "Darker blue = more participants passed through this node across all tasks." },
+        { value: "correctness", label: "Correct vs incorrect", description: "Green = visits mostly during tasks where the node is on the correct path. Red = visits mostly off-path, a sign of a misleading label." },
+        { value: "wrong-answers", label: "Wrong answers", description: "Darker red = the node was more often chosen as an incorrect answer." },
+    ];
 
     const taskResultsData = useMemo(() => {
         // Calculate results by task
@@ -25,12 +42,15 @@ export function OverviewTab({ data }: OverviewTabProps) {
                 fail: 0,
                 directSkip: 0,
                 indirectSkip: 0,
+                timeout: 0,
             };
 
             data.participants.forEach((p) => {
                 const result = p.taskResults.find(r => r.taskIndex === task.index);
                 if (result) {
-                    if (result.skipped) {
+                    if (result.timedOut) {
+                        taskResults.timeout++;
+                    } else if (result.skipped) {
                         if (result.directPathTaken) taskResults.directSkip++;
                         else taskResults.indirectSkip++;
                     } else if (result.successful) {
@@ -44,7 +64,8 @@ export function OverviewTab({ data }: OverviewTabProps) {
 
             const total = taskResults.directSuccess + taskResults.indirectSuccess +
                 taskResults.fail +
-                taskResults.directSkip + taskResults.indirectSkip;
+                taskResults.directSkip + taskResults.indirectSkip +
+                taskResults.timeout;
 
             const getPct = (val: number) => total > 0 ? (val / total) * 100 : 0;
 
@@ -61,11 +82,15 @@ export function OverviewTab({ data }: OverviewTabProps) {
                 "Direct Skip_count": taskResults.directSkip,
                 "Indirect Skip": getPct(taskResults.indirectSkip),
                 "Indirect Skip_count": taskResults.indirectSkip,
+                "Timeout": getPct(taskResults.timeout),
+                "Timeout_count": taskResults.timeout,
                 total,
             };
         });
     }, [data]);
 
+    const hasTimeouts = taskResultsData.some(task => task.Timeout_count > 0);
+
     const formatTooltip = (value: number, name: string, props: any) => {
         const count = props.payload[`${name}_count`];
         return [`${count} (${Number(value).toFixed(1)}%)`, name];
@@ -77,7 +102,9 @@ export function OverviewTab({ data }: OverviewTabProps) {
             { value: 'Indirect Success', color: '#86efac' },
             { value: 'Fail', color: '#ef4444' },
             { value: 'Direct Skip', color: '#64748b' },
-            { value: 'Indirect Skip', color: '#cbd5e1' }
+            { value: 'Indirect Skip', color: '#cbd5e1' },
+            // Only studies with time limits have timeouts
+            ...(hasTimeouts ? [{ value: 'Timeout', color: '#f59e0b' }] : [])
         ];
 
         return (
@@ -110,8 +137,102 @@ export function OverviewTab({ data }: OverviewTabProps) {
                     </Button>
                 </CardHeader>
                 {isTreeVisible && (
-                    <CardContent>
-                        <TreeViewer tree={data.treeStructure || []} />
+                    <CardContent className="space-y-4">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-xs font-medium text-gray-500">Findability heatmap:</span>
+                            {heatmapModes.map((mode) => (
+                                <Button
+                                    key={mode.label}
+                                    variant={heatmapMode === mode.value ? "default" : "outline"}
+                                    size="sm"
+                                    className="h-7 text-xs"
+                                    onClick={() => {
+                                        setHeatmapMode(mode.value);
+                                        setSelectedNodePath(null);
+                                    }}
+                                >
+                                    {mode.label}
+                                </Button>
+                            ))}
+                        </div>
+                        {heatmapMode && (
+                            <p className="text-xs text-gray-500">
+                                {heatmapModes.find((mode) => mode.value === heatmapMode)?.description} Click a node to see which tasks sent participants there.
+                            </p>
+                        )}
+                        <div className={heatmapMode ? "grid gap-4 lg:grid-cols-3" : ""}>
+                            <div className={heatmapMode ? "lg:col-span-2" : ""}>
+                                {/* Keyed by mode so the tree re-opens fully when a heatmap is switched on */}
+                                <TreeViewer
+                                    key={heatmapMode ? "heatmap" : "plain"}
+                                    tree={data.treeStructure || []}
+                                    heatmap={heatmapMode ? { mode: heatmapMode, nodes: findability } : undefined}
+                                    selectedPath={selectedNodePath}
+                                    onNodeSelect={heatmapMode ? setSelectedNodePath : undefined}
+                                    defaultOpen={!!heatmapMode}
+                                />
+                            </div>
+                            {heatmapMode && (
+                                <div className="rounded-md border bg-white p-4 text-sm">
+                                    {!selectedNode ? (
+                                        <p className="text-gray-500">
+                                            {selectedNodePath ? "No participants reached this node." : "Select a node to see its details."}
+                                        </p>
+                                    ) : (
+                                        <div className="space-y-3">
+                                            <div>
+                                                <div className="font-medium text-gray-900">{selectedNode.name}</div>
+                                                <div className="font-mono text-xs text-gray-500 break-all">{selectedNode.path}</div>
+                                            </div>
+                                            <div className="grid grid-cols-3 gap-2 text-center">
+                                                <div>
+                                                    <div className="text-lg font-bold">{selectedNode.visits}</div>
+                                                    <div className="text-[10px] text-gray-500">Visits</div>
+                                                </div>
+                                                <div>
+                                                    <div className="text-lg font-bold">{selectedNode.correctRatio ?? "-"}{selectedNode.correctRatio !== null ? "%" : ""}</div>
+                                                    <div className="text-[10px] text-gray-500">On correct path</div>
+                                                </div>
+                                                <div>
+                                                    <div className="text-lg font-bold text-red-600">{selectedNode.wrongNominations}</div>
+                                                    <div className="text-[10px] text-gray-500">Wrong answers</div>
+                                                </div>
+                                            </div>
+                                            {selectedNode.tasks.length === 0 ? (
+                                                <p className="text-xs text-gray-500">No tasks sent participants here.</p>
+                                            ) : (
+                                                <table className="w-full text-xs">
+                                                    <thead>
+                                                        <tr className="border-b text-gray-500">
+                                                            <th className="py-1 text-left font-medium">Task</th>
+                                                            <th className="py-1 text-right font-medium">Visits</th>
+                                                            <th className="py-1 text-right font-medium">Wrong</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {[...selectedNode.tasks]
+                                                            .sort((a, b) => b.visits - a.visits)
+                                                            .map((task) => (
+                                                                <tr key={task.taskId} className="border-b last:border-0">
+                                                                    <td className="py-1 pr-2">
+                                                                        <span className={task.isOnCorrectPath ? "text-green-600" : "text-gray-700"}>
+                                                                            Task {task.taskIndex}
+                                                                        </span>
+                                                                        <div className="truncate text-[10px] text-gray-500" title={task.description}>{task.description}</div>
+                                                                    </td>
+                                                                    <td className="py-1 text-right">{task.visits}</td>
+                                                                    <td className={`py-1 text-right ${task.wrongNominations > 0 ? "font-medium text-red-600" : ""}`}>{task.wrongNominations}</td>
+                                                                </tr>
+                                                            ))}
+                                                    </tbody>
+                                                </table>
+                                            )}
+                                            <p className="text-[10px] text-gray-400">Green tasks have this node on their correct path.</p>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
                     </CardContent>
                 )}
             </Card>
@@ -193,11 +314,18 @@ export function OverviewTab({ data }: OverviewTabProps) {
                                 <Bar dataKey="Fail" stackId="a" fill="#ef4444" />
                                 <Bar dataKey="Direct Skip" stackId="a" fill="#64748b" />
                                 <Bar dataKey="Indirect Skip" stackId="a" fill="#cbd5e1" />
+                                {hasTimeouts && <Bar dataKey="Timeout" stackId="a" fill="#f59e0b" />}
                             </BarChart>
                         </ResponsiveContainer>
                     </div>
                 </CardContent>
             </Card>
+
+            <ScreeningFunnelCard data={screeningData || data} />
+
+            <SegmentComparisonCard data={data} />
+
+            <TaskOrderEffectsCard data={data} />
         </div>
     );
 }
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import type { QualityFlag, QualityRule, UploadedData } from "@/lib/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { ChevronDown, ChevronRight, ShieldAlert, UserMinus } from "lucide-react";
+import { DEFAULT_QUALITY_RULES, QUALITY_RULE_DEFINITIONS } from "@/lib/stats/participant-quality";
+import { excludeParticipants, getExcludedParticipantIds } from "@/lib/utils/exclusions";
+
+interface ParticipantQualityCardProps {
+    data: UploadedData;
+    flags: Map<string, QualityFlag[]>;
+    onDataChange?: (data: UploadedData) => void;
+}
+
+export function ParticipantQualityCard({ data, flags, onDataChange }: ParticipantQualityCardProps) {
+    const [showAudit, setShowAudit] = useState(false);
+    const rules = data.qualityRules || DEFAULT_QUALITY_RULES;
+    const excludedIds = getExcludedParticipantIds(data);
+    const pendingIds = Array.from(flags.keys()).filter(id => !excludedIds.has(id));
+    const audit = data.exclusionAudit || [];
+
+    const updateRule = (ruleId: string, changes: Partial<QualityRule>) => {
+        onDataChange?.({
+            ...data,
+            qualityRules: rules.map(rule => rule.id === ruleId ? { ...rule, ...changes } : rule),
+        });
+    };
+
+    const handleExcludeFlagged = () => {
+        if (!onDataChange || pendingIds.length === 0) return;
+        const ruleIds = new Map(pendingIds.map(id => [id, (flags.get(id) || []).map(f => f.ruleId)]));
+        const reasons = new Map(pendingIds.map(id => [id, (flags.get(id) || []).map(f => f.message).join("; ")]));
+
+        // Exclude one participant at a time so each audit entry carries that participant's own reason
+        let updated = data;
+        pendingIds.forEach(id => {
+            updated = excludeParticipants(updated, [id], reasons.get(id) || "Failed quality rules", "quality-rule", ruleIds);
+        });
+        onDataChange(updated);
+    };
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div>
+                        <CardTitle className="flex items-center gap-2 text-base">
+                            <ShieldAlert className="h-4 w-4 text-orange-500" />
+                            Quality Screening
+                        </CardTitle>
+                        <p className="mt-1 text-sm text-gray-500">
+                            {flags.size} participant{flags.size === 1 ? "" : "s"} flagged • {excludedIds.size} excluded from analysis
+                        </p>
+                    </div>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        onClick={handleExcludeFlagged}
+                        disabled={!onDataChange || pendingIds.length === 0}
+                    >
+                        <UserMinus className="h-4 w-4" />
+                        Exclude flagged ({pendingIds.length})
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="grid gap-3 sm:grid-cols-2">
+                    {rules.map(rule => {
+                        const definition = QUALITY_RULE_DEFINITIONS[rule.type];
+                        return (
+                            <div key={rule.id} className="flex items-start gap-3 rounded-lg border p-3">
+                                <Switch
+                                    checked={rule.enabled}
+                                    onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+                                    disabled={!onDataChange}
+                                />
+                                <div className="flex-1 space-y-1">
+                                    <div className="flex flex-wrap items-center gap-2 text-sm font-medium text-gray-900">
+                                        {definition.label}
+                                        {definition.unit && (
+                                            <>
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    value={rule.threshold}
+                                                    onChange={(e) => updateRule(rule.id, { threshold: Math.max(0, Number(e.target.value) || 0) })}
+                                                    disabled={!onDataChange || !rule.enabled}
+                                                    className="h-7 w-20 px-2 text-sm"
+                                                />
+                                                <span className="text-gray-500">{definition.unit}</span>
+                                            </>
+                                        )}
+                                    </div>
+                                    <p className="text-xs text-gray-500">{definition.description}</p>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {audit.length > 0 && (
+                    <div>
+                        <button
+                            className="flex items-center gap-1 text-sm font-medium text-gray-700 hover:text-gray-900"
+                            onClick={() => setShowAudit(!showAudit)}
+                        >
+                            {showAudit ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                            Exclusion audit trail ({audit.length})
+                        </button>
+                        {showAudit && (
+                            <div className="mt-2 max-h-64 overflow-y-auto rounded-lg border">
+                                <table className="w-full text-xs">
+                                    <thead className="border-b bg-gray-50">
+                                        <tr>
+                                            <th className="px-3 py-2 text-left font-medium text-gray-500">When</th>
+                                            <th className="px-3 py-2 text-left font-medium text-gray-500">Participant</th>
+                                            <th className="px-3 py-2 text-left font-medium text-gray-500">Action</th>
+                                            <th className="px-3 py-2 text-left font-medium text-gray-500">Reason</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {[...audit].reverse().map((entry, index) => (
+                                            <tr key={index} className="border-b last:border-0">
+                                                <td className="px-3 py-2 text-gray-600">{new Date(entry.timestamp).toLocaleString()}</td>
+                                                <td className="px-3 py-2 font-mono">{entry.participantId}</td>
+                                                <td className={entry.action === "excluded" ? "px-3 py-2 text-red-600" : "px-3 py-2 text-green-600"}>
+                                                    {entry.action === "excluded" ? "Excluded" : "Restored"}
+                                                </td>
+                                                <td className="px-3 py-2 text-gray-600">{entry.reason}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -1,17 +1,32 @@
 import { useState, useMemo, useEffect } from "react";
-import type { UploadedData } from "@/lib/types";
+import type { ParticipantExclusion, UploadedData } from "@/lib/types";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { ChevronDown, ChevronRight, CheckCircle, XCircle, Search, ChevronLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, CheckCircle, XCircle, Search, ChevronLeft, AlertTriangle, UserMinus, UserPlus, Ban, Timer, Play } from "lucide-react";
+import { calculatePathEfficiency, getLostnessCategory, getOptimalPathLength } from "@/lib/stats/path-efficiency";
+import { evaluateQualityRules } from "@/lib/stats/participant-quality";
+import { getFirstClickDepth } from "@/lib/stats/first-click";
+import { excludeParticipants, includeParticipants } from "@/lib/utils/exclusions";
+import { getAnalyzerConfidenceScale, getConfidenceLevel } from "@/lib/utils/confidence-scale";
+import { applySelectedTreeVariant, getAnalyzerTreeVariants, MAIN_TREE_VARIANT_ID } from "@/lib/utils/tree-variants";
+import { ParticipantQualityCard } from "./ParticipantQualityCard";
+import { ClickTimeline } from "./ClickTimeline";
+import { SessionReplay } from "./SessionReplay";
 
 interface ParticipantsTabProps {
-    data: UploadedData;
+    data: UploadedData; // Full data, including excluded participants
+    onDataChange?: (data: UploadedData) => void;
+    visibleParticipantIds?: Set<string>; // Active segment; all participants are shown when not set
 }
 
-export function ParticipantsTab({ data }: ParticipantsTabProps) {
+export function ParticipantsTab({ data, onDataChange, visibleParticipantIds }: ParticipantsTabProps) {
     const [expandedParticipants, setExpandedParticipants] = useState<Set<string>>(new Set());
+    const [replayingTask, setReplayingTask] = useState<string | null>(null); // Participant and task ID of the open replay
     const [searchQuery, setSearchQuery] = useState("");
     const [currentPage, setCurrentPage] = useState(1);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [bulkReason, setBulkReason] = useState("");
     const ITEMS_PER_PAGE = 20;
 
     const toggleParticipant = (participantId: string) => {
@@ -47,13 +62,81 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
         });
     }, [data]);
 
+    // Paths are measured against the tree selected in the dashboard, which is the one the listed participants saw
+    const variantData = useMemo(() => applySelectedTreeVariant(data), [data]);
+    const treeVariantNames = useMemo(
+        () => new Map(getAnalyzerTreeVariants(data).map(variant => [variant.id, variant.name])),
+        [data]
+    );
+
+    const firstClickDepth = getFirstClickDepth(variantData.treeStructure || []);
+
+    // Shortest route to a correct answer for each task, keyed by task index
+    const optimalPathLengths = useMemo(() => {
+        const tree = variantData.treeStructure || [];
+        return new Map(variantData.tasks.map(task => [
+            task.index,
+            getOptimalPathLength(task.expectedAnswer.split(",").map(a => a.trim()).filter(a => a.length > 0), tree),
+        ]));
+    }, [variantData]);
+
+    const qualityFlags = useMemo(() => evaluateQualityRules(data), [data]);
+    const confidenceScale = useMemo(() => getAnalyzerConfidenceScale(data), [data]);
+    const exclusionsById = useMemo(() => new Map((data.exclusions || []).map(e => [e.participantId, e])), [data]);
+
+    const handleExcludeFlagged = (participantId: string) => {
+        const flags = qualityFlags.get(participantId) || [];
+        onDataChange?.(excludeParticipants(
+            data,
+            [participantId],
+            flags.map(f => f.message).join("; "),
+            "quality-rule",
+            new Map([[participantId, flags.map(f => f.ruleId)]])
+        ));
+    };
+
+    const handleManualExclude = (participantIds: string[], reason: string) => {
+        onDataChange?.(excludeParticipants(data, participantIds, reason.trim() || "Excluded manually", "manual"));
+    };
+
+    const handleRestore = (participantIds: string[], reason?: string) => {
+        onDataChange?.(includeParticipants(data, participantIds, reason?.trim() || "Restored from Participants tab"));
+    };
+
+    const toggleSelected = (participantId: string) => {
+        setSelectedIds(prev => {
+            const newSet = new Set(prev);
+            if (newSet.has(participantId)) {
+                newSet.delete(participantId);
+            } else {
+                newSet.add(participantId);
+            }
+            return newSet;
+        });
+    };
+
+    const handleBulkExclude = () => {
+        handleManualExclude(Array.from(selectedIds), bulkReason);
+        setSelectedIds(new Set());
+        setBulkReason("");
+    };
+
+    const handleBulkRestore = () => {
+        handleRestore(Array.from(selectedIds), bulkReason);
+        setSelectedIds(new Set());
+        setBulkReason("");
+    };
+
     const filteredParticipants = useMemo(() => {
-        if (!searchQuery.trim()) return participantStats;
+        const segmentStats = visibleParticipantIds
+            ? participantStats.filter(({ participant }) => visibleParticipantIds.has(participant.id))
+            : participantStats;
+        if (!searchQuery.trim()) return segmentStats;
         const query = searchQuery.toLowerCase();
-        return participantStats.filter(({ participant }) =>
+        return segmentStats.filter(({ participant }) =>
             participant.id.toLowerCase().includes(query)
         );
-    }, [participantStats, searchQuery]);
+    }, [participantStats, searchQuery, visibleParticipantIds]);
 
     // Reset to page 1 when search query changes
     useEffect(() => {
@@ -63,6 +146,22 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
     const totalPages = Math.ceil(filteredParticipants.length / ITEMS_PER_PAGE);
     const paginatedParticipants = filteredParticipants.slice((currentPage - 1) * ITEMS_PER_PAGE, currentPage * ITEMS_PER_PAGE);
 
+    const allPageSelected = paginatedParticipants.length > 0 && paginatedParticipants.every(({ participant }) => selectedIds.has(participant.id));
+
+    const toggleSelectPage = () => {
+        setSelectedIds(prev => {
+            const newSet = new Set(prev);
+            paginatedParticipants.forEach(({ participant }) => {
+                if (allPageSelected) {
+                    newSet.delete(participant.id);
+                } else {
+                    newSet.add(participant.id);
+                }
+            });
+            return newSet;
+        });
+    };
+
     const startItem = (currentPage - 1) * ITEMS_PER_PAGE + 1;
     const endItem = Math.min(currentPage * ITEMS_PER_PAGE, filteredParticipants.length);
 
@@ -85,6 +184,14 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
     };
 
     const getResultBadge = (result: any) => {
+        if (result.timedOut) {
+            return (
+                <div className="flex items-center gap-1 text-amber-600">
+                    <Timer className="h-4 w-4" />
+                    <span className="text-xs font-medium">Timeout</span>
+                </div>
+            );
+        }
         if (result.skipped) {
             return <span className="text-xs text-gray-500">Skipped</span>;
         }
@@ -114,6 +221,9 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
 
     return (
         <div className="space-y-4">
+            {/* Quality Screening */}
+            <ParticipantQualityCard data={data} flags={qualityFlags} onDataChange={onDataChange} />
+
             {/* Search Bar */}
             <div className="relative">
                 <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
@@ -125,6 +235,30 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
                 />
             </div>
 
+            {/* Bulk Exclusion */}
+            {onDataChange && selectedIds.size > 0 && (
+                <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-gray-50 p-3">
+                    <span className="text-sm font-medium text-gray-700">{selectedIds.size} selected</span>
+                    <Input
+                        placeholder="Reason (e.g. recruited outside target audience)"
+                        value={bulkReason}
+                        onChange={(e) => setBulkReason(e.target.value)}
+                        className="h-8 max-w-sm flex-1 text-sm"
+                    />
+                    <Button variant="outline" size="sm" className="gap-2" onClick={handleBulkExclude}>
+                        <UserMinus className="h-4 w-4" />
+                        Exclude
+                    </Button>
+                    <Button variant="outline" size="sm" className="gap-2" onClick={handleBulkRestore}>
+                        <UserPlus className="h-4 w-4" />
+                        Restore
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+                        Clear
+                    </Button>
+                </div>
+            )}
+
             {/* Participants Table */}
             <Card>
                 <CardContent className="p-0">
@@ -132,27 +266,52 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
                         <table className="w-full">
                             <thead className="border-b bg-gray-50">
                                 <tr>
-                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Participant</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">
+                                        <div className="flex items-center gap-3">
+                                            {onDataChange && (
+                                                <input
+                                                    type="checkbox"
+                                                    checked={allPageSelected}
+                                                    onChange={toggleSelectPage}
+                                                    aria-label="Select all participants on this page"
+                                                />
+                                            )}
+                                            Participant
+                                        </div>
+                                    </th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Status</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Started</th>
                                     <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Duration</th>
                                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">Success Rate</th>
                                     <th className="px-4 py-3 text-center text-xs font-medium text-gray-500">Directness</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500">Quality</th>
                                 </tr>
                             </thead>
                             <tbody>
                                 {paginatedParticipants.map(({ participant, successRate, directnessRate }, index) => {
                                     // Calculate actual index based on pagination for display
                                     const actualIndex = (currentPage - 1) * ITEMS_PER_PAGE + index + 1;
+                                    const flags = qualityFlags.get(participant.id) || [];
+                                    const exclusion = exclusionsById.get(participant.id);
                                     return (
                                         <>
                                             <tr
                                                 key={participant.id}
                                                 onClick={() => toggleParticipant(participant.id)}
-                                                className="cursor-pointer border-b transition-colors hover:bg-gray-50"
+                                                className={`cursor-pointer border-b transition-colors hover:bg-gray-50 ${exclusion ? "opacity-50" : ""}`}
                                             >
                                                 <td className="px-4 py-3">
                                                     <div className="flex items-center gap-2">
+                                                        {onDataChange && (
+                                                            <input
+                                                                type="checkbox"
+                                                                className="mr-1"
+                                                                checked={selectedIds.has(participant.id)}
+                                                                onClick={(e) => e.stopPropagation()}
+                                                                onChange={() => toggleSelected(participant.id)}
+                                                                aria-label={`Select participant ${actualIndex}`}
+                                                            />
+                                                        )}
                                                         {expandedParticipants.has(participant.id) ? (
                                                             <ChevronDown className="h-4 w-4 text-gray-400" />
                                                         ) : (
@@ -161,6 +320,9 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
                                                         <span className="font-medium text-sm">
                                                             Participant {actualIndex}
                                                         </span>
+                                                        {exclusion && (
+                                                            <span className="rounded-full bg-gray-200 px-2 py-0.5 text-xs text-gray-600">Excluded</span>
+                                                        )}
                                                     </div>
                                                 </td>
                                                 <td className="px-4 py-3">
@@ -170,6 +332,11 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
                                                                 <CheckCircle className="h-4 w-4 text-green-500" />
                                                                 <span className="text-sm text-green-600">Completed</span>
                                                             </>
+                                                        ) : participant.status === "Disqualified" ? (
+                                                            <>
+                                                                <Ban className="h-4 w-4 text-amber-500" />
+                                                                <span className="text-sm text-amber-600">Disqualified</span>
+                                                            </>
                                                         ) : (
                                                             <>
                                                                 <XCircle className="h-4 w-4 text-gray-400" />
@@ -186,13 +353,69 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
                                                 </td>
                                                 <td className="px-4 py-3 text-sm font-medium text-center">{successRate}%</td>
                                                 <td className="px-4 py-3 text-sm font-medium text-center">{directnessRate}%</td>
+                                                <td className="px-4 py-3">
+                                                    <div className="flex items-center gap-2">
+                                                        {flags.length > 0 && (
+                                                            <span
+                                                                className="flex items-center gap-1 text-xs text-orange-600"
+                                                                title={flags.map(f => f.message).join("\n")}
+                                                            >
+                                                                <AlertTriangle className="h-4 w-4" />
+                                                                {flags.length} flag{flags.length === 1 ? "" : "s"}
+                                                            </span>
+                                                        )}
+                                                        {exclusion ? (
+                                                            <button
+                                                                className="text-xs font-medium text-purple-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    handleRestore([participant.id]);
+                                                                }}
+                                                                disabled={!onDataChange}
+                                                                title={`Excluded: ${exclusion.reason}`}
+                                                            >
+                                                                Restore
+                                                            </button>
+                                                        ) : flags.length > 0 && (
+                                                            <button
+                                                                className="text-xs font-medium text-red-600 hover:underline disabled:text-gray-400 disabled:no-underline"
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    handleExcludeFlagged(participant.id);
+                                                                }}
+                                                                disabled={!onDataChange}
+                                                            >
+                                                                Exclude
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </td>
                                             </tr>
 
                                             {/* Expanded Details */}
                                             {expandedParticipants.has(participant.id) && (
                                                 <tr>
-                                                    <td colSpan={6} className="bg-gray-50 px-4 py-4">
+                                                    <td colSpan={7} className="bg-gray-50 px-4 py-4">
                                                         <div className="space-y-4">
+                                                            {(flags.length > 0 || exclusion) && (
+                                                                <div className="rounded-lg border border-orange-200 bg-orange-50 p-3 text-xs text-orange-800">
+                                                                    {exclusion && (
+                                                                        <div className="font-medium">
+                                                                            Excluded from analysis on {formatDate(new Date(exclusion.excludedAt))}: {exclusion.reason}
+                                                                        </div>
+                                                                    )}
+                                                                    {flags.map(flag => (
+                                                                        <div key={flag.ruleId}>{flag.message}</div>
+                                                                    ))}
+                                                                </div>
+                                                            )}
+                                                            {onDataChange && (
+                                                                <ExclusionForm
+                                                                    exclusion={exclusion}
+                                                                    onExclude={(reason) => handleManualExclude([participant.id], reason)}
+                                                                    onRestore={(reason) => handleRestore([participant.id], reason)}
+                                                                />
+                                                            )}
                                                             {/* Participant Info */}
                                                             <div className="grid grid-cols-3 gap-4 rounded-lg border bg-white p-4">
                                                                 <div>
@@ -214,8 +437,30 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
                                                                                 Completed {formatDate(participant.completedAt)}
                                                                             </div>
                                                                         )}
+                                                                        {participant.randomSeed !== undefined && (
+                                                                            <div
+                                                                                className="text-gray-500"
+                                                                                title="Add ?seed= with this value to the study link to replay the participant's task and tree order"
+                                                                            >
+                                                                                Seed {participant.randomSeed}
+                                                                            </div>
+                                                                        )}
+                                                                        {treeVariantNames.size > 0 && (
+                                                                            <div className="text-gray-500">
+                                                                                {treeVariantNames.get(participant.treeVariant ?? MAIN_TREE_VARIANT_ID)}
+                                                                            </div>
+                                                                        )}
                                                                     </div>
                                                                 </div>
+                                                                {participant.attributes && Object.keys(participant.attributes).length > 0 && (
+                                                                    <div className="col-span-3 flex flex-wrap gap-2 border-t pt-3">
+                                                                        {Object.entries(participant.attributes).map(([attribute, value]) => (
+                                                                            <span key={attribute} className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700">
+                                                                                <span className="text-gray-500">{attribute}:</span> {value}
+                                                                            </span>
+                                                                        ))}
+                                                                    </div>
+                                                                )}
                                                             </div>
 
                                                             {/* Task Results Table */}
@@ -226,40 +471,93 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
                                                                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Task</th>
                                                                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Result</th>
                                                                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Path Taken</th>
+                                                                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Path Efficiency</th>
                                                                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Confidence</th>
                                                                             <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Time</th>
                                                                         </tr>
                                                                     </thead>
                                                                     <tbody>
-                                                                        {participant.taskResults.map((result, taskIdx) => (
-                                                                            <tr key={taskIdx} className="border-b last:border-0">
-                                                                                <td className="px-4 py-3 font-medium">T{result.taskIndex}</td>
-                                                                                <td className="px-4 py-3">{getResultBadge(result)}</td>
-                                                                                <td className="px-4 py-3">
-                                                                                    <span className="font-mono text-xs text-gray-600">
-                                                                                        {result.pathTaken || "N/A"}
-                                                                                    </span>
-                                                                                </td>
-                                                                                <td className="px-4 py-3">
-                                                                                    {result.confidenceRating ? (
-                                                                                        <span className="text-xs">
-                                                                                            {result.confidenceRating}/7{" "}
-                                                                                            <span className="text-gray-500">
-                                                                                                {result.confidenceRating >= 6 ? "High" : result.confidenceRating >= 4 ? "Med" : "Low"}
-                                                                                            </span>
+                                                                        {participant.taskResults.map((result, taskIdx) => {
+                                                                            const efficiency = result.skipped
+                                                                                ? null
+                                                                                : calculatePathEfficiency(result.pathTaken, optimalPathLengths.get(result.taskIndex) || 0, variantData.treeStructure || []);
+                                                                            const lostnessCategory = efficiency ? getLostnessCategory(efficiency.lostness) : null;
+                                                                            return (
+                                                                                <tr key={taskIdx} className="border-b last:border-0">
+                                                                                    <td className="px-4 py-3 font-medium">T{result.taskIndex}</td>
+                                                                                    <td className="px-4 py-3">{getResultBadge(result)}</td>
+                                                                                    <td className="px-4 py-3">
+                                                                                        <span className="font-mono text-xs text-gray-600">
+                                                                                            {result.pathTaken || "N/A"}
                                                                                         </span>
-                                                                                    ) : (
-                                                                                        <span className="text-xs text-gray-400">N/A</span>
-                                                                                    )}
-                                                                                </td>
-                                                                                <td className="px-4 py-3 text-xs text-gray-600">
-                                                                                    {result.completionTimeSeconds}s
-                                                                                </td>
-                                                                            </tr>
-                                                                        ))}
+                                                                                    </td>
+                                                                                    <td className="px-4 py-3">
+                                                                                        {efficiency ? (
+                                                                                            <div className="text-xs">
+                                                                                                <div>
+                                                                                                    {efficiency.nodesVisited} nodes ({efficiency.uniqueNodes} unique) · {efficiency.backtracks} backtrack{efficiency.backtracks === 1 ? "" : "s"}
+                                                                                                </div>
+                                                                                                <div className={lostnessCategory === "not-lost" ? "text-green-600" : lostnessCategory === "disoriented" ? "text-orange-500" : "text-red-600"}>
+                                                                                                    Lostness {efficiency.lostness.toFixed(2)}
+                                                                                                </div>
+                                                                                            </div>
+                                                                                        ) : (
+                                                                                            <span className="text-xs text-gray-400">N/A</span>
+                                                                                        )}
+                                                                                    </td>
+                                                                                    <td className="px-4 py-3">
+                                                                                        {result.confidenceRating !== null ? (
+                                                                                            <span className="text-xs">
+                                                                                                {result.confidenceRating}/{confidenceScale.max}{" "}
+                                                                                                <span className="text-gray-500">
+                                                                                                    {getConfidenceLevel(result.confidenceRating, confidenceScale)}
+                                                                                                </span>
+                                                                                            </span>
+                                                                                        ) : (
+                                                                                            <span className="text-xs text-gray-400">N/A</span>
+                                                                                        )}
+                                                                                    </td>
+                                                                                    <td className="px-4 py-3 text-xs text-gray-600">
+                                                                                        {result.completionTimeSeconds}s
+                                                                                    </td>
+                                                                                </tr>
+                                                                            );
+                                                                        })}
                                                                     </tbody>
                                                                 </table>
                                                             </div>
+
+                                                            {/* Click Timelines */}
+                                                            {participant.taskResults.some(result => result.events && result.events.length > 0) && (
+                                                                <div className="space-y-4 rounded-lg border bg-white p-4">
+                                                                    <div className="text-xs font-medium text-gray-500">Click Timeline</div>
+                                                                    {participant.taskResults
+                                                                        .filter(result => result.events && result.events.length > 0)
+                                                                        .map(result => {
+                                                                            const replayKey = `${participant.id}/${result.taskId}`;
+                                                                            return (
+                                                                                <div key={result.taskId} className="space-y-2">
+                                                                                    <ClickTimeline taskIndex={result.taskIndex} events={result.events || []} firstClickDepth={firstClickDepth} />
+                                                                                    <Button
+                                                                                        variant="ghost"
+                                                                                        size="sm"
+                                                                                        className="h-7 px-2 text-xs"
+                                                                                        onClick={() => setReplayingTask(replayingTask === replayKey ? null : replayKey)}
+                                                                                    >
+                                                                                        <Play className="mr-1 h-3 w-3" />
+                                                                                        {replayingTask === replayKey ? "Hide replay" : "Replay"}
+                                                                                    </Button>
+                                                                                    {replayingTask === replayKey && (
+                                                                                        <SessionReplay
+                                                                                            tree={variantData.treeStructure || []}
+                                                                                            sessions={[{ id: participant.id, label: participant.id, events: result.events || [], treeOrder: participant.treeOrder }]}
+                                                                                        />
+                                                                                    )}
+                                                                                </div>
+                                                                            );
+                                                                        })}
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     </td>
                                                 </tr>
@@ -309,3 +607,43 @@ export function ParticipantsTab({ data }: ParticipantsTabProps) {
         </div>
     );
 }
+
+interface ExclusionFormProps {
+    exclusion?: ParticipantExclusion;
+    onExclude: (reason: string) => void;
+    onRestore: (reason: string) => void;
+}
+
+function ExclusionForm({ exclusion, onExclude, onRestore }: ExclusionFormProps) {
+    const [reason, setReason] = useState("");
+
+    const handleSubmit = () => {
+        if (exclusion) {
+            onRestore(reason);
+        } else {
+            onExclude(reason);
+        }
+        setReason("");
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-white p-3">
+            <span className="text-xs font-medium text-gray-500">
+                {exclusion ? "Restore to analysis" : "Exclude from analysis"}
+            </span>
+            <Input
+                placeholder={exclusion ? "Reason for restoring (optional)" : "Reason for excluding"}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter") handleSubmit();
+                }}
+                className="h-8 max-w-sm flex-1 text-sm"
+            />
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleSubmit}>
+                {exclusion ? <UserPlus className="h-4 w-4" /> : <UserMinus className="h-4 w-4" />}
+                {exclusion ? "Restore" : "Exclude"}
+            </Button>
+        </div>
+    );
+}
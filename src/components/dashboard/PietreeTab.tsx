@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, useMemo } from "react";
 import * as d3 from "d3";
 import type { UploadedData, Item } from "@/lib/types";
+import { getDisplayedPosition } from "@/lib/stats/display-position";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ZoomIn, ZoomOut, Maximize, ChevronDown } from "lucide-react";
@@ -23,6 +24,7 @@ interface TreeNode extends d3.SimulationNodeDatum {
     name: string;
     path: string;
     stats: NodeStats;
+    displayedPositions: number[]; // Position among siblings for each visitor who saw them shuffled
     children?: TreeNode[];
     isCorrectPath?: boolean;
     x?: number;
@@ -99,6 +101,7 @@ export function PietreeTab({ data }: PietreeTabProps) {
                     name: name,
                     path: canonicalPath,
                     stats: { total: 0, rightPath: 0, wrongPath: 0, back: 0, nominated: 0, skipped: 0 },
+                    displayedPositions: [],
                     x: 0, y: 0,
                     parentId: parentId
                 });
@@ -210,6 +213,7 @@ export function PietreeTab({ data }: PietreeTabProps) {
 
             let currentCanonicalPath = "";
             let prevNode: TreeNode | null = null;
+            const positionedNodes = new Set<string>(); // Record each visitor's displayed position once per node
 
             parts.forEach((part, i) => {
                 const isLast = i === parts.length - 1;
@@ -240,6 +244,12 @@ export function PietreeTab({ data }: PietreeTabProps) {
                 const node = getCanonicalNode(nextPath, part);
                 node.stats.total++;
 
+                if (!positionedNodes.has(node.id)) {
+                    positionedNodes.add(node.id);
+                    const displayed = getDisplayedPosition(p.treeOrder, nextPath.split('/').filter(Boolean));
+                    if (displayed) node.displayedPositions.push(displayed.position);
+                }
+
                 if (prevNode) {
                     if (isBacktrack) {
                         prevNode.stats.back++;
@@ -707,6 +717,12 @@ export function PietreeTab({ data }: PietreeTabProps) {
                                             </div>
                                         ))}
                                     </div>
+                                    {tooltipData.displayedPositions.length > 0 && (
+                                        <p className="mt-3 text-xs text-slate-500">
+                                            Shown at position {Math.round(tooltipData.displayedPositions.reduce((sum, position) => sum + position, 0) / tooltipData.displayedPositions.length * 10) / 10} on
+                                            average among its siblings (shuffled for {tooltipData.displayedPositions.length} {tooltipData.displayedPositions.length === 1 ? "participant" : "participants"})
+                                        </p>
+                                    )}
                                 </>
                             )}
                         </div>
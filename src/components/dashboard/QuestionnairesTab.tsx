@@ -0,0 +1,140 @@
+import { useMemo } from "react";
+import type { QuestionStats, UploadedData } from "@/lib/types";
+import { calculateQuestionStats } from "@/lib/stats/questionnaires";
+import { DEFAULT_LIKERT_POINTS, getQuestionLabel, getSusGrade, QUESTION_TYPE_LABELS, QUESTIONNAIRE_BLOCKS } from "@/lib/utils/questionnaires";
+import { getMetricColor } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface QuestionnairesTabProps {
+    data: UploadedData;
+}
+
+export function QuestionnairesTab({ data }: QuestionnairesTabProps) {
+    const stats = useMemo(() => calculateQuestionStats(data), [data]);
+    // Without definitions (spreadsheet uploads) the questions are inferred from the answers
+    const hasDefinitions = (data.questions?.length || 0) > 0;
+
+    if (stats.length === 0) {
+        return (
+            <Card>
+                <CardContent className="py-12 text-center text-gray-500">
+                    This study has no questionnaire answers.
+                </CardContent>
+            </Card>
+        );
+    }
+
+    const groups = hasDefinitions
+        ? QUESTIONNAIRE_BLOCKS
+            .map(block => ({ label: block.label, questions: stats.filter(s => s.question.block === block.id) }))
+            .filter(group => group.questions.length > 0)
+        : [{ label: "Questions", questions: stats }];
+
+    return (
+        <div className="space-y-8">
+            {!hasDefinitions && (
+                <p className="text-sm text-gray-500">
+                    Question definitions aren't stored in the results spreadsheet, so questions are listed by ID and their types are inferred from the answers.
+                    Import results from the Creator to see the full question text.
+                </p>
+            )}
+            {groups.map(group => (
+                <section key={group.label} className="space-y-4">
+                    <h2 className="text-lg font-semibold text-gray-900">{group.label}</h2>
+                    {group.questions.map(questionStats => (
+                        <QuestionCard key={questionStats.question.id} stats={questionStats} tasks={data.tasks} />
+                    ))}
+                </section>
+            ))}
+        </div>
+    );
+}
+
+interface QuestionCardProps {
+    stats: QuestionStats;
+    tasks: UploadedData["tasks"];
+}
+
+function QuestionCard({ stats, tasks }: QuestionCardProps) {
+    const { question, respondents, responses, mean, textResponses } = stats;
+
+    let summary = `${respondents} ${respondents === 1 ? "response" : "responses"}`;
+    if (mean !== null && question.type === "likert") {
+        summary += ` · Mean ${mean} of ${question.scalePoints || DEFAULT_LIKERT_POINTS}`;
+    } else if (mean !== null && question.type === "sus") {
+        summary += ` · Mean SUS score ${mean} (${getSusGrade(mean)})`;
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-base">{getQuestionLabel(question)}</CardTitle>
+                <p className="text-sm text-gray-500">
+                    {QUESTION_TYPE_LABELS[question.type]} · {summary}
+                </p>
+            </CardHeader>
+            <CardContent>
+                {question.type === "free-text" ? (
+                    textResponses.length === 0 ? (
+                        <p className="text-sm text-gray-500 italic">No responses.</p>
+                    ) : (
+                        <ul className="max-h-80 space-y-2 overflow-y-auto">
+                            {textResponses.map((response, index) => (
+                                <li key={index} className="rounded border border-gray-100 bg-gray-50 px-3 py-2 text-sm">
+                                    <span className="text-gray-800">{response.text}</span>
+                                    <span className="ml-2 text-xs text-gray-400">{response.participantId}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="border-b bg-gray-50">
+                                <tr>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Response</th>
+                                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Participants</th>
+                                    <th className="px-4 py-2 text-center text-xs font-medium text-gray-500">Success Rate</th>
+                                    {tasks.map(task => (
+                                        <th key={task.id} className="px-4 py-2 text-center text-xs font-medium text-gray-500" title={task.description}>
+                                            Task {task.index}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {responses.map(response => (
+                                    <tr key={response.value} className="border-b last:border-0">
+                                        <td className="px-4 py-2 text-gray-700">{response.value}</td>
+                                        <td className="px-4 py-2">
+                                            <div className="flex items-center gap-2">
+                                                <div className="h-2 w-24 rounded bg-gray-100">
+                                                    <div className="h-2 rounded bg-blue-500" style={{ width: `${response.percentage}%` }} />
+                                                </div>
+                                                <span className="text-xs text-gray-600">{response.count} ({response.percentage}%)</span>
+                                            </div>
+                                        </td>
+                                        <RateCell rate={response.successRate} />
+                                        {response.taskSuccessRates.map(task => (
+                                            <RateCell key={task.taskId} rate={task.rate} />
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {question.type === "multiple-choice" && (
+                            <p className="mt-2 text-xs text-gray-500">Participants could pick more than one option, so percentages can add up to more than 100%.</p>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+function RateCell({ rate }: { rate: number | null }) {
+    if (rate === null) {
+        return <td className="px-4 py-2 text-center text-gray-300">-</td>;
+    }
+    return <td className={`px-4 py-2 text-center font-medium ${getMetricColor(rate)}`}>{rate}%</td>;
+}
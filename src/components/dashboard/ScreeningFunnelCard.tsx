@@ -0,0 +1,56 @@
+import { useMemo } from "react";
+import type { UploadedData } from "@/lib/types";
+import { calculateScreeningFunnel, hasScreeningData } from "@/lib/stats/screening";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface ScreeningFunnelCardProps {
+    data: UploadedData; // Must still include disqualified participants
+}
+
+export function ScreeningFunnelCard({ data }: ScreeningFunnelCardProps) {
+    const funnel = useMemo(() => calculateScreeningFunnel(data), [data]);
+
+    if (!hasScreeningData(data) || funnel.stages.length === 0) return null;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Screening Funnel</CardTitle>
+                <p className="mt-1 text-sm text-gray-500">
+                    Participants who started, passed the screener and completed the tasks. Disqualified participants are left out of every other metric.
+                </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="space-y-3">
+                    {funnel.stages.map(stage => (
+                        <div key={stage.label} className="flex items-center gap-4">
+                            <div className="w-24 text-sm font-medium text-gray-700">{stage.label}</div>
+                            <div className="h-6 flex-1 rounded bg-gray-100">
+                                <div className="h-6 rounded bg-blue-500" style={{ width: `${stage.percentage}%` }} />
+                            </div>
+                            <div className="w-28 text-right text-sm text-gray-600">
+                                {stage.count} ({stage.percentage}%)
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {funnel.reasons.length > 0 && (
+                    <div>
+                        <h4 className="mb-2 text-sm font-medium text-gray-700">
+                            Disqualified ({funnel.disqualified})
+                        </h4>
+                        <ul className="space-y-1">
+                            {funnel.reasons.map(reason => (
+                                <li key={reason.label} className="flex justify-between text-sm text-gray-600">
+                                    <span>{reason.label}</span>
+                                    <span className="font-medium">{reason.count}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,99 @@
+import { useMemo, useState } from "react";
+import type { UploadedData } from "@/lib/types";
+import { calculateOverviewStats, calculateTaskStats } from "@/lib/stats";
+import { getAttributeValues, splitBySegment } from "@/lib/utils/segments";
+import { getMetricColor } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface SegmentComparisonCardProps {
+    data: UploadedData;
+}
+
+export function SegmentComparisonCard({ data }: SegmentComparisonCardProps) {
+    const attributes = useMemo(() => Array.from(getAttributeValues(data).keys()), [data]);
+    const [selectedAttribute, setSelectedAttribute] = useState<string>("");
+    const attribute = attributes.includes(selectedAttribute) ? selectedAttribute : attributes[0];
+
+    const segments = useMemo(() => {
+        if (!attribute) return [];
+        const tree = data.treeStructure || [];
+        return splitBySegment(data, attribute).map(segment => ({
+            value: segment.value,
+            overview: calculateOverviewStats(segment.data),
+            tasks: calculateTaskStats(segment.data, tree),
+        }));
+    }, [data, attribute]);
+
+    if (attributes.length === 0) return null;
+
+    const formatTime = (value: number) => {
+        const totalSeconds = Math.round(value);
+        const minutes = Math.floor(totalSeconds / 60);
+        const seconds = totalSeconds % 60;
+        return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+    };
+
+    const rows: { label: string; values: { text: string; color?: string }[] }[] = [
+        { label: "Participants", values: segments.map(s => ({ text: `${s.overview.totalParticipants}` })) },
+        { label: "Completion Rate", values: segments.map(s => ({ text: `${s.overview.completionRate}%`, color: getMetricColor(s.overview.completionRate) })) },
+        { label: "Success Rate", values: segments.map(s => ({ text: `${s.overview.successRate}%`, color: getMetricColor(s.overview.successRate) })) },
+        { label: "Directness", values: segments.map(s => ({ text: `${s.overview.directnessRate}%`, color: getMetricColor(s.overview.directnessRate) })) },
+        { label: "Overall Score", values: segments.map(s => ({ text: `${s.overview.overallScore}`, color: getMetricColor(s.overview.overallScore) })) },
+        { label: "Median Time", values: segments.map(s => ({ text: formatTime(s.overview.medianCompletionTime) })) },
+        ...data.tasks.map(task => ({
+            label: `Task ${task.index} success`,
+            values: segments.map(s => {
+                const rate = s.tasks.find(t => t.id === task.id)?.stats.success.rate ?? 0;
+                return { text: `${rate}%`, color: getMetricColor(rate) };
+            }),
+        })),
+    ];
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4">
+                <div>
+                    <CardTitle>Segment Comparison</CardTitle>
+                    <p className="mt-1 text-sm text-gray-500">Key metrics side by side for each value of a participant attribute.</p>
+                </div>
+                <div className="w-48">
+                    <Select value={attribute} onValueChange={setSelectedAttribute}>
+                        <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {attributes.map(a => (
+                                <SelectItem key={a} value={a} className="text-xs">{a}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </CardHeader>
+            <CardContent>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="border-b bg-gray-50">
+                            <tr>
+                                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">Metric</th>
+                                {segments.map(s => (
+                                    <th key={s.value} className="px-4 py-2 text-center text-xs font-medium text-gray-500">{s.value}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={row.label} className="border-b last:border-0">
+                                    <td className="px-4 py-2 text-gray-700">{row.label}</td>
+                                    {row.values.map((value, index) => (
+                                        <td key={index} className={`px-4 py-2 text-center font-medium ${value.color || ""}`}>{value.text}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
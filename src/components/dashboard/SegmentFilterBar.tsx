@@ -0,0 +1,84 @@
+import type { SegmentFilter } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ChevronDown, Filter, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SegmentFilterBarProps {
+    attributes: Map<string, string[]>;
+    filters: SegmentFilter[];
+    onFiltersChange: (filters: SegmentFilter[]) => void;
+    matchingCount: number;
+    totalCount: number;
+}
+
+export function SegmentFilterBar({ attributes, filters, onFiltersChange, matchingCount, totalCount }: SegmentFilterBarProps) {
+    if (attributes.size === 0) return null;
+
+    const getSelected = (attribute: string) => filters.find(f => f.attribute === attribute)?.values || [];
+    const hasActiveFilters = filters.some(f => f.values.length > 0);
+
+    const setSelected = (attribute: string, values: string[]) => {
+        const others = filters.filter(f => f.attribute !== attribute);
+        onFiltersChange(values.length > 0 ? [...others, { attribute, values }] : others);
+    };
+
+    const toggleValue = (attribute: string, value: string) => {
+        const selected = getSelected(attribute);
+        setSelected(attribute, selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <Filter className="h-4 w-4 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">Segment</span>
+            {Array.from(attributes.entries()).map(([attribute, values]) => {
+                const selected = getSelected(attribute);
+                return (
+                    <Popover key={attribute}>
+                        <PopoverTrigger asChild>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className={cn("h-8 gap-1 text-xs", selected.length > 0 && "border-purple-300 bg-purple-50 text-purple-700")}
+                            >
+                                {attribute}: {selected.length === 0 ? "All" : selected.length === 1 ? selected[0] : `${selected.length} selected`}
+                                <ChevronDown className="h-3 w-3" />
+                            </Button>
+                        </PopoverTrigger>
+                        <PopoverContent align="start" className="w-56 p-2">
+                            <div className="max-h-64 space-y-1 overflow-y-auto">
+                                {values.map(value => (
+                                    <label key={value} className="flex cursor-pointer items-center gap-2 rounded px-2 py-1 text-sm hover:bg-gray-50">
+                                        <input
+                                            type="checkbox"
+                                            checked={selected.includes(value)}
+                                            onChange={() => toggleValue(attribute, value)}
+                                        />
+                                        <span className="truncate">{value}</span>
+                                    </label>
+                                ))}
+                            </div>
+                            {selected.length > 0 && (
+                                <Button variant="ghost" size="sm" className="mt-1 h-7 w-full text-xs" onClick={() => setSelected(attribute, [])}>
+                                    Clear {attribute}
+                                </Button>
+                            )}
+                        </PopoverContent>
+                    </Popover>
+                );
+            })}
+            {hasActiveFilters && (
+                <>
+                    <Button variant="ghost" size="sm" className="h-8 gap-1 text-xs" onClick={() => onFiltersChange([])}>
+                        <X className="h-3 w-3" />
+                        Clear all
+                    </Button>
+                    <span className="text-xs text-gray-500">
+                        {matchingCount} of {totalCount} participants
+                    </span>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Check, ChevronDown, ChevronRight, File, Folder, Pause, Play, RotateCcw } from "lucide-react";
+import type { Item } from "@/lib/types";
+import { applyTreeOrder, getReplayDuration, getReplayFrame, type ReplayFrame, type ReplaySession } from "@/lib/utils/session-replay";
+import { TASK_EVENT_LABELS } from "@/lib/utils/task-events";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SessionReplayProps {
+    tree: Item[];
+    sessions: ReplaySession[]; // One session, or two to compare side by side
+}
+
+const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+/**
+ * Session Replay Component
+ *
+ * Plays back how participants moved through the tree during a task, opening nodes in the
+ * same order and at the same pace as they did. Several sessions share one clock, so their
+ * speed can be compared side by side.
+ */
+export function SessionReplay({ tree, sessions }: SessionReplayProps) {
+    const [time, setTime] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+    // Wall-clock moment and replay time playback last (re)started from
+    const anchor = useRef({ wall: 0, from: 0 });
+
+    const duration = Math.max(...sessions.map(session => getReplayDuration(session.events)), 0);
+
+    useEffect(() => {
+        if (!playing) return;
+        let frame = requestAnimationFrame(function tick(now) {
+            const next = Math.min(anchor.current.from + (now - anchor.current.wall) * speed, duration);
+            setTime(next);
+            if (next >= duration) {
+                setPlaying(false);
+                return;
+            }
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [playing, speed, duration]);
+
+    const startFrom = (from: number) => {
+        anchor.current = { wall: performance.now(), from };
+    };
+
+    const togglePlaying = () => {
+        if (playing) {
+            setPlaying(false);
+            return;
+        }
+        // Start over once the end was reached
+        const from = time >= duration ? 0 : time;
+        setTime(from);
+        startFrom(from);
+        setPlaying(true);
+    };
+
+    const handleScrub = (value: number) => {
+        setTime(value);
+        startFrom(value);
+    };
+
+    const handleSpeedChange = (value: number) => {
+        setSpeed(value);
+        startFrom(time);
+    };
+
+    if (duration === 0) {
+        return <div className="text-xs text-gray-500">No clicks were recorded for this task.</div>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+                <Button variant="outline" size="sm" className="h-8 w-8 p-0" onClick={togglePlaying} title={playing ? "Pause" : "Play"}>
+                    {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleScrub(0)} title="Back to the start">
+                    <RotateCcw className="h-4 w-4" />
+                </Button>
+                <input
+                    type="range"
+                    min={0}
+                    max={duration}
+                    step={100}
+                    value={time}
+                    onChange={(e) => handleScrub(Number(e.target.value))}
+                    className="min-w-[8rem] flex-1 accent-purple-600"
+                    aria-label="Replay position"
+                />
+                <span className="w-24 text-right font-mono text-xs text-gray-500">
+                    {(time / 1000).toFixed(1)}s / {(duration / 1000).toFixed(1)}s
+                </span>
+                <div className="flex gap-1">
+                    {REPLAY_SPEEDS.map(value => (
+                        <Button
+                            key={value}
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleSpeedChange(value)}
+                            className={cn("h-7 px-2 text-xs", value === speed && "border-purple-300 bg-purple-50 text-purple-700")}
+                        >
+                            {value}×
+                        </Button>
+                    ))}
+                </div>
+            </div>
+
+            <div className={cn("grid gap-4", sessions.length > 1 && "md:grid-cols-2")}>
+                {sessions.map(session => (
+                    <ReplayPanel key={session.id} tree={tree} session={session} time={time} />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function ReplayPanel({ tree, session, time }: { tree: Item[]; session: ReplaySession; time: number }) {
+    const displayedTree = useMemo(() => applyTreeOrder(tree, session.treeOrder), [tree, session.treeOrder]);
+    const frame = getReplayFrame(session.events, time);
+    const lastEvent = frame.eventsApplied > 0 ? session.events[frame.eventsApplied - 1] : null;
+    const finished = frame.eventsApplied === session.events.length;
+
+    return (
+        <div className="rounded-lg border bg-white">
+            <div className="flex items-center justify-between gap-2 border-b px-3 py-2 text-xs">
+                <span className="font-mono font-medium text-gray-900">{session.label}</span>
+                <span className={cn("text-gray-500", finished && "font-medium text-gray-700")}>
+                    {lastEvent
+                        ? `${TASK_EVENT_LABELS[lastEvent.type]} ${lastEvent.path.split("/").filter(Boolean).pop() || "the top level"}`
+                        : "Reading the task…"}
+                    {" · "}
+                    {frame.eventsApplied}/{session.events.length} clicks
+                </span>
+            </div>
+            <div className="max-h-80 overflow-y-auto p-2">
+                {displayedTree.map(item => (
+                    <ReplayNode key={item.name} item={item} parentPath="" level={0} frame={frame} />
+                ))}
+                {frame.skipped && (
+                    <div className="mt-2 rounded bg-gray-100 px-2 py-1 text-xs text-gray-600">Skipped the task</div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function ReplayNode({ item, parentPath, level, frame }: { item: Item; parentPath: string; level: number; frame: ReplayFrame }) {
+    const path = `${parentPath}/${item.name}`;
+    const hasChildren = !!item.children && item.children.length > 0;
+    const isExpanded = hasChildren && frame.expanded.has(path);
+    const isSelected = path === frame.selected;
+    const isCurrent = path === frame.current;
+
+    return (
+        <div>
+            <div
+                className={cn(
+                    "flex items-center gap-2 rounded px-2 py-1 text-sm transition-colors",
+                    isSelected ? "bg-blue-100 font-medium text-blue-700" : isCurrent && "border border-green-200 bg-green-50"
+                )}
+                style={{ paddingLeft: `${level * 20 + 8}px` }}
+            >
+                {hasChildren ? (
+                    <>
+                        {isExpanded ? (
+                            <ChevronDown className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                        ) : (
+                            <ChevronRight className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                        )}
+                        <Folder className="h-4 w-4 flex-shrink-0 text-blue-500" />
+                    </>
+                ) : (
+                    <>
+                        <div className="w-4" />
+                        <File className="h-4 w-4 flex-shrink-0 text-gray-400" />
+                    </>
+                )}
+                <span className="flex-1">{item.name}</span>
+                {isSelected && <Check className="h-4 w-4 flex-shrink-0 text-blue-600" />}
+            </div>
+            {isExpanded && item.children?.map(child => (
+                <ReplayNode key={child.name} item={child} parentPath={path} level={level + 1} frame={frame} />
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+import { useMemo, useState } from "react";
+import type { FollowUpQuestionStats, UploadedData } from "@/lib/types";
+import { calculateFollowUpStats } from "@/lib/stats/follow-ups";
+import { DEFAULT_LIKERT_POINTS, getQuestionLabel, QUESTION_TYPE_LABELS } from "@/lib/utils/questionnaires";
+import { FOLLOW_UP_CONDITION_LABELS } from "@/lib/utils/task-follow-ups";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface TaskFollowUpsCardProps {
+    data: UploadedData;
+    taskId: string;
+}
+
+export function TaskFollowUpsCard({ data, taskId }: TaskFollowUpsCardProps) {
+    const stats = useMemo(() => calculateFollowUpStats(data, taskId), [data, taskId]);
+
+    if (stats.length === 0) return null;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle className="text-lg">Follow-up Responses</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-8">
+                {stats.map(questionStats => (
+                    <FollowUpQuestionSection key={questionStats.question.id} stats={questionStats} />
+                ))}
+            </CardContent>
+        </Card>
+    );
+}
+
+function FollowUpQuestionSection({ stats }: { stats: FollowUpQuestionStats }) {
+    const { question, respondents, responses, mean, textResponses, wordFrequencies } = stats;
+    const [outcomeFilter, setOutcomeFilter] = useState<"all" | "success" | "failure">("all");
+
+    let summary = `${QUESTION_TYPE_LABELS[question.type]} · ${FOLLOW_UP_CONDITION_LABELS[question.showWhen || "always"]} · ${respondents} ${respondents === 1 ? "response" : "responses"}`;
+    if (mean !== null) {
+        summary += ` · Mean ${mean} of ${question.scalePoints || DEFAULT_LIKERT_POINTS}`;
+    }
+
+    const filteredText = textResponses.filter(response =>
+        outcomeFilter === "all" || response.successful === (outcomeFilter === "success")
+    );
+    const maxWordCount = wordFrequencies[0]?.count || 1;
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <h4 className="text-sm font-medium text-gray-900">{getQuestionLabel(question)}</h4>
+                <p className="text-xs text-gray-500">{summary}</p>
+            </div>
+
+            {question.type === "free-text" ? (
+                <>
+                    {wordFrequencies.length > 0 && (
+                        <div className="flex flex-wrap gap-2" title="Number of responses that use each word">
+                            {wordFrequencies.map(({ word, count }) => (
+                                <span
+                                    key={word}
+                                    className="rounded-full bg-blue-50 px-2 py-0.5 text-blue-800"
+                                    style={{ fontSize: `${0.75 + (count / maxWordCount) * 0.5}rem` }}
+                                >
+                                    {word} <span className="text-xs text-blue-500">{count}</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    {textResponses.length === 0 ? (
+                        <p className="text-sm text-gray-500 italic">No responses.</p>
+                    ) : (
+                        <>
+                            <select
+                                className="h-8 rounded-md border border-input bg-transparent px-2 text-sm shadow-sm"
+                                value={outcomeFilter}
+                                onChange={(e) => setOutcomeFilter(e.target.value as "all" | "success" | "failure")}
+                            >
+                                <option value="all">All Results</option>
+                                <option value="success">Success</option>
+                                <option value="failure">Fail or Skip</option>
+                            </select>
+                            <ul className="max-h-80 space-y-2 overflow-y-auto">
+                                {filteredText.map((response, index) => (
+                                    <li key={index} className="flex items-start gap-2 rounded border border-gray-100 bg-gray-50 px-3 py-2 text-sm">
+                                        <div className={`mt-1.5 h-2.5 w-2.5 shrink-0 rounded-full ${response.successful ? "bg-green-600" : "bg-red-600"}`} />
+                                        <span className="flex-1 text-gray-800">{response.text}</span>
+                                        <span className="text-xs text-gray-400">{response.participantId}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </>
+            ) : (
+                <table className="w-full text-sm">
+                    <tbody>
+                        {responses.map(response => (
+                            <tr key={response.value} className="border-b last:border-0">
+                                <td className="py-2 text-gray-700">{response.value}</td>
+                                <td className="w-56 py-2">
+                                    <div className="flex items-center gap-2">
+                                        <div className="h-2 w-24 rounded bg-gray-100">
+                                            <div className="h-2 rounded bg-blue-500" style={{ width: `${response.percentage}%` }} />
+                                        </div>
+                                        <span className="text-xs text-gray-600">{response.count} ({response.percentage}%)</span>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,155 @@
+import { useMemo, useState } from "react";
+import type { OrderEffectMetric, OrderEffectSummary, OrderEffectTrend, UploadedData } from "@/lib/types";
+import { calculateOrderEffects, hasOrderData } from "@/lib/stats/order-effects";
+import { formatPValue } from "@/lib/stats/study-comparison";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+interface TaskOrderEffectsCardProps {
+    data: UploadedData;
+}
+
+const METRIC_LABELS: Record<OrderEffectMetric, string> = {
+    success: "Success",
+    directness: "Directness",
+    time: "Time",
+};
+
+export function TaskOrderEffectsCard({ data }: TaskOrderEffectsCardProps) {
+    const analysis = useMemo(() => calculateOrderEffects(data), [data]);
+    const [selectedTask, setSelectedTask] = useState<string>("all");
+
+    if (!hasOrderData(data) || analysis.overall.positions.length < 2) return null;
+
+    const summary = analysis.tasks.find(t => t.taskId === selectedTask) || analysis.overall;
+    const flaggedTasks = analysis.tasks.filter(t => t.trends.some(trend => trend.significant));
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-4">
+                <div>
+                    <CardTitle>Task Order Effects</CardTitle>
+                    <p className="mt-1 text-sm text-gray-500">
+                        Success, directness and median time by the position tasks were presented in.
+                        Trends are tested with Spearman's rank correlation (α = {analysis.alpha}).
+                    </p>
+                </div>
+                <div className="w-48">
+                    <Select value={summary.taskId ?? "all"} onValueChange={setSelectedTask}>
+                        <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="all" className="text-xs">All tasks</SelectItem>
+                            {analysis.tasks.map(task => (
+                                <SelectItem key={task.taskId} value={task.taskId ?? ""} className="text-xs">
+                                    Task {task.taskIndex}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {summary.taskId && <p className="text-sm text-gray-700">{summary.description}</p>}
+
+                <div className="flex flex-wrap gap-3">
+                    {summary.trends.map(trend => (
+                        <TrendBadge key={trend.metric} trend={trend} />
+                    ))}
+                </div>
+
+                {summary.positions.length < 2 ? (
+                    <p className="text-sm text-gray-500 italic">
+                        This task was always presented in the same position, so there is nothing to compare.
+                    </p>
+                ) : (
+                    <PositionChart summary={summary} />
+                )}
+
+                {flaggedTasks.length > 0 && (
+                    <div>
+                        <h4 className="mb-2 text-sm font-medium text-gray-700">Tasks with significant trends</h4>
+                        <ul className="space-y-1">
+                            {flaggedTasks.map(task => (
+                                <li key={task.taskId} className="flex flex-wrap justify-between gap-2 text-sm text-gray-600">
+                                    <span>Task {task.taskIndex}: {task.description}</span>
+                                    <span className="font-medium">
+                                        {task.trends
+                                            .filter(trend => trend.significant)
+                                            .map(trend => `${METRIC_LABELS[trend.metric]} (${trend.direction})`)
+                                            .join(", ")}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+function TrendBadge({ trend }: { trend: OrderEffectTrend }) {
+    const color = !trend.significant
+        ? "border-gray-200 bg-gray-50 text-gray-700"
+        : trend.direction === "learning"
+            ? "border-green-200 bg-green-50 text-green-800"
+            : "border-red-200 bg-red-50 text-red-800";
+
+    let detail = "Not enough variation to test";
+    if (trend.coefficient !== null) {
+        detail = `ρ = ${trend.coefficient.toFixed(2)}${trend.pValue !== null ? `, ${formatPValue(trend.pValue)}` : ""}`;
+    }
+    if (trend.metric === "time") {
+        detail += ` · ${trend.attempts} answered attempts, skips left out`;
+    }
+
+    return (
+        <div className={`rounded-md border px-3 py-2 text-sm ${color}`}>
+            <div className="font-medium">
+                {METRIC_LABELS[trend.metric]}
+                {trend.direction === "learning" && " · Learning effect"}
+                {trend.direction === "fatigue" && " · Fatigue effect"}
+                {trend.coefficient !== null && !trend.significant && " · No significant trend"}
+            </div>
+            <div className="text-xs opacity-80">{detail}</div>
+        </div>
+    );
+}
+
+function PositionChart({ summary }: { summary: OrderEffectSummary }) {
+    const chartData = summary.positions.map(p => ({
+        position: `#${p.position}`,
+        Success: p.successRate,
+        Directness: p.directnessRate,
+        "Median Time": p.medianTime,
+        attempts: p.attempts,
+        answeredAttempts: p.answeredAttempts,
+    }));
+
+    return (
+        <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="position" tick={{ fontSize: 12 }} />
+                    <YAxis yAxisId="rate" domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+                    <YAxis yAxisId="time" orientation="right" unit="s" tick={{ fontSize: 12 }} />
+                    <Tooltip
+                        formatter={(value: number, name: string) => [name === "Median Time" ? `${value}s` : `${value}%`, name]}
+                        labelFormatter={(label: string, payload) => {
+                            const point = payload?.[0]?.payload;
+                            return point ? `Position ${label} (${point.attempts} attempts, ${point.answeredAttempts} answered for time)` : `Position ${label}`;
+                        }}
+                    />
+                    <Legend />
+                    <Line yAxisId="rate" type="monotone" dataKey="Success" stroke="#16a34a" strokeWidth={2} dot={{ r: 3 }} />
+                    <Line yAxisId="rate" type="monotone" dataKey="Directness" stroke="#2563eb" strokeWidth={2} dot={{ r: 3 }} />
+                    <Line yAxisId="time" type="monotone" dataKey="Median Time" stroke="#f59e0b" strokeWidth={2} strokeDasharray="5 3" dot={{ r: 3 }} />
+                </LineChart>
+            </ResponsiveContainer>
+        </div>
+    );
+}
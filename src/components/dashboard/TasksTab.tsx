@@ -1,24 +1,34 @@
 import { useMemo, useState, useEffect } from "react";
 import { Link } from "react-router-dom";
 import { getMetricColor } from "@/lib/utils";
-import type { UploadedData, Participant } from "@/lib/types";
+import type { UploadedData, Participant, ConfidenceCorrelation, FirstClickOutcome, Item, ConfidenceIntervalMethod, FirstClickPositionStats } from "@/lib/types";
 import { calculateTaskStats } from "@/lib/stats";
+import { CONFIDENCE_INTERVAL_METHODS, formatRateInterval } from "@/lib/stats/confidence-intervals";
+import { describeCorrelation } from "@/lib/stats/confidence";
+import { formatPValue } from "@/lib/stats/study-comparison";
+import { formatConfidenceRating, getAnalyzerConfidenceScale } from "@/lib/utils/confidence-scale";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { PieChart } from "@/components/ui/pie-chart";
 import { BoxPlot } from "@/components/ui/box-plot";
 import { HelpCircle, Users, ChevronLeft, ChevronRight } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ParentNodeSuccessSection } from "./ParentNodeSuccessSection";
+import { NodeClickTree } from "./NodeClickTree";
+import { TaskFollowUpsCard } from "./TaskFollowUpsCard";
+import { SessionReplay } from "./SessionReplay";
 
 interface TasksTabProps {
     data: UploadedData;
+    onIntervalMethodChange?: (method: ConfidenceIntervalMethod) => void;
 }
 
-export function TasksTab({ data }: TasksTabProps) {
+export function TasksTab({ data, onIntervalMethodChange }: TasksTabProps) {
     // We need the tree structure for full stats, but if it's missing we pass an empty array
     // The stats calculator handles missing tree gracefully for most parts, 
     // but parent click analysis might be limited.
     const tree = data.treeStructure || [];
     const taskStats = useMemo(() => calculateTaskStats(data, tree), [data, tree]);
+    const confidenceScale = useMemo(() => getAnalyzerConfidenceScale(data), [data]);
     const [selectedTaskId, setSelectedTaskId] = useState<string>(taskStats[0]?.id || "");
 
     const [showHelpTooltip, setShowHelpTooltip] = useState(false);
@@ -30,12 +40,14 @@ export function TasksTab({ data }: TasksTabProps) {
     }
 
     const totalParticipants = selectedTask.stats.breakdown.total;
+    const hasShuffledParents = selectedTask.stats.parentClicks.some((click) => click.averagePosition !== undefined);
 
     const pieData = [
         { name: "Direct Success", value: selectedTask.stats.breakdown.directSuccess, color: "bg-green-500" },
         { name: "Indirect Success", value: selectedTask.stats.breakdown.indirectSuccess, color: "bg-green-300" },
         { name: "Fail", value: selectedTask.stats.breakdown.fail, color: "bg-red-500" },
         { name: "Skip", value: selectedTask.stats.breakdown.directSkip + selectedTask.stats.breakdown.indirectSkip, color: "bg-gray-500" },
+        { name: "Timeout", value: selectedTask.stats.breakdown.timeout, color: "bg-amber-500" },
     ].filter((d) => d.value > 0);
 
     return (
@@ -114,6 +126,8 @@ export function TasksTab({ data }: TasksTabProps) {
                                         <li><strong>Success Rate:</strong> % who found the correct answer.</li>
                                         <li><strong>Directness:</strong> % who went straight to the answer.</li>
                                         <li><strong>Overall Score:</strong> Weighted score (70% Success + 30% Directness).</li>
+                                        <li><strong>Lostness:</strong> How far participants wandered from the shortest route (below 0.4 = not lost, above 0.5 = lost).</li>
+                                        <li><strong>95% CI:</strong> Range the true rate likely falls in, using the {CONFIDENCE_INTERVAL_METHODS[selectedTask.stats.intervalMethod].label} method.</li>
                                     </ul>
                                     <Link
                                         to="/help"
@@ -133,9 +147,33 @@ export function TasksTab({ data }: TasksTabProps) {
                             </div>
                         )}
 
-                        <div className="mb-6">
-                            <h3 className="text-sm font-semibold text-gray-900">Task results</h3>
-                            <p className="text-sm text-gray-500">Success and failure metrics from this task.</p>
+                        <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
+                            <div>
+                                <h3 className="text-sm font-semibold text-gray-900">Task results</h3>
+                                <p className="text-sm text-gray-500">Success and failure metrics from this task.</p>
+                            </div>
+                            <div className="w-56 space-y-1">
+                                <div className="text-xs font-medium text-gray-500">Confidence interval</div>
+                                <Select
+                                    value={selectedTask.stats.intervalMethod}
+                                    onValueChange={(value) => onIntervalMethodChange?.(value as ConfidenceIntervalMethod)}
+                                    disabled={!onIntervalMethodChange}
+                                >
+                                    <SelectTrigger className="h-8 text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(CONFIDENCE_INTERVAL_METHODS) as ConfidenceIntervalMethod[]).map((method) => (
+                                            <SelectItem key={method} value={method} className="text-xs">
+                                                {CONFIDENCE_INTERVAL_METHODS[method].label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <p className="text-[10px] text-gray-400">
+                                    {CONFIDENCE_INTERVAL_METHODS[selectedTask.stats.intervalMethod].description}
+                                </p>
+                            </div>
                         </div>
                         <div className="grid gap-6 md:grid-cols-2">
                             {/* Pie Chart */}
@@ -163,7 +201,7 @@ export function TasksTab({ data }: TasksTabProps) {
                                     <div className="text-[10px] text-gray-400">
                                         {selectedTask.stats.breakdown.directSuccess + selectedTask.stats.breakdown.indirectSuccess} / {totalParticipants} participants
                                     </div>
-                                    <div className="text-[10px] text-gray-400">±{selectedTask.stats.success.margin}%</div>
+                                    <div className="text-[10px] text-gray-400">{formatRateInterval(selectedTask.stats.success)}</div>
                                 </div>
                                 <div className="rounded-lg border p-4 text-center">
                                     <div className={`text-2xl font-bold ${getMetricColor(selectedTask.stats.directness.rate)}`}>{selectedTask.stats.directness.rate}%</div>
@@ -171,11 +209,16 @@ export function TasksTab({ data }: TasksTabProps) {
                                     <div className="text-[10px] text-gray-400">
                                         {selectedTask.stats.breakdown.directSuccess} / {totalParticipants} participants
                                     </div>
-                                    <div className="text-[10px] text-gray-400">±{selectedTask.stats.directness.margin}%</div>
+                                    <div className="text-[10px] text-gray-400">{formatRateInterval(selectedTask.stats.directness)}</div>
                                 </div>
                                 <div className="rounded-lg border p-4 text-center">
                                     <div className="text-2xl font-bold text-gray-700">{selectedTask.stats.time.median}s</div>
                                     <div className="text-xs text-gray-500">Median Time</div>
+                                    {selectedTask.maxTimeSeconds !== null && (
+                                        <div className="text-[10px] text-gray-400">
+                                            Limit {selectedTask.maxTimeSeconds}s · {selectedTask.stats.breakdown.timeout} timed out
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="rounded-lg border p-4 text-center">
                                     <div className={`text-2xl font-bold ${getMetricColor(selectedTask.stats.score)}`}>{selectedTask.stats.score}</div>
@@ -194,11 +237,112 @@ export function TasksTab({ data }: TasksTabProps) {
                                     median: selectedTask.stats.time.median,
                                     q3: selectedTask.stats.time.q3,
                                     max: selectedTask.stats.time.max,
-                                    displayMax: Math.max(selectedTask.stats.time.max, 60), // Ensure at least 60s scale
+                                    displayMax: Math.max(selectedTask.stats.time.max, selectedTask.maxTimeSeconds ?? 0, 60), // Ensure at least 60s scale, and show the time limit
                                 }}
                                 formatLabel={(v) => `${v}s`}
                             />
                         </div>
+
+                        {/* Path Efficiency */}
+                        {selectedTask.stats.pathEfficiency && selectedTask.stats.pathEfficiency.attempts > 0 && (
+                            <div className="mt-8">
+                                <h4 className="text-sm font-medium text-gray-900">Path Efficiency</h4>
+                                <p className="mb-4 text-xs text-gray-500">
+                                    Medians across {selectedTask.stats.pathEfficiency.attempts} non-skipped attempts.
+                                    The shortest route to a correct answer is {selectedTask.stats.pathEfficiency.optimalPathLength} nodes.
+                                </p>
+                                <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                                    <div className="rounded-lg border p-4 text-center">
+                                        <div className="text-2xl font-bold text-gray-700">{selectedTask.stats.pathEfficiency.nodesVisited.median}</div>
+                                        <div className="text-xs text-gray-500">Nodes Visited</div>
+                                        <div className="text-[10px] text-gray-400">
+                                            Range: {selectedTask.stats.pathEfficiency.nodesVisited.min} - {selectedTask.stats.pathEfficiency.nodesVisited.max}
+                                        </div>
+                                    </div>
+                                    <div className="rounded-lg border p-4 text-center">
+                                        <div className="text-2xl font-bold text-gray-700">{selectedTask.stats.pathEfficiency.uniqueNodes.median}</div>
+                                        <div className="text-xs text-gray-500">Unique Nodes</div>
+                                        <div className="text-[10px] text-gray-400">
+                                            Range: {selectedTask.stats.pathEfficiency.uniqueNodes.min} - {selectedTask.stats.pathEfficiency.uniqueNodes.max}
+                                        </div>
+                                    </div>
+                                    <div className="rounded-lg border p-4 text-center">
+                                        <div className="text-2xl font-bold text-gray-700">{selectedTask.stats.pathEfficiency.backtracks.median}</div>
+                                        <div className="text-xs text-gray-500">Backtracks</div>
+                                        <div className="text-[10px] text-gray-400">
+                                            Range: {selectedTask.stats.pathEfficiency.backtracks.min} - {selectedTask.stats.pathEfficiency.backtracks.max}
+                                        </div>
+                                    </div>
+                                    <div className="rounded-lg border p-4 text-center">
+                                        <div className={`text-2xl font-bold ${selectedTask.stats.pathEfficiency.lostness.median < 0.4 ? "text-green-600" : selectedTask.stats.pathEfficiency.lostness.median <= 0.5 ? "text-orange-500" : "text-red-600"}`}>
+                                            {selectedTask.stats.pathEfficiency.lostness.median.toFixed(2)}
+                                        </div>
+                                        <div className="text-xs text-gray-500">Lostness</div>
+                                        <div className="text-[10px] text-gray-400">0 = perfectly efficient</div>
+                                    </div>
+                                </div>
+                                <div className="mt-4 space-y-2">
+                                    {selectedTask.stats.pathEfficiency.lostnessDistribution.map((bucket) => (
+                                        <div key={bucket.category} className="flex items-center gap-3 text-xs">
+                                            <div className="w-40 flex-shrink-0 text-gray-600">{bucket.label}</div>
+                                            <div className="h-3 flex-1 overflow-hidden rounded-full bg-gray-100">
+                                                <div
+                                                    className={`h-full ${bucket.category === "not-lost" ? "bg-green-500" : bucket.category === "disoriented" ? "bg-orange-400" : "bg-red-500"}`}
+                                                    style={{ width: `${bucket.percentage}%` }}
+                                                />
+                                            </div>
+                                            <div className="w-16 flex-shrink-0 text-right text-gray-500">{bucket.count} ({bucket.percentage}%)</div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* First Click */}
+                        {selectedTask.stats.firstClick && (
+                            <div className="mt-8">
+                                <h4 className="text-sm font-medium text-gray-900">First Click</h4>
+                                <p className="mb-4 text-xs text-gray-500">
+                                    Across {selectedTask.stats.firstClick.attempts} attempts with a first click
+                                    {selectedTask.stats.firstClick.depth > 1 ? " below the top level" : ""}.
+                                    A correct first click lies on any correct path.
+                                </p>
+                                <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                                    <div className="rounded-lg border p-4 text-center">
+                                        <div className={`text-2xl font-bold ${getMetricColor(selectedTask.stats.firstClick.correct.rate)}`}>{selectedTask.stats.firstClick.correct.rate}%</div>
+                                        <div className="text-xs text-gray-500">Correct First Click</div>
+                                        <div className="text-[10px] text-gray-400">
+                                            {selectedTask.stats.firstClick.correctCount} / {selectedTask.stats.firstClick.attempts} participants
+                                        </div>
+                                        <div className="text-[10px] text-gray-400">{formatRateInterval(selectedTask.stats.firstClick.correct)}</div>
+                                    </div>
+                                    <FirstClickOutcomeCard label="Success After Correct First Click" outcome={selectedTask.stats.firstClick.afterCorrect} />
+                                    <FirstClickOutcomeCard label="Success After Wrong First Click" outcome={selectedTask.stats.firstClick.afterIncorrect} />
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Click Timing */}
+                        {selectedTask.stats.clickTiming && (
+                            <div className="mt-8">
+                                <h4 className="text-sm font-medium text-gray-900">Time to First Click</h4>
+                                <p className="mb-4 text-xs text-gray-500">
+                                    Across {selectedTask.stats.clickTiming.attempts} attempts with recorded clicks.
+                                    Median hesitation (the longest pause between two clicks) was {selectedTask.stats.clickTiming.hesitation.median.toFixed(1)}s.
+                                </p>
+                                <BoxPlot
+                                    data={{
+                                        min: selectedTask.stats.clickTiming.timeToFirstClick.min,
+                                        q1: selectedTask.stats.clickTiming.timeToFirstClick.q1,
+                                        median: selectedTask.stats.clickTiming.timeToFirstClick.median,
+                                        q3: selectedTask.stats.clickTiming.timeToFirstClick.q3,
+                                        max: selectedTask.stats.clickTiming.timeToFirstClick.max,
+                                        displayMax: Math.max(selectedTask.stats.clickTiming.timeToFirstClick.max, 10),
+                                    }}
+                                    formatLabel={(v) => `${v.toFixed(1)}s`}
+                                />
+                            </div>
+                        )}
                     </CardContent>
                 </Card>
 
@@ -209,8 +353,12 @@ export function TasksTab({ data }: TasksTabProps) {
                         participants={data.participants}
                         taskId={selectedTaskId}
                         totalParticipants={totalParticipants}
+                        tree={tree}
                     />
 
+                    {/* Follow-up Responses */}
+                    <TaskFollowUpsCard data={data} taskId={selectedTaskId} />
+
                     {/* First-Clicked Parent Labels */}
                     <Card>
                         <CardHeader>
@@ -228,6 +376,11 @@ export function TasksTab({ data }: TasksTabProps) {
                                                 <th className="pb-2 font-medium text-gray-500 text-center">Correct First Click</th>
                                                 <th className="pb-2 font-medium text-gray-500 text-center">Clicked First</th>
                                                 <th className="pb-2 font-medium text-gray-500 text-center">Clicked During Task</th>
+                                                {hasShuffledParents && (
+                                                    <th className="pb-2 font-medium text-gray-500 text-center" title="Mean position the label was displayed at among its siblings">
+                                                        Avg. Position
+                                                    </th>
+                                                )}
                                             </tr>
                                         </thead>
                                         <tbody>
@@ -245,12 +398,29 @@ export function TasksTab({ data }: TasksTabProps) {
                                                     <td className="py-2 text-center">
                                                         {click.totalClickCount} ({click.totalClickPercentage}%)
                                                     </td>
+                                                    {hasShuffledParents && (
+                                                        <td className="py-2 text-center">{click.averagePosition ?? "–"}</td>
+                                                    )}
                                                 </tr>
                                             ))}
                                         </tbody>
                                     </table>
                                 </div>
                             )}
+                            {selectedTask.stats.firstClickPositions && (
+                                <FirstClickPositions positions={selectedTask.stats.firstClickPositions} />
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    {/* Node Click Drill-down */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className="text-lg">Clicks by Node</CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {/* Keyed by task so expansion resets when switching tasks */}
+                            <NodeClickTree key={selectedTask.id} nodes={selectedTask.stats.nodeClicks} />
                         </CardContent>
                     </Card>
 
@@ -324,7 +494,9 @@ export function TasksTab({ data }: TasksTabProps) {
                             <CardTitle className="text-lg">Confidence Ratings</CardTitle>
                         </CardHeader>
                         <CardContent>
-                            {selectedTask.stats.confidenceRatings.length === 0 ? (
+                            {!confidenceScale.enabled ? (
+                                <p className="text-center text-sm text-gray-500">Confidence ratings were turned off for this study.</p>
+                            ) : selectedTask.stats.confidenceRatings.length === 0 ? (
                                 <p className="text-center text-sm text-gray-500">No confidence ratings recorded.</p>
                             ) : (
                                 <div className="space-y-4">
@@ -346,13 +518,7 @@ export function TasksTab({ data }: TasksTabProps) {
                                                         <tr key={i} className="border-b last:border-0">
                                                             <td className="py-3">
                                                                 <div className="font-medium">
-                                                                    {rating.value === 7 ? "Very Confident" :
-                                                                        rating.value === 6 ? "Confident" :
-                                                                            rating.value === 5 ? "Somewhat Confident" :
-                                                                                rating.value === 4 ? "Neutral" :
-                                                                                    rating.value === 3 ? "Somewhat Not Confident" :
-                                                                                        rating.value === 2 ? "Not Confident" :
-                                                                                            "Not Confident At All"}
+                                                                    {formatConfidenceRating(rating.value, confidenceScale)}
                                                                 </div>
                                                             </td>
                                                             <td className="py-3">
@@ -403,6 +569,10 @@ export function TasksTab({ data }: TasksTabProps) {
                                         </table>
                                     </div>
 
+                                    {selectedTask.stats.confidenceCorrelation && (
+                                        <ConfidenceCorrelationSummary correlation={selectedTask.stats.confidenceCorrelation} />
+                                    )}
+
                                     {/* Legend */}
                                     <div className="flex items-center justify-center gap-4 text-xs">
                                         <div className="flex items-center gap-1">
@@ -428,11 +598,22 @@ export function TasksTab({ data }: TasksTabProps) {
     );
 }
 
-function ParticipantPathsCard({ participants, taskId, totalParticipants }: { participants: Participant[], taskId: string, totalParticipants: number }) {
+function ParticipantPathsCard({ participants, taskId, totalParticipants, tree }: { participants: Participant[], taskId: string, totalParticipants: number, tree: Item[] }) {
     const [pathFilter, setPathFilter] = useState<string>("all");
     const [currentPage, setCurrentPage] = useState(1);
+    const [replayIds, setReplayIds] = useState<[string, string]>(["", ""]); // Participant to replay and one to compare with
     const ITEMS_PER_PAGE = 20;
 
+    // Sessions of this task with recorded clicks
+    const replaySessions = useMemo(() => participants.flatMap(p => {
+        const events = p.taskResults.find(r => r.taskId === taskId)?.events;
+        return events && events.length > 0 ? [{ id: p.id, label: p.id, events, treeOrder: p.treeOrder }] : [];
+    }), [participants, taskId]);
+    const selectedReplays = replayIds
+        .filter((id, slot) => replayIds.indexOf(id) === slot)
+        .map(id => replaySessions.find(session => session.id === id))
+        .filter((session): session is NonNullable<typeof session> => !!session);
+
     const pathsData = useMemo(() => {
         const pathMap = new Map<string, {
             path: string;
@@ -451,7 +632,10 @@ function ParticipantPathsCard({ participants, taskId, totalParticipants }: { par
             let resultType = "";
             let resultColor = "";
 
-            if (result.skipped) {
+            if (result.timedOut) {
+                resultType = "Timeout";
+                resultColor = "bg-amber-500";
+            } else if (result.skipped) {
                 const parts = path.split('/').filter(Boolean);
                 if (parts.length <= 1) {
                     resultType = "Direct Skip";
@@ -523,6 +707,7 @@ function ParticipantPathsCard({ participants, taskId, totalParticipants }: { par
                         <option value="Fail">Fail</option>
                         <option value="Direct Skip">Direct Skip</option>
                         <option value="Indirect Skip">Indirect Skip</option>
+                        <option value="Timeout">Timeout</option>
                     </select>
                 </div>
             </CardHeader>
@@ -594,7 +779,116 @@ function ParticipantPathsCard({ participants, taskId, totalParticipants }: { par
                         </div>
                     </div>
                 )}
+
+                {/* Session Replay */}
+                {replaySessions.length > 0 && (
+                    <div className="mt-6 space-y-3 border-t pt-4">
+                        <div className="flex flex-wrap items-center gap-3">
+                            <h4 className="text-sm font-medium text-gray-900">Session Replay</h4>
+                            {(["Replay", "Compare with"] as const).map((label, slot) => (
+                                <select
+                                    key={label}
+                                    className="h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                                    value={replayIds[slot]}
+                                    onChange={(e) => setReplayIds(slot === 0 ? [e.target.value, replayIds[1]] : [replayIds[0], e.target.value])}
+                                    aria-label={label}
+                                >
+                                    <option value="">{slot === 0 ? "Choose a participant…" : "Compare with…"}</option>
+                                    {replaySessions.map(session => (
+                                        <option key={session.id} value={session.id}>{session.label}</option>
+                                    ))}
+                                </select>
+                            ))}
+                        </div>
+                        {selectedReplays.length > 0 ? (
+                            <SessionReplay
+                                key={selectedReplays.map(session => session.id).join("|")}
+                                tree={tree}
+                                sessions={selectedReplays}
+                            />
+                        ) : (
+                            <p className="text-xs text-gray-500">
+                                Watch how a participant moved through the tree, or pick two to compare them side by side.
+                            </p>
+                        )}
+                    </div>
+                )}
             </CardContent>
         </Card>
     );
 }
+
+function FirstClickOutcomeCard({ label, outcome }: { label: string; outcome: FirstClickOutcome }) {
+    return (
+        <div className="rounded-lg border p-4 text-center">
+            {outcome.attempts > 0 ? (
+                <>
+                    <div className={`text-2xl font-bold ${getMetricColor(outcome.success.rate)}`}>{outcome.success.rate}%</div>
+                    <div className="text-xs text-gray-500">{label}</div>
+                    <div className="text-[10px] text-gray-400">{outcome.successes} / {outcome.attempts} participants</div>
+                    <div className="text-[10px] text-gray-400">{formatRateInterval(outcome.success)}</div>
+                </>
+            ) : (
+                <>
+                    <div className="text-2xl font-bold text-gray-300">N/A</div>
+                    <div className="text-xs text-gray-500">{label}</div>
+                    <div className="text-[10px] text-gray-400">No participants</div>
+                </>
+            )}
+        </div>
+    );
+}
+
+function ConfidenceCorrelationSummary({ correlation }: { correlation: ConfidenceCorrelation }) {
+    const { coefficient, pValue, ratings, meanSuccess, meanFailure } = correlation;
+
+    return (
+        <div className="rounded border border-gray-100 bg-gray-50 px-3 py-2 text-sm">
+            <div className="font-medium text-gray-900">
+                Confidence vs. success:{" "}
+                {coefficient === null ? (
+                    <span className="font-normal text-gray-500">not enough variation to correlate</span>
+                ) : (
+                    <>
+                        r = {coefficient} <span className="font-normal text-gray-600">({describeCorrelation(coefficient)}{pValue !== null && `, ${formatPValue(pValue)}`})</span>
+                    </>
+                )}
+            </div>
+            <div className="text-xs text-gray-500">
+                Mean rating {meanSuccess ?? "–"} when successful, {meanFailure ?? "–"} when failed · {ratings} {ratings === 1 ? "rating" : "ratings"}
+            </div>
+        </div>
+    );
+}
+
+function FirstClickPositions({ positions }: { positions: FirstClickPositionStats[] }) {
+    const total = positions.reduce((sum, p) => sum + p.firstClickCount, 0);
+
+    return (
+        <div className="mt-6 space-y-2">
+            <h4 className="text-sm font-medium text-gray-700">First clicks by displayed position</h4>
+            <p className="text-xs text-gray-500">
+                Labels were shuffled for {total} {total === 1 ? "participant" : "participants"}. Without position bias, first clicks
+                would follow the grey markers; a lean towards the top positions suggests labels were picked for where they appeared.
+            </p>
+            <div className="space-y-1">
+                {positions.map(p => (
+                    <div key={p.position} className="flex items-center gap-3 text-sm">
+                        <span className="w-8 text-right text-xs text-gray-500">#{p.position}</span>
+                        <div className="relative h-3 flex-1 rounded-full bg-gray-100">
+                            <div className="h-full rounded-full bg-blue-500" style={{ width: `${p.firstClickPercentage}%` }} />
+                            <div
+                                className="absolute top-0 h-full w-0.5 bg-gray-500"
+                                style={{ left: `${p.expectedPercentage}%` }}
+                                title={`Expected ${p.expectedPercentage}%`}
+                            />
+                        </div>
+                        <span className="w-24 text-right text-xs text-gray-600">
+                            {p.firstClickCount} ({p.firstClickPercentage}%)
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,36 @@
+import type { AnalyzerTreeVariant, UploadedData } from "@/lib/types";
+import { MAIN_TREE_VARIANT_ID } from "@/lib/utils/tree-variants";
+import { Button } from "@/components/ui/button";
+import { GitBranch } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TreeVariantBarProps {
+    data: UploadedData;
+    variants: AnalyzerTreeVariant[];
+    selectedId: string;
+    onSelect: (variantId: string) => void;
+}
+
+export function TreeVariantBar({ data, variants, selectedId, onSelect }: TreeVariantBarProps) {
+    const countFor = (variantId: string) =>
+        data.participants.filter(p => (p.treeVariant ?? MAIN_TREE_VARIANT_ID) === variantId).length;
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <GitBranch className="h-4 w-4 text-gray-400" />
+            <span className="text-sm font-medium text-gray-700">Tree</span>
+            {variants.map(variant => (
+                <Button
+                    key={variant.id}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onSelect(variant.id)}
+                    className={cn("h-8 text-xs", variant.id === selectedId && "border-purple-300 bg-purple-50 text-purple-700")}
+                >
+                    {variant.name}
+                    <span className="ml-1 text-gray-400">({countFor(variant.id)})</span>
+                </Button>
+            ))}
+        </div>
+    );
+}
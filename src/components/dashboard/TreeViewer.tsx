@@ -1,33 +1,78 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { ChevronRight, ChevronDown, Folder, File } from "lucide-react";
-import type { Item } from "@/lib/types";
+import type { FindabilityMode, Item, NodeFindability } from "@/lib/types";
 import { cn } from "@/lib/utils";
+import { getFindabilityKey, getHeatmapColor } from "@/lib/stats/findability";
+
+export interface TreeHeatmap {
+    mode: FindabilityMode;
+    nodes: Map<string, NodeFindability>;
+}
 
 interface TreeViewerProps {
     tree: Item[];
+    heatmap?: TreeHeatmap;
+    selectedPath?: string | null;
+    onNodeSelect?: (path: string) => void;
+    defaultOpen?: boolean;
 }
 
 interface TreeNodeProps {
     item: Item;
     level: number;
+    path: string[];
+    heatmap?: TreeHeatmap;
+    maxima: { visits: number; wrongNominations: number };
+    selectedPath?: string | null;
+    onNodeSelect?: (path: string) => void;
+    defaultOpen: boolean;
+}
+
+function getHeatmapLabel(node: NodeFindability | undefined, mode: FindabilityMode): string | null {
+    if (!node) return null;
+    if (mode === "traffic") return node.visits > 0 ? `${node.visits} visits` : null;
+    if (mode === "correctness") return node.correctRatio !== null ? `${node.correctRatio}% on correct path` : null;
+    return node.wrongNominations > 0 ? `${node.wrongNominations} wrong answers` : null;
 }
 
-function TreeNode({ item, level }: TreeNodeProps) {
-    const [isOpen, setIsOpen] = useState(false);
+function TreeNode({ item, level, path, heatmap, maxima, selectedPath, onNodeSelect, defaultOpen }: TreeNodeProps) {
+    const [isOpen, setIsOpen] = useState(defaultOpen);
     const hasChildren = item.children && item.children.length > 0;
+    const nodeKey = getFindabilityKey(path);
+    const findability = heatmap?.nodes.get(nodeKey);
+    const heatmapLabel = heatmap ? getHeatmapLabel(findability, heatmap.mode) : null;
+
+    const handleClick = () => {
+        if (onNodeSelect) {
+            onNodeSelect(nodeKey);
+        } else if (hasChildren) {
+            setIsOpen(!isOpen);
+        }
+    };
 
     return (
         <div className="select-none">
             <div
                 className={cn(
                     "flex items-center gap-2 rounded-md px-2 py-1 text-sm hover:bg-gray-100 cursor-pointer",
-                    level > 0 && "ml-4"
+                    level > 0 && "ml-4",
+                    selectedPath === nodeKey && "ring-2 ring-purple-500"
                 )}
-                style={{ paddingLeft: `${level * 12 + 8}px` }}
-                onClick={() => hasChildren && setIsOpen(!isOpen)}
+                style={{
+                    paddingLeft: `${level * 12 + 8}px`,
+                    backgroundColor: heatmap ? getHeatmapColor(findability, heatmap.mode, maxima) : undefined,
+                }}
+                onClick={handleClick}
             >
                 {hasChildren ? (
-                    <span className="text-gray-400">
+                    <span
+                        className="text-gray-400"
+                        onClick={(e) => {
+                            if (!onNodeSelect) return;
+                            e.stopPropagation();
+                            setIsOpen(!isOpen);
+                        }}
+                    >
                         {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
                     </span>
                 ) : (
@@ -41,12 +86,25 @@ function TreeNode({ item, level }: TreeNodeProps) {
                 )}
 
                 <span className="text-gray-700">{item.name}</span>
+                {heatmapLabel && (
+                    <span className="ml-auto text-xs text-gray-600">{heatmapLabel}</span>
+                )}
             </div>
 
             {isOpen && hasChildren && (
                 <div>
                     {item.children!.map((child, index) => (
-                        <TreeNode key={index} item={child} level={level + 1} />
+                        <TreeNode
+                            key={index}
+                            item={child}
+                            level={level + 1}
+                            path={[...path, child.name]}
+                            heatmap={heatmap}
+                            maxima={maxima}
+                            selectedPath={selectedPath}
+                            onNodeSelect={onNodeSelect}
+                            defaultOpen={defaultOpen}
+                        />
                     ))}
                 </div>
             )}
@@ -54,7 +112,16 @@ function TreeNode({ item, level }: TreeNodeProps) {
     );
 }
 
-export function TreeViewer({ tree }: TreeViewerProps) {
+export function TreeViewer({ tree, heatmap, selectedPath, onNodeSelect, defaultOpen = false }: TreeViewerProps) {
+    // Scale heatmap intensity against the busiest node in the tree
+    const maxima = useMemo(() => {
+        const values = heatmap ? Array.from(heatmap.nodes.values()) : [];
+        return {
+            visits: Math.max(0, ...values.map(n => n.visits)),
+            wrongNominations: Math.max(0, ...values.map(n => n.wrongNominations)),
+        };
+    }, [heatmap]);
+
     if (!tree || tree.length === 0) {
         return <div className="text-sm text-gray-500 italic">No tree structure available.</div>;
     }
@@ -63,7 +130,17 @@ export function TreeViewer({ tree }: TreeViewerProps) {
         <div className="rounded-md border bg-white p-4">
             <div className="space-y-1">
                 {tree.map((item, index) => (
-                    <TreeNode key={index} item={item} level={0} />
+                    <TreeNode
+                        key={index}
+                        item={item}
+                        level={0}
+                        path={[item.name]}
+                        heatmap={heatmap}
+                        maxima={maxima}
+                        selectedPath={selectedPath}
+                        onNodeSelect={onNodeSelect}
+                        defaultOpen={defaultOpen}
+                    />
                 ))}
             </div>
         </div>
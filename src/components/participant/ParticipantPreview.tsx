@@ -1,24 +1,43 @@
 import { useState, useEffect } from "react";
-import { ChevronRight, ChevronDown, Folder, File, Home, Check, Loader2 } from "lucide-react";
+import { ChevronRight, ChevronDown, Folder, File, Home, Check, Loader2, Copy } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import type { StudyConfig, TreeNode, Task } from "@/lib/types/study";
+import type { StudyConfig, TreeNode, Task, QuestionAnswer, QuestionnaireBlock, TaskEventType, TaskFollowUpQuestion } from "@/lib/types/study";
 import type { Item } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { sanitizeTreeTestLink } from "@/lib/utils";
+import { getCompletionRedirectUrl } from "@/lib/utils/completion";
+import { DEFAULT_SCREENED_OUT_MESSAGE, evaluateScreener, type ScreeningResult } from "@/lib/utils/screener";
+import { getTaskFollowUpQuestions, isCorrectSelection } from "@/lib/utils/task-follow-ups";
+import { getConfidenceValues, resolveConfidenceScale } from "@/lib/utils/confidence-scale";
+import type { ParticipantProgress, TestPhase } from "@/lib/utils/participant-session";
+import { QuestionnaireForm } from "./QuestionnaireForm";
+import { TaskCountdown } from "./TaskCountdown";
 
 interface ParticipantPreviewProps {
     study: StudyConfig;
     shuffledTasks?: Task[] | null; // Shuffled tasks if randomization is enabled
+    displayTree?: TreeNode[] | null; // Tree with shuffled siblings if tree order randomization is enabled
+    seed?: number; // Seed behind the task and tree order, shown in preview so the order can be replayed
+    treeVariantName?: string; // Tree variant shown, named in the preview banner when the study has several
     // Optional callbacks for data tracking (used in actual participant view)
     onTestStart?: (taskIndex: number) => void;
     onNodeClick?: (taskIndex: number, path: string) => void;
-    onTaskComplete?: (taskIndex: number, selectedPath: string, confidence?: number) => void;
-    onTestComplete?: (results: Array<{ taskIndex: number; selectedPath: string; confidence?: number }>) => void;
+    onTaskEvent?: (taskIndex: number, type: TaskEventType, path: string) => void; // Every click during a task, for the event log
+    onTaskComplete?: (taskIndex: number, selectedPath: string, confidence?: number, timedOut?: boolean) => void;
+    onTestComplete?: (results: Array<{ taskIndex: number; selectedPath: string; confidence?: number; timedOut?: boolean }>) => void;
+    onQuestionnaireSubmit?: (block: QuestionnaireBlock, answers: Record<string, QuestionAnswer>) => void;
+    onScreenerSubmit?: (answers: Record<string, QuestionAnswer>) => Promise<ScreeningResult>; // Checks quotas and records disqualified participants
+    onTaskFollowUpSubmit?: (taskIndex: number, answers: Record<string, QuestionAnswer>) => void;
     isSubmitting?: boolean;
     isPreview?: boolean; // If true, shows preview banner and doesn't track data
+    completionRedirectUrl?: string | null; // Set once results are submitted and the study redirects on completion
+    screenedOutRedirectUrl?: string | null; // Set once a disqualified participant is recorded and the study redirects them
+    initialProgress?: ParticipantProgress | null; // Where a resumed session left off
+    initialTaskElapsedSeconds?: number; // Time already spent on the resumed task, taken off its time limit
+    onProgressChange?: (progress: ParticipantProgress) => void; // Called when the phase, task or answers change, to save the session
 }
 
 // Convert TreeNode[] to Item[]
@@ -30,38 +49,86 @@ const convertTreeNodesToItems = (nodes: TreeNode[]): Item[] => {
     }));
 };
 
-type TestPhase = "welcome" | "instructions" | "task" | "completed";
-
 export function ParticipantPreview({ 
     study, 
     shuffledTasks,
+    displayTree,
+    seed,
+    treeVariantName,
     onTestStart,
     onNodeClick,
+    onTaskEvent,
     onTaskComplete,
     onTestComplete,
+    onQuestionnaireSubmit,
+    onScreenerSubmit,
+    onTaskFollowUpSubmit,
     isSubmitting = false,
     isPreview = false,
+    completionRedirectUrl = null,
+    screenedOutRedirectUrl = null,
+    initialProgress = null,
+    initialTaskElapsedSeconds = 0,
+    onProgressChange,
 }: ParticipantPreviewProps) {
-    const [phase, setPhase] = useState<TestPhase>("welcome");
-    const [currentTaskIndex, setCurrentTaskIndex] = useState(0);
+    const [phase, setPhase] = useState<TestPhase>(initialProgress?.phase ?? "welcome");
+    const [currentTaskIndex, setCurrentTaskIndex] = useState(initialProgress?.currentTaskIndex ?? 0);
     const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
     const [lastClickedPath, setLastClickedPath] = useState<string>("");
     const [selectedPath, setSelectedPath] = useState<string>("");
     const [breadcrumb, setBreadcrumb] = useState<string[]>([]);
     const [confidence, setConfidence] = useState<number | undefined>(undefined);
-    const [taskResults, setTaskResults] = useState<Array<{ taskIndex: number; selectedPath: string; confidence?: number }>>([]);
+    const [taskResults, setTaskResults] = useState<Array<{ taskIndex: number; selectedPath: string; confidence?: number; timedOut?: boolean }>>(initialProgress?.taskResults ?? []);
+    const [codeCopied, setCodeCopied] = useState(false);
+    const [isScreening, setIsScreening] = useState(false);
+    const [followUpQuestions, setFollowUpQuestions] = useState<TaskFollowUpQuestion[]>(() => {
+        // A session resumed on a follow-up asks the questions for the answer just given
+        const lastResult = initialProgress?.taskResults[initialProgress.taskResults.length - 1];
+        const task = (shuffledTasks || study.tasks)[initialProgress?.currentTaskIndex ?? 0];
+        return initialProgress?.phase === "follow-up" && lastResult && task
+            ? getTaskFollowUpQuestions(task, isCorrectSelection(task, lastResult.selectedPath))
+            : [];
+    });
 
     // Use shuffled tasks if provided, otherwise use original tasks
     const tasksToUse = shuffledTasks || study.tasks;
     
-    const items = convertTreeNodesToItems(study.tree);
+    const items = convertTreeNodesToItems(displayTree || study.tree);
     const currentTask = tasksToUse[currentTaskIndex];
     const isLastTask = currentTaskIndex === tasksToUse.length - 1;
 
+    const confidenceScale = resolveConfidenceScale(study.settings.confidenceScale);
+    const screenerQuestions = study.questionnaires?.screener || [];
+    const preTestQuestions = study.questionnaires?.["pre-test"] || [];
+    const postTestQuestions = study.questionnaires?.["post-test"] || [];
+
+    const completionCode = study.settings.completion?.completionCode?.trim();
+    // Preview never redirects; show where a participant would be sent instead
+    const previewRedirectUrl = isPreview
+        ? getCompletionRedirectUrl(study.settings.completion, phase === "screened-out" ? "screened-out" : "completed", "PREVIEW")
+        : null;
+
+    const handleCopyCode = async () => {
+        if (!completionCode) return;
+        try {
+            await navigator.clipboard.writeText(completionCode);
+            setCodeCopied(true);
+            setTimeout(() => setCodeCopied(false), 2000);
+        } catch (err) {
+            console.error("Failed to copy completion code: ", err);
+        }
+    };
+
     const buildPath = (parentPath: string, nodeName: string): string => {
         return parentPath ? `${parentPath}/${nodeName}` : `/${nodeName}`;
     };
 
+    const trackTaskEvent = (type: TaskEventType, path: string) => {
+        if (onTaskEvent && phase === "task") {
+            onTaskEvent(currentTaskIndex, type, path);
+        }
+    };
+
     const toggleNode = (path: string) => {
         const newExpanded = new Set<string>();
         
@@ -149,6 +216,7 @@ export function ParticipantPreview({
         setExpandedNodes(pathsToExpand);
         setSelectedPath("");
         setLastClickedPath(newPath);
+        trackTaskEvent("breadcrumb-back", newPath);
         
         // Track breadcrumb click (backtracking) if callback provided
         // This ensures backtracking behavior is recorded for analysis
@@ -158,6 +226,12 @@ export function ParticipantPreview({
     };
 
     const handleFindItHere = (path: string) => {
+        trackTaskEvent("select", path);
+        // Without a confidence rating the answer is final straight away
+        if (!confidenceScale.enabled) {
+            completeTask(path, undefined);
+            return;
+        }
         // Set as selected path - this will show the confidence rating
         setSelectedPath(path);
         setLastClickedPath("");
@@ -166,39 +240,28 @@ export function ParticipantPreview({
 
     const handleSubmitConfidence = () => {
         if (!selectedPath) return;
-        
+        completeTask(selectedPath, confidence);
+    };
+
+    const completeTask = (path: string, rating: number | undefined) => {
         // Store task result
         const result = {
             taskIndex: currentTaskIndex,
-            selectedPath: selectedPath,
-            confidence: confidence,
+            selectedPath: path,
+            confidence: rating,
         };
         setTaskResults(prev => [...prev, result]);
         
         // Call task complete callback if provided
         if (onTaskComplete) {
-            onTaskComplete(currentTaskIndex, selectedPath, confidence);
+            onTaskComplete(currentTaskIndex, path, rating);
         }
         
-        // Move to next task or complete
-        if (isLastTask) {
-            // All tasks complete - submit results
-            if (onTestComplete) {
-                const allResults = [...taskResults, result];
-                onTestComplete(allResults);
-            }
-            setPhase("completed");
-        } else {
-            setCurrentTaskIndex(currentTaskIndex + 1);
-            setSelectedPath("");
-            setExpandedNodes(new Set());
-            setBreadcrumb([]);
-            setLastClickedPath("");
-            setConfidence(undefined); // Reset confidence for next task
-        }
+        continueAfterTask(result);
     };
 
     const handleSkipTask = () => {
+        trackTaskEvent("skip", lastClickedPath);
         // Record skipped task with no selected path
         const result = {
             taskIndex: currentTaskIndex,
@@ -212,14 +275,48 @@ export function ParticipantPreview({
             onTaskComplete(currentTaskIndex, "", undefined);
         }
         
-        // Move to next task or complete
+        continueAfterTask(result);
+    };
+
+    // Time ran out: record the attempt as a timeout and move on as if the task was finished
+    const handleTaskTimeout = () => {
+        const result = {
+            taskIndex: currentTaskIndex,
+            selectedPath: "",
+            confidence: undefined,
+            timedOut: true,
+        };
+        setTaskResults(prev => [...prev, result]);
+
+        if (onTaskComplete) {
+            onTaskComplete(currentTaskIndex, "", undefined, true);
+        }
+
+        continueAfterTask(result);
+    };
+
+    // Ask the task's follow-up questions (if any apply to this outcome) before moving on
+    const continueAfterTask = (result: { taskIndex: number; selectedPath: string; confidence?: number; timedOut?: boolean }) => {
+        const followUps = getTaskFollowUpQuestions(currentTask, isCorrectSelection(currentTask, result.selectedPath));
+        if (followUps.length > 0) {
+            setFollowUpQuestions(followUps);
+            setPhase("follow-up");
+            return;
+        }
+        goToNextTask([...taskResults, result]);
+    };
+
+    const handleFollowUpSubmit = (answers: Record<string, QuestionAnswer>) => {
+        if (onTaskFollowUpSubmit) {
+            onTaskFollowUpSubmit(currentTaskIndex, answers);
+        }
+        goToNextTask(taskResults);
+    };
+
+    // Move to next task or complete
+    const goToNextTask = (allResults: Array<{ taskIndex: number; selectedPath: string; confidence?: number; timedOut?: boolean }>) => {
         if (isLastTask) {
-            // All tasks complete - submit results
-            if (onTestComplete) {
-                const allResults = [...taskResults, result];
-                onTestComplete(allResults);
-            }
-            setPhase("completed");
+            finishTasks(allResults);
         } else {
             setCurrentTaskIndex(currentTaskIndex + 1);
             setSelectedPath("");
@@ -227,17 +324,65 @@ export function ParticipantPreview({
             setBreadcrumb([]);
             setLastClickedPath("");
             setConfidence(undefined); // Reset confidence for next task
+            setPhase("task");
+        }
+    };
+
+    // All tasks done - ask the post-test questions first, otherwise submit results
+    const finishTasks = (allResults: Array<{ taskIndex: number; selectedPath: string; confidence?: number; timedOut?: boolean }>) => {
+        if (postTestQuestions.length > 0) {
+            setPhase("post-test");
+            return;
+        }
+        if (onTestComplete) {
+            onTestComplete(allResults);
+        }
+        setPhase("completed");
+    };
+
+    // The participant view also checks quotas against stored results; the preview only checks qualifying answers
+    const screenParticipant = async (answers: Record<string, QuestionAnswer>): Promise<ScreeningResult> => {
+        if (!onScreenerSubmit) {
+            return evaluateScreener(screenerQuestions, answers);
+        }
+        setIsScreening(true);
+        try {
+            return await onScreenerSubmit(answers);
+        } finally {
+            setIsScreening(false);
+        }
+    };
+
+    const handleQuestionnaireSubmit = async (block: QuestionnaireBlock, answers: Record<string, QuestionAnswer>) => {
+        if (onQuestionnaireSubmit) {
+            onQuestionnaireSubmit(block, answers);
+        }
+
+        if (block === "screener") {
+            const screening = await screenParticipant(answers);
+            if (!screening.qualified) {
+                setPhase("screened-out");
+                return;
+            }
+            setPhase(preTestQuestions.length > 0 ? "pre-test" : "instructions");
+        } else if (block === "pre-test") {
+            setPhase("instructions");
+        } else {
+            if (onTestComplete) {
+                onTestComplete(taskResults);
+            }
+            setPhase("completed");
         }
     };
 
     const handleNext = () => {
         if (phase === "welcome") {
-            setPhase("instructions");
+            setPhase(screenerQuestions.length > 0 ? "screener" : preTestQuestions.length > 0 ? "pre-test" : "instructions");
         } else if (phase === "instructions") {
             if (tasksToUse.length > 0) {
                 setPhase("task");
             } else {
-                setPhase("completed");
+                finishTasks([]);
             }
         }
     };
@@ -251,7 +396,7 @@ export function ParticipantPreview({
                 onTestStart(0);
             }
         } else {
-            setPhase("completed");
+            finishTasks([]);
         }
     };
     
@@ -262,6 +407,12 @@ export function ParticipantPreview({
         }
     }, [phase, currentTaskIndex, onTestStart]);
 
+    useEffect(() => {
+        if (onProgressChange) {
+            onProgressChange({ phase, currentTaskIndex, taskResults });
+        }
+    }, [phase, currentTaskIndex, taskResults, onProgressChange]);
+
     const renderNode = (node: Item, parentPath: string = "", level: number = 0): React.ReactElement => {
         const currentPath = buildPath(parentPath, node.name);
         const hasChildren = node.children && node.children.length > 0;
@@ -282,6 +433,7 @@ export function ParticipantPreview({
                     style={{ paddingLeft: `${level * 20 + 8}px` }}
                     onClick={(e) => {
                         e.stopPropagation();
+                        trackTaskEvent(hasChildren && isExpanded ? "collapse" : "expand", currentPath);
                         if (hasChildren) {
                             toggleNode(currentPath);
                         }
@@ -338,6 +490,14 @@ export function ParticipantPreview({
                 <div className="max-w-4xl mx-auto">
                     <p className="text-sm font-medium text-yellow-800">
                         ⚠️ Preview Mode - Not Collecting Responses
+                        {seed !== undefined && (
+                            <span className="ml-2 font-normal" title={`Add ?seed=${seed} to the preview URL to see this order again`}>
+                                · Seed {seed}
+                            </span>
+                        )}
+                        {treeVariantName && (
+                            <span className="ml-2 font-normal">· {treeVariantName}</span>
+                        )}
                     </p>
                 </div>
             </div>
@@ -367,6 +527,59 @@ export function ParticipantPreview({
                         </div>
                     )}
 
+                    {phase === "screener" && (
+                        <QuestionnaireForm
+                            key="screener"
+                            title="Before we begin"
+                            questions={screenerQuestions}
+                            submitLabel={study.settings.customText?.nextButton || "Next"}
+                            onSubmit={(answers) => handleQuestionnaireSubmit("screener", answers)}
+                            isSubmitting={isScreening}
+                        />
+                    )}
+
+                    {phase === "screened-out" && (
+                        <div className="space-y-6">
+                            <div className="prose prose-lg max-w-none text-gray-700">
+                                <ReactMarkdown 
+                                    remarkPlugins={[remarkGfm]}
+                                    components={{
+                                        a: ({ href, children }) => (
+                                            <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+                                        ),
+                                    }}
+                                >
+                                    {study.settings.screenedOutMessage || DEFAULT_SCREENED_OUT_MESSAGE}
+                                </ReactMarkdown>
+                            </div>
+
+                            {screenedOutRedirectUrl && (
+                                <p className="text-sm text-gray-500">
+                                    You will be redirected shortly.{" "}
+                                    <a href={screenedOutRedirectUrl} className="text-blue-600 hover:underline">
+                                        Continue now
+                                    </a>
+                                </p>
+                            )}
+
+                            {previewRedirectUrl && (
+                                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded px-3 py-2 break-all">
+                                    Participants will be redirected to: {previewRedirectUrl}
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    {phase === "pre-test" && (
+                        <QuestionnaireForm
+                            key="pre-test"
+                            title="A few questions about you"
+                            questions={preTestQuestions}
+                            submitLabel={study.settings.customText?.nextButton || "Next"}
+                            onSubmit={(answers) => handleQuestionnaireSubmit("pre-test", answers)}
+                        />
+                    )}
+
                     {phase === "instructions" && (
                         <div className="space-y-6">
                             <div className="prose prose-lg max-w-none text-gray-700">
@@ -399,6 +612,16 @@ export function ParticipantPreview({
                                     </h2>
                                     <p className="text-lg font-bold text-gray-900 mt-2">{currentTask.description}</p>
                                 </div>
+                                {!!currentTask.timeLimitSeconds && currentTask.timeLimitSeconds > 0 && (
+                                    <TaskCountdown
+                                        key={currentTaskIndex}
+                                        seconds={currentTaskIndex === initialProgress?.currentTaskIndex
+                                            ? Math.max(1, currentTask.timeLimitSeconds - Math.floor(initialTaskElapsedSeconds))
+                                            : currentTask.timeLimitSeconds}
+                                        paused={!!selectedPath}
+                                        onExpire={handleTaskTimeout}
+                                    />
+                                )}
                             </div>
 
                             {/* Breadcrumb */}
@@ -436,15 +659,15 @@ export function ParticipantPreview({
                                 <div className="border rounded-lg p-6 bg-gray-50">
                                     <div className="max-w-2xl mx-auto">
                                         <Label className="text-base font-medium text-gray-700 mb-4 block text-center">
-                                            How confident are you with your answer?
+                                            {confidenceScale.question}
                                         </Label>
                                         <div className="flex justify-center mb-4">
                                             <RadioGroup
-                                                value={confidence?.toString() || ""}
+                                                value={confidence?.toString() ?? ""}
                                                 onValueChange={(value) => setConfidence(parseInt(value))}
-                                                className="flex gap-4"
+                                                className="flex flex-wrap justify-center gap-4"
                                             >
-                                                {[1, 2, 3, 4, 5, 6, 7].map((rating) => (
+                                                {getConfidenceValues(confidenceScale).map((rating) => (
                                                     <div key={rating} className="flex items-center space-x-2">
                                                         <RadioGroupItem value={rating.toString()} id={`confidence-${rating}`} />
                                                         <Label htmlFor={`confidence-${rating}`} className="cursor-pointer">
@@ -454,13 +677,18 @@ export function ParticipantPreview({
                                                 ))}
                                             </RadioGroup>
                                         </div>
-                                        <p className="text-xs text-gray-500 text-center mb-4">
-                                            1 = Not confident, 7 = Very confident
-                                        </p>
+                                        {(confidenceScale.minLabel || confidenceScale.maxLabel) && (
+                                            <p className="text-xs text-gray-500 text-center mb-4">
+                                                {[
+                                                    confidenceScale.minLabel && `${confidenceScale.min} = ${confidenceScale.minLabel}`,
+                                                    confidenceScale.maxLabel && `${confidenceScale.max} = ${confidenceScale.maxLabel}`,
+                                                ].filter(Boolean).join(", ")}
+                                            </p>
+                                        )}
                                         <div className="flex justify-center">
                                             <Button
                                                 onClick={handleSubmitConfidence}
-                                                disabled={!confidence}
+                                                disabled={confidenceScale.required && confidence === undefined}
                                                 size="lg"
                                                 className="min-w-[120px]"
                                             >
@@ -486,6 +714,26 @@ export function ParticipantPreview({
                         </div>
                     )}
 
+                    {phase === "follow-up" && (
+                        <QuestionnaireForm
+                            key={`follow-up-${currentTaskIndex}`}
+                            title="A few questions about this task"
+                            questions={followUpQuestions}
+                            submitLabel={study.settings.customText?.nextButton || "Next"}
+                            onSubmit={handleFollowUpSubmit}
+                        />
+                    )}
+
+                    {phase === "post-test" && (
+                        <QuestionnaireForm
+                            key="post-test"
+                            title="A few final questions"
+                            questions={postTestQuestions}
+                            submitLabel={study.settings.customText?.submitButton || "Submit"}
+                            onSubmit={(answers) => handleQuestionnaireSubmit("post-test", answers)}
+                        />
+                    )}
+
                     {phase === "completed" && (
                         <div className="space-y-6">
                             {isSubmitting ? (
@@ -507,6 +755,36 @@ export function ParticipantPreview({
                                     </ReactMarkdown>
                                 </div>
                             )}
+
+                            {!isSubmitting && completionCode && (
+                                <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
+                                    <p className="text-sm text-gray-600 mb-2">Your completion code:</p>
+                                    <div className="flex items-center gap-2">
+                                        <code className="flex-1 rounded bg-white border border-gray-200 px-3 py-2 font-mono text-lg text-gray-900 select-all">
+                                            {completionCode}
+                                        </code>
+                                        <Button variant="outline" size="sm" onClick={handleCopyCode}>
+                                            {codeCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                                            <span className="ml-1">{codeCopied ? "Copied" : "Copy"}</span>
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+
+                            {!isSubmitting && completionRedirectUrl && (
+                                <p className="text-sm text-gray-500">
+                                    You will be redirected shortly.{" "}
+                                    <a href={completionRedirectUrl} className="text-blue-600 hover:underline">
+                                        Continue now
+                                    </a>
+                                </p>
+                            )}
+
+                            {previewRedirectUrl && (
+                                <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded px-3 py-2 break-all">
+                                    Participants will be redirected to: {previewRedirectUrl}
+                                </p>
+                            )}
                         </div>
                     )}
                 </div>
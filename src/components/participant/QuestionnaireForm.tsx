@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { Question, QuestionAnswer } from "@/lib/types/study";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { DEFAULT_LIKERT_POINTS, getMissingRequiredQuestions, SUS_STATEMENTS } from "@/lib/utils/questionnaires";
+
+interface QuestionnaireFormProps {
+    title: string;
+    questions: Question[];
+    submitLabel: string;
+    onSubmit: (answers: Record<string, QuestionAnswer>) => void;
+    isSubmitting?: boolean; // Disables the button while the answers are checked (e.g. screener quotas)
+}
+
+export function QuestionnaireForm({ title, questions, submitLabel, onSubmit, isSubmitting = false }: QuestionnaireFormProps) {
+    const [answers, setAnswers] = useState<Record<string, QuestionAnswer>>({});
+    const [showErrors, setShowErrors] = useState(false);
+
+    const missing = new Set(getMissingRequiredQuestions(questions, answers).map(q => q.id));
+
+    const setAnswer = (questionId: string, answer: QuestionAnswer | undefined) => {
+        setAnswers(prev => {
+            const next = { ...prev };
+            if (answer === undefined) {
+                delete next[questionId];
+            } else {
+                next[questionId] = answer;
+            }
+            return next;
+        });
+    };
+
+    const handleSubmit = () => {
+        if (missing.size > 0) {
+            setShowErrors(true);
+            return;
+        }
+        // Drop empty free-text answers so they aren't stored
+        const cleaned = Object.fromEntries(
+            Object.entries(answers).filter(([, answer]) => !(typeof answer === "string" && answer.trim() === ""))
+        );
+        onSubmit(cleaned);
+    };
+
+    return (
+        <div className="space-y-6">
+            <h2 className="text-xl font-semibold text-gray-900 border-b pb-4">{title}</h2>
+
+            {questions.map((question, index) => (
+                <div key={question.id} className="space-y-3">
+                    <Label className="text-base font-medium text-gray-800 block">
+                        {index + 1}. {question.type === "sus" && !question.text.trim()
+                            ? "Please rate how much you agree with each statement."
+                            : question.text}
+                        {question.required && <span className="text-red-500 ml-1">*</span>}
+                    </Label>
+
+                    <QuestionInput
+                        question={question}
+                        answer={answers[question.id]}
+                        onChange={(answer) => setAnswer(question.id, answer)}
+                    />
+
+                    {showErrors && missing.has(question.id) && (
+                        <p className="text-sm text-red-600">This question is required.</p>
+                    )}
+                </div>
+            ))}
+
+            <div className="flex justify-end pt-4 border-t">
+                <Button onClick={handleSubmit} size="lg" disabled={isSubmitting}>
+                    {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {submitLabel}
+                </Button>
+            </div>
+        </div>
+    );
+}
+
+interface QuestionInputProps {
+    question: Question;
+    answer: QuestionAnswer | undefined;
+    onChange: (answer: QuestionAnswer | undefined) => void;
+}
+
+function QuestionInput({ question, answer, onChange }: QuestionInputProps) {
+    switch (question.type) {
+        case "single-choice":
+            return (
+                <RadioGroup value={typeof answer === "string" ? answer : ""} onValueChange={onChange} className="space-y-2">
+                    {(question.options || []).filter(option => option.trim()).map((option, i) => (
+                        <div key={i} className="flex items-center space-x-2">
+                            <RadioGroupItem value={option} id={`${question.id}-${i}`} />
+                            <Label htmlFor={`${question.id}-${i}`} className="cursor-pointer font-normal">{option}</Label>
+                        </div>
+                    ))}
+                </RadioGroup>
+            );
+
+        case "multiple-choice": {
+            const selected = Array.isArray(answer) ? answer.map(String) : [];
+            const toggle = (option: string) => {
+                const next = selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option];
+                onChange(next.length > 0 ? next : undefined);
+            };
+            return (
+                <div className="space-y-2">
+                    {(question.options || []).filter(option => option.trim()).map((option, i) => (
+                        <label key={i} className="flex cursor-pointer items-center gap-2 text-sm text-gray-700">
+                            <input type="checkbox" checked={selected.includes(option)} onChange={() => toggle(option)} />
+                            {option}
+                        </label>
+                    ))}
+                </div>
+            );
+        }
+
+        case "likert": {
+            const points = question.scalePoints || DEFAULT_LIKERT_POINTS;
+            return (
+                <div className="space-y-2">
+                    <RadioGroup
+                        value={typeof answer === "number" ? answer.toString() : ""}
+                        onValueChange={(value) => onChange(parseInt(value))}
+                        className="flex flex-wrap gap-4"
+                    >
+                        {Array.from({ length: points }, (_, i) => i + 1).map((rating) => (
+                            <div key={rating} className="flex items-center space-x-2">
+                                <RadioGroupItem value={rating.toString()} id={`${question.id}-${rating}`} />
+                                <Label htmlFor={`${question.id}-${rating}`} className="cursor-pointer">{rating}</Label>
+                            </div>
+                        ))}
+                    </RadioGroup>
+                    {(question.minLabel || question.maxLabel) && (
+                        <p className="text-xs text-gray-500">
+                            1 = {question.minLabel || "Lowest"}, {points} = {question.maxLabel || "Highest"}
+                        </p>
+                    )}
+                </div>
+            );
+        }
+
+        case "free-text":
+            return (
+                <Textarea
+                    value={typeof answer === "string" ? answer : ""}
+                    onChange={(e) => onChange(e.target.value)}
+                    rows={3}
+                />
+            );
+
+        case "sus": {
+            const ratings = Array.isArray(answer) ? answer.map(Number) : [];
+            const setRating = (statementIndex: number, rating: number) => {
+                const next = SUS_STATEMENTS.map((_, i) => (i === statementIndex ? rating : ratings[i] || 0));
+                onChange(next);
+            };
+            return (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-xs text-gray-500">
+                                <th className="text-left font-normal py-2"></th>
+                                <th className="font-normal px-2">Strongly disagree</th>
+                                {[2, 3, 4].map(rating => <th key={rating} className="font-normal px-2"></th>)}
+                                <th className="font-normal px-2">Strongly agree</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {SUS_STATEMENTS.map((statement, statementIndex) => (
+                                <tr key={statementIndex} className="border-t">
+                                    <td className="py-2 pr-4 text-gray-700">{statement}</td>
+                                    {[1, 2, 3, 4, 5].map(rating => (
+                                        <td key={rating} className="px-2 text-center">
+                                            <input
+                                                type="radio"
+                                                name={`${question.id}-${statementIndex}`}
+                                                aria-label={`${statement} ${rating}`}
+                                                checked={ratings[statementIndex] === rating}
+                                                onChange={() => setRating(statementIndex, rating)}
+                                            />
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        }
+    }
+}
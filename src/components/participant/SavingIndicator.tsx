@@ -0,0 +1,37 @@
+import { useSyncExternalStore } from "react";
+import { CloudOff, Loader2 } from "lucide-react";
+import { getOutboxStatus, subscribeToOutbox } from "@/lib/storage/outbox";
+
+/**
+ * Saving Indicator Component
+ *
+ * Small corner badge shown while results are waiting to be sent. It doesn't block the
+ * participant; results that can't be sent yet are kept on the device and retried.
+ */
+export function SavingIndicator() {
+    const status = useSyncExternalStore(subscribeToOutbox, getOutboxStatus);
+
+    if (status.pending === 0) return null;
+
+    const isOffline = !status.sending && !!status.lastError;
+
+    return (
+        <div
+            role="status"
+            aria-live="polite"
+            className="fixed bottom-4 right-4 z-50 flex items-center gap-2 rounded-full border border-gray-200 bg-white px-3 py-1.5 text-xs text-gray-600 shadow-sm"
+        >
+            {isOffline ? (
+                <>
+                    <CloudOff className="h-3.5 w-3.5 text-amber-600" />
+                    <span>Your answers are saved on this device and will be sent when you're back online</span>
+                </>
+            ) : (
+                <>
+                    <Loader2 className="h-3.5 w-3.5 animate-spin text-blue-600" />
+                    <span>Saving…</span>
+                </>
+            )}
+        </div>
+    );
+}
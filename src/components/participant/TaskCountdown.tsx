@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from "react";
+import { Timer } from "lucide-react";
+
+interface TaskCountdownProps {
+    seconds: number; // Time limit; remount (e.g. with a key per task) to restart
+    paused?: boolean; // Stops the clock, e.g. while the participant rates their confidence
+    onExpire: () => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+export function TaskCountdown({ seconds, paused = false, onExpire }: TaskCountdownProps) {
+    const [secondsLeft, setSecondsLeft] = useState(seconds);
+    const hasExpired = useRef(false);
+
+    useEffect(() => {
+        if (paused) return;
+        const interval = setInterval(() => {
+            setSecondsLeft(left => Math.max(0, left - 1));
+        }, 1000);
+        return () => clearInterval(interval);
+    }, [paused]);
+
+    useEffect(() => {
+        if (secondsLeft > 0 || hasExpired.current) return;
+        hasExpired.current = true;
+        onExpire();
+    }, [secondsLeft, onExpire]);
+
+    const isRunningOut = secondsLeft <= 10;
+
+    return (
+        <div
+            className={`flex items-center gap-1.5 rounded-md border px-3 py-1.5 text-sm font-medium tabular-nums ${isRunningOut ? "border-red-200 bg-red-50 text-red-700" : "border-gray-200 bg-gray-50 text-gray-700"}`}
+            role="timer"
+            aria-live={isRunningOut ? "polite" : "off"}
+            title="Time left for this task"
+        >
+            <Timer className="h-4 w-4" />
+            {formatTime(secondsLeft)}
+        </div>
+    );
+}
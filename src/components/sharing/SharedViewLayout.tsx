@@ -1,14 +1,22 @@
-import { useState } from "react";
-import type { UploadedData } from "@/lib/types";
+import { useMemo, useState } from "react";
+import type { SegmentFilter, UploadedData } from "@/lib/types";
+import { Switch } from "@/components/ui/switch";
+import { applyExclusions, getExcludedCount } from "@/lib/utils/exclusions";
+import { applySegmentFilters, getAttributeValues } from "@/lib/utils/segments";
+import { applySelectedTreeVariant, getAnalyzerTreeVariants } from "@/lib/utils/tree-variants";
+import { hasQuestionnaireData } from "@/lib/stats/questionnaires";
 import type { ShareLink } from "@/lib/sharing/types";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { BarChart3, PieChart as PieChartIcon, Network, Users, FileText, RefreshCw } from "lucide-react";
+import { BarChart3, PieChart as PieChartIcon, Network, Users, FileText, RefreshCw, MessageSquare } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { OverviewTab } from "../dashboard/OverviewTab";
 import { TasksTab } from "../dashboard/TasksTab";
 import { ParticipantsTab } from "../dashboard/ParticipantsTab";
 import { PietreeTab } from "../dashboard/PietreeTab";
+import { QuestionnairesTab } from "../dashboard/QuestionnairesTab";
 import { ExportTab } from "../dashboard/ExportTab";
+import { SegmentFilterBar } from "../dashboard/SegmentFilterBar";
+import { TreeVariantBar } from "../dashboard/TreeVariantBar";
 
 interface SharedViewLayoutProps {
   data: UploadedData;
@@ -24,6 +32,25 @@ export function SharedViewLayout({
   isRefreshing = false,
 }: SharedViewLayoutProps) {
   const [activeTab, setActiveTab] = useState("overview");
+  // Viewers can toggle excluded participants and segments locally; the creator's settings are only the starting point
+  const [showExcluded, setShowExcluded] = useState(!!data.showExcluded);
+  const [segmentFilters, setSegmentFilters] = useState<SegmentFilter[]>(data.segmentFilters || []);
+  const [selectedTreeVariant, setSelectedTreeVariant] = useState(data.selectedTreeVariant);
+  const viewData = useMemo(
+    () => ({ ...data, showExcluded, segmentFilters, selectedTreeVariant }),
+    [data, showExcluded, segmentFilters, selectedTreeVariant]
+  );
+  const treeVariants = useMemo(() => getAnalyzerTreeVariants(data), [data]);
+  const selectedVariantId = (treeVariants.find(v => v.id === selectedTreeVariant) || treeVariants[0])?.id;
+  const variantData = useMemo(() => applySelectedTreeVariant(viewData), [viewData]);
+  const segmentData = useMemo(() => applySegmentFilters(variantData), [variantData]);
+  const analysisData = useMemo(() => applyExclusions(segmentData), [segmentData]);
+  const attributeValues = useMemo(() => getAttributeValues(data), [data]);
+  const visibleParticipantIds = useMemo(
+    () => segmentData === viewData ? undefined : new Set(segmentData.participants.map(p => p.id)),
+    [viewData, segmentData]
+  );
+  const excludedCount = getExcludedCount(data);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
@@ -52,8 +79,17 @@ export function SharedViewLayout({
                 </p>
                 <span className="text-sm text-gray-400">•</span>
                 <span className="text-sm text-gray-500">
-                  {data.participants.length} participants • {data.tasks.length} tasks
+                  {analysisData.participants.length} participants • {data.tasks.length} tasks
                 </span>
+                {excludedCount > 0 && (
+                  <>
+                    <span className="text-sm text-gray-400">•</span>
+                    <label className="flex items-center gap-2 text-sm text-gray-500">
+                      <Switch checked={showExcluded} onCheckedChange={setShowExcluded} />
+                      Show {excludedCount} excluded
+                    </label>
+                  </>
+                )}
                 <span className="text-sm text-gray-400">•</span>
                 <span className="text-sm text-gray-500">
                   Last updated: {formatDate(data.updatedAt)}
@@ -77,6 +113,27 @@ export function SharedViewLayout({
       </div>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {selectedVariantId && (
+          <div className="mb-4">
+            <TreeVariantBar
+              data={data}
+              variants={treeVariants}
+              selectedId={selectedVariantId}
+              onSelect={setSelectedTreeVariant}
+            />
+          </div>
+        )}
+        {attributeValues.size > 0 && (
+          <div className="mb-6">
+            <SegmentFilterBar
+              attributes={attributeValues}
+              filters={segmentFilters}
+              onFiltersChange={setSegmentFilters}
+              matchingCount={segmentData.participants.length}
+              totalCount={variantData.participants.length}
+            />
+          </div>
+        )}
         <Tabs className="space-y-6">
           <TabsList className="flex w-full overflow-x-auto lg:justify-start">
             <TabsTrigger
@@ -106,6 +163,17 @@ export function SharedViewLayout({
               <Users className="mr-1 sm:mr-2 h-4 w-4" />
               <span className="hidden sm:inline">Participants</span>
             </TabsTrigger>
+            {hasQuestionnaireData(data) && (
+              <TabsTrigger
+                value="questionnaires"
+                isActive={activeTab === "questionnaires"}
+                onClick={() => setActiveTab("questionnaires")}
+                className="flex-shrink-0"
+              >
+                <MessageSquare className="mr-1 sm:mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Questionnaires</span>
+              </TabsTrigger>
+            )}
             <TabsTrigger
               value="pietree"
               isActive={activeTab === "pietree"}
@@ -127,23 +195,27 @@ export function SharedViewLayout({
           </TabsList>
 
           <TabsContent value="overview" activeValue={activeTab}>
-            <OverviewTab data={data} />
+            <OverviewTab data={analysisData} screeningData={segmentData} />
           </TabsContent>
 
           <TabsContent value="tasks" activeValue={activeTab}>
-            <TasksTab data={data} />
+            <TasksTab data={analysisData} />
           </TabsContent>
 
           <TabsContent value="participants" activeValue={activeTab}>
-            <ParticipantsTab data={data} />
+            <ParticipantsTab data={viewData} visibleParticipantIds={visibleParticipantIds} />
+          </TabsContent>
+
+          <TabsContent value="questionnaires" activeValue={activeTab}>
+            <QuestionnairesTab data={analysisData} />
           </TabsContent>
 
           <TabsContent value="pietree" activeValue={activeTab}>
-            <PietreeTab data={data} />
+            <PietreeTab data={analysisData} />
           </TabsContent>
 
           <TabsContent value="export" activeValue={activeTab}>
-            <ExportTab data={data} />
+            <ExportTab data={segmentData} />
           </TabsContent>
         </Tabs>
       </main>
@@ -16,6 +16,7 @@ const colorMap = {
     "bg-red-300": "#fca5a5",
     "bg-gray-500": "#6b7280",
     "bg-gray-300": "#d1d5db",
+    "bg-amber-500": "#f59e0b",
 };
 
 export function PieChart({ data }: PieChartProps) {
@@ -1,5 +1,11 @@
 import * as XLSX from "xlsx";
 import type { UploadedData } from "./types";
+import { getAnalyzedQuestions } from "./stats/questionnaires";
+import { hasFollowUpData } from "./stats/follow-ups";
+import { formatAnswer, getQuestionLabel } from "./utils/questionnaires";
+import { serializeTreeOrder } from "./utils/tree-randomizer";
+
+const RESULT_TASK_COLUMNS = ["Task Index", "Presented Position", "Task Success", "Direct Path", "Skipped", "Timed Out", "Time (s)", "Path Taken", "Confidence"];
 
 export function downloadFile(content: string, filename: string, mimeType: string): void {
     const blob = new Blob([content], { type: mimeType });
@@ -21,7 +27,8 @@ export function exportToExcel(data: UploadedData, filename: string = "tree-test-
         "Task Index": t.index,
         "Task ID": t.id,
         "Description": t.description,
-        "Expected Answer": t.expectedAnswer
+        "Expected Answer": t.expectedAnswer,
+        "Time Limit (s)": t.timeLimitSeconds ?? ""
     }));
     const wsTasks = XLSX.utils.json_to_sheet(tasksData);
     XLSX.utils.book_append_sheet(wb, wsTasks, "Tasks");
@@ -45,27 +52,112 @@ export function exportToExcel(data: UploadedData, filename: string = "tree-test-
     }
 
     // 3. Participants & Results Sheet
-    // Flattening participant data: One row per task result per participant
+    // Flattening participant data: One row per task result per participant,
+    // or a single participant row for those without task results (e.g. disqualified by the screener)
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const resultsData: any[] = [];
+    const exclusionsById = new Map((data.exclusions || []).map(e => [e.participantId, e]));
     data.participants.forEach(p => {
+        const exclusion = exclusionsById.get(p.id);
+        const participantColumns = {
+            "Participant ID": p.id,
+            "Status": p.status,
+            "Disqualification Reason": p.disqualificationReason ?? "",
+            "Excluded": !!exclusion,
+            "Exclusion Reason": exclusion?.reason || "",
+            "Exclusion Source": exclusion?.source || "",
+            "Duration (s)": p.durationSeconds,
+            "Random Seed": p.randomSeed ?? "",
+            "Tree Order": serializeTreeOrder(p.treeOrder) ?? "",
+            "Tree Variant": p.treeVariant ?? "",
+        };
+        // Prefixed so an attribute such as "Status" can't overwrite a result column
+        const attributeColumns = Object.fromEntries(Object.entries(p.attributes || {}).map(([name, value]) => [`Attribute: ${name}`, value]));
+
+        if (p.taskResults.length === 0) {
+            // Blank task columns keep the column order the same whichever participant comes first
+            const blankTaskColumns = Object.fromEntries(RESULT_TASK_COLUMNS.map(column => [column, ""]));
+            resultsData.push({ ...participantColumns, ...blankTaskColumns, ...attributeColumns });
+            return;
+        }
         p.taskResults.forEach(r => {
             resultsData.push({
-                "Participant ID": p.id,
-                "Status": p.status,
-                "Duration (s)": p.durationSeconds,
+                ...participantColumns,
                 "Task Index": r.taskIndex,
+                "Presented Position": r.presentedPosition ?? "",
                 "Task Success": r.successful,
                 "Direct Path": r.directPathTaken,
                 "Skipped": r.skipped,
+                "Timed Out": !!r.timedOut,
                 "Time (s)": r.completionTimeSeconds,
                 "Path Taken": r.pathTaken,
-                "Confidence": r.confidenceRating
+                "Confidence": r.confidenceRating,
+                ...attributeColumns
             });
         });
     });
     const wsResults = XLSX.utils.json_to_sheet(resultsData);
     XLSX.utils.book_append_sheet(wb, wsResults, "Results");
 
+    // 4. Questionnaire Answers Sheet: one row per participant, one column per question
+    const questions = getAnalyzedQuestions(data);
+    if (questions.length > 0) {
+        const answersData = data.participants
+            .filter(p => p.questionnaireAnswers && Object.keys(p.questionnaireAnswers).length > 0)
+            .map(p => ({
+                "Participant ID": p.id,
+                ...Object.fromEntries(questions.map(q => [getQuestionLabel(q), formatAnswer(q, p.questionnaireAnswers?.[q.id])]))
+            }));
+        const wsAnswers = XLSX.utils.json_to_sheet(answersData);
+        XLSX.utils.book_append_sheet(wb, wsAnswers, "Questionnaire Answers");
+    }
+
+    // 5. Task Follow-up Answers Sheet: one row per answered follow-up question
+    if (hasFollowUpData(data)) {
+        const followUpData = data.participants.flatMap(p => p.taskResults.flatMap(r => {
+            const questions = data.tasks.find(t => t.id === r.taskId)?.followUpQuestions || [];
+            return Object.entries(r.followUpAnswers || {}).map(([questionId, answer]) => {
+                const question = questions.find(q => q.id === questionId);
+                return {
+                    "Participant ID": p.id,
+                    "Task Index": r.taskIndex,
+                    "Task Success": r.successful,
+                    "Question": question ? getQuestionLabel(question) : questionId,
+                    "Answer": formatAnswer(question || { type: "free-text" }, answer)
+                };
+            });
+        }));
+        const wsFollowUps = XLSX.utils.json_to_sheet(followUpData);
+        XLSX.utils.book_append_sheet(wb, wsFollowUps, "Task Follow-up Answers");
+    }
+
+    // 6. Click Events Sheet: one row per recorded click
+    const eventData = data.participants.flatMap(p => p.taskResults.flatMap(r =>
+        (r.events || []).map(event => ({
+            "Participant ID": p.id,
+            "Task Index": r.taskIndex,
+            "Event": event.type,
+            "Path": event.path,
+            "Time (ms)": event.time
+        }))
+    ));
+    if (eventData.length > 0) {
+        const wsEvents = XLSX.utils.json_to_sheet(eventData);
+        XLSX.utils.book_append_sheet(wb, wsEvents, "Click Events");
+    }
+
+    // 7. Exclusion Audit Sheet (if any participants were ever excluded)
+    if (data.exclusionAudit && data.exclusionAudit.length > 0) {
+        const auditData = data.exclusionAudit.map(entry => ({
+            "Participant ID": entry.participantId,
+            "Action": entry.action,
+            "Reason": entry.reason,
+            "Source": entry.source,
+            "Timestamp": entry.timestamp
+        }));
+        const wsAudit = XLSX.utils.json_to_sheet(auditData);
+        XLSX.utils.book_append_sheet(wb, wsAudit, "Exclusion Audit");
+    }
+
     XLSX.writeFile(wb, filename);
 }
@@ -1,5 +1,18 @@
 import * as XLSX from "xlsx";
 import type { Item, Participant, TaskResult, UploadedData } from "./types";
+import { parseUrlParameters, URL_PARAMETERS_COLUMN } from "./utils/url-parameters";
+import { parseQuestionnaireAnswers, QUESTIONNAIRE_ANSWERS_COLUMN } from "./utils/questionnaires";
+import { parseTaskFollowUpAnswers, TASK_FOLLOW_UP_ANSWERS_COLUMN } from "./utils/task-follow-ups";
+import { parseTaskEvents, TASK_EVENTS_COLUMN } from "./utils/task-events";
+import { parseTaskOrder, TASK_ORDER_COLUMN } from "./utils/task-randomizer";
+import { parseSeed, RANDOM_SEED_COLUMN } from "./utils/random";
+import { parseTreeOrder, TREE_ORDER_COLUMN } from "./utils/tree-randomizer";
+import { TREE_VARIANT_COLUMN } from "./utils/tree-variants";
+import { DISQUALIFICATION_REASON_COLUMN, parseDisqualificationReason } from "./utils/screener";
+import { findConfidenceColumn, parseConfidenceRating } from "./utils/confidence-scale";
+
+// Columns with a fixed meaning; every other non-task column is imported as a participant attribute
+const KNOWN_PARTICIPANT_COLUMNS = new Set(["Participant ID", "Status", "Start Time (UTC)", "End Time (UTC)", "Time Taken", URL_PARAMETERS_COLUMN, QUESTIONNAIRE_ANSWERS_COLUMN, TASK_FOLLOW_UP_ANSWERS_COLUMN, TASK_ORDER_COLUMN, RANDOM_SEED_COLUMN, TREE_ORDER_COLUMN, TREE_VARIANT_COLUMN, TASK_EVENTS_COLUMN, DISQUALIFICATION_REASON_COLUMN]);
 
 export async function parseResponseData(file: File): Promise<Omit<UploadedData, "id" | "createdAt" | "updatedAt">> {
     return new Promise((resolve, reject) => {
@@ -34,6 +47,10 @@ export async function parseResponseData(file: File): Promise<Omit<UploadedData,
 
                 const sortedTaskIndices = Array.from(taskIndices).sort((a, b) => a - b);
 
+                // Rating columns may use other wording; empty cells are left out of a row, so look at every row
+                const allColumns = new Set(jsonData.flatMap(row => Object.keys(row as object)));
+                const confidenceColumns = new Map(sortedTaskIndices.map(index => [index, findConfidenceColumn(allColumns, index)]));
+
                 // Create task definitions (we might not have description/answer in the excel, 
                 // so we might need to infer or use placeholders if not provided elsewhere)
                 // For now, we'll create placeholders based on the indices found.
@@ -49,7 +66,7 @@ export async function parseResponseData(file: File): Promise<Omit<UploadedData,
                 jsonData.forEach((row: any, index) => {
                     const participantId = row["Participant ID"]?.toString() || `p-${index}`;
                     const rawStatus = (row["Status"] || "").toString().trim().toLowerCase();
-                    const status = rawStatus === "completed" ? "Completed" : "Incomplete";
+                    const status = rawStatus === "completed" ? "Completed" : rawStatus === "disqualified" ? "Disqualified" : "Incomplete";
                     const startedAt = new Date(row["Start Time (UTC)"] || new Date());
                     const completedAt = row["End Time (UTC)"] ? new Date(row["End Time (UTC)"]) : null;
 
@@ -63,15 +80,20 @@ export async function parseResponseData(file: File): Promise<Omit<UploadedData,
                     }
 
                     const taskResults: TaskResult[] = [];
+                    const taskOrder = parseTaskOrder(row[TASK_ORDER_COLUMN]);
+                    const followUpAnswers = parseTaskFollowUpAnswers(row[TASK_FOLLOW_UP_ANSWERS_COLUMN]);
+                    const taskEvents = parseTaskEvents(row[TASK_EVENTS_COLUMN]);
 
                     sortedTaskIndices.forEach(taskIndex => {
                         const pathTaken = row[`Task ${taskIndex} Path Taken`];
                         const outcome = row[`Task ${taskIndex} Path Outcome`];
-                        const confidence = row[`Task ${taskIndex}: How confident are you with your answer?`];
+                        const confidenceColumn = confidenceColumns.get(taskIndex);
+                        const confidence = confidenceColumn ? row[confidenceColumn] : undefined;
 
-                        // Skip if no data for this task (e.g. abandoned before reaching it)
-                        if (pathTaken === undefined && outcome === undefined) return;
+                        // Skip if the task has no outcome: never reached, or not shown in a partial task set (written as an empty cell)
+                        if (!outcome || outcome.toString().trim() === "") return;
 
+                        const isTimeout = outcome?.includes("Timeout") || false;
                         const isSkipped = outcome?.includes("Skip") || false;
                         const isSuccess = outcome?.includes("Success") || false;
                         let isDirect = outcome?.includes("Direct") || false;
@@ -93,17 +115,42 @@ export async function parseResponseData(file: File): Promise<Omit<UploadedData,
                             completionTimeSeconds: parsedTime,
                             pathTaken: pathTaken || "",
                             skipped: isSkipped,
-                            confidenceRating: confidence ? parseInt(confidence) : null
+                            confidenceRating: parseConfidenceRating(confidence),
+                            ...(isTimeout && { timedOut: true }),
+                            ...(taskOrder?.includes(taskIndex) && { presentedPosition: taskOrder.indexOf(taskIndex) + 1 }),
+                            ...(followUpAnswers?.has(taskIndex) && { followUpAnswers: followUpAnswers.get(taskIndex) }),
+                            ...(taskEvents?.has(taskIndex) && { events: taskEvents.get(taskIndex) })
                         });
                     });
 
+                    // Captured URL parameters become attributes; explicit columns win on name clashes
+                    const attributes: Record<string, string> = { ...parseUrlParameters(row[URL_PARAMETERS_COLUMN]) };
+                    Object.keys(row).forEach(key => {
+                        if (KNOWN_PARTICIPANT_COLUMNS.has(key) || /^Task \d+/.test(key) || key.startsWith("__EMPTY")) return;
+                        const value = row[key]?.toString().trim();
+                        if (value) attributes[key.trim()] = value;
+                    });
+
+                    const questionnaireAnswers = parseQuestionnaireAnswers(row[QUESTIONNAIRE_ANSWERS_COLUMN]);
+                    const randomSeed = parseSeed(row[RANDOM_SEED_COLUMN]);
+                    const treeOrder = parseTreeOrder(row[TREE_ORDER_COLUMN]);
+                    const treeVariant = row[TREE_VARIANT_COLUMN]?.toString().trim();
+                    const disqualificationReason = status === "Disqualified" ? parseDisqualificationReason(row[DISQUALIFICATION_REASON_COLUMN]) : undefined;
+
                     participants.push({
                         id: participantId,
                         status,
+                        ...(disqualificationReason && { disqualificationReason }),
                         startedAt,
                         completedAt,
                         durationSeconds,
-                        taskResults
+                        taskResults,
+                        ...(taskOrder && { taskOrder }),
+                        ...(randomSeed !== undefined && { randomSeed }),
+                        ...(treeOrder && { treeOrder }),
+                        ...(treeVariant && { treeVariant }),
+                        ...(Object.keys(attributes).length > 0 && { attributes }),
+                        ...(questionnaireAnswers && { questionnaireAnswers })
                     });
                 });
 
@@ -1,16 +1,30 @@
-import type { UploadedData, TaskStats, TreeTestOverviewStats, Item, Participant } from "./types";
+import type { UploadedData, TaskStats, TreeTestOverviewStats, Item, Participant, StudyComparison, ComparisonWinner, FirstClickOutcome } from "./types";
+import { CONFIDENCE_INTERVAL_METHODS, formatRateInterval } from "./stats/confidence-intervals";
+import { formatPValue } from "./stats/study-comparison";
+import { applyExclusions } from "./utils/exclusions";
+import { describeSegmentFilters } from "./utils/segments";
+import { calculateQuestionStats } from "./stats/questionnaires";
+import { calculateScreeningFunnel, hasScreeningData } from "./stats/screening";
+import { calculateFollowUpStats } from "./stats/follow-ups";
+import { getQuestionLabel, getSusGrade, QUESTION_TYPE_LABELS } from "./utils/questionnaires";
+import { describeCorrelation } from "./stats/confidence";
+import { formatConfidenceRating, getAnalyzerConfidenceScale } from "./utils/confidence-scale";
 
 export function generateMarkdownReport(
     data: UploadedData,
     taskStats: TaskStats[],
     overviewStats: TreeTestOverviewStats
 ): string {
+    const analysisData = applyExclusions(data);
     const sections = [
         generateHeader(),
         generateAIInstructions(),
         generateStudyOverview(overviewStats, data),
+        generateExclusions(data),
+        generateScreening(data),
         generateTreeStructure(data.treeStructure),
-        ...taskStats.map(task => generateTaskSection(task, data)),
+        ...taskStats.map(task => generateTaskSection(task, analysisData)),
+        generateQuestionnaires(data),
         generateFooter()
     ];
 
@@ -72,6 +86,7 @@ When analyzing these results, please:
 - **Success Rate**: Percentage of users who completed the task correctly. <60% indicates significant problems.
 - **Directness**: Percentage of users who took the most direct path. Low directness suggests users are exploring or confused.
 - **Overall Score**: Weighted combination (70% success + 30% directness). Use this for quick health checks.
+- **First-Click Correctness**: Percentage of users whose first click lay on a correct path. It is the strongest single predictor of success; compare success after a correct and a wrong first click.
 - **Backtracking (⟲)**: When users return to previous nodes, it indicates confusion or wrong initial choices.
 - **Confidence Ratings**: High confidence with low success suggests overconfidence; low confidence with high success suggests uncertainty despite correct choices.
 
@@ -92,8 +107,9 @@ Please structure your analysis as:
 }
 
 function generateStudyOverview(stats: TreeTestOverviewStats, data: UploadedData): string {
+    const segment = describeSegmentFilters(data.segmentFilters);
     return `## Study Overview
-
+${segment ? `\n> **Segment:** Only participants where ${segment} are included in this report.\n` : ""}
 ### Overall Metrics
 - **Total Participants:** ${stats.totalParticipants}
 - **Total Tasks:** ${data.tasks.length}
@@ -111,6 +127,80 @@ function generateStudyOverview(stats: TreeTestOverviewStats, data: UploadedData)
 ---`;
 }
 
+function generateExclusions(data: UploadedData): string {
+    const exclusions = data.exclusions || [];
+    if (exclusions.length === 0) return "";
+
+    const rows = exclusions
+        .map(e => `| ${e.participantId} | ${e.reason} | ${e.source} | ${new Date(e.excludedAt).toLocaleString()} |`)
+        .join("\n");
+
+    return `## Excluded Participants
+
+${data.showExcluded
+        ? `${exclusions.length} of ${data.participants.length} participants are marked as excluded, but "show excluded" is on so they are still counted in the metrics below.`
+        : `${exclusions.length} of ${data.participants.length} participants were excluded and are not counted in any metric below.`}
+
+| Participant | Reason | Source | Excluded At |
+|-------------|--------|--------|-------------|
+${rows}
+
+---`;
+}
+
+function generateScreening(data: UploadedData): string {
+    if (!hasScreeningData(data)) return "";
+    const funnel = calculateScreeningFunnel(data);
+
+    const stages = funnel.stages
+        .map(stage => `| ${stage.label} | ${stage.count} | ${stage.percentage}% |`)
+        .join("\n");
+    const reasons = funnel.reasons.length > 0
+        ? `\n\n**Disqualified (${funnel.disqualified}):**\n${funnel.reasons.map(r => `- ${r.label}: ${r.count}`).join("\n")}`
+        : "";
+
+    return `## Screening Funnel
+
+Participants disqualified by the screener are not counted in any metric below.
+
+| Stage | Participants | % of Started |
+|-------|--------------|--------------|
+${stages}${reasons}
+
+---`;
+}
+
+function generateQuestionnaires(data: UploadedData): string {
+    const questionStats = calculateQuestionStats(data);
+    if (questionStats.length === 0) return "";
+
+    const sections = questionStats.map(({ question, respondents, responses, mean, textResponses }) => {
+        let summary = `${QUESTION_TYPE_LABELS[question.type]}, ${respondents} responses`;
+        if (mean !== null) {
+            summary += question.type === "sus" ? `, mean SUS score ${mean} (${getSusGrade(mean)})` : `, mean ${mean}`;
+        }
+
+        const body = question.type === "free-text"
+            ? textResponses.map(r => `- "${r.text}" (${r.participantId})`).join("\n")
+            : `| Response | Participants | Success Rate |
+|----------|--------------|--------------|
+${responses.map(r => `| ${r.value} | ${r.count} (${r.percentage}%) | ${r.successRate !== null ? `${r.successRate}%` : "-"} |`).join("\n")}`;
+
+        return `### ${getQuestionLabel(question)}
+*${summary}*
+
+${body}`;
+    });
+
+    return `## Questionnaires
+
+Success Rate is the task success of the participants who gave each response, across all tasks.
+
+${sections.join("\n\n")}
+
+---`;
+}
+
 function generateTreeStructure(tree?: Item[]): string {
     if (!tree || tree.length === 0) return "";
 
@@ -147,6 +237,30 @@ function generateTreeStructure(tree?: Item[]): string {
     return result;
 }
 
+function generateTaskFollowUps(task: TaskStats, data: UploadedData): string {
+    const followUpStats = calculateFollowUpStats(data, task.id);
+    if (followUpStats.length === 0) return "";
+
+    const sections = followUpStats.map(({ question, respondents, responses, mean, textResponses, wordFrequencies }) => {
+        const heading = `**${getQuestionLabel(question)}** (${QUESTION_TYPE_LABELS[question.type]}, ${respondents} responses${mean !== null ? `, mean ${mean}` : ""})`;
+        if (question.type === "free-text") {
+            const words = wordFrequencies.length > 0
+                ? `\nMost used words: ${wordFrequencies.map(w => `${w.word} (${w.count})`).join(", ")}\n`
+                : "";
+            const answers = textResponses.map(r => `- [${r.successful ? "Success" : "Fail/Skip"}] ${r.text.replace(/\s+/g, " ")}`).join("\n");
+            return `${heading}\n${words}\n${answers || "- No responses"}`;
+        }
+        const rows = responses.map(r => `| ${r.value} | ${r.count} | ${r.percentage}% |`).join("\n");
+        return `${heading}\n\n| Response | Count | % |\n|----------|-------|---|\n${rows}`;
+    });
+
+    return `
+### Follow-up Responses
+
+${sections.join("\n\n")}
+`;
+}
+
 function generateTaskSection(task: TaskStats, data: UploadedData): string {
     const expectedPaths = task.expectedAnswer.split(",").map(p => p.trim()).join("\n");
     const participants = data.participants;
@@ -157,14 +271,16 @@ function generateTaskSection(task: TaskStats, data: UploadedData): string {
 ${expectedPaths.split('\n').map((p, i) => `${i + 1}. \`${p}\``).join('\n')}
 
 ### Key Metrics
-| Metric | Value | Benchmark |
-|--------|-------|-----------|
-| Success Rate | ${task.stats.success.rate}% | ${getBenchmark(task.stats.success.rate)} |
-| Directness | ${task.stats.directness.rate}% | ${getBenchmark(task.stats.directness.rate)} |
-| Overall Score | ${task.stats.score} | ${getBenchmark(task.stats.score)} |
-| Median Time | ${task.stats.time.median}s | - |
-| Time Range | ${task.stats.time.min}s - ${task.stats.time.max}s | - |
-
+| Metric | Value | Confidence Interval | Benchmark |
+|--------|-------|---------------------|-----------|
+| Success Rate | ${task.stats.success.rate}% | ${formatRateInterval(task.stats.success)} | ${getBenchmark(task.stats.success.rate)} |
+| Directness | ${task.stats.directness.rate}% | ${formatRateInterval(task.stats.directness)} | ${getBenchmark(task.stats.directness.rate)} |
+| Overall Score | ${task.stats.score} | - | ${getBenchmark(task.stats.score)} |
+| Median Time | ${task.stats.time.median}s | - | - |
+| Time Range | ${task.stats.time.min}s - ${task.stats.time.max}s | - | - |
+${task.maxTimeSeconds !== null ? `| Time Limit | ${task.maxTimeSeconds}s | - | - |\n` : ""}
+*Confidence intervals use the ${CONFIDENCE_INTERVAL_METHODS[task.stats.intervalMethod].label} method.*
+${generateFirstClickSection(task)}
 ${generateParentNodeSection(task)}
 
 ### Results Breakdown
@@ -174,7 +290,7 @@ ${generateParentNodeSection(task)}
 | Indirect Success | ${task.stats.breakdown.indirectSuccess} | ${calculatePercentage(task.stats.breakdown.indirectSuccess, task.stats.breakdown.total)}% |
 | Fail | ${task.stats.breakdown.fail} | ${calculatePercentage(task.stats.breakdown.fail, task.stats.breakdown.total)}% |
 | Skip | ${task.stats.breakdown.directSkip + task.stats.breakdown.indirectSkip} | ${calculatePercentage(task.stats.breakdown.directSkip + task.stats.breakdown.indirectSkip, task.stats.breakdown.total)}% |
-
+${task.maxTimeSeconds !== null || task.stats.breakdown.timeout > 0 ? `| Timeout | ${task.stats.breakdown.timeout} | ${calculatePercentage(task.stats.breakdown.timeout, task.stats.breakdown.total)}% |\n` : ""}
 ---
 
 ### Participant Paths
@@ -186,7 +302,7 @@ ${generateParticipantPaths(task, participants)}
 **Notes:**
 - ⟲ indicates backtracking (participant returned to a previous node)
 - **Bold** nodes indicate where backtracking occurred
-
+${generateTaskFollowUps(task, data)}
 ---
 
 ### First-Clicked Parent Labels
@@ -217,7 +333,8 @@ ${generateIncorrectDestinations(task)}
 
 | Rating | Direct Success | Indirect Success | Fail | Skip | Total |
 |--------|---------------|------------------|------|------|-------|
-${generateConfidenceRatings(task)}`;
+${generateConfidenceRatings(task, data)}
+${generateConfidenceCorrelation(task)}`;
 }
 
 function generateParticipantPaths(task: TaskStats, participants: Participant[]): string {
@@ -234,7 +351,9 @@ function generateParticipantPaths(task: TaskStats, participants: Participant[]):
 
         const path = result.pathTaken || "(No Path)";
         let resultType = "Skip";
-        if (!result.skipped) {
+        if (result.timedOut) {
+            resultType = "Timeout";
+        } else if (!result.skipped) {
             if (result.successful) {
                 resultType = result.directPathTaken ? "Direct Success" : "Indirect Success";
             } else {
@@ -337,29 +456,54 @@ function generateParentNodeSection(task: TaskStats): string {
     return rows;
 }
 
-function generateConfidenceRatings(task: TaskStats): string {
+function generateConfidenceRatings(task: TaskStats, data: UploadedData): string {
     const ratings = task.stats.confidenceRatings;
     if (ratings.length === 0) {
         return "| No confidence data available | - | - | - | - | - | - |";
     }
 
-    const ratingLabels: Record<number, string> = {
-        7: "Very Confident",
-        6: "Confident",
-        5: "Somewhat Confident",
-        4: "Neutral",
-        3: "Somewhat Not Confident",
-        2: "Not Confident",
-        1: "Not Confident At All"
-    };
+    const scale = getAnalyzerConfidenceScale(data);
 
     return ratings.map(r => {
-        const label = ratingLabels[r.value] || r.value.toString();
+        const label = formatConfidenceRating(r.value, scale);
         const b = r.breakdown;
         return `| ${label} | ${b.directSuccess} (${b.directSuccessPercentage}%) | ${b.indirectSuccess} (${b.indirectSuccessPercentage}%) | ${b.fail} (${b.failPercentage}%) | ${b.directSkip + b.indirectSkip} (${b.directSkipPercentage + b.indirectSkipPercentage}%) | ${r.count} |`;
     }).join('\n');
 }
 
+function generateFirstClickSection(task: TaskStats): string {
+    const firstClick = task.stats.firstClick;
+    const timing = task.stats.clickTiming;
+    if (!firstClick && !timing) return "";
+
+    const outcomeRow = (label: string, outcome: FirstClickOutcome) => outcome.attempts > 0
+        ? `| ${label} | ${outcome.success.rate}% (${outcome.successes}/${outcome.attempts}) | ${formatRateInterval(outcome.success)} |`
+        : `| ${label} | - | - |`;
+
+    return `
+### First Click
+| Metric | Value | Confidence Interval |
+|--------|-------|---------------------|
+${firstClick ? `| Correct First Click | ${firstClick.correct.rate}% (${firstClick.correctCount}/${firstClick.attempts}) | ${formatRateInterval(firstClick.correct)} |
+${outcomeRow("Success After Correct First Click", firstClick.afterCorrect)}
+${outcomeRow("Success After Wrong First Click", firstClick.afterIncorrect)}
+` : ""}${timing ? `| Time to First Click (median) | ${timing.timeToFirstClick.median.toFixed(1)}s (range ${timing.timeToFirstClick.min.toFixed(1)}s - ${timing.timeToFirstClick.max.toFixed(1)}s) | - |
+| Hesitation (median longest pause) | ${timing.hesitation.median.toFixed(1)}s | - |
+` : ""}`;
+}
+
+function generateConfidenceCorrelation(task: TaskStats): string {
+    const correlation = task.stats.confidenceCorrelation;
+    if (!correlation) return "";
+
+    const coefficient = correlation.coefficient !== null
+        ? `r = ${correlation.coefficient} (${describeCorrelation(correlation.coefficient)}${correlation.pValue !== null ? `, ${formatPValue(correlation.pValue)}` : ""})`
+        : "not enough variation to correlate";
+    return `
+**Confidence vs. success (point-biserial):** ${coefficient}, based on ${correlation.ratings} ratings. Mean rating ${correlation.meanSuccess ?? "-"} when successful, ${correlation.meanFailure ?? "-"} when failed.
+`;
+}
+
 function generateFooter(): string {
     const timestamp = new Date().toLocaleString();
     return `---
@@ -375,6 +519,74 @@ function generateFooter(): string {
 *This report contains all metrics and participant data from the tree test study. Share this with AI analysis tools along with the raw data export for comprehensive insights.*`;
 }
 
+export function generateComparisonMarkdownReport(comparison: StudyComparison): string {
+    const date = new Date().toLocaleString();
+    const winnerLabel = (winner: ComparisonWinner) =>
+        winner === "A" ? `A (${comparison.studyA.name})` : winner === "B" ? `B (${comparison.studyB.name})` : "No significant difference";
+    const significance = (significant: boolean) => significant ? " ✱" : "";
+
+    const taskRows = comparison.tasks.map(task => {
+        const success = `${task.success.a.rate}% vs ${task.success.b.rate}% (${formatPValue(task.success.pValue)})${significance(task.success.significant)}`;
+        const directness = `${task.directness.a.rate}% vs ${task.directness.b.rate}% (${formatPValue(task.directness.pValue)})${significance(task.directness.significant)}`;
+        const time = `${task.time.medianA}s vs ${task.time.medianB}s (${formatPValue(task.time.pValue)})${significance(task.time.significant)}`;
+        return `| ${task.taskA.index} / ${task.taskB.index} | ${task.description} | ${success} | ${directness} | ${time} | ${winnerLabel(task.winner)} |`;
+    }).join("\n");
+
+    const taskDetails = comparison.tasks.map(task => `### Task ${task.taskA.index}: ${task.description}
+
+| Metric | ${comparison.studyA.name} (A) | ${comparison.studyB.name} (B) | Test | p-value | Winner |
+|--------|------|------|------|---------|--------|
+| Success Rate | ${task.success.a.rate}% (${formatRateInterval(task.success.a)}) | ${task.success.b.rate}% (${formatRateInterval(task.success.b)}) | ${task.success.test === "fisher-exact" ? "Fisher's exact" : "Two-proportion z"} | ${formatPValue(task.success.pValue)} | ${winnerLabel(task.success.winner)} |
+| Directness | ${task.directness.a.rate}% (${formatRateInterval(task.directness.a)}) | ${task.directness.b.rate}% (${formatRateInterval(task.directness.b)}) | ${task.directness.test === "fisher-exact" ? "Fisher's exact" : "Two-proportion z"} | ${formatPValue(task.directness.pValue)} | ${winnerLabel(task.directness.winner)} |
+| Median Time | ${task.time.medianA}s | ${task.time.medianB}s | Mann-Whitney U | ${formatPValue(task.time.pValue)} | ${winnerLabel(task.time.winner)} |`).join("\n\n");
+
+    const unmatched = [
+        ...comparison.unmatchedA.map(t => `- A, Task ${t.index}: ${t.description}`),
+        ...comparison.unmatchedB.map(t => `- B, Task ${t.index}: ${t.description}`),
+    ];
+
+    return `# Tree Test Comparison Report
+Generated: ${date}
+
+---
+
+## Studies
+
+| | Study | Participants |
+|---|-------|--------------|
+| A | ${comparison.studyA.name} | ${comparison.studyA.participants} |
+| B | ${comparison.studyB.name} | ${comparison.studyB.participants} |
+
+- **Tasks matched by:** ${comparison.matchBy === "id" ? "Task ID" : "Task description"}
+- **Significance level:** α = ${comparison.alpha}
+- **Success / directness test:** two-proportion z-test, or Fisher's exact test when any expected cell count is below 5
+- **Time test:** Mann-Whitney U (skipped tasks excluded)
+- **Winner:** decided by a significant difference in success, then directness, then time
+
+---
+
+## Summary
+
+| Task (A / B) | Description | Success (A vs B) | Directness (A vs B) | Median Time (A vs B) | Winner |
+|--------------|-------------|------------------|---------------------|----------------------|--------|
+${taskRows || "| - | No matching tasks | - | - | - | - |"}
+
+✱ statistically significant at α = ${comparison.alpha}
+
+---
+
+## Task Details
+
+${taskDetails || "No matching tasks."}
+${unmatched.length > 0 ? `
+---
+
+## Unmatched Tasks
+
+${unmatched.join("\n")}
+` : ""}`;
+}
+
 // Helper functions
 function getBenchmark(value: number): string {
     if (value >= 80) return "✅ Excellent";
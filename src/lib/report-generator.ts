@@ -1,15 +1,32 @@
 import type { UploadedData } from "./types";
 import { calculateOverviewStats, calculateTaskStats } from "./stats";
 import { getPathUpToLevel } from "./stats/path-utils";
+import { CONFIDENCE_INTERVAL_METHODS, formatRateInterval } from "./stats/confidence-intervals";
+import { applyExclusions, getExcludedCount } from "./utils/exclusions";
+import { describeSegmentFilters } from "./utils/segments";
+import { calculateQuestionStats } from "./stats/questionnaires";
+import { calculateScreeningFunnel, hasScreeningData } from "./stats/screening";
+import { getQuestionLabel, getSusGrade, QUESTION_TYPE_LABELS } from "./utils/questionnaires";
+import { describeCorrelation } from "./stats/confidence";
+import { formatPValue } from "./stats/study-comparison";
+import { formatConfidenceRating, getAnalyzerConfidenceScale, getConfidenceLevel } from "./utils/confidence-scale";
 
 /**
  * Generate a comprehensive HTML report with all views expanded
  * Includes all tabs and charts
  */
-export function generateHtmlReport(data: UploadedData): string {
+export function generateHtmlReport(sourceData: UploadedData): string {
+  // Excluded participants are left out of every chart and table, but listed at the end of the overview
+  const data = applyExclusions(sourceData);
+  const exclusions = sourceData.exclusions || [];
+  const excludedCount = getExcludedCount(sourceData);
+  const screeningFunnel = hasScreeningData(sourceData) ? calculateScreeningFunnel(sourceData) : null;
+  const segment = describeSegmentFilters(sourceData.segmentFilters);
   const stats = calculateOverviewStats(data);
   const tree = data.treeStructure || [];
   const taskStats = calculateTaskStats(data, tree);
+  const confidenceScale = getAnalyzerConfidenceScale(data);
+  const questionStats = calculateQuestionStats(data);
 
   // Calculate task results data for stacked bar chart
   const taskResultsData = data.tasks.map((task) => {
@@ -19,12 +36,15 @@ export function generateHtmlReport(data: UploadedData): string {
       fail: 0,
       directSkip: 0,
       indirectSkip: 0,
+      timeout: 0,
     };
 
     data.participants.forEach((p) => {
       const result = p.taskResults.find(r => r.taskIndex === task.index);
       if (result) {
-        if (result.skipped) {
+        if (result.timedOut) {
+          taskResults.timeout++;
+        } else if (result.skipped) {
           if (result.directPathTaken) taskResults.directSkip++;
           else taskResults.indirectSkip++;
         } else if (result.successful) {
@@ -38,7 +58,8 @@ export function generateHtmlReport(data: UploadedData): string {
 
     const total = taskResults.directSuccess + taskResults.indirectSuccess +
       taskResults.fail +
-      taskResults.directSkip + taskResults.indirectSkip;
+      taskResults.directSkip + taskResults.indirectSkip +
+      taskResults.timeout;
 
     const getPct = (val: number) => total > 0 ? (val / total) * 100 : 0;
 
@@ -55,6 +76,8 @@ export function generateHtmlReport(data: UploadedData): string {
       "Direct Skip_count": taskResults.directSkip,
       "Indirect Skip": getPct(taskResults.indirectSkip),
       "Indirect Skip_count": taskResults.indirectSkip,
+      "Timeout": getPct(taskResults.timeout),
+      "Timeout_count": taskResults.timeout,
       total,
     };
   });
@@ -131,6 +154,7 @@ export function generateHtmlReport(data: UploadedData): string {
         { key: 'Fail', color: '#ef4444', count: task['Fail_count'] },
         { key: 'Direct Skip', color: '#64748b', count: task['Direct Skip_count'] },
         { key: 'Indirect Skip', color: '#cbd5e1', count: task['Indirect Skip_count'] },
+        { key: 'Timeout', color: '#f59e0b', count: task['Timeout_count'] },
       ];
 
       categories.forEach((cat) => {
@@ -186,6 +210,7 @@ export function generateHtmlReport(data: UploadedData): string {
       "bg-red-300": "#fca5a5",
       "bg-gray-500": "#6b7280",
       "bg-gray-300": "#d1d5db",
+      "bg-amber-500": "#f59e0b",
     };
 
     let currentAngle = -Math.PI / 2; // Start at top
@@ -443,9 +468,11 @@ export function generateHtmlReport(data: UploadedData): string {
       <div class="header-meta">
         <span>Creator: ${escapeHtml(data.creator || 'Unknown')}</span>
         <span>•</span>
-        <span>Participants: ${data.participants.length}</span>
+        <span>Participants: ${data.participants.length}${excludedCount > 0 && !sourceData.showExcluded ? ` (${excludedCount} excluded)` : ''}</span>
         <span>•</span>
         <span>Tasks: ${data.tasks.length}</span>
+        ${segment ? `<span>•</span>
+        <span>Segment: ${escapeHtml(segment)}</span>` : ''}
         <span>•</span>
         <span>Generated: ${formatDate(new Date())}</span>
       </div>
@@ -506,11 +533,73 @@ export function generateHtmlReport(data: UploadedData): string {
           <div class="legend-item"><div class="legend-color" style="background: #ef4444;"></div><span>Fail</span></div>
           <div class="legend-item"><div class="legend-color" style="background: #64748b;"></div><span>Direct Skip</span></div>
           <div class="legend-item"><div class="legend-color" style="background: #cbd5e1;"></div><span>Indirect Skip</span></div>
+          ${taskResultsData.some(task => task.Timeout_count > 0) ? '<div class="legend-item"><div class="legend-color" style="background: #f59e0b;"></div><span>Timeout</span></div>' : ''}
         </div>
         <div class="chart-container">
           ${generateStackedBarChart()}
         </div>
       </div>
+
+      <!-- Excluded Participants -->
+      ${exclusions.length > 0 ? `
+      <div class="card">
+        <div class="card-title">Excluded Participants (${exclusions.length})</div>
+        <p style="font-size: 13px; color: #6b7280; margin-bottom: 12px;">${sourceData.showExcluded
+        ? 'These participants are marked as excluded, but are still counted in this report because "show excluded" is on.'
+        : 'These participants are not counted in any metric in this report.'}</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Participant</th>
+              <th>Reason</th>
+              <th>Source</th>
+              <th>Excluded At</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${exclusions.map(e => `
+            <tr>
+              <td style="font-family: monospace;">${escapeHtml(e.participantId)}</td>
+              <td>${escapeHtml(e.reason)}</td>
+              <td>${escapeHtml(e.source)}</td>
+              <td>${formatDate(new Date(e.excludedAt))}</td>
+            </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+      ` : ''}
+
+      <!-- Screening Funnel -->
+      ${screeningFunnel ? `
+      <div class="card">
+        <div class="card-title">Screening Funnel</div>
+        <p style="font-size: 13px; color: #6b7280; margin-bottom: 12px;">Participants disqualified by the screener are not counted in any metric in this report.</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Stage</th>
+              <th>Participants</th>
+              <th>% of Started</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${screeningFunnel.stages.map(stage => `
+            <tr>
+              <td>${stage.label}</td>
+              <td>${stage.count}</td>
+              <td>${stage.percentage}%</td>
+            </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        ${screeningFunnel.reasons.length > 0 ? `
+        <p style="font-size: 13px; color: #374151; margin-top: 12px;"><strong>Disqualified (${screeningFunnel.disqualified}):</strong>
+          ${screeningFunnel.reasons.map(r => `${escapeHtml(r.label)}: ${r.count}`).join(' • ')}
+        </p>
+        ` : ''}
+      </div>
+      ` : ''}
     </div>
 
     <!-- Tasks Section -->
@@ -523,6 +612,7 @@ export function generateHtmlReport(data: UploadedData): string {
         { name: "Indirect Success", value: task.stats.breakdown.indirectSuccess, color: "bg-green-300" },
         { name: "Fail", value: task.stats.breakdown.fail, color: "bg-red-500" },
         { name: "Skip", value: task.stats.breakdown.directSkip + task.stats.breakdown.indirectSkip, color: "bg-gray-500" },
+        { name: "Timeout", value: task.stats.breakdown.timeout, color: "bg-amber-500" },
       ].filter((d) => d.value > 0);
 
       // Get participant paths for this task
@@ -533,7 +623,10 @@ export function generateHtmlReport(data: UploadedData): string {
         const path = result.pathTaken || "";
         let resultType = "";
         let resultColor = "";
-        if (result.skipped) {
+        if (result.timedOut) {
+          resultType = "Timeout";
+          resultColor = "#f59e0b";
+        } else if (result.skipped) {
           resultType = result.directPathTaken ? "Direct Skip" : "Indirect Skip";
           resultColor = result.directPathTaken ? "#9ca3af" : "#6b7280";
         } else if (result.successful) {
@@ -629,7 +722,7 @@ export function generateHtmlReport(data: UploadedData): string {
 
             <div style="margin-bottom: 20px;">
               <h3 style="font-size: 14px; font-weight: 600; margin-bottom: 8px;">Task results</h3>
-              <p style="font-size: 14px; color: #6b7280; margin-bottom: 16px;">Success and failure metrics from this task.</p>
+              <p style="font-size: 14px; color: #6b7280; margin-bottom: 16px;">Success and failure metrics from this task. Confidence intervals use the ${CONFIDENCE_INTERVAL_METHODS[task.stats.intervalMethod].label} method.</p>
             </div>
 
             <!-- Pie Chart and Stats Cards -->
@@ -647,6 +740,7 @@ export function generateHtmlReport(data: UploadedData): string {
               "bg-red-500": "#ef4444",
               "bg-red-300": "#fca5a5",
               "bg-gray-500": "#6b7280",
+              "bg-amber-500": "#f59e0b",
             };
             return `
                     <div style="display: flex; align-items: center; gap: 8px;">
@@ -664,13 +758,13 @@ export function generateHtmlReport(data: UploadedData): string {
                   <div style="font-size: 24px; font-weight: 700; color: ${getMetricColorValue(task.stats.success.rate)}">${task.stats.success.rate}%</div>
                   <div style="font-size: 12px; color: #6b7280; margin-top: 4px;">Success Rate</div>
                   <div style="font-size: 10px; color: #9ca3af; margin-top: 4px;">${task.stats.breakdown.directSuccess + task.stats.breakdown.indirectSuccess} / ${totalParticipants} participants</div>
-                  <div style="font-size: 10px; color: #9ca3af;">±${task.stats.success.margin}%</div>
+                  <div style="font-size: 10px; color: #9ca3af;">${formatRateInterval(task.stats.success)}</div>
                 </div>
                 <div style="border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; text-align: center;">
                   <div style="font-size: 24px; font-weight: 700; color: ${getMetricColorValue(task.stats.directness.rate)}">${task.stats.directness.rate}%</div>
                   <div style="font-size: 12px; color: #6b7280; margin-top: 4px;">Directness</div>
                   <div style="font-size: 10px; color: #9ca3af; margin-top: 4px;">${task.stats.breakdown.directSuccess} / ${totalParticipants} participants</div>
-                  <div style="font-size: 10px; color: #9ca3af;">±${task.stats.directness.margin}%</div>
+                  <div style="font-size: 10px; color: #9ca3af;">${formatRateInterval(task.stats.directness)}</div>
                 </div>
                 <div style="border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; text-align: center;">
                   <div style="font-size: 24px; font-weight: 700; color: #111827">${task.stats.time.median}s</div>
@@ -696,6 +790,44 @@ export function generateHtmlReport(data: UploadedData): string {
           })}
             </div>
 
+            <!-- First Click -->
+            ${task.stats.firstClick ? `
+            <div style="margin-bottom: 32px;">
+              <h4 style="font-size: 14px; font-weight: 600; margin-bottom: 4px;">First Click</h4>
+              <div style="font-size: 12px; color: #6b7280; margin-bottom: 16px;">Across ${task.stats.firstClick.attempts} attempts with a first click. A correct first click lies on any correct path.</div>
+              <div style="display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 16px;">
+                ${[
+            { label: 'Correct First Click', rate: task.stats.firstClick.correct, count: task.stats.firstClick.correctCount, total: task.stats.firstClick.attempts },
+            { label: 'Success After Correct First Click', rate: task.stats.firstClick.afterCorrect.success, count: task.stats.firstClick.afterCorrect.successes, total: task.stats.firstClick.afterCorrect.attempts },
+            { label: 'Success After Wrong First Click', rate: task.stats.firstClick.afterIncorrect.success, count: task.stats.firstClick.afterIncorrect.successes, total: task.stats.firstClick.afterIncorrect.attempts },
+          ].map((card) => `
+                <div style="border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; text-align: center;">
+                  <div style="font-size: 24px; font-weight: 700; color: ${card.total > 0 ? getMetricColorValue(card.rate.rate) : '#d1d5db'}">${card.total > 0 ? `${card.rate.rate}%` : 'N/A'}</div>
+                  <div style="font-size: 12px; color: #6b7280; margin-top: 4px;">${card.label}</div>
+                  <div style="font-size: 10px; color: #9ca3af; margin-top: 4px;">${card.count} / ${card.total} participants</div>
+                  ${card.total > 0 ? `<div style="font-size: 10px; color: #9ca3af;">${formatRateInterval(card.rate)}</div>` : ''}
+                </div>
+                `).join('')}
+              </div>
+            </div>
+            ` : ''}
+
+            <!-- Time to First Click -->
+            ${task.stats.clickTiming ? `
+            <div style="margin-bottom: 32px;">
+              <h4 style="font-size: 14px; font-weight: 600; margin-bottom: 4px;">Time to First Click</h4>
+              <div style="font-size: 12px; color: #6b7280; margin-bottom: 16px;">Across ${task.stats.clickTiming.attempts} attempts with recorded clicks. Median hesitation (the longest pause between two clicks) was ${task.stats.clickTiming.hesitation.median.toFixed(1)}s.</div>
+              ${generateBoxPlot({
+            min: Math.round(task.stats.clickTiming.timeToFirstClick.min * 10) / 10,
+            q1: Math.round(task.stats.clickTiming.timeToFirstClick.q1 * 10) / 10,
+            median: Math.round(task.stats.clickTiming.timeToFirstClick.median * 10) / 10,
+            q3: Math.round(task.stats.clickTiming.timeToFirstClick.q3 * 10) / 10,
+            max: Math.round(task.stats.clickTiming.timeToFirstClick.max * 10) / 10,
+            displayMax: Math.max(task.stats.clickTiming.timeToFirstClick.max, 10),
+          })}
+            </div>
+            ` : ''}
+
             <!-- Participant Paths -->
             <div style="margin-bottom: 32px;">
               <div class="card-title" style="margin-bottom: 16px;">Participant Paths</div>
@@ -830,18 +962,9 @@ export function generateHtmlReport(data: UploadedData): string {
                   ${task.stats.confidenceRatings.sort((a, b) => b.value - a.value).map((rating) => {
             const total = rating.count;
             const hasData = total > 0;
-            const getConfidenceLabel = (val: number) => {
-              if (val === 7) return "Very Confident";
-              if (val === 6) return "Confident";
-              if (val === 5) return "Somewhat Confident";
-              if (val === 4) return "Neutral";
-              if (val === 3) return "Somewhat Not Confident";
-              if (val === 2) return "Not Confident";
-              return "Not Confident At All";
-            };
             return `
                     <tr>
-                      <td style="font-weight: 600;">${getConfidenceLabel(rating.value)}</td>
+                      <td style="font-weight: 600;">${escapeHtml(formatConfidenceRating(rating.value, confidenceScale))}</td>
                       <td>
                         ${hasData ? `
                         <div style="display: flex; align-items: center; gap: 8px;">
@@ -871,6 +994,15 @@ export function generateHtmlReport(data: UploadedData): string {
           }).join('')}
                 </tbody>
               </table>
+              ${task.stats.confidenceCorrelation ? `
+              <p style="margin-top: 12px; font-size: 13px; color: #374151;">
+                <strong>Confidence vs. success:</strong>
+                ${task.stats.confidenceCorrelation.coefficient !== null
+                  ? `r = ${task.stats.confidenceCorrelation.coefficient} (${describeCorrelation(task.stats.confidenceCorrelation.coefficient)}${task.stats.confidenceCorrelation.pValue !== null ? `, ${formatPValue(task.stats.confidenceCorrelation.pValue)}` : ''})`
+                  : 'not enough variation to correlate'}
+                <span style="color: #6b7280;">· Mean rating ${task.stats.confidenceCorrelation.meanSuccess ?? '–'} when successful, ${task.stats.confidenceCorrelation.meanFailure ?? '–'} when failed</span>
+              </p>
+              ` : ''}
               <div style="display: flex; align-items: center; justify-content: center; gap: 16px; margin-top: 16px; font-size: 12px;">
                 <div style="display: flex; align-items: center; gap: 4px;">
                   <div style="width: 12px; height: 12px; border-radius: 2px; background: #22c55e;"></div>
@@ -886,13 +1018,52 @@ export function generateHtmlReport(data: UploadedData): string {
                 </div>
               </div>
             </div>
-            ` : '<div style="margin-bottom: 32px;"><div class="card-title" style="margin-bottom: 16px;">Confidence Ratings</div><p style="text-align: center; color: #6b7280; padding: 16px;">No confidence ratings recorded.</p></div>'}
+            ` : `<div style="margin-bottom: 32px;"><div class="card-title" style="margin-bottom: 16px;">Confidence Ratings</div><p style="text-align: center; color: #6b7280; padding: 16px;">${confidenceScale.enabled ? 'No confidence ratings recorded.' : 'Confidence ratings were turned off for this study.'}</p></div>`}
           </div>
         </div>
         `;
     }).join('')}
     </div>
 
+    <!-- Questionnaires Section -->
+    ${questionStats.length > 0 ? `
+    <div class="section">
+      <h2 class="section-title">Questionnaires</h2>
+      ${questionStats.map(({ question, respondents, responses, mean, textResponses }) => `
+      <div class="card">
+        <div class="card-title">${escapeHtml(getQuestionLabel(question))}</div>
+        <p style="font-size: 13px; color: #6b7280; margin-bottom: 12px;">
+          ${QUESTION_TYPE_LABELS[question.type]} &middot; ${respondents} responses${mean !== null ? ` &middot; Mean ${question.type === 'sus' ? `SUS score ${mean} (${getSusGrade(mean)})` : mean}` : ''}
+        </p>
+        ${question.type === 'free-text' ? `
+        <ul style="font-size: 13px; padding-left: 20px;">
+          ${textResponses.map(r => `<li>${escapeHtml(r.text)} <span style="color: #9ca3af;">(${escapeHtml(r.participantId)})</span></li>`).join('')}
+        </ul>
+        ` : `
+        <table>
+          <thead>
+            <tr>
+              <th>Response</th>
+              <th>Participants</th>
+              <th>Success Rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${responses.map(r => `
+            <tr>
+              <td>${escapeHtml(r.value)}</td>
+              <td>${r.count} (${r.percentage}%)</td>
+              <td>${r.successRate !== null ? `${r.successRate}%` : '-'}</td>
+            </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        `}
+      </div>
+      `).join('')}
+    </div>
+    ` : ''}
+
     <!-- Participants Section -->
     <div class="section">
       <h2 class="section-title">Participants</h2>
@@ -935,6 +1106,9 @@ export function generateHtmlReport(data: UploadedData): string {
       };
 
       const getResultBadge = (result: any) => {
+        if (result.timedOut) {
+          return '<span style="font-size: 12px; font-weight: 600; color: #d97706;">⏱ Timeout</span>';
+        }
         if (result.skipped) {
           return '<span style="font-size: 12px; color: #6b7280;">Skipped</span>';
         }
@@ -951,7 +1125,7 @@ export function generateHtmlReport(data: UploadedData): string {
               <tr style="border-bottom: 2px solid #e5e7eb;">
                 <td style="font-weight: 600;">Participant ${index + 1}</td>
                 <td>
-                  ${p.status === "Completed" ? '<span style="color: #16a34a; font-size: 14px;">✓ Completed</span>' : '<span style="color: #6b7280; font-size: 14px;">○ Incomplete</span>'}
+                  ${p.status === "Completed" ? '<span style="color: #16a34a; font-size: 14px;">✓ Completed</span>' : p.status === "Disqualified" ? '<span style="color: #d97706; font-size: 14px;">⊘ Disqualified</span>' : '<span style="color: #6b7280; font-size: 14px;">○ Incomplete</span>'}
                 </td>
                 <td style="font-size: 14px; color: #4b5563;">${formatDate(p.startedAt)}</td>
                 <td style="font-size: 14px; color: #4b5563;">${formatDuration(p.durationSeconds)}</td>
@@ -1001,11 +1175,11 @@ export function generateHtmlReport(data: UploadedData): string {
                             </span>
                           </td>
                           <td style="padding: 12px;">
-                            ${result.confidenceRating ? `
+                            ${result.confidenceRating !== null ? `
                             <span style="font-size: 12px;">
-                              ${result.confidenceRating}/7 
+                              ${result.confidenceRating}/${confidenceScale.max} 
                               <span style="color: #6b7280;">
-                                ${result.confidenceRating >= 6 ? "High" : result.confidenceRating >= 4 ? "Med" : "Low"}
+                                ${getConfidenceLevel(result.confidenceRating, confidenceScale)}
                               </span>
                             </span>
                             ` : '<span style="font-size: 12px; color: #9ca3af;">N/A</span>'}
@@ -1,5 +1,6 @@
 import type { ShareLink, ShareLinkConfig, ShareLinkValidation } from './types';
 import type { UploadedData } from '../types';
+import type { TaskEventType } from '../types/study';
 import { hashPassword, verifyPassword } from './password-utils';
 import LZString from 'lz-string';
 
@@ -269,6 +270,8 @@ export function checkForUpdates(
   }
 }
 
+type OptimizedExclusion = { i: string; r: string; s: 'm' | 'q'; ri?: string[]; a: number };
+
 /**
  * Optimize study data for URL embedding by:
  * - Using shorter field names
@@ -280,10 +283,17 @@ function optimizeStudyDataForSharing(studyData: UploadedData, shareLink: ShareLi
   // Convert participants to optimized format
   const optimizedParticipants = studyData.participants.map(p => ({
     i: p.id, // id
-    s: p.status === 'Completed' ? 1 : 0, // status (1=completed, 0=incomplete)
+    s: p.status === 'Completed' ? 1 : p.status === 'Disqualified' ? 2 : 0, // status (1=completed, 0=incomplete, 2=disqualified)
+    dr: p.disqualificationReason, // disqualificationReason (optional)
     st: p.startedAt instanceof Date ? p.startedAt.getTime() : new Date(p.startedAt).getTime(), // startedAt (timestamp)
     ct: p.completedAt ? (p.completedAt instanceof Date ? p.completedAt.getTime() : new Date(p.completedAt).getTime()) : null, // completedAt (timestamp)
     d: p.durationSeconds, // durationSeconds
+    at: p.attributes, // attributes (optional)
+    qa: p.questionnaireAnswers, // questionnaireAnswers (optional)
+    o: p.taskOrder, // taskOrder (optional)
+    rs: p.randomSeed, // randomSeed (optional)
+    tro: p.treeOrder, // treeOrder (optional)
+    tv: p.treeVariant, // treeVariant (optional)
     tr: p.taskResults.map(tr => ({
       ti: tr.taskIndex, // taskIndex (taskId and description can be inferred from tasks array)
       sc: tr.successful ? 1 : 0, // successful
@@ -292,6 +302,10 @@ function optimizeStudyDataForSharing(studyData: UploadedData, shareLink: ShareLi
       p: tr.pathTaken, // pathTaken
       sk: tr.skipped ? 1 : 0, // skipped
       cf: tr.confidenceRating, // confidenceRating
+      to: tr.timedOut ? 1 : undefined, // timedOut (optional)
+      ps: tr.presentedPosition, // presentedPosition (optional)
+      fa: tr.followUpAnswers, // followUpAnswers (optional)
+      ev: tr.events?.map(e => [e.type, e.path, e.time]), // events as [type, path, ms] (optional)
     })),
   }));
 
@@ -301,12 +315,25 @@ function optimizeStudyDataForSharing(studyData: UploadedData, shareLink: ShareLi
     idx: t.index, // index
     d: t.description, // description
     e: t.expectedAnswer, // expectedAnswer
+    fq: t.followUpQuestions, // followUpQuestions (optional)
+    tl: t.timeLimitSeconds, // timeLimitSeconds (optional)
   }));
 
   // Optimize tree structure (only include if present, can be large)
   // We'll include it but it's optional for viewing
   const optimizedTree = studyData.treeStructure;
 
+  // Exclusions travel with the link so viewers see the same analysis (the audit trail stays local)
+  const optimizedExclusions = studyData.exclusions && studyData.exclusions.length > 0
+    ? studyData.exclusions.map((e): OptimizedExclusion => ({
+      i: e.participantId, // participantId
+      r: e.reason, // reason
+      s: e.source === 'manual' ? 'm' : 'q', // source (m=manual, q=quality-rule)
+      ri: e.ruleIds, // ruleIds
+      a: new Date(e.excludedAt).getTime(), // excludedAt (timestamp)
+    }))
+    : undefined;
+
   return {
     i: studyData.id, // id
     n: studyData.name, // name
@@ -314,6 +341,14 @@ function optimizeStudyDataForSharing(studyData: UploadedData, shareLink: ShareLi
     p: optimizedParticipants, // participants
     t: optimizedTasks, // tasks
     ts: optimizedTree, // treeStructure (optional)
+    ex: optimizedExclusions, // exclusions (optional)
+    se: studyData.showExcluded ? 1 : undefined, // showExcluded
+    sf: studyData.segmentFilters && studyData.segmentFilters.length > 0 ? studyData.segmentFilters : undefined, // segmentFilters
+    tvs: studyData.treeVariants && studyData.treeVariants.length > 0 ? studyData.treeVariants : undefined, // treeVariants (optional)
+    stv: studyData.selectedTreeVariant, // selectedTreeVariant (optional)
+    q: studyData.questions && studyData.questions.length > 0 ? studyData.questions : undefined, // questions (optional)
+    cs: studyData.confidenceScale, // confidenceScale (optional)
+    cim: studyData.confidenceIntervalMethod, // confidenceIntervalMethod (optional)
     ca: typeof studyData.createdAt === 'string' ? new Date(studyData.createdAt).getTime() : studyData.createdAt, // createdAt (timestamp)
     ua: typeof studyData.updatedAt === 'string' ? new Date(studyData.updatedAt).getTime() : studyData.updatedAt, // updatedAt (timestamp)
     // sourceStudyId removed - not needed for viewing
@@ -337,6 +372,8 @@ export function reconstructStudyData(optimized: any): UploadedData {
     index: t.idx,
     description: t.d,
     expectedAnswer: t.e,
+    followUpQuestions: t.fq,
+    timeLimitSeconds: t.tl,
   }));
 
   // Create a map for quick lookup
@@ -349,10 +386,17 @@ export function reconstructStudyData(optimized: any): UploadedData {
     creator: optimized.c,
     participants: optimized.p.map((p: any) => ({
       id: p.i,
-      status: p.s === 1 ? 'Completed' : 'Incomplete',
+      status: p.s === 1 ? 'Completed' : p.s === 2 ? 'Disqualified' : 'Incomplete',
+      disqualificationReason: p.dr,
       startedAt: new Date(p.st),
       completedAt: p.ct ? new Date(p.ct) : null,
       durationSeconds: p.d,
+      attributes: p.at,
+      questionnaireAnswers: p.qa,
+      taskOrder: p.o,
+      randomSeed: p.rs,
+      treeOrder: p.tro,
+      treeVariant: p.tv,
       taskResults: p.tr.map((tr: any) => {
         const task = taskIndexToTask.get(tr.ti);
         return {
@@ -365,11 +409,29 @@ export function reconstructStudyData(optimized: any): UploadedData {
           pathTaken: tr.p,
           skipped: tr.sk === 1,
           confidenceRating: tr.cf,
+          timedOut: tr.to === 1 || undefined,
+          presentedPosition: tr.ps,
+          followUpAnswers: tr.fa,
+          events: tr.ev?.map(([type, path, time]: [TaskEventType, string, number]) => ({ type, path, time })),
         };
       }),
     })),
     tasks,
     treeStructure: optimized.ts,
+    exclusions: optimized.ex?.map((e: OptimizedExclusion) => ({
+      participantId: e.i,
+      reason: e.r,
+      source: e.s === 'm' ? 'manual' : 'quality-rule',
+      ruleIds: e.ri,
+      excludedAt: new Date(e.a).toISOString(),
+    })),
+    showExcluded: optimized.se === 1,
+    segmentFilters: optimized.sf,
+    treeVariants: optimized.tvs,
+    selectedTreeVariant: optimized.stv,
+    questions: optimized.q,
+    confidenceScale: optimized.cs,
+    confidenceIntervalMethod: optimized.cim,
     createdAt: new Date(optimized.ca).toISOString(),
     updatedAt: new Date(optimized.ua).toISOString(),
   };
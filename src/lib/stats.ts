@@ -1,8 +1,18 @@
-import type { Item, ParentClickStats, TaskStats, TreeTestOverviewStats, UploadedData } from "./types";
+import type { ClickTimingStats, DistributionSummary, Item, ParentClickStats, PathEfficiencyStats, TaskResult, TaskStats, TreeTestOverviewStats, UploadedData } from "./types";
 import { calculateParentNodeStats } from "./stats/parent-node-stats";
 import { parsePath } from "./stats/path-utils";
-
-function computeStatistics(values: number[]): { median: number; min: number; max: number; q1: number; q3: number } {
+import { calculateRateInterval, DEFAULT_CONFIDENCE_INTERVAL_METHOD } from "./stats/confidence-intervals";
+import { calculatePathEfficiency, getLostnessCategory, getOptimalPathLength, LOSTNESS_CATEGORIES } from "./stats/path-efficiency";
+import type { LostnessCategory } from "./stats/path-efficiency";
+import { calculateNodeClickStats, getNodesAtDepth } from "./stats/node-clicks";
+import { calculateFirstClickPositions } from "./stats/display-position";
+import { calculateConfidenceCorrelation } from "./stats/confidence";
+import { getHesitationTime, getTimeToFirstClick } from "./stats/click-events";
+import { calculateFirstClickStats, getFirstClickDepth } from "./stats/first-click";
+import { getAnalyzerConfidenceScale, getConfidenceValues, isOnConfidenceScale } from "./utils/confidence-scale";
+import { applyExclusions } from "./utils/exclusions";
+
+function computeStatistics(values: number[]): DistributionSummary {
     if (values.length === 0) {
         return { median: 0, min: 0, max: 0, q1: 0, q3: 0 };
     }
@@ -21,7 +31,58 @@ function computeStatistics(values: number[]): { median: number; min: number; max
     return { median, min, max, q1, q3 };
 }
 
-export function calculateOverviewStats(data: UploadedData): TreeTestOverviewStats {
+function calculatePathEfficiencyStats(taskResults: TaskResult[], expectedAnswers: string[], tree: Item[]): PathEfficiencyStats | undefined {
+    const optimalPathLength = getOptimalPathLength(expectedAnswers, tree);
+    if (optimalPathLength === 0) return undefined;
+
+    const metrics = taskResults
+        .filter(r => !r.skipped)
+        .map(r => calculatePathEfficiency(r.pathTaken, optimalPathLength, tree))
+        .filter((m): m is NonNullable<typeof m> => m !== null);
+
+    const categoryCounts = new Map<LostnessCategory, number>();
+    metrics.forEach(m => {
+        const category = getLostnessCategory(m.lostness);
+        categoryCounts.set(category, (categoryCounts.get(category) || 0) + 1);
+    });
+
+    return {
+        optimalPathLength,
+        attempts: metrics.length,
+        nodesVisited: computeStatistics(metrics.map(m => m.nodesVisited)),
+        uniqueNodes: computeStatistics(metrics.map(m => m.uniqueNodes)),
+        backtracks: computeStatistics(metrics.map(m => m.backtracks)),
+        lostness: computeStatistics(metrics.map(m => m.lostness)),
+        lostnessDistribution: (Object.keys(LOSTNESS_CATEGORIES) as LostnessCategory[]).map(category => {
+            const count = categoryCounts.get(category) || 0;
+            return {
+                category,
+                label: LOSTNESS_CATEGORIES[category].label,
+                count,
+                percentage: metrics.length > 0 ? Math.round((count / metrics.length) * 100) : 0,
+            };
+        }),
+    };
+}
+
+function calculateClickTimingStats(taskResults: TaskResult[], tree: Item[]): ClickTimingStats | undefined {
+    const withEvents = taskResults.filter(r => r.events && r.events.length > 0);
+    if (withEvents.length === 0) return undefined;
+
+    const depth = getFirstClickDepth(tree);
+    const firstClicks = withEvents.map(r => getTimeToFirstClick(r.events || [], depth)).filter((t): t is number => t !== null);
+    const hesitations = withEvents.map(r => getHesitationTime(r.events || [])).filter((t): t is number => t !== null);
+
+    return {
+        attempts: withEvents.length,
+        timeToFirstClick: computeStatistics(firstClicks),
+        hesitation: computeStatistics(hesitations),
+    };
+}
+
+export function calculateOverviewStats(sourceData: UploadedData): TreeTestOverviewStats {
+    // Excluded participants never count towards the stats
+    const data = applyExclusions(sourceData);
     const totalParticipants = data.participants.length;
     const completedParticipants = data.participants.filter(p => p.status === "Completed").length;
     const incompleteParticipants = totalParticipants - completedParticipants;
@@ -75,12 +136,21 @@ export function calculateOverviewStats(data: UploadedData): TreeTestOverviewStat
     };
 }
 
-export function calculateTaskStats(data: UploadedData, tree: Item[]): TaskStats[] {
+export function calculateTaskStats(sourceData: UploadedData, tree: Item[]): TaskStats[] {
+    // Excluded participants never count towards the stats
+    const data = applyExclusions(sourceData);
+    const intervalMethod = data.confidenceIntervalMethod || DEFAULT_CONFIDENCE_INTERVAL_METHOD;
+    const confidenceScale = getAnalyzerConfidenceScale(sourceData);
+
     return data.tasks.map(task => {
         // Gather all results for this task
         const rawTaskResults = data.participants.flatMap(p =>
             p.taskResults.filter(r => r.taskIndex === task.index)
         );
+        // Sibling order shown to the participant behind each result, when the tree was shuffled
+        const treeOrders = data.participants.flatMap(p =>
+            p.taskResults.filter(r => r.taskIndex === task.index).map(() => p.treeOrder)
+        );
 
         // Determine expected paths first (filter out empties)
         const expectedAnswers = task.expectedAnswer
@@ -100,18 +170,20 @@ export function calculateTaskStats(data: UploadedData, tree: Item[]): TaskStats[
         if (rawTaskResults.length === 0) {
             return {
                 ...task,
-                maxTimeSeconds: null,
+                maxTimeSeconds: task.timeLimitSeconds ?? null,
                 parsedTree: JSON.stringify(tree),
                 stats: {
-                    success: { rate: 0, margin: 0 },
-                    directness: { rate: 0, margin: 0 },
+                    success: { rate: 0, margin: 0, lower: 0, upper: 0 },
+                    directness: { rate: 0, margin: 0, lower: 0, upper: 0 },
+                    intervalMethod,
                     time: { median: 0, min: 0, max: 0, q1: 0, q3: 0 },
                     score: 0,
                     breakdown: {
                         directSuccess: 0, indirectSuccess: 0, fail: 0,
-                        directSkip: 0, indirectSkip: 0, total: 0
+                        directSkip: 0, indirectSkip: 0, timeout: 0, total: 0
                     },
                     parentClicks: [],
+                    nodeClicks: calculateNodeClickStats([], expectedAnswers, tree),
                     incorrectDestinations: [],
                     confidenceRatings: [],
                     pathDistribution: [],
@@ -163,8 +235,8 @@ export function calculateTaskStats(data: UploadedData, tree: Item[]): TaskStats[
         const successRate = (successCount / totalCount) * 100;
         const directnessRate = (directnessCount / totalCount) * 100;
 
-        const successMargin = Math.sqrt((successRate * (100 - successRate)) / totalCount) * 1.96;
-        const directnessMargin = Math.sqrt((directnessRate * (100 - directnessRate)) / totalCount) * 1.96;
+        const successInterval = calculateRateInterval(successCount, totalCount, intervalMethod);
+        const directnessInterval = calculateRateInterval(directnessCount, totalCount, intervalMethod);
 
         const timeValues = taskResults
             .filter(r => !r.skipped)
@@ -175,9 +247,10 @@ export function calculateTaskStats(data: UploadedData, tree: Item[]): TaskStats[
         const breakdown = {
             directSuccess: taskResults.filter(r => r.successful && r.directPathTaken && !r.skipped).length,
             indirectSuccess: taskResults.filter(r => r.successful && !r.directPathTaken && !r.skipped).length,
-            fail: taskResults.filter(r => !r.successful && !r.skipped).length,
+            fail: taskResults.filter(r => !r.successful && !r.skipped && !r.timedOut).length,
             directSkip: taskResults.filter(r => r.skipped && r.directPathTaken).length,
             indirectSkip: taskResults.filter(r => r.skipped && !r.directPathTaken).length,
+            timeout: taskResults.filter(r => r.timedOut).length,
             total: totalCount,
         };
 
@@ -193,100 +266,38 @@ export function calculateTaskStats(data: UploadedData, tree: Item[]): TaskStats[
             }))
             .sort((a, b) => b.count - a.count); // Sort by count descending
 
+        // Node Clicks Analysis (every node, every depth)
+        const nodeClicks = calculateNodeClickStats(taskResults, expectedAnswers, tree, treeOrders);
+
         // Parent Clicks Analysis
+        // First-level labels, or second level when the tree has a single "Home" root
         const nonSkippedResults = taskResults.filter(r => !r.skipped);
         const totalParticipants = nonSkippedResults.length;
+        const parentDepth = getFirstClickDepth(tree);
+
+        const parentClicks: ParentClickStats[] = getNodesAtDepth(nodeClicks, parentDepth)
+            .filter(node => node.totalClickCount > 0)
+            .map(node => ({
+                path: node.path,
+                isCorrect: node.isOnCorrectPath,
+                firstClickCount: node.firstClickCount,
+                firstClickPercentage: totalParticipants > 0
+                    ? Math.round((node.firstClickCount / totalParticipants) * 100)
+                    : 0,
+                totalClickCount: node.totalClickCount,
+                totalClickPercentage: totalParticipants > 0
+                    ? Math.round((node.totalClickCount / totalParticipants) * 100)
+                    : 0,
+                ...(node.averagePosition !== undefined && { averagePosition: node.averagePosition }),
+            }));
 
-        const hasOnlyHomeRoot = tree.length === 1;
-        const homeRoot = hasOnlyHomeRoot ? tree[0].name : "";
-
-        const expectedParentPaths = expectedAnswers.map(answer => {
-            const expectedParts = answer.split("/").filter(Boolean);
-            if (hasOnlyHomeRoot && expectedParts.length > 1) {
-                return `/${homeRoot}/${expectedParts[1]}`;
-            } else if (expectedParts.length > 0) {
-                return `/${expectedParts[0]}`;
-            }
-            return "";
-        }).filter(Boolean);
-
-        // Collect all unique parent names from all paths
-        const allParentNames = new Set<string>();
-        nonSkippedResults.forEach(r => {
-            const pathParts = r.pathTaken.split("/").filter(Boolean);
-            if (hasOnlyHomeRoot && pathParts.length > 1) {
-                allParentNames.add(`/${homeRoot}/${pathParts[1]}`);
-            } else if (pathParts.length > 0) {
-                allParentNames.add(`/${pathParts[0]}`);
-            }
-        });
-
-        // Initialize parent click stats
-        const parentClickStats = new Map<string, ParentClickStats>();
-        allParentNames.forEach(parentPath => {
-            parentClickStats.set(parentPath, {
-                path: parentPath,
-                isCorrect: expectedParentPaths.includes(parentPath),
-                firstClickCount: 0,
-                firstClickPercentage: 0,
-                totalClickCount: 0,
-                totalClickPercentage: 0,
-            });
-        });
-
-        // Count first clicks and total clicks for each parent
-        nonSkippedResults.forEach(r => {
-            const pathParts = r.pathTaken.split("/").filter(Boolean);
-            let firstParentPath = "";
-
-            if (hasOnlyHomeRoot && pathParts.length > 1) {
-                firstParentPath = `/${homeRoot}/${pathParts[1]}`;
-            } else if (pathParts.length > 0) {
-                firstParentPath = `/${pathParts[0]}`;
-            }
-
-            // Increment first click for the first parent in the path
-            if (firstParentPath && parentClickStats.has(firstParentPath)) {
-                const stats = parentClickStats.get(firstParentPath)!;
-                stats.firstClickCount++;
-            }
-
-            // Increment total clicks for all parents in the path
-            // Properly iterate through each node in the participant's path
-            pathParts.forEach((part, index) => {
-                let currentPath = "";
-                if (hasOnlyHomeRoot && index > 0) {
-                    // For single-root trees, format as /Home/NodeName
-                    currentPath = `/${homeRoot}/${part}`;
-                } else if (index === 0 && !hasOnlyHomeRoot) {
-                    // For multi-root trees, format as /NodeName
-                    currentPath = `/${part}`;
-                }
-
-                // Increment count if this is a tracked parent node
-                if (currentPath && parentClickStats.has(currentPath)) {
-                    const stats = parentClickStats.get(currentPath);
-                    if (stats) {
-                        stats.totalClickCount++;
-                    }
-                }
-            });
-        });
-
-        // Calculate percentages
-        parentClickStats.forEach(stats => {
-            stats.firstClickPercentage = totalParticipants > 0
-                ? Math.round((stats.firstClickCount / totalParticipants) * 100)
-                : 0;
-            stats.totalClickPercentage = totalParticipants > 0
-                ? Math.round((stats.totalClickCount / totalParticipants) * 100)
-                : 0;
-        });
+        // First clicks by displayed position, to separate label position from label wording
+        const firstClickPositions = calculateFirstClickPositions(taskResults, treeOrders, tree, parentDepth);
 
         // Incorrect Destinations (derived from participant paths)
         // Start from participant task results (same as Participant Paths view)
-        // Filter: non-skipped AND failed (direct or indirect)
-        const failedResults = taskResults.filter(r => !r.skipped && !r.successful);
+        // Filter: non-skipped AND failed (direct or indirect); timeouts never chose an answer
+        const failedResults = taskResults.filter(r => !r.skipped && !r.successful && !r.timedOut);
 
         // Prepare set of correct destinations (last segment of expected answers)
         const correctDestinations = new Set(
@@ -341,16 +352,16 @@ export function calculateTaskStats(data: UploadedData, tree: Item[]): TaskStats[
         // Confidence Ratings
         const confidenceValuesMap = new Map<number, any>();
 
-        // Initialize all 7 confidence levels (1-7)
-        for (let i = 1; i <= 7; i++) {
+        // Initialize every level of the study's scale (none when the study didn't ask for ratings)
+        (confidenceScale.enabled ? getConfidenceValues(confidenceScale) : []).forEach(i => {
             confidenceValuesMap.set(i, {
                 count: 0, directSuccess: 0, indirectSuccess: 0, fail: 0, directSkip: 0, indirectSkip: 0
             });
-        }
+        });
 
         // Count actual responses (skip confidence ratings are excluded since participants don't see the question when they skip)
         taskResults.forEach(r => {
-            if (!r.skipped && r.confidenceRating !== null && r.confidenceRating >= 1 && r.confidenceRating <= 7) {
+            if (!r.skipped && isOnConfidenceScale(r.confidenceRating, confidenceScale)) {
                 const value = r.confidenceRating;
                 const stats = confidenceValuesMap.get(value);
                 if (stats) {
@@ -366,7 +377,7 @@ export function calculateTaskStats(data: UploadedData, tree: Item[]): TaskStats[
 
         const totalRatings = Array.from(confidenceValuesMap.values()).reduce((sum, s) => sum + s.count, 0);
         const confidenceRatings = Array.from(confidenceValuesMap.entries())
-            .sort(([a], [b]) => b - a) // Sort by value descending (7 to 1)
+            .sort(([a], [b]) => b - a) // Sort by value descending (highest rating first)
             .map(([value, stats]) => ({
                 value,
                 count: stats.count,
@@ -387,18 +398,27 @@ export function calculateTaskStats(data: UploadedData, tree: Item[]): TaskStats[
 
         return {
             ...task,
-            maxTimeSeconds: null,
+            maxTimeSeconds: task.timeLimitSeconds ?? null,
             parsedTree: JSON.stringify(tree),
             stats: {
-                success: { rate: Math.round(successRate), margin: Math.round(successMargin) },
-                directness: { rate: Math.round(directnessRate), margin: Math.round(directnessMargin) },
+                success: successInterval,
+                directness: directnessInterval,
+                intervalMethod,
                 time: timeStats,
                 score,
                 breakdown,
-                parentClicks: Array.from(parentClickStats.values()).sort((a, b) => b.firstClickCount - a.firstClickCount),
+                parentClicks: parentClicks.sort((a, b) => b.firstClickCount - a.firstClickCount),
+                ...(firstClickPositions.length > 0 && { firstClickPositions }),
+                nodeClicks,
                 incorrectDestinations,
                 confidenceRatings,
+                confidenceCorrelation: confidenceScale.enabled
+                    ? calculateConfidenceCorrelation(taskResults.filter(r => isOnConfidenceScale(r.confidenceRating, confidenceScale)))
+                    : undefined,
                 pathDistribution,
+                pathEfficiency: calculatePathEfficiencyStats(taskResults, expectedAnswers, tree),
+                clickTiming: calculateClickTimingStats(taskResults, tree),
+                firstClick: calculateFirstClickStats(taskResults, expectedAnswers, tree, intervalMethod),
                 parentNodeStats: parentNodeStats ? {
                     level1: parentNodeStats.level1,
                     level2: parentNodeStats.level2,
@@ -0,0 +1,42 @@
+/**
+ * Click event utilities
+ * Timing measures from the event log recorded for each attempt
+ * (see TaskEvent); attempts from older studies have no events
+ */
+
+import type { TaskEvent } from '../types/study';
+import { parsePath } from './path-utils';
+
+/**
+ * Get the clicks made in the tree, leaving out skips
+ * @param events - Events of one attempt, in order
+ * @returns Expand, collapse, breadcrumb and select events
+ */
+export function getTreeClicks(events: TaskEvent[]): TaskEvent[] {
+  return events.filter(event => event.type !== 'skip');
+}
+
+/**
+ * Get how long a participant took to make their first click in the tree
+ * @param events - Events of one attempt, in order
+ * @param depth - Tree level that counts, e.g. 2 to pass over a single "Home" root (see getFirstClickDepth)
+ * @returns Seconds from the start of the task, or null if they never clicked at that level
+ */
+export function getTimeToFirstClick(events: TaskEvent[], depth = 1): number | null {
+  const first = getTreeClicks(events).find(event => parsePath(event.path).length >= depth);
+  return first ? first.time / 1000 : null;
+}
+
+/**
+ * Get the longest pause between two consecutive events, e.g. before backing out of a branch
+ * @param events - Events of one attempt, in order
+ * @returns Seconds, or null with fewer than two events
+ */
+export function getHesitationTime(events: TaskEvent[]): number | null {
+  if (events.length < 2) return null;
+  let longest = 0;
+  for (let i = 1; i < events.length; i++) {
+    longest = Math.max(longest, events[i].time - events[i - 1].time);
+  }
+  return longest / 1000;
+}
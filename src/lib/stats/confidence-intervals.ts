@@ -0,0 +1,177 @@
+/**
+ * Confidence interval utilities for task success and directness rates
+ * Supports the normal approximation plus intervals that behave well for
+ * the small samples (10-30 participants) typical of tree tests
+ */
+
+import type { ConfidenceIntervalMethod, RateInterval } from '../types';
+import { createSeededRandom } from '../utils/random';
+
+export const DEFAULT_CONFIDENCE_INTERVAL_METHOD: ConfidenceIntervalMethod = 'wilson';
+
+/**
+ * Display metadata for each supported interval method
+ */
+export const CONFIDENCE_INTERVAL_METHODS: Record<ConfidenceIntervalMethod, { label: string; description: string }> = {
+  wilson: {
+    label: 'Wilson score',
+    description: 'Recommended for small samples. Stays within 0-100% and never collapses to zero width.',
+  },
+  'agresti-coull': {
+    label: 'Agresti-Coull',
+    description: 'Adds two successes and two failures before applying the normal formula. Slightly wider than Wilson.',
+  },
+  bootstrap: {
+    label: 'Bootstrap (percentile)',
+    description: 'Resamples participants 2,000 times. Makes no distribution assumptions, but is zero width at 0% or 100%.',
+  },
+  normal: {
+    label: 'Normal approximation',
+    description: 'Classic ±1.96 standard errors. Unreliable below ~30 participants and zero width at 0% or 100%.',
+  },
+};
+
+// Two-sided 95% critical value of the standard normal distribution
+const Z_95 = 1.959964;
+
+const BOOTSTRAP_RESAMPLES = 2000;
+
+interface ProportionBounds {
+  lower: number;
+  upper: number;
+}
+
+function clampProportion(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Normal approximation (Wald) interval
+ * @param successes - Number of successes
+ * @param total - Number of trials
+ * @returns Lower and upper bounds as proportions (0-1)
+ */
+export function normalInterval(successes: number, total: number): ProportionBounds {
+  if (total <= 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const p = successes / total;
+  const margin = Z_95 * Math.sqrt((p * (1 - p)) / total);
+  return { lower: clampProportion(p - margin), upper: clampProportion(p + margin) };
+}
+
+/**
+ * Wilson score interval
+ * @param successes - Number of successes
+ * @param total - Number of trials
+ * @returns Lower and upper bounds as proportions (0-1)
+ */
+export function wilsonInterval(successes: number, total: number): ProportionBounds {
+  if (total <= 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const p = successes / total;
+  const z2 = Z_95 * Z_95;
+  const denominator = 1 + z2 / total;
+  const center = (p + z2 / (2 * total)) / denominator;
+  const margin = (Z_95 * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total))) / denominator;
+  return { lower: clampProportion(center - margin), upper: clampProportion(center + margin) };
+}
+
+/**
+ * Agresti-Coull interval
+ * @param successes - Number of successes
+ * @param total - Number of trials
+ * @returns Lower and upper bounds as proportions (0-1)
+ */
+export function agrestiCoullInterval(successes: number, total: number): ProportionBounds {
+  if (total <= 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const z2 = Z_95 * Z_95;
+  const adjustedTotal = total + z2;
+  const adjustedP = (successes + z2 / 2) / adjustedTotal;
+  const margin = Z_95 * Math.sqrt((adjustedP * (1 - adjustedP)) / adjustedTotal);
+  return { lower: clampProportion(adjustedP - margin), upper: clampProportion(adjustedP + margin) };
+}
+
+/**
+ * Percentile bootstrap interval
+ * @param successes - Number of successes
+ * @param total - Number of trials
+ * @returns Lower and upper bounds as proportions (0-1)
+ */
+export function bootstrapInterval(successes: number, total: number): ProportionBounds {
+  if (total <= 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const p = successes / total;
+  // Seeded so bootstrap intervals are stable between renders and match across the dashboard and exported reports
+  const random = createSeededRandom(successes * 7919 + total);
+  const resampled: number[] = [];
+
+  for (let i = 0; i < BOOTSTRAP_RESAMPLES; i++) {
+    let count = 0;
+    for (let j = 0; j < total; j++) {
+      if (random() < p) count++;
+    }
+    resampled.push(count / total);
+  }
+
+  resampled.sort((a, b) => a - b);
+  const lowerIndex = Math.floor(BOOTSTRAP_RESAMPLES * 0.025);
+  const upperIndex = Math.min(BOOTSTRAP_RESAMPLES - 1, Math.ceil(BOOTSTRAP_RESAMPLES * 0.975) - 1);
+  return { lower: resampled[lowerIndex], upper: resampled[upperIndex] };
+}
+
+const INTERVAL_FUNCTIONS: Record<ConfidenceIntervalMethod, (successes: number, total: number) => ProportionBounds> = {
+  normal: normalInterval,
+  wilson: wilsonInterval,
+  'agresti-coull': agrestiCoullInterval,
+  bootstrap: bootstrapInterval,
+};
+
+/**
+ * Calculate a rate with its 95% confidence interval, expressed in percent
+ * @param successes - Number of successes
+ * @param total - Number of trials
+ * @param method - Interval method (defaults to Wilson)
+ * @returns Rounded rate, bounds and margin (half the interval width)
+ */
+export function calculateRateInterval(
+  successes: number,
+  total: number,
+  method: ConfidenceIntervalMethod = DEFAULT_CONFIDENCE_INTERVAL_METHOD
+): RateInterval {
+  if (total <= 0) {
+    return { rate: 0, margin: 0, lower: 0, upper: 0 };
+  }
+
+  try {
+    const intervalFn = INTERVAL_FUNCTIONS[method] || INTERVAL_FUNCTIONS[DEFAULT_CONFIDENCE_INTERVAL_METHOD];
+    const { lower, upper } = intervalFn(successes, total);
+
+    return {
+      rate: Math.round((successes / total) * 100),
+      margin: Math.round(((upper - lower) / 2) * 100),
+      lower: Math.round(lower * 100),
+      upper: Math.round(upper * 100),
+    };
+  } catch (error) {
+    console.error('Confidence interval calculation error:', error);
+    return { rate: Math.round((successes / total) * 100), margin: 0, lower: 0, upper: 0 };
+  }
+}
+
+/**
+ * Format an interval for display, e.g. "95% CI 42–78%"
+ * @param interval - Rate interval in percent
+ * @returns Display string
+ */
+export function formatRateInterval(interval: RateInterval): string {
+  return `95% CI ${interval.lower}–${interval.upper}%`;
+}
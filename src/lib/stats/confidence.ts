@@ -0,0 +1,71 @@
+/**
+ * Confidence ratings
+ * How well participants' confidence in their answers matches whether they were right
+ */
+
+import type { ConfidenceCorrelation, TaskResult } from '../types';
+import { normalCdf } from './study-comparison';
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function round(value: number | null, digits: number): number | null {
+  if (value === null) return null;
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Calculate the point-biserial correlation between confidence and success
+ * Skipped attempts are left out since participants don't rate a skip
+ * @param taskResults - Results of one task
+ * @returns Correlation coefficient, its significance and the mean rating per outcome
+ */
+export function calculateConfidenceCorrelation(taskResults: TaskResult[]): ConfidenceCorrelation {
+  const rated = taskResults.filter(
+    (r): r is TaskResult & { confidenceRating: number } => !r.skipped && typeof r.confidenceRating === 'number'
+  );
+  const successRatings = rated.filter(r => r.successful).map(r => r.confidenceRating);
+  const failureRatings = rated.filter(r => !r.successful).map(r => r.confidenceRating);
+  const meanSuccess = mean(successRatings);
+  const meanFailure = mean(failureRatings);
+  const empty = { coefficient: null, pValue: null, ratings: rated.length, meanSuccess: round(meanSuccess, 1), meanFailure: round(meanFailure, 1) };
+
+  try {
+    const n = rated.length;
+    const overallMean = mean(rated.map(r => r.confidenceRating));
+    if (meanSuccess === null || meanFailure === null || overallMean === null) return empty;
+
+    // Population standard deviation, as in the point-biserial formula
+    const sd = Math.sqrt(rated.reduce((sum, r) => sum + Math.pow(r.confidenceRating - overallMean, 2), 0) / n);
+    if (sd === 0) return empty;
+
+    const p = successRatings.length / n;
+    const coefficient = Math.max(-1, Math.min(1, ((meanSuccess - meanFailure) / sd) * Math.sqrt(p * (1 - p))));
+
+    // Fisher z-transform for the two-sided p-value
+    let pValue: number | null = null;
+    if (n >= 4) {
+      const z = Math.atanh(Math.min(0.999999, Math.abs(coefficient))) * Math.sqrt(n - 3);
+      pValue = Math.min(1, 2 * (1 - normalCdf(z)));
+    }
+
+    return { ...empty, coefficient: round(coefficient, 2), pValue };
+  } catch (error) {
+    console.error('Error calculating confidence correlation:', error);
+    return empty;
+  }
+}
+
+/**
+ * Describe the strength and direction of a correlation coefficient
+ * @param coefficient - Correlation between -1 and 1
+ * @returns E.g. "Moderate positive"
+ */
+export function describeCorrelation(coefficient: number): string {
+  const size = Math.abs(coefficient);
+  const strength = size >= 0.5 ? 'Strong' : size >= 0.3 ? 'Moderate' : size >= 0.1 ? 'Weak' : 'Negligible';
+  if (strength === 'Negligible') return strength;
+  return `${strength} ${coefficient > 0 ? 'positive' : 'negative'}`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Displayed position of tree labels
+ * When sibling order is shuffled per participant, where each label was shown,
+ * so first clicks can be compared with what position alone would predict
+ */
+
+import type { FirstClickPositionStats, Item, TaskResult } from '../types';
+import { parsePath } from './path-utils';
+import { replayPath } from './path-efficiency';
+import { getTreeOrderKey } from '../utils/tree-randomizer';
+
+type TreeOrder = Record<string, string[]>;
+
+/**
+ * Find where a node was displayed among its siblings
+ * @param treeOrder - Participant's recorded sibling order
+ * @param path - Node names from the root
+ * @returns 1-based position and number of siblings, or null when the list wasn't shuffled for the participant
+ */
+export function getDisplayedPosition(
+  treeOrder: TreeOrder | undefined,
+  path: string[]
+): { position: number; siblingCount: number } | null {
+  if (!treeOrder || path.length === 0) return null;
+
+  const parentKey = getTreeOrderKey(path.slice(0, -1)).toLowerCase();
+  const siblings = Object.entries(treeOrder).find(([key]) => key.toLowerCase() === parentKey)?.[1];
+  if (!siblings) return null;
+
+  const name = path[path.length - 1].toLowerCase();
+  const index = siblings.findIndex(sibling => sibling.toLowerCase() === name);
+  return index === -1 ? null : { position: index + 1, siblingCount: siblings.length };
+}
+
+/**
+ * Tally first clicks at one depth by the position the chosen label was displayed at
+ * Without position bias, each participant's first click is equally likely at any of the positions they saw
+ * @param taskResults - Results for a single task
+ * @param treeOrders - Displayed sibling order of the participant behind each result (same order as taskResults)
+ * @param tree - Tree structure in its authored order
+ * @param depth - First-click level (1 = top level)
+ * @returns Counts per position, or an empty array when no participant saw that level shuffled
+ */
+export function calculateFirstClickPositions(
+  taskResults: TaskResult[],
+  treeOrders: (TreeOrder | undefined)[],
+  tree: Item[],
+  depth: number
+): FirstClickPositionStats[] {
+  const observed = new Map<number, number>();
+  const expected = new Map<number, number>();
+  let total = 0;
+
+  try {
+    taskResults.forEach((result, index) => {
+      const treeOrder = treeOrders[index];
+      if (result.skipped || !treeOrder) return;
+
+      const firstClick = replayPath(parsePath(result.pathTaken), tree).find(step => step.position.length === depth);
+      const displayed = firstClick ? getDisplayedPosition(treeOrder, firstClick.position) : null;
+      if (!displayed) return;
+
+      total++;
+      observed.set(displayed.position, (observed.get(displayed.position) || 0) + 1);
+      for (let position = 1; position <= displayed.siblingCount; position++) {
+        expected.set(position, (expected.get(position) || 0) + 1 / displayed.siblingCount);
+      }
+    });
+  } catch (error) {
+    console.error('Error calculating first click positions:', error);
+    return [];
+  }
+
+  if (total === 0) return [];
+
+  return Array.from(expected.keys())
+    .sort((a, b) => a - b)
+    .map(position => ({
+      position,
+      firstClickCount: observed.get(position) || 0,
+      firstClickPercentage: Math.round(((observed.get(position) || 0) / total) * 100),
+      expectedPercentage: Math.round(((expected.get(position) || 0) / total) * 100),
+    }));
+}
@@ -0,0 +1,132 @@
+/**
+ * Tree-wide findability metrics, aggregated across all tasks
+ * Highlights heavily trafficked nodes, nodes that attract the wrong participants,
+ * and nodes that are often (wrongly) chosen as the answer
+ */
+
+import type { FindabilityMode, NodeClickStats, NodeFindability, UploadedData } from '../types';
+import { calculateNodeClickStats } from './node-clicks';
+import { parsePath } from './path-utils';
+import { replayPath } from './path-efficiency';
+import { applyExclusions } from '../utils/exclusions';
+
+/**
+ * Build the lookup key for a node path
+ * @param path - Node path string (e.g., "/Home/Products") or array of node names
+ * @returns Case-insensitive key
+ */
+export function getFindabilityKey(path: string | string[]): string {
+  const parts = Array.isArray(path) ? path : parsePath(path);
+  return `/${parts.join('/')}`.toLowerCase();
+}
+
+function flattenNodes(nodes: NodeClickStats[]): NodeClickStats[] {
+  return nodes.flatMap(node => [node, ...flattenNodes(node.children)]);
+}
+
+/**
+ * Calculate findability metrics for every node across all tasks
+ * @param data - Analyzer study data
+ * @returns Map of node key (see getFindabilityKey) to findability metrics
+ */
+export function calculateFindability(sourceData: UploadedData): Map<string, NodeFindability> {
+  const data = applyExclusions(sourceData);
+  const tree = data.treeStructure || [];
+  const findability = new Map<string, NodeFindability>();
+
+  const getEntry = (path: string, name: string): NodeFindability => {
+    const key = getFindabilityKey(path);
+    let entry = findability.get(key);
+    if (!entry) {
+      entry = { path, name, visits: 0, correctVisits: 0, incorrectVisits: 0, correctRatio: null, wrongNominations: 0, tasks: [] };
+      findability.set(key, entry);
+    }
+    return entry;
+  };
+
+  try {
+    data.tasks.forEach(task => {
+      const taskResults = data.participants.flatMap(p => p.taskResults.filter(r => r.taskIndex === task.index));
+      const expectedAnswers = task.expectedAnswer
+        .split(',')
+        .map(a => a.trim())
+        .filter(a => a.length > 0);
+
+      // Wrong answers: final position of each failed, non-skipped attempt (a timeout chose no answer)
+      const wrongNominations = new Map<string, number>();
+      taskResults
+        .filter(r => !r.skipped && !r.successful && !r.timedOut)
+        .forEach(r => {
+          const steps = replayPath(parsePath(r.pathTaken), tree);
+          if (steps.length === 0) return;
+          const key = getFindabilityKey(steps[steps.length - 1].position);
+          wrongNominations.set(key, (wrongNominations.get(key) || 0) + 1);
+        });
+
+      flattenNodes(calculateNodeClickStats(taskResults, expectedAnswers, tree)).forEach(node => {
+        const entry = getEntry(node.path, node.name);
+        const nominations = wrongNominations.get(getFindabilityKey(node.path)) || 0;
+
+        entry.visits += node.participantCount;
+        if (node.isOnCorrectPath) {
+          entry.correctVisits += node.participantCount;
+        } else {
+          entry.incorrectVisits += node.participantCount;
+        }
+        entry.wrongNominations += nominations;
+
+        if (node.participantCount > 0 || nominations > 0) {
+          entry.tasks.push({
+            taskId: task.id,
+            taskIndex: task.index,
+            description: task.description,
+            isOnCorrectPath: node.isOnCorrectPath,
+            visits: node.participantCount,
+            wrongNominations: nominations,
+          });
+        }
+      });
+    });
+
+    findability.forEach(entry => {
+      entry.correctRatio = entry.visits > 0 ? Math.round((entry.correctVisits / entry.visits) * 100) : null;
+    });
+  } catch (error) {
+    console.error('Error calculating findability:', error);
+  }
+
+  return findability;
+}
+
+/**
+ * Get the heatmap background color for a node
+ * @param node - Findability metrics for the node (undefined if never reached)
+ * @param mode - Which metric to color by
+ * @param maxima - Largest visits and wrong nominations in the tree, used to scale intensity
+ * @returns CSS color, or undefined for no highlight
+ */
+export function getHeatmapColor(
+  node: NodeFindability | undefined,
+  mode: FindabilityMode,
+  maxima: { visits: number; wrongNominations: number }
+): string | undefined {
+  if (!node) return undefined;
+
+  switch (mode) {
+    case 'traffic': {
+      if (node.visits === 0 || maxima.visits === 0) return undefined;
+      return `rgba(59, 130, 246, ${0.1 + 0.7 * (node.visits / maxima.visits)})`;
+    }
+    case 'correctness': {
+      if (node.correctRatio === null) return undefined;
+      // Red (0% correct visits) through amber to green (100%)
+      return `hsla(${Math.round(node.correctRatio * 1.2)}, 75%, 50%, 0.35)`;
+    }
+    case 'wrong-answers': {
+      if (node.wrongNominations === 0 || maxima.wrongNominations === 0) return undefined;
+      return `rgba(239, 68, 68, ${0.15 + 0.65 * (node.wrongNominations / maxima.wrongNominations)})`;
+    }
+    default:
+      return undefined;
+  }
+}
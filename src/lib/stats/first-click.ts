@@ -0,0 +1,103 @@
+/**
+ * First-click analysis
+ * Whether each participant's first click lay on a correct path, and how well
+ * that predicts task success (the strongest single predictor in tree testing)
+ */
+
+import type { ConfidenceIntervalMethod, FirstClickStats, Item, TaskResult } from '../types';
+import { parsePath } from './path-utils';
+import { replayPath } from './path-efficiency';
+import { calculateRateInterval } from './confidence-intervals';
+import { getTreeClicks } from './click-events';
+
+export interface FirstClick {
+  path: string[]; // Node names from the root down to the first-click level
+  time: number | null; // Seconds from the task start, when click events were recorded
+}
+
+/**
+ * Get the tree level whose choice counts as the first click
+ * A tree with a single root (e.g. "Home") is always opened first, so the level below it counts
+ * @param tree - Tree structure
+ * @returns 1 for the top level, 2 below a single root
+ */
+export function getFirstClickDepth(tree: Item[]): number {
+  return tree.length === 1 ? 2 : 1;
+}
+
+/**
+ * Find the first click of an attempt at the first-click level
+ * Uses the click event log when recorded, otherwise replays the path taken
+ * @param result - Task result of one participant
+ * @param tree - Tree structure
+ * @param depth - First-click level from getFirstClickDepth
+ * @returns The first click, or null if the participant never reached that level
+ */
+export function getFirstClick(result: TaskResult, tree: Item[], depth: number): FirstClick | null {
+  try {
+    if (result.events && result.events.length > 0) {
+      const event = getTreeClicks(result.events).find(click => parsePath(click.path).length >= depth);
+      return event ? { path: parsePath(event.path).slice(0, depth), time: event.time / 1000 } : null;
+    }
+
+    const step = replayPath(parsePath(result.pathTaken), tree).find(s => s.position.length >= depth);
+    return step ? { path: step.position.slice(0, depth), time: null } : null;
+  } catch (error) {
+    console.error('Error finding first click:', error);
+    return null;
+  }
+}
+
+/**
+ * Check whether a first click lies on any correct path
+ * @param firstClick - Node names from the root
+ * @param expectedAnswers - Expected answer paths for the task
+ */
+export function isCorrectFirstClick(firstClick: string[], expectedAnswers: string[]): boolean {
+  const lower = firstClick.map(name => name.toLowerCase());
+  return expectedAnswers.some(answer => {
+    const expected = parsePath(answer).map(name => name.toLowerCase());
+    return expected.length >= lower.length && lower.every((name, i) => expected[i] === name);
+  });
+}
+
+/**
+ * Calculate first-click correctness and success rates after a correct and a wrong first click
+ * Attempts without a first click (e.g. direct skips) are left out
+ * @param taskResults - Results for a single task
+ * @param expectedAnswers - Expected answer paths for the task
+ * @param tree - Tree structure
+ * @param method - Confidence interval method
+ * @returns Stats, or undefined when the task has no expected answers or no first clicks
+ */
+export function calculateFirstClickStats(
+  taskResults: TaskResult[],
+  expectedAnswers: string[],
+  tree: Item[],
+  method?: ConfidenceIntervalMethod
+): FirstClickStats | undefined {
+  if (expectedAnswers.length === 0) return undefined;
+
+  const depth = getFirstClickDepth(tree);
+  const attempts = taskResults
+    .map(result => ({ result, firstClick: getFirstClick(result, tree, depth) }))
+    .filter((attempt): attempt is { result: TaskResult; firstClick: FirstClick } => attempt.firstClick !== null)
+    .map(({ result, firstClick }) => ({ successful: result.successful, correct: isCorrectFirstClick(firstClick.path, expectedAnswers) }));
+  if (attempts.length === 0) return undefined;
+
+  const afterCorrect = attempts.filter(attempt => attempt.correct);
+  const afterIncorrect = attempts.filter(attempt => !attempt.correct);
+  const summarize = (group: typeof attempts) => {
+    const successes = group.filter(attempt => attempt.successful).length;
+    return { attempts: group.length, successes, success: calculateRateInterval(successes, group.length, method) };
+  };
+
+  return {
+    depth,
+    attempts: attempts.length,
+    correctCount: afterCorrect.length,
+    correct: calculateRateInterval(afterCorrect.length, attempts.length, method),
+    afterCorrect: summarize(afterCorrect),
+    afterIncorrect: summarize(afterIncorrect),
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Task follow-up analysis
+ * Response distributions for the questions asked after individual tasks,
+ * plus word frequencies for the free-text "why" answers
+ */
+
+import type { FollowUpQuestionStats, Participant, UploadedData } from '../types';
+import type { QuestionAnswer, TaskFollowUpQuestion } from '../types/study';
+import { applyExclusions } from '../utils/exclusions';
+import { DEFAULT_LIKERT_POINTS, inferQuestionsFromAnswers, isAnswered } from '../utils/questionnaires';
+
+// Common English words that say nothing about the task on their own
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+  'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'dont', 'for', 'from',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'him', 'his', 'how', 'i', 'if', 'im', 'in', 'into', 'is',
+  'it', 'its', 'just', 'me', 'more', 'most', 'my', 'no', 'not', 'of', 'on', 'one', 'or', 'other', 'our', 'out',
+  'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to',
+  'too', 'under', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why',
+  'will', 'with', 'would', 'you', 'your',
+]);
+
+/**
+ * Count how many responses mention each word
+ * Words are lower-cased; stop words and words shorter than 3 letters are ignored
+ * @param texts - Free-text responses
+ * @param limit - Maximum number of words to return
+ * @returns Words with the number of responses that use them, most frequent first
+ */
+export function calculateWordFrequencies(texts: string[], limit: number = 20): { word: string; count: number }[] {
+  const counts = new Map<string, number>();
+  texts.forEach(text => {
+    const words = new Set(
+      (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [])
+        .map(word => word.replace(/'/g, ''))
+        .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    );
+    words.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, limit);
+}
+
+/**
+ * Get the follow-up questions of a task: its definitions, or ones inferred from the answers
+ */
+function getFollowUpQuestions(data: UploadedData, taskId: string): TaskFollowUpQuestion[] {
+  const task = data.tasks.find(t => t.id === taskId);
+  if (task?.followUpQuestions && task.followUpQuestions.length > 0) {
+    return task.followUpQuestions;
+  }
+
+  // Reuse the questionnaire inference by treating each participant's follow-up answers as questionnaire answers
+  const answerSets = data.participants.map(participant => ({
+    ...participant,
+    questionnaireAnswers: participant.taskResults.find(r => r.taskId === taskId)?.followUpAnswers,
+  }));
+  return inferQuestionsFromAnswers(answerSets);
+}
+
+/**
+ * Check whether any task has follow-up questions or answers
+ * @param data - Analyzer study data
+ * @returns True if the Tasks tab should show follow-up responses
+ */
+export function hasFollowUpData(data: UploadedData): boolean {
+  return data.tasks.some(t => (t.followUpQuestions?.length || 0) > 0)
+    || data.participants.some(p => p.taskResults.some(r => Object.keys(r.followUpAnswers || {}).length > 0));
+}
+
+/**
+ * Calculate response distributions for a task's follow-up questions
+ * @param sourceData - Analyzer study data
+ * @param taskId - Task to analyze
+ * @returns Stats per question, in the order they were asked
+ */
+export function calculateFollowUpStats(sourceData: UploadedData, taskId: string): FollowUpQuestionStats[] {
+  const data = applyExclusions(sourceData);
+
+  try {
+    return getFollowUpQuestions(data, taskId).map(question => {
+      const answered = data.participants
+        .map(participant => {
+          const result = participant.taskResults.find(r => r.taskId === taskId);
+          return { participant, successful: !!result?.successful, answer: result?.followUpAnswers?.[question.id] };
+        })
+        .filter((entry): entry is { participant: Participant; successful: boolean; answer: QuestionAnswer } =>
+          isAnswered(question, entry.answer)
+        );
+
+      if (question.type === 'free-text') {
+        const textResponses = answered.map(({ participant, successful, answer }) => ({
+          participantId: participant.id,
+          text: String(answer),
+          successful,
+        }));
+        return {
+          question,
+          respondents: answered.length,
+          responses: [],
+          mean: null,
+          textResponses,
+          wordFrequencies: calculateWordFrequencies(textResponses.map(r => r.text)),
+        };
+      }
+
+      const counts = new Map<string, number>();
+      answered.forEach(({ answer }) => {
+        (Array.isArray(answer) ? answer.map(String) : [String(answer)]).forEach(value => {
+          counts.set(value, (counts.get(value) || 0) + 1);
+        });
+      });
+
+      // List every option or scale point, including ones nobody picked
+      const categories = question.type === 'likert'
+        ? Array.from({ length: question.scalePoints || DEFAULT_LIKERT_POINTS }, (_, i) => `${i + 1}`)
+        : [...(question.options || [])].filter(option => option.trim());
+      counts.forEach((_, value) => {
+        if (!categories.includes(value)) categories.push(value);
+      });
+
+      const ratings = question.type === 'likert'
+        ? answered.map(({ answer }) => Number(answer)).filter(value => !isNaN(value))
+        : [];
+
+      return {
+        question,
+        respondents: answered.length,
+        responses: categories.map(value => {
+          const count = counts.get(value) || 0;
+          return { value, count, percentage: answered.length > 0 ? Math.round((count / answered.length) * 100) : 0 };
+        }),
+        mean: ratings.length > 0
+          ? Math.round((ratings.reduce((sum, value) => sum + value, 0) / ratings.length) * 10) / 10
+          : null,
+        textResponses: [],
+        wordFrequencies: [],
+      };
+    });
+  } catch (error) {
+    console.error('Error calculating follow-up stats:', error);
+    return [];
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Per-node click analysis for a task, at every depth of the tree
+ * Tallies first clicks (the first child chosen under each parent) and all clicks,
+ * so divergence from the correct path can be traced branch by branch
+ */
+
+import type { Item, NodeClickStats, TaskResult } from '../types';
+import { parsePath } from './path-utils';
+import { replayPath } from './path-efficiency';
+import { getDisplayedPosition } from './display-position';
+
+interface NodeTally {
+  name: string;
+  path: string[];
+  firstClickCount: number;
+  totalClickCount: number;
+  participants: Set<number>;
+  children: Map<string, NodeTally>;
+}
+
+function createTally(name: string, path: string[]): NodeTally {
+  return { name, path, firstClickCount: 0, totalClickCount: 0, participants: new Set(), children: new Map() };
+}
+
+function getOrCreateChild(parent: NodeTally, name: string): NodeTally {
+  const key = name.toLowerCase();
+  let child = parent.children.get(key);
+  if (!child) {
+    child = createTally(name, [...parent.path, name]);
+    parent.children.set(key, child);
+  }
+  return child;
+}
+
+function seedFromTree(parent: NodeTally, items: Item[]): void {
+  items.forEach(item => {
+    const child = getOrCreateChild(parent, item.name);
+    if (item.children && item.children.length > 0) {
+      seedFromTree(child, item.children);
+    }
+  });
+}
+
+/**
+ * Check whether a node path is a prefix of any expected answer path
+ * @param nodePath - Node names from the root
+ * @param expectedPaths - Parsed expected answer paths (lowercase)
+ * @returns True if the node lies on a correct path
+ */
+function isPrefixOfAny(nodePath: string[], expectedPaths: string[][]): boolean {
+  const lower = nodePath.map(name => name.toLowerCase());
+  return expectedPaths.some(expected =>
+    expected.length >= lower.length && lower.every((name, i) => expected[i] === name)
+  );
+}
+
+/**
+ * Calculate first-click and all-click tallies for every node in the tree
+ * @param taskResults - Results for a single task
+ * @param expectedAnswers - Expected answer paths for the task
+ * @param tree - Tree structure; nodes never clicked are still included with zero counts
+ * @param treeOrders - Displayed sibling order of the participant behind each result (same order as taskResults), if shuffled
+ * @returns Top-level nodes, each with nested children
+ */
+export function calculateNodeClickStats(
+  taskResults: TaskResult[],
+  expectedAnswers: string[],
+  tree: Item[],
+  treeOrders: (Record<string, string[]> | undefined)[] = []
+): NodeClickStats[] {
+  const root = createTally('', []);
+  // Sibling order each participant saw, by the participant index used in the tallies
+  const participantOrders: (Record<string, string[]> | undefined)[] = [];
+
+  try {
+    seedFromTree(root, tree);
+
+    taskResults
+      .map((result, index) => ({ result, treeOrder: treeOrders[index] }))
+      .filter(({ result }) => !result.skipped)
+      .forEach(({ result, treeOrder }, participantIndex) => {
+        participantOrders[participantIndex] = treeOrder;
+        const parts = parsePath(result.pathTaken);
+        if (parts.length === 0) return;
+
+        root.participants.add(participantIndex);
+        // Parents whose first child choice has already been recorded for this participant
+        const decidedParents = new Set<NodeTally>();
+
+        replayPath(parts, tree).forEach(step => {
+          if (step.position.length === 0) return;
+
+          let parent = root;
+          step.position.slice(0, -1).forEach(name => {
+            parent = getOrCreateChild(parent, name);
+          });
+          const node = getOrCreateChild(parent, step.position[step.position.length - 1]);
+
+          node.totalClickCount++;
+          node.participants.add(participantIndex);
+          if (!decidedParents.has(parent)) {
+            node.firstClickCount++;
+            decidedParents.add(parent);
+          }
+        });
+      });
+  } catch (error) {
+    console.error('Error calculating node click stats:', error);
+    return [];
+  }
+
+  const expectedPaths = expectedAnswers
+    .map(answer => parsePath(answer).map(name => name.toLowerCase()))
+    .filter(path => path.length > 0);
+  const totalParticipants = root.participants.size;
+
+  // Mean position the node was displayed at, among participants who reached its parent and saw it shuffled
+  const getAveragePosition = (tally: NodeTally, parent: NodeTally): number | undefined => {
+    const positions = Array.from(parent.participants)
+      .map(participantIndex => getDisplayedPosition(participantOrders[participantIndex], tally.path)?.position)
+      .filter((position): position is number => position !== undefined);
+    if (positions.length === 0) return undefined;
+    return Math.round((positions.reduce((sum, position) => sum + position, 0) / positions.length) * 10) / 10;
+  };
+
+  const toStats = (tally: NodeTally, parent: NodeTally): NodeClickStats => {
+    const reachedParent = parent.participants.size;
+    const lowerPath = tally.path.map(name => name.toLowerCase());
+    const averagePosition = getAveragePosition(tally, parent);
+    return {
+      path: `/${tally.path.join('/')}`,
+      name: tally.name,
+      depth: tally.path.length,
+      isOnCorrectPath: isPrefixOfAny(tally.path, expectedPaths),
+      isCorrectDestination: expectedPaths.some(expected =>
+        expected.length === lowerPath.length && expected.every((name, i) => lowerPath[i] === name)
+      ),
+      firstClickCount: tally.firstClickCount,
+      firstClickPercentage: reachedParent > 0 ? Math.round((tally.firstClickCount / reachedParent) * 100) : 0,
+      totalClickCount: tally.totalClickCount,
+      participantCount: tally.participants.size,
+      participantPercentage: totalParticipants > 0 ? Math.round((tally.participants.size / totalParticipants) * 100) : 0,
+      ...(averagePosition !== undefined && { averagePosition }),
+      children: Array.from(tally.children.values()).map(child => toStats(child, tally)),
+    };
+  };
+
+  return Array.from(root.children.values()).map(child => toStats(child, root));
+}
+
+/**
+ * Collect the nodes at a given depth from a node click tree
+ * @param nodes - Top-level nodes
+ * @param depth - Depth to collect (1 = top level)
+ * @returns Nodes at that depth
+ */
+export function getNodesAtDepth(nodes: NodeClickStats[], depth: number): NodeClickStats[] {
+  if (depth <= 1) return nodes;
+  return nodes.flatMap(node => getNodesAtDepth(node.children, depth - 1));
+}
@@ -0,0 +1,176 @@
+/**
+ * Task order effects
+ * Whether success, directness and time change with the position a task was presented in,
+ * e.g. participants learning the tree (learning) or tiring towards the end (fatigue)
+ */
+
+import type {
+  OrderEffectAnalysis,
+  OrderEffectMetric,
+  OrderEffectPosition,
+  OrderEffectSummary,
+  OrderEffectTrend,
+  TaskResult,
+  UploadedData,
+} from '../types';
+import { DEFAULT_SIGNIFICANCE_LEVEL, normalCdf } from './study-comparison';
+import { applyExclusions } from '../utils/exclusions';
+
+type PositionedResult = TaskResult & { presentedPosition: number };
+
+const ORDER_EFFECT_METRICS: OrderEffectMetric[] = ['success', 'directness', 'time'];
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function rate(results: TaskResult[], predicate: (r: TaskResult) => boolean): number {
+  return results.length > 0 ? Math.round((results.filter(predicate).length / results.length) * 100) : 0;
+}
+
+/**
+ * Rank values, giving ties their average rank
+ */
+function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let i = 0; i < order.length;) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const averageRank = (i + j + 2) / 2;
+    for (let k = i; k <= j; k++) ranks[order[k].index] = averageRank;
+    i = j + 1;
+  }
+  return ranks;
+}
+
+/**
+ * Spearman's rank correlation with a two-sided p-value
+ * @param x - First variable
+ * @param y - Second variable, same length as x
+ * @returns Coefficient (null when either variable is constant) and p-value (null with fewer than 4 pairs)
+ */
+export function spearmanCorrelation(x: number[], y: number[]): { coefficient: number | null; pValue: number | null } {
+  const n = x.length;
+  if (n < 2 || y.length !== n) return { coefficient: null, pValue: null };
+
+  const rankX = rank(x);
+  const rankY = rank(y);
+  const meanRank = (n + 1) / 2;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (rankX[i] - meanRank) * (rankY[i] - meanRank);
+    varianceX += Math.pow(rankX[i] - meanRank, 2);
+    varianceY += Math.pow(rankY[i] - meanRank, 2);
+  }
+  if (varianceX === 0 || varianceY === 0) return { coefficient: null, pValue: null };
+
+  const coefficient = Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceX * varianceY)));
+
+  // Fisher z-transform with the Fieller-Hartley-Pearson variance for rank correlations
+  let pValue: number | null = null;
+  if (n >= 4) {
+    const z = Math.atanh(Math.min(0.999999, Math.abs(coefficient))) * Math.sqrt((n - 3) / 1.06);
+    pValue = Math.min(1, 2 * (1 - normalCdf(z)));
+  }
+
+  return { coefficient, pValue };
+}
+
+function getMetricValue(result: TaskResult, metric: OrderEffectMetric): number {
+  switch (metric) {
+    case 'success': return result.successful ? 1 : 0;
+    case 'directness': return result.directPathTaken ? 1 : 0;
+    case 'time': return result.completionTimeSeconds;
+  }
+}
+
+function calculateTrend(results: PositionedResult[], metric: OrderEffectMetric, alpha: number): OrderEffectTrend {
+  // Skips are left out of time, as in the task time stats: a quick skip isn't getting faster
+  const tested = metric === 'time' ? results.filter(r => !r.skipped) : results;
+  const { coefficient, pValue } = spearmanCorrelation(
+    tested.map(r => r.presentedPosition),
+    tested.map(r => getMetricValue(r, metric))
+  );
+  const significant = coefficient !== null && pValue !== null && pValue < alpha;
+
+  // Higher success or directness later on is learning; for time, getting faster is
+  const improves = metric === 'time' ? (coefficient ?? 0) < 0 : (coefficient ?? 0) > 0;
+
+  return {
+    metric,
+    attempts: tested.length,
+    coefficient: coefficient !== null ? Math.round(coefficient * 100) / 100 : null,
+    pValue,
+    significant,
+    direction: significant ? (improves ? 'learning' : 'fatigue') : null,
+  };
+}
+
+function summarize(
+  results: PositionedResult[],
+  task: { id: string; index: number; description: string } | null,
+  alpha: number
+): OrderEffectSummary {
+  const positions: OrderEffectPosition[] = Array.from(new Set(results.map(r => r.presentedPosition)))
+    .sort((a, b) => a - b)
+    .map(position => {
+      const atPosition = results.filter(r => r.presentedPosition === position);
+      const answered = atPosition.filter(r => !r.skipped);
+      return {
+        position,
+        attempts: atPosition.length,
+        answeredAttempts: answered.length,
+        successRate: rate(atPosition, r => r.successful),
+        directnessRate: rate(atPosition, r => r.directPathTaken),
+        medianTime: answered.length > 0 ? Math.round(median(answered.map(r => r.completionTimeSeconds)) * 10) / 10 : null,
+      };
+    });
+
+  return {
+    taskId: task?.id ?? null,
+    taskIndex: task?.index ?? null,
+    description: task?.description ?? 'All tasks',
+    attempts: results.length,
+    positions,
+    trends: ORDER_EFFECT_METRICS.map(metric => calculateTrend(results, metric, alpha)),
+  };
+}
+
+/**
+ * Check whether any result records the position it was presented in
+ */
+export function hasOrderData(data: UploadedData): boolean {
+  return data.participants.some(p => p.taskResults.some(r => typeof r.presentedPosition === 'number'));
+}
+
+/**
+ * Relate success, directness and time to presentation position, overall and per task
+ * Only attempts with a recorded position count; pooling tasks assumes the order varied between participants
+ * @param sourceData - Analyzer study data
+ * @param alpha - Significance level
+ * @returns Rates by position and trend tests for all tasks combined and for each task
+ */
+export function calculateOrderEffects(sourceData: UploadedData, alpha: number = DEFAULT_SIGNIFICANCE_LEVEL): OrderEffectAnalysis {
+  const data = applyExclusions(sourceData);
+
+  try {
+    const results = data.participants.flatMap(p =>
+      p.taskResults.filter((r): r is PositionedResult => typeof r.presentedPosition === 'number')
+    );
+
+    return {
+      alpha,
+      overall: summarize(results, null, alpha),
+      tasks: data.tasks.map(task => summarize(results.filter(r => r.taskIndex === task.index), task, alpha)),
+    };
+  } catch (error) {
+    console.error('Error calculating order effects:', error);
+    return { alpha, overall: summarize([], null, alpha), tasks: [] };
+  }
+}
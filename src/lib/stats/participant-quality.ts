@@ -0,0 +1,117 @@
+/**
+ * Participant quality screening
+ * Flags speeders, heavy skippers and straight-liners so they can be excluded
+ */
+
+import type { Participant, QualityFlag, QualityRule, QualityRuleType, UploadedData } from '../types';
+import { parsePath } from './path-utils';
+
+/**
+ * Display metadata for each rule type
+ */
+export const QUALITY_RULE_DEFINITIONS: Record<QualityRuleType, { label: string; unit: string | null; description: string }> = {
+  'min-duration': {
+    label: 'Total duration under',
+    unit: 'seconds',
+    description: 'Finished the whole study faster than is plausible.',
+  },
+  'max-skip-rate': {
+    label: 'Skipped more than',
+    unit: '% of tasks',
+    description: 'Skipped most tasks instead of attempting them.',
+  },
+  'min-median-task-time': {
+    label: 'Median task time under',
+    unit: 'seconds',
+    description: 'Answered tasks too quickly to have read them.',
+  },
+  'identical-answers': {
+    label: 'Identical answers on all tasks',
+    unit: null,
+    description: 'Chose the same destination for every answered task (at least two).',
+  },
+};
+
+export const DEFAULT_QUALITY_RULES: QualityRule[] = [
+  { id: 'min-duration', type: 'min-duration', enabled: true, threshold: 60 },
+  { id: 'max-skip-rate', type: 'max-skip-rate', enabled: true, threshold: 50 },
+  { id: 'min-median-task-time', type: 'min-median-task-time', enabled: true, threshold: 3 },
+  { id: 'identical-answers', type: 'identical-answers', enabled: true, threshold: 0 },
+];
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Check a single rule against a participant
+ * @param participant - Participant to check
+ * @param rule - Rule to apply
+ * @returns Flag describing the violation, or null if the participant passes
+ */
+export function evaluateQualityRule(participant: Participant, rule: QualityRule): QualityFlag | null {
+  if (!rule.enabled) return null;
+
+  const results = participant.taskResults;
+  const answered = results.filter(r => !r.skipped);
+
+  switch (rule.type) {
+    case 'min-duration': {
+      if (participant.durationSeconds === null || participant.durationSeconds >= rule.threshold) return null;
+      return { ruleId: rule.id, type: rule.type, message: `Finished in ${Math.round(participant.durationSeconds)}s (under ${rule.threshold}s)` };
+    }
+    case 'max-skip-rate': {
+      if (results.length === 0) return null;
+      const skipRate = Math.round(((results.length - answered.length) / results.length) * 100);
+      if (skipRate <= rule.threshold) return null;
+      return { ruleId: rule.id, type: rule.type, message: `Skipped ${skipRate}% of tasks (over ${rule.threshold}%)` };
+    }
+    case 'min-median-task-time': {
+      if (answered.length === 0) return null;
+      const medianTime = median(answered.map(r => r.completionTimeSeconds));
+      if (medianTime >= rule.threshold) return null;
+      return { ruleId: rule.id, type: rule.type, message: `Median task time ${Math.round(medianTime * 10) / 10}s (under ${rule.threshold}s)` };
+    }
+    case 'identical-answers': {
+      if (answered.length < 2) return null;
+      const destinations = answered.map(r => {
+        const parts = parsePath(r.pathTaken);
+        return parts.length > 0 ? parts[parts.length - 1].toLowerCase() : '';
+      });
+      if (destinations[0] === '' || destinations.some(d => d !== destinations[0])) return null;
+      const parts = parsePath(answered[0].pathTaken);
+      return { ruleId: rule.id, type: rule.type, message: `Chose "${parts[parts.length - 1]}" on all ${answered.length} answered tasks` };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Run every quality rule against every participant who reached the tasks
+ * Disqualified participants are skipped: their duration only covers the screener
+ * @param data - Analyzer study data
+ * @returns Map of participant ID to the flags raised (participants with no flags are omitted)
+ */
+export function evaluateQualityRules(data: UploadedData): Map<string, QualityFlag[]> {
+  const rules = data.qualityRules || DEFAULT_QUALITY_RULES;
+  const flagged = new Map<string, QualityFlag[]>();
+
+  data.participants.forEach(participant => {
+    if (participant.status === 'Disqualified') return;
+    try {
+      const flags = rules
+        .map(rule => evaluateQualityRule(participant, rule))
+        .filter((flag): flag is QualityFlag => flag !== null);
+      if (flags.length > 0) {
+        flagged.set(participant.id, flags);
+      }
+    } catch (error) {
+      console.error('Error evaluating quality rules for participant:', participant.id, error);
+    }
+  });
+
+  return flagged;
+}
@@ -0,0 +1,183 @@
+/**
+ * Path efficiency utilities for tree test attempts
+ * Replays a participant's click trail against the tree to measure
+ * how far they wandered from the shortest route (Smith, 1996 lostness)
+ */
+
+import type { Item } from '../types';
+import { parsePath } from './path-utils';
+
+export interface PathEfficiency {
+  optimalPathLength: number; // R: nodes on the shortest route to a correct destination
+  nodesVisited: number; // S: total nodes visited, revisits included
+  uniqueNodes: number; // N: distinct nodes visited
+  backtracks: number; // Moves back up to an ancestor
+  lostness: number; // 0 = perfectly efficient, higher = more lost
+}
+
+export type LostnessCategory = 'not-lost' | 'disoriented' | 'lost';
+
+/**
+ * Lostness thresholds from Smith (1996): below 0.4 participants show no
+ * signs of being lost, above 0.5 they are clearly lost
+ */
+export const LOSTNESS_CATEGORIES: Record<LostnessCategory, { label: string; min: number; max: number }> = {
+  'not-lost': { label: 'Not lost (< 0.4)', min: 0, max: 0.4 },
+  disoriented: { label: 'Disoriented (0.4 – 0.5)', min: 0.4, max: 0.5 },
+  lost: { label: 'Lost (> 0.5)', min: 0.5, max: Infinity },
+};
+
+/**
+ * Classify a lostness score
+ * @param lostness - Lostness score
+ * @returns Lostness category
+ */
+export function getLostnessCategory(lostness: number): LostnessCategory {
+  if (lostness < LOSTNESS_CATEGORIES['not-lost'].max) return 'not-lost';
+  if (lostness <= LOSTNESS_CATEGORIES.disoriented.max) return 'disoriented';
+  return 'lost';
+}
+
+function findChild(items: Item[] | undefined, name: string): Item | undefined {
+  const target = name.trim().toLowerCase();
+  return items?.find(item => item.name.trim().toLowerCase() === target);
+}
+
+function getChildrenAt(tree: Item[], position: string[]): Item[] | undefined {
+  let level: Item[] | undefined = tree;
+  for (const name of position) {
+    level = findChild(level, name)?.children;
+    if (!level) return undefined;
+  }
+  return level;
+}
+
+function findDepthByName(items: Item[], name: string, depth = 1): number | null {
+  const target = name.trim().toLowerCase();
+  let best: number | null = null;
+
+  for (const item of items) {
+    if (item.name.trim().toLowerCase() === target) {
+      best = best === null ? depth : Math.min(best, depth);
+    }
+    if (item.children && item.children.length > 0) {
+      const childDepth = findDepthByName(item.children, name, depth + 1);
+      if (childDepth !== null) {
+        best = best === null ? childDepth : Math.min(best, childDepth);
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Get the minimum number of nodes a participant must visit to reach a correct answer
+ * Resolves each expected path against the tree; falls back to the expected path length
+ * when the path cannot be found in the tree
+ * @param expectedAnswers - Expected answer paths
+ * @param tree - Tree structure
+ * @returns Shortest route length in nodes, or 0 if no expected answers
+ */
+export function getOptimalPathLength(expectedAnswers: string[], tree: Item[]): number {
+  const lengths = expectedAnswers
+    .map(answer => {
+      const parts = parsePath(answer);
+      if (parts.length === 0) return 0;
+
+      // Walk the exact path first
+      const parent = getChildrenAt(tree, parts.slice(0, -1));
+      if (findChild(parent, parts[parts.length - 1])) return parts.length;
+
+      // Otherwise locate the destination anywhere in the tree
+      const depth = tree.length > 0 ? findDepthByName(tree, parts[parts.length - 1]) : null;
+      return depth ?? parts.length;
+    })
+    .filter(length => length > 0);
+
+  return lengths.length > 0 ? Math.min(...lengths) : 0;
+}
+
+export interface ReplayStep {
+  position: string[]; // Node names from the root down to the node the participant is on
+  isBacktrack: boolean; // True when the click moved back up the tree
+}
+
+/**
+ * Replay a click trail against the tree, resolving each click to a position
+ * Clicking an ancestor (e.g. via breadcrumbs) moves back up rather than down
+ * @param parts - Parsed click trail (node names in click order)
+ * @param tree - Tree structure; when empty, unknown clicks are treated as forward moves
+ * @returns One step per click
+ */
+export function replayPath(parts: string[], tree: Item[]): ReplayStep[] {
+  const position: string[] = [];
+
+  return parts.map(part => {
+    const currentLevel = getChildrenAt(tree, position);
+    const ancestorIndex = position.map(name => name.toLowerCase()).lastIndexOf(part.toLowerCase());
+    let isBacktrack = false;
+
+    const child = findChild(currentLevel, part);
+    const topLevelNode = position.length > 0 ? findChild(tree, part) : undefined;
+    if (child) {
+      position.push(child.name);
+    } else if (ancestorIndex !== -1 && ancestorIndex < position.length - 1) {
+      position.splice(ancestorIndex + 1);
+      isBacktrack = true;
+    } else if (ancestorIndex !== -1 && ancestorIndex === position.length - 1) {
+      // Re-selecting the current node: no movement
+    } else if (topLevelNode) {
+      // Jumped back to a different top-level node
+      position.splice(0, position.length, topLevelNode.name);
+      isBacktrack = true;
+    } else {
+      // Unknown tree or node: treat as a forward move
+      position.push(part);
+    }
+
+    return { position: [...position], isBacktrack };
+  });
+}
+
+/**
+ * Calculate path efficiency metrics for a single attempt
+ * @param pathTaken - Participant's click trail (e.g., "Home/Products/Home/Support")
+ * @param optimalPathLength - Shortest route length from getOptimalPathLength
+ * @param tree - Tree structure, used to tell forward moves from backtracks
+ * @returns Metrics, or null if the attempt has no clicks or no known optimal route
+ */
+export function calculatePathEfficiency(
+  pathTaken: string,
+  optimalPathLength: number,
+  tree: Item[]
+): PathEfficiency | null {
+  const parts = parsePath(pathTaken);
+  if (parts.length === 0 || optimalPathLength <= 0) {
+    return null;
+  }
+
+  try {
+    const steps = replayPath(parts, tree);
+    const visited = new Set(steps.map(step => step.position.join('/').toLowerCase()));
+    const backtracks = steps.filter(step => step.isBacktrack).length;
+
+    const nodesVisited = parts.length;
+    const uniqueNodes = visited.size;
+    const lostness = Math.sqrt(
+      Math.pow(uniqueNodes / nodesVisited - 1, 2) +
+      Math.pow(optimalPathLength / uniqueNodes - 1, 2)
+    );
+
+    return {
+      optimalPathLength,
+      nodesVisited,
+      uniqueNodes,
+      backtracks,
+      lostness: Math.round(lostness * 100) / 100,
+    };
+  } catch (error) {
+    console.error('Path efficiency calculation error:', error);
+    return null;
+  }
+}
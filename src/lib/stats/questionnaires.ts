@@ -0,0 +1,161 @@
+/**
+ * Questionnaire analysis
+ * Response distributions for screener, pre-test and post-test questions,
+ * cross-tabulated against task success
+ */
+
+import type { Participant, QuestionnaireQuestion, QuestionResponseStats, QuestionStats, UploadedData } from '../types';
+import type { QuestionAnswer } from '../types/study';
+import { applyExclusions } from '../utils/exclusions';
+import {
+  calculateSusScore,
+  DEFAULT_LIKERT_POINTS,
+  getSusGrade,
+  inferQuestionsFromAnswers,
+  isAnswered,
+  SUS_GRADES,
+} from '../utils/questionnaires';
+
+/**
+ * Get the questions to analyze: the study's definitions, or ones inferred from the answers
+ * @param data - Analyzer study data
+ * @returns Questions in display order
+ */
+export function getAnalyzedQuestions(data: UploadedData): QuestionnaireQuestion[] {
+  if (data.questions && data.questions.length > 0) {
+    return data.questions;
+  }
+  return inferQuestionsFromAnswers(data.participants);
+}
+
+/**
+ * Check whether any participant answered a questionnaire
+ * @param data - Analyzer study data
+ * @returns True if there is something to show in the Questionnaires tab
+ */
+export function hasQuestionnaireData(data: UploadedData): boolean {
+  return (data.questions?.length || 0) > 0 || data.participants.some(p => Object.keys(p.questionnaireAnswers || {}).length > 0);
+}
+
+/**
+ * Get the response categories an answer falls into
+ * Multiple choice answers count towards every selected option
+ */
+function getResponseValues(question: QuestionnaireQuestion, answer: QuestionAnswer): string[] {
+  switch (question.type) {
+    case 'multiple-choice':
+      return Array.isArray(answer) ? answer.map(String) : [String(answer)];
+    case 'sus': {
+      const score = Array.isArray(answer) ? calculateSusScore(answer.map(Number)) : null;
+      return score === null ? [] : [getSusGrade(score)];
+    }
+    default:
+      return [String(answer)];
+  }
+}
+
+/**
+ * Get every category in display order, including ones nobody picked
+ */
+function getResponseCategories(question: QuestionnaireQuestion, observed: string[]): string[] {
+  let categories: string[] = [];
+  if (question.type === 'single-choice' || question.type === 'multiple-choice') {
+    categories = [...(question.options || [])];
+  } else if (question.type === 'likert') {
+    const points = question.scalePoints || DEFAULT_LIKERT_POINTS;
+    categories = Array.from({ length: points }, (_, i) => `${i + 1}`);
+  } else if (question.type === 'sus') {
+    categories = SUS_GRADES.map(grade => grade.label);
+  }
+
+  // Answers that are no longer among the configured options are still reported
+  observed.forEach(value => {
+    if (!categories.includes(value)) categories.push(value);
+  });
+  return categories;
+}
+
+/**
+ * Calculate the task success rate of a group of participants
+ * @returns Overall and per-task success rates (0-100), null when there are no attempts
+ */
+function calculateGroupSuccess(
+  participants: Participant[],
+  tasks: UploadedData['tasks']
+): Pick<QuestionResponseStats, 'successRate' | 'taskSuccessRates'> {
+  const results = participants.flatMap(p => p.taskResults);
+  const rate = (successful: number, total: number) => (total > 0 ? Math.round((successful / total) * 100) : null);
+
+  return {
+    successRate: rate(results.filter(r => r.successful).length, results.length),
+    taskSuccessRates: tasks.map(task => {
+      const taskResults = results.filter(r => r.taskIndex === task.index);
+      return {
+        taskId: task.id,
+        taskIndex: task.index,
+        rate: rate(taskResults.filter(r => r.successful).length, taskResults.length),
+      };
+    }),
+  };
+}
+
+/**
+ * Calculate response distributions and success cross-tabs for every question
+ * @param data - Analyzer study data
+ * @returns Stats per question, in display order
+ */
+export function calculateQuestionStats(sourceData: UploadedData): QuestionStats[] {
+  const data = applyExclusions(sourceData);
+
+  try {
+    return getAnalyzedQuestions(data).map(question => {
+      const answered = data.participants
+        .map(participant => ({ participant, answer: participant.questionnaireAnswers?.[question.id] }))
+        .filter((entry): entry is { participant: Participant; answer: QuestionAnswer } => isAnswered(question, entry.answer));
+
+      if (question.type === 'free-text') {
+        return {
+          question,
+          respondents: answered.length,
+          responses: [],
+          mean: null,
+          textResponses: answered.map(({ participant, answer }) => ({ participantId: participant.id, text: String(answer) })),
+        };
+      }
+
+      const groups = new Map<string, Participant[]>();
+      answered.forEach(({ participant, answer }) => {
+        getResponseValues(question, answer).forEach(value => {
+          groups.set(value, [...(groups.get(value) || []), participant]);
+        });
+      });
+
+      const responses = getResponseCategories(question, Array.from(groups.keys())).map(value => {
+        const participants = groups.get(value) || [];
+        return {
+          value,
+          count: participants.length,
+          percentage: answered.length > 0 ? Math.round((participants.length / answered.length) * 100) : 0,
+          ...calculateGroupSuccess(participants, data.tasks),
+        };
+      });
+
+      let scores: number[] = [];
+      if (question.type === 'likert') {
+        scores = answered.map(({ answer }) => Number(answer)).filter(value => !isNaN(value));
+      } else if (question.type === 'sus') {
+        scores = answered
+          .map(({ answer }) => (Array.isArray(answer) ? calculateSusScore(answer.map(Number)) : null))
+          .filter((score): score is number => score !== null);
+      }
+      const mean = scores.length > 0
+        ? Math.round((scores.reduce((sum, value) => sum + value, 0) / scores.length) * 10) / 10
+        : null;
+
+      return { question, respondents: answered.length, responses, mean, textResponses: [] };
+    });
+  } catch (error) {
+    console.error('Error calculating questionnaire stats:', error);
+    return [];
+  }
+}
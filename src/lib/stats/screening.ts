@@ -0,0 +1,70 @@
+/**
+ * Screening funnel
+ * How many participants started, passed the screener and completed the tasks,
+ * and why the others were disqualified
+ */
+
+import type { ScreeningFunnel, UploadedData } from '../types';
+import { applyExclusions } from '../utils/exclusions';
+import { getQuestionLabel } from '../utils/questionnaires';
+import { hasQualifyingOptions, hasQuotas, isQualifyingAnswer } from '../utils/screener';
+
+/**
+ * Check whether the study screened participants
+ * @param data - Analyzer study data
+ * @returns True if there is a screening funnel to show
+ */
+export function hasScreeningData(data: UploadedData): boolean {
+  return data.participants.some(p => p.status === 'Disqualified')
+    || (data.questions || []).some(q => q.block === 'screener' && (hasQualifyingOptions(q) || hasQuotas(q)));
+}
+
+/**
+ * Calculate the screening funnel
+ * Disqualified participants are always counted here; manually excluded ones are left out
+ * @param sourceData - Analyzer study data, including disqualified participants
+ * @returns Funnel stages and disqualification reasons
+ */
+export function calculateScreeningFunnel(sourceData: UploadedData): ScreeningFunnel {
+  const data = applyExclusions(sourceData, { keepDisqualified: true });
+
+  try {
+    const started = data.participants.length;
+    const disqualified = data.participants.filter(p => p.status === 'Disqualified');
+    const completed = data.participants.filter(p => p.status === 'Completed').length;
+    const percentage = (count: number) => (started > 0 ? Math.round((count / started) * 100) : 0);
+
+    // Use the stored reason; results saved before it was recorded fall back to the screener definitions
+    const screenerQuestions = (data.questions || []).filter(q => q.block === 'screener');
+    const reasonCounts = new Map<string, number>();
+    disqualified.forEach(participant => {
+      const failed = screenerQuestions.find(q => !isQualifyingAnswer(q, participant.questionnaireAnswers?.[q.id]));
+      let reason = 'Disqualified by the screener';
+      if (participant.disqualificationReason === 'quota-full') {
+        reason = 'Quota full';
+      } else if (participant.disqualificationReason === 'screened-out') {
+        reason = failed ? `Screened out: ${getQuestionLabel(failed)}` : 'Screened out';
+      } else if (screenerQuestions.length > 0) {
+        reason = failed ? `Screened out: ${getQuestionLabel(failed)}` : 'Quota full';
+      }
+      reasonCounts.set(reason, (reasonCounts.get(reason) || 0) + 1);
+    });
+
+    const stages = [
+      { label: 'Started', count: started },
+      { label: 'Qualified', count: started - disqualified.length },
+      { label: 'Completed', count: completed },
+    ];
+
+    return {
+      stages: stages.map(stage => ({ ...stage, percentage: percentage(stage.count) })),
+      disqualified: disqualified.length,
+      reasons: Array.from(reasonCounts.entries())
+        .map(([label, count]) => ({ label, count }))
+        .sort((a, b) => b.count - a.count),
+    };
+  } catch (error) {
+    console.error('Error calculating screening funnel:', error);
+    return { stages: [], disqualified: 0, reasons: [] };
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * A/B comparison of two analyzer studies
+ * Matches tasks across studies and tests success, directness and time for significance
+ */
+
+import type {
+  ComparisonMetric,
+  ComparisonTaskMatch,
+  ComparisonWinner,
+  ConfidenceIntervalMethod,
+  StudyComparison,
+  TaskComparison,
+  TaskResult,
+  UploadedData,
+} from '../types';
+import { calculateRateInterval, DEFAULT_CONFIDENCE_INTERVAL_METHOD } from './confidence-intervals';
+import { applyExclusions } from '../utils/exclusions';
+
+export const DEFAULT_SIGNIFICANCE_LEVEL = 0.05;
+
+// Below this expected cell count the z-test is unreliable and Fisher's exact test is used instead
+const MIN_EXPECTED_CELL_COUNT = 5;
+
+interface SignificanceTestResult {
+  statistic: number;
+  pValue: number;
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26)
+ * @param z - Standard score
+ * @returns P(Z <= z)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function twoSidedPValue(z: number): number {
+  return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))));
+}
+
+/**
+ * Two-proportion z-test with pooled variance
+ * @param successesA - Successes in group A
+ * @param totalA - Trials in group A
+ * @param successesB - Successes in group B
+ * @param totalB - Trials in group B
+ * @returns z statistic and two-sided p-value
+ */
+export function twoProportionZTest(successesA: number, totalA: number, successesB: number, totalB: number): SignificanceTestResult {
+  if (totalA <= 0 || totalB <= 0) {
+    return { statistic: 0, pValue: 1 };
+  }
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) {
+    return { statistic: 0, pValue: 1 };
+  }
+
+  const z = (successesA / totalA - successesB / totalB) / standardError;
+  return { statistic: z, pValue: twoSidedPValue(z) };
+}
+
+const logFactorialCache: number[] = [0];
+
+function logFactorial(n: number): number {
+  for (let i = logFactorialCache.length; i <= n; i++) {
+    logFactorialCache[i] = logFactorialCache[i - 1] + Math.log(i);
+  }
+  return logFactorialCache[n];
+}
+
+/**
+ * Two-sided Fisher's exact test for a 2x2 table
+ * @param successesA - Successes in group A
+ * @param totalA - Trials in group A
+ * @param successesB - Successes in group B
+ * @param totalB - Trials in group B
+ * @returns Odds ratio estimate and two-sided p-value
+ */
+export function fisherExactTest(successesA: number, totalA: number, successesB: number, totalB: number): SignificanceTestResult {
+  if (totalA <= 0 || totalB <= 0) {
+    return { statistic: 0, pValue: 1 };
+  }
+
+  const totalSuccesses = successesA + successesB;
+  const total = totalA + totalB;
+
+  // Hypergeometric probability of seeing k successes in group A given the margins
+  const probability = (k: number) => Math.exp(
+    logFactorial(totalA) - logFactorial(k) - logFactorial(totalA - k) +
+    logFactorial(totalB) - logFactorial(totalSuccesses - k) - logFactorial(totalB - totalSuccesses + k) -
+    (logFactorial(total) - logFactorial(totalSuccesses) - logFactorial(total - totalSuccesses))
+  );
+
+  const observed = probability(successesA);
+  const minK = Math.max(0, totalSuccesses - totalB);
+  const maxK = Math.min(totalA, totalSuccesses);
+  let pValue = 0;
+
+  for (let k = minK; k <= maxK; k++) {
+    const p = probability(k);
+    // Relative tolerance guards against floating point noise on tables with equal probabilities
+    if (p <= observed * (1 + 1e-7)) {
+      pValue += p;
+    }
+  }
+
+  const failuresA = totalA - successesA;
+  const failuresB = totalB - successesB;
+  const oddsRatio = failuresA * successesB === 0 ? Infinity : (successesA * failuresB) / (failuresA * successesB);
+
+  return { statistic: oddsRatio, pValue: Math.min(1, pValue) };
+}
+
+/**
+ * Mann-Whitney U test using the normal approximation with tie correction
+ * @param valuesA - Observations in group A
+ * @param valuesB - Observations in group B
+ * @returns U statistic for group A and two-sided p-value
+ */
+export function mannWhitneyUTest(valuesA: number[], valuesB: number[]): SignificanceTestResult {
+  const nA = valuesA.length;
+  const nB = valuesB.length;
+  if (nA === 0 || nB === 0) {
+    return { statistic: 0, pValue: 1 };
+  }
+
+  const combined = [
+    ...valuesA.map(value => ({ value, group: 'A' as const })),
+    ...valuesB.map(value => ({ value, group: 'B' as const })),
+  ].sort((a, b) => a.value - b.value);
+
+  const n = combined.length;
+  let rankSumA = 0;
+  let tieCorrection = 0;
+
+  for (let i = 0; i < n;) {
+    let j = i;
+    while (j + 1 < n && combined[j + 1].value === combined[i].value) j++;
+    const tieCount = j - i + 1;
+    const averageRank = (i + j + 2) / 2;
+    for (let k = i; k <= j; k++) {
+      if (combined[k].group === 'A') rankSumA += averageRank;
+    }
+    tieCorrection += tieCount * tieCount * tieCount - tieCount;
+    i = j + 1;
+  }
+
+  const u = rankSumA - (nA * (nA + 1)) / 2;
+  const mean = (nA * nB) / 2;
+  const variance = ((nA * nB) / 12) * ((n + 1) - tieCorrection / (n * (n - 1)));
+  if (variance <= 0) {
+    return { statistic: u, pValue: 1 };
+  }
+
+  // Continuity correction toward the mean
+  const z = (u - mean - Math.sign(u - mean) * 0.5) / Math.sqrt(variance);
+  return { statistic: u, pValue: twoSidedPValue(z) };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function getTaskResults(data: UploadedData, taskIndex: number): TaskResult[] {
+  return data.participants.flatMap(p => p.taskResults.filter(r => r.taskIndex === taskIndex));
+}
+
+function normalizeDescription(description: string): string {
+  return description.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function compareProportions(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number,
+  intervalMethod: ConfidenceIntervalMethod,
+  alpha: number
+): ComparisonMetric {
+  const total = totalA + totalB;
+  const totalSuccesses = successesA + successesB;
+  const minExpected = total > 0
+    ? Math.min(totalA, totalB) * Math.min(totalSuccesses, total - totalSuccesses) / total
+    : 0;
+  const test = minExpected < MIN_EXPECTED_CELL_COUNT ? 'fisher-exact' : 'z-test';
+  const { pValue } = test === 'fisher-exact'
+    ? fisherExactTest(successesA, totalA, successesB, totalB)
+    : twoProportionZTest(successesA, totalA, successesB, totalB);
+
+  const significant = pValue < alpha;
+  const rateA = totalA > 0 ? successesA / totalA : 0;
+  const rateB = totalB > 0 ? successesB / totalB : 0;
+  let winner: ComparisonWinner = null;
+  if (significant && rateA !== rateB) {
+    winner = rateA > rateB ? 'A' : 'B';
+  }
+
+  return {
+    a: calculateRateInterval(successesA, totalA, intervalMethod),
+    b: calculateRateInterval(successesB, totalB, intervalMethod),
+    test,
+    pValue,
+    significant,
+    winner,
+  };
+}
+
+function compareTask(
+  studyA: UploadedData,
+  taskA: UploadedData['tasks'][number],
+  studyB: UploadedData,
+  taskB: UploadedData['tasks'][number],
+  intervalMethod: ConfidenceIntervalMethod,
+  alpha: number
+): TaskComparison {
+  const resultsA = getTaskResults(studyA, taskA.index);
+  const resultsB = getTaskResults(studyB, taskB.index);
+
+  const success = compareProportions(
+    resultsA.filter(r => r.successful).length, resultsA.length,
+    resultsB.filter(r => r.successful).length, resultsB.length,
+    intervalMethod, alpha
+  );
+  const directness = compareProportions(
+    resultsA.filter(r => r.directPathTaken).length, resultsA.length,
+    resultsB.filter(r => r.directPathTaken).length, resultsB.length,
+    intervalMethod, alpha
+  );
+
+  const timesA = resultsA.filter(r => !r.skipped).map(r => r.completionTimeSeconds);
+  const timesB = resultsB.filter(r => !r.skipped).map(r => r.completionTimeSeconds);
+  const timeTest = mannWhitneyUTest(timesA, timesB);
+  const timeSignificant = timeTest.pValue < alpha;
+  let timeWinner: ComparisonWinner = null;
+  if (timeSignificant) {
+    // A lower rank sum than expected under the null means study A was faster
+    const expectedU = (timesA.length * timesB.length) / 2;
+    if (timeTest.statistic !== expectedU) {
+      timeWinner = timeTest.statistic < expectedU ? 'A' : 'B';
+    }
+  }
+
+  return {
+    description: taskA.description,
+    taskA: { id: taskA.id, index: taskA.index, description: taskA.description },
+    taskB: { id: taskB.id, index: taskB.index, description: taskB.description },
+    success,
+    directness,
+    time: {
+      medianA: median(timesA),
+      medianB: median(timesB),
+      test: 'mann-whitney',
+      pValue: timeTest.pValue,
+      significant: timeSignificant,
+      winner: timeWinner,
+    },
+    winner: success.winner || directness.winner || timeWinner,
+  };
+}
+
+/**
+ * Compare two studies task by task
+ * @param studyA - Baseline study (e.g. current tree)
+ * @param studyB - Variant study (e.g. proposed tree)
+ * @param options - How to match tasks, significance level and interval method
+ * @returns Per-task comparison plus tasks that could not be matched
+ */
+export function compareStudies(
+  sourceStudyA: UploadedData,
+  sourceStudyB: UploadedData,
+  options: { matchBy?: ComparisonTaskMatch; alpha?: number; intervalMethod?: ConfidenceIntervalMethod } = {}
+): StudyComparison {
+  const studyA = applyExclusions(sourceStudyA);
+  const studyB = applyExclusions(sourceStudyB);
+  const matchBy = options.matchBy || 'description';
+  const alpha = options.alpha ?? DEFAULT_SIGNIFICANCE_LEVEL;
+  const intervalMethod = options.intervalMethod || studyA.confidenceIntervalMethod || DEFAULT_CONFIDENCE_INTERVAL_METHOD;
+
+  const keyOf = (task: UploadedData['tasks'][number]) =>
+    matchBy === 'id' ? task.id : normalizeDescription(task.description);
+
+  const tasksB = new Map<string, UploadedData['tasks'][number]>();
+  studyB.tasks.forEach(task => {
+    const key = keyOf(task);
+    if (!tasksB.has(key)) tasksB.set(key, task);
+  });
+
+  const matchedB = new Set<string>();
+  const tasks: TaskComparison[] = [];
+  const unmatchedA: StudyComparison['unmatchedA'] = [];
+
+  studyA.tasks.forEach(taskA => {
+    const key = keyOf(taskA);
+    const taskB = tasksB.get(key);
+    if (!taskB || matchedB.has(key)) {
+      unmatchedA.push({ id: taskA.id, index: taskA.index, description: taskA.description });
+      return;
+    }
+    matchedB.add(key);
+    tasks.push(compareTask(studyA, taskA, studyB, taskB, intervalMethod, alpha));
+  });
+
+  const unmatchedB = studyB.tasks
+    .filter(task => !matchedB.has(keyOf(task)) || tasksB.get(keyOf(task)) !== task)
+    .map(task => ({ id: task.id, index: task.index, description: task.description }));
+
+  return {
+    studyA: { id: studyA.id, name: studyA.name || 'Study A', participants: studyA.participants.length },
+    studyB: { id: studyB.id, name: studyB.name || 'Study B', participants: studyB.participants.length },
+    matchBy,
+    alpha,
+    tasks,
+    unmatchedA,
+    unmatchedB,
+  };
+}
+
+/**
+ * Format a p-value for display
+ * @param pValue - p-value between 0 and 1
+ * @returns Display string, e.g. "p = 0.032" or "p < 0.001"
+ */
+export function formatPValue(pValue: number): string {
+  return pValue < 0.001 ? 'p < 0.001' : `p = ${pValue.toFixed(3)}`;
+}
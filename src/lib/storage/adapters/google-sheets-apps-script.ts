@@ -1,5 +1,15 @@
 import type { StorageAdapter } from "../types";
 import type { ParticipantResult, StudyConfig, StorageConfig } from "@/lib/types/study";
+import { serializeUrlParameters, URL_PARAMETERS_COLUMN } from "@/lib/utils/url-parameters";
+import { QUESTIONNAIRE_ANSWERS_COLUMN, serializeQuestionnaireAnswers } from "@/lib/utils/questionnaires";
+import { serializeTaskFollowUpAnswers, TASK_FOLLOW_UP_ANSWERS_COLUMN } from "@/lib/utils/task-follow-ups";
+import { serializeTaskEvents, TASK_EVENTS_COLUMN } from "@/lib/utils/task-events";
+import { DISQUALIFICATION_REASON_COLUMN } from "@/lib/utils/screener";
+import { getConfidenceColumn } from "@/lib/utils/confidence-scale";
+import { serializeTaskOrder, TASK_ORDER_COLUMN } from "@/lib/utils/task-randomizer";
+import { RANDOM_SEED_COLUMN } from "@/lib/utils/random";
+import { serializeTreeOrder, TREE_ORDER_COLUMN } from "@/lib/utils/tree-randomizer";
+import { TREE_VARIANT_COLUMN } from "@/lib/utils/tree-variants";
 
 /**
  * Google Sheets adapter using Apps Script webhook method.
@@ -22,7 +32,7 @@ export class GoogleSheetsAppsScriptAdapter implements StorageAdapter {
     private formatResultForSheet(result: ParticipantResult): Record<string, string | number | null> {
         const row: Record<string, string | number | null> = {
             "Participant ID": result.participantId,
-            "Status": result.status === 'completed' ? 'Completed' : 'Incomplete',
+            "Status": result.status === 'completed' ? 'Completed' : result.status === 'disqualified' ? 'Disqualified' : 'Incomplete',
             "Start Time (UTC)": result.startedAt,
             "End Time (UTC)": result.completedAt || null,
             "Time Taken": this.formatDuration(result.totalActiveTime),
@@ -41,13 +51,57 @@ export class GoogleSheetsAppsScriptAdapter implements StorageAdapter {
                 case 'failure': outcomeStr = "Failure"; break;
                 case 'direct-skip': outcomeStr = "Direct Skip"; break;
                 case 'indirect-skip': outcomeStr = "Indirect Skip"; break;
+                case 'timeout': outcomeStr = "Timeout"; break;
             }
             row[`Task ${taskNum} Path Outcome`] = outcomeStr;
 
-            row[`Task ${taskNum}: How confident are you with your answer?`] = task.confidence || null;
+            row[getConfidenceColumn(taskNum)] = task.confidence ?? null;
             row[`Task ${taskNum} Time`] = task.timeSeconds;
         });
 
+        // The Apps Script keeps these columns after the task columns (requires the latest template)
+        const urlParameters = serializeUrlParameters(result.urlParameters);
+        if (urlParameters) {
+            row[URL_PARAMETERS_COLUMN] = urlParameters;
+        }
+
+        const questionnaireAnswers = serializeQuestionnaireAnswers(result.questionnaireAnswers);
+        if (questionnaireAnswers) {
+            row[QUESTIONNAIRE_ANSWERS_COLUMN] = questionnaireAnswers;
+        }
+
+        const taskFollowUpAnswers = serializeTaskFollowUpAnswers(result.taskResults);
+        if (taskFollowUpAnswers) {
+            row[TASK_FOLLOW_UP_ANSWERS_COLUMN] = taskFollowUpAnswers;
+        }
+
+        const taskOrder = serializeTaskOrder(result);
+        if (taskOrder) {
+            row[TASK_ORDER_COLUMN] = taskOrder;
+        }
+
+        if (result.randomSeed !== undefined) {
+            row[RANDOM_SEED_COLUMN] = result.randomSeed;
+        }
+
+        const treeOrder = serializeTreeOrder(result.treeOrder);
+        if (treeOrder) {
+            row[TREE_ORDER_COLUMN] = treeOrder;
+        }
+
+        if (result.treeVariant) {
+            row[TREE_VARIANT_COLUMN] = result.treeVariant;
+        }
+
+        const taskEvents = serializeTaskEvents(result.taskResults);
+        if (taskEvents) {
+            row[TASK_EVENTS_COLUMN] = taskEvents;
+        }
+
+        if (result.disqualificationReason) {
+            row[DISQUALIFICATION_REASON_COLUMN] = result.disqualificationReason;
+        }
+
         return row;
     }
 
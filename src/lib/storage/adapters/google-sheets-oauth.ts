@@ -1,5 +1,11 @@
 import type { StorageAdapter } from "../types";
 import type { ParticipantResult, StudyConfig, StorageConfig } from "@/lib/types/study";
+import { serializeUrlParameters } from "@/lib/utils/url-parameters";
+import { serializeQuestionnaireAnswers } from "@/lib/utils/questionnaires";
+import { serializeTaskFollowUpAnswers } from "@/lib/utils/task-follow-ups";
+import { serializeTaskEvents } from "@/lib/utils/task-events";
+import { serializeTaskOrder } from "@/lib/utils/task-randomizer";
+import { serializeTreeOrder } from "@/lib/utils/tree-randomizer";
 
 /**
  * Google Sheets adapter using OAuth API method.
@@ -48,7 +54,7 @@ export class GoogleSheetsOAuthAdapter implements StorageAdapter {
     private formatResultForSheet(result: ParticipantResult): (string | number | null)[] {
         const row: (string | number | null)[] = [
             result.participantId,
-            result.status === 'completed' ? 'Completed' : 'Incomplete',
+            result.status === 'completed' ? 'Completed' : result.status === 'disqualified' ? 'Disqualified' : 'Incomplete',
             result.startedAt,
             result.completedAt || null,
             this.formatDuration(result.totalActiveTime),
@@ -66,12 +72,28 @@ export class GoogleSheetsOAuthAdapter implements StorageAdapter {
                 case 'failure': outcomeStr = "Failure"; break;
                 case 'direct-skip': outcomeStr = "Direct Skip"; break;
                 case 'indirect-skip': outcomeStr = "Indirect Skip"; break;
+                case 'timeout': outcomeStr = "Timeout"; break;
             }
             row.push(outcomeStr);
-            row.push(task.confidence || null);
+            row.push(task.confidence ?? null);
             row.push(task.timeSeconds);
         });
 
+        // Captured URL parameters, questionnaire answers, task follow-up answers, the task order, the random seed,
+        // the displayed tree order, the tree variant, the click events and the disqualification reason go in the nine columns after the last task
+        const urlParameters = serializeUrlParameters(result.urlParameters);
+        const questionnaireAnswers = serializeQuestionnaireAnswers(result.questionnaireAnswers);
+        const taskFollowUpAnswers = serializeTaskFollowUpAnswers(result.taskResults);
+        const taskOrder = serializeTaskOrder(result);
+        const randomSeed = result.randomSeed ?? null;
+        const treeOrder = serializeTreeOrder(result.treeOrder);
+        const treeVariant = result.treeVariant ?? null;
+        const taskEvents = serializeTaskEvents(result.taskResults);
+        const disqualificationReason = result.disqualificationReason ?? null;
+        if (urlParameters || questionnaireAnswers || taskFollowUpAnswers || taskOrder || randomSeed !== null || treeOrder || treeVariant || taskEvents || disqualificationReason) {
+            row.push(urlParameters, questionnaireAnswers, taskFollowUpAnswers, taskOrder, randomSeed, treeOrder, treeVariant, taskEvents, disqualificationReason);
+        }
+
         return row;
     }
 
@@ -0,0 +1,242 @@
+/**
+ * Result Outbox
+ *
+ * Participant results are queued in localStorage before they're sent, so a dropped
+ * connection doesn't lose them. Failed sends are retried with backoff, when the browser
+ * comes back online and on the next page load. Each payload holds all of a participant's
+ * results so far, so only the latest one per participant is kept.
+ */
+
+import type { ParticipantResult, StorageConfig } from "@/lib/types/study";
+import { createStorageAdapter } from "./factory";
+
+const OUTBOX_STORAGE_KEY = "tree-test-outbox";
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+interface OutboxEntry {
+    key: string; // Study ID and participant ID; one entry per participant
+    revision: number; // Bumped when a newer payload replaces the entry
+    result: ParticipantResult;
+    storage: StorageConfig; // Where the study stores results, so the entry can be sent from any page
+    attempts: number; // Failed attempts for this revision
+    nextAttemptAt: number; // Epoch ms; 0 to send right away
+}
+
+export interface OutboxStatus {
+    pending: number; // Results waiting to be sent
+    sending: boolean;
+    lastError?: string; // Error from the latest failed attempt, cleared once a send succeeds
+}
+
+// Used when localStorage is unavailable or full, so results still survive until the page is closed
+let memoryEntries: OutboxEntry[] = [];
+let useMemory = false;
+
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let resumed = false;
+let lastError: string | undefined;
+let status: OutboxStatus = { pending: 0, sending: false };
+const listeners = new Set<() => void>();
+
+function getEntryKey(result: Pick<ParticipantResult, "studyId" | "participantId">): string {
+    return `${result.studyId}/${result.participantId}`;
+}
+
+function readEntries(): OutboxEntry[] {
+    if (useMemory) return memoryEntries;
+    try {
+        const stored = localStorage.getItem(OUTBOX_STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.error("Error reading result outbox:", error);
+        return memoryEntries;
+    }
+}
+
+function writeEntries(entries: OutboxEntry[]): void {
+    memoryEntries = entries;
+    if (useMemory) return;
+    try {
+        if (entries.length > 0) {
+            localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+        } else {
+            localStorage.removeItem(OUTBOX_STORAGE_KEY);
+        }
+    } catch (error) {
+        console.error("Error saving result outbox, keeping results in memory:", error);
+        useMemory = true;
+    }
+}
+
+function notify(): void {
+    status = { pending: readEntries().length, sending: flushing !== null, lastError };
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Get the delay before the next attempt after a failed send
+ * @param attempts Failed attempts so far (at least 1)
+ * @returns Milliseconds, doubling with each attempt up to five minutes
+ */
+function getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+function scheduleRetry(): void {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+
+    const entries = readEntries();
+    if (entries.length === 0) return;
+    const nextAttemptAt = Math.min(...entries.map(entry => entry.nextAttemptAt));
+    retryTimer = setTimeout(() => void flushOutbox(), Math.max(0, nextAttemptAt - Date.now()));
+}
+
+// Record the outcome of sending one revision of an entry
+function settleEntry(sent: OutboxEntry, error: string | undefined): void {
+    const entries = readEntries();
+    const current = entries.find(entry => entry.key === sent.key);
+
+    // A newer payload was queued while this one was in flight; it's sent next
+    if (!current || current.revision !== sent.revision) return;
+
+    if (!error) {
+        lastError = undefined;
+        writeEntries(entries.filter(entry => entry !== current));
+        return;
+    }
+
+    lastError = error;
+    const attempts = current.attempts + 1;
+    writeEntries(entries.map(entry =>
+        entry === current ? { ...entry, attempts, nextAttemptAt: Date.now() + getRetryDelay(attempts) } : entry
+    ));
+}
+
+/**
+ * Send every queued result that is due
+ * Only one flush runs at a time; calling this during a flush returns the running one,
+ * which also picks up results queued in the meantime
+ */
+export function flushOutbox(): Promise<void> {
+    if (flushing) return flushing;
+
+    flushing = (async () => {
+        for (;;) {
+            const entry = readEntries().find(candidate => candidate.nextAttemptAt <= Date.now());
+            if (!entry) break;
+
+            let error: string | undefined;
+            try {
+                const response = await createStorageAdapter(entry.storage).submitResult(entry.result);
+                if (!response.success) error = response.error || "Failed to submit result";
+            } catch (submitError) {
+                error = submitError instanceof Error ? submitError.message : "Failed to submit result";
+            }
+
+            if (error) console.error(`Failed to send result for ${entry.key}, will retry:`, error);
+            settleEntry(entry, error);
+            notify();
+        }
+    })().finally(() => {
+        flushing = null;
+        scheduleRetry();
+        notify();
+    });
+
+    notify();
+    return flushing;
+}
+
+/**
+ * Queue a participant's result and try to send it
+ * Replaces any result still queued for the participant, except that a final (completed or
+ * disqualified) result is never replaced by an incomplete one
+ * @param result Result to send
+ * @param storage Storage configuration of the study
+ * @returns Whether the result has been delivered once the attempt finishes; if not it stays queued
+ */
+export async function queueResult(result: ParticipantResult, storage: StorageConfig): Promise<boolean> {
+    const key = getEntryKey(result);
+    const entries = readEntries();
+    const existing = entries.find(entry => entry.key === key);
+
+    if (!(existing && existing.result.status !== "incomplete" && result.status === "incomplete")) {
+        const entry: OutboxEntry = {
+            key,
+            revision: (existing?.revision ?? 0) + 1,
+            result,
+            storage,
+            attempts: 0,
+            nextAttemptAt: 0,
+        };
+        writeEntries([...entries.filter(e => e.key !== key), entry]);
+        notify();
+    }
+
+    await flushOutbox();
+    return !isQueued(result);
+}
+
+/**
+ * Check whether a participant still has a result waiting to be sent
+ */
+export function isQueued(result: Pick<ParticipantResult, "studyId" | "participantId">): boolean {
+    const key = getEntryKey(result);
+    return readEntries().some(entry => entry.key === key);
+}
+
+/**
+ * Wait until a participant's queued result has been delivered
+ * @returns Promise that resolves right away when nothing is queued for the participant
+ */
+export function waitForDelivery(result: Pick<ParticipantResult, "studyId" | "participantId">): Promise<void> {
+    return new Promise(resolve => {
+        if (!isQueued(result)) {
+            resolve();
+            return;
+        }
+        const unsubscribe = subscribeToOutbox(() => {
+            if (!isQueued(result)) {
+                unsubscribe();
+                resolve();
+            }
+        });
+    });
+}
+
+/**
+ * Start sending results left over from earlier visits, and retry as soon as the browser is back online
+ * Safe to call more than once
+ */
+export function resumeOutbox(): void {
+    if (resumed || typeof window === "undefined") return;
+    resumed = true;
+
+    window.addEventListener("online", () => {
+        writeEntries(readEntries().map(entry => ({ ...entry, nextAttemptAt: 0 })));
+        void flushOutbox();
+    });
+    void flushOutbox();
+}
+
+/**
+ * Subscribe to outbox changes, e.g. with useSyncExternalStore
+ * @returns Function that removes the listener
+ */
+export function subscribeToOutbox(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Get the current outbox status; the same object is returned until something changes
+ */
+export function getOutboxStatus(): OutboxStatus {
+    return status;
+}
@@ -1,3 +1,5 @@
+import type { ConfidenceScaleSettings, DisqualificationReason, Question, QuestionAnswer, QuestionnaireBlock, TaskEvent, TaskFollowUpQuestion } from "./types/study";
+
 export interface TreeNode {
     name: string;
     link?: string;
@@ -30,6 +32,118 @@ export interface ParentClickStats {
     firstClickPercentage: number;
     totalClickCount: number;
     totalClickPercentage: number;
+    averagePosition?: number; // Mean displayed position, when sibling order was shuffled
+}
+
+// First clicks at the first-click level by the position the chosen label was displayed at
+export interface FirstClickPositionStats {
+    position: number; // 1-based
+    firstClickCount: number;
+    firstClickPercentage: number; // Of first clicks with a recorded order
+    expectedPercentage: number; // Share expected with no position bias, from how often the position was shown
+}
+
+export type ConfidenceIntervalMethod = "wilson" | "agresti-coull" | "bootstrap" | "normal";
+
+// Percentages (0-100); margin is half the interval width
+export interface RateInterval {
+    rate: number;
+    margin: number;
+    lower: number;
+    upper: number;
+}
+
+export interface NodeClickStats {
+    path: string; // e.g. "/Home/Products"
+    name: string;
+    depth: number; // 1 = top level
+    isOnCorrectPath: boolean;
+    isCorrectDestination: boolean;
+    firstClickCount: number; // Participants whose first choice under the parent was this node
+    firstClickPercentage: number; // Of participants who reached the parent
+    totalClickCount: number; // All clicks, revisits included
+    participantCount: number; // Participants who passed through this node
+    participantPercentage: number; // Of all non-skipped participants
+    averagePosition?: number; // Mean 1-based position the node was displayed at, when sibling order was shuffled
+    children: NodeClickStats[];
+}
+
+export type FindabilityMode = "traffic" | "correctness" | "wrong-answers";
+
+export interface NodeFindabilityTask {
+    taskId: string;
+    taskIndex: number;
+    description: string;
+    isOnCorrectPath: boolean;
+    visits: number; // Participants who passed through the node during this task
+    wrongNominations: number; // Participants who wrongly chose the node as their answer
+}
+
+export interface NodeFindability {
+    path: string; // e.g. "/Home/Products"
+    name: string;
+    visits: number; // Across all tasks
+    correctVisits: number; // Visits during tasks where the node is on a correct path
+    incorrectVisits: number;
+    correctRatio: number | null; // % of visits that were on a correct path, null when never visited
+    wrongNominations: number;
+    tasks: NodeFindabilityTask[];
+}
+
+export interface DistributionSummary {
+    median: number;
+    min: number;
+    max: number;
+    q1: number;
+    q3: number;
+}
+
+export interface PathEfficiencyStats {
+    optimalPathLength: number; // Shortest route to a correct answer, in nodes
+    attempts: number; // Non-skipped attempts with a recorded path
+    nodesVisited: DistributionSummary;
+    uniqueNodes: DistributionSummary;
+    backtracks: DistributionSummary;
+    lostness: DistributionSummary;
+    lostnessDistribution: {
+        category: "not-lost" | "disoriented" | "lost";
+        label: string;
+        count: number;
+        percentage: number;
+    }[];
+}
+
+// Timing from the click event log, in seconds
+export interface ClickTimingStats {
+    attempts: number; // Attempts with recorded events
+    timeToFirstClick: DistributionSummary; // To the first click at the first-click level
+    hesitation: DistributionSummary; // Longest pause between two clicks in each attempt
+}
+
+// Success after a correct or a wrong first click
+export interface FirstClickOutcome {
+    attempts: number;
+    successes: number;
+    success: RateInterval;
+}
+
+// Whether first clicks lay on a correct path, and how that predicted success
+export interface FirstClickStats {
+    depth: number; // Tree level counted as the first click; 2 below a single root
+    attempts: number; // Attempts with a first click at that level
+    correctCount: number;
+    correct: RateInterval; // First click on any correct path
+    afterCorrect: FirstClickOutcome;
+    afterIncorrect: FirstClickOutcome;
+}
+
+// Point-biserial correlation between confidence ratings and task success
+export interface ConfidenceCorrelation {
+    coefficient: number | null; // -1 to 1, null when every rating or every outcome is the same
+    pValue: number | null; // Two-sided, null with fewer than 4 ratings
+    ratings: number; // Non-skipped attempts with a rating
+    meanSuccess: number | null; // Mean rating of successful attempts
+    meanFailure: number | null; // Mean rating of failed attempts
 }
 
 export interface TaskStats {
@@ -37,24 +151,13 @@ export interface TaskStats {
     index: number;
     description: string;
     expectedAnswer: string;
-    maxTimeSeconds: number | null;
+    maxTimeSeconds: number | null; // The task's time limit, null when it has none
     parsedTree: string; // JSON string of Item[]
     stats: {
-        success: {
-            rate: number;
-            margin: number;
-        };
-        directness: {
-            rate: number;
-            margin: number;
-        };
-        time: {
-            median: number;
-            min: number;
-            max: number;
-            q1: number;
-            q3: number;
-        };
+        success: RateInterval;
+        directness: RateInterval;
+        intervalMethod: ConfidenceIntervalMethod;
+        time: DistributionSummary;
         score: number;
         breakdown: {
             directSuccess: number;
@@ -62,9 +165,12 @@ export interface TaskStats {
             fail: number;
             directSkip: number;
             indirectSkip: number;
+            timeout: number; // Ran out of time (not counted as fail)
             total: number;
         };
         parentClicks: ParentClickStats[];
+        firstClickPositions?: FirstClickPositionStats[]; // Only when the first-click level was shuffled for some participants
+        nodeClicks: NodeClickStats[];
         incorrectDestinations: {
             path: string;
             count: number;
@@ -92,6 +198,10 @@ export interface TaskStats {
                 indirectSkipPercentage: number;
             };
         }[];
+        confidenceCorrelation?: ConfidenceCorrelation;
+        pathEfficiency?: PathEfficiencyStats;
+        clickTiming?: ClickTimingStats; // Only when some attempts have click events
+        firstClick?: FirstClickStats; // Only when the task has expected answers and some attempts reached the first-click level
         parentNodeStats?: {
             level1: {
                 rate: number;
@@ -115,13 +225,59 @@ export interface TaskStats {
     };
 }
 
+export type OrderEffectMetric = "success" | "directness" | "time";
+
+// Learning: better (or faster) later in the session; fatigue: worse (or slower)
+export type OrderEffectDirection = "learning" | "fatigue";
+
+export interface OrderEffectPosition {
+    position: number; // 1-based presentation position
+    attempts: number;
+    answeredAttempts: number; // Attempts that weren't skipped, which medianTime covers
+    successRate: number; // Percentage
+    directnessRate: number; // Percentage
+    medianTime: number | null; // Seconds, null when every attempt was skipped
+}
+
+// Spearman's rank correlation between presentation position and a metric
+export interface OrderEffectTrend {
+    metric: OrderEffectMetric;
+    attempts: number; // Attempts tested; for time only the answered ones
+    coefficient: number | null; // -1 to 1, null when either variable doesn't vary
+    pValue: number | null; // Two-sided, null with fewer than 4 attempts
+    significant: boolean;
+    direction: OrderEffectDirection | null; // Only set when significant
+}
+
+export interface OrderEffectSummary {
+    taskId: string | null; // null for all tasks combined
+    taskIndex: number | null;
+    description: string;
+    attempts: number; // Attempts with a recorded position
+    positions: OrderEffectPosition[];
+    trends: OrderEffectTrend[];
+}
+
+export interface OrderEffectAnalysis {
+    alpha: number;
+    overall: OrderEffectSummary;
+    tasks: OrderEffectSummary[];
+}
+
 export interface Participant {
     id: string;
-    status: "Completed" | "Incomplete";
+    status: "Completed" | "Incomplete" | "Disqualified"; // Disqualified participants were stopped by the screener
+    disqualificationReason?: DisqualificationReason; // Why a disqualified participant was stopped, when the study recorded it
     startedAt: Date;
     completedAt: Date | null;
     durationSeconds: number | null;
     taskResults: TaskResult[];
+    taskOrder?: number[]; // Task indices in the order presented, when the study recorded it
+    randomSeed?: number; // Seed of the participant's task and tree order, for replaying their session
+    treeOrder?: Record<string, string[]>; // Shuffled sibling lists as displayed, keyed by parent path ("/" for the top level)
+    treeVariant?: string; // ID of the tree variant the participant was assigned; unset means the main tree
+    attributes?: Record<string, string>; // Segmentation data such as role, region or device
+    questionnaireAnswers?: Record<string, QuestionAnswer>; // Keyed by question ID
 }
 
 export interface TaskResult {
@@ -134,9 +290,101 @@ export interface TaskResult {
     pathTaken: string;
     skipped: boolean;
     confidenceRating: number | null;
+    timedOut?: boolean; // The task's time limit ran out; never successful or skipped
+    presentedPosition?: number; // 1-based position in the participant's task order, when the order was recorded
+    followUpAnswers?: Record<string, QuestionAnswer>; // Keyed by follow-up question ID
+    events?: TaskEvent[]; // Clicks with timing, when the study recorded them
+}
+
+export type QualityRuleType = "min-duration" | "max-skip-rate" | "min-median-task-time" | "identical-answers";
+
+export interface QualityRule {
+    id: string;
+    type: QualityRuleType;
+    enabled: boolean;
+    threshold: number; // Seconds or percentage depending on type; unused for identical-answers
+}
+
+export interface QualityFlag {
+    ruleId: string;
+    type: QualityRuleType;
+    message: string;
+}
+
+export type ExclusionSource = "quality-rule" | "manual";
+
+export interface ParticipantExclusion {
+    participantId: string;
+    reason: string;
+    source: ExclusionSource;
+    ruleIds?: string[]; // Quality rules that flagged the participant
+    excludedAt: string; // ISO timestamp
+}
+
+export interface ExclusionAuditEntry {
+    participantId: string;
+    action: "excluded" | "included";
+    reason: string;
+    source: ExclusionSource;
+    timestamp: string; // ISO timestamp
+}
+
+export interface QuestionnaireQuestion extends Question {
+    block: QuestionnaireBlock;
+}
+
+export interface QuestionResponseStats {
+    value: string; // Option, Likert point or SUS grade
+    count: number;
+    percentage: number; // Of respondents to the question
+    successRate: number | null; // Task success of these respondents across all tasks, null when they attempted none
+    taskSuccessRates: { taskId: string; taskIndex: number; rate: number | null }[];
+}
+
+export interface QuestionStats {
+    question: QuestionnaireQuestion;
+    respondents: number;
+    responses: QuestionResponseStats[]; // Empty for free text
+    mean: number | null; // Likert mean or mean SUS score
+    textResponses: { participantId: string; text: string }[]; // Free text only
+}
+
+export interface FollowUpQuestionStats {
+    question: TaskFollowUpQuestion;
+    respondents: number;
+    responses: { value: string; count: number; percentage: number }[]; // Choice and Likert questions
+    mean: number | null; // Likert mean
+    textResponses: { participantId: string; text: string; successful: boolean }[]; // Free text only
+    wordFrequencies: { word: string; count: number }[]; // Free text only, most frequent first
+}
+
+export interface ScreeningFunnelStage {
+    label: string;
+    count: number;
+    percentage: number; // Of participants who started
+}
+
+export interface ScreeningFunnel {
+    stages: ScreeningFunnelStage[]; // Started → Qualified → Completed
+    disqualified: number;
+    reasons: { label: string; count: number }[]; // Why participants were disqualified, most common first
+}
+
+// Keeps participants whose attribute matches any of the values; filters on different attributes combine with AND
+export interface SegmentFilter {
+    attribute: string;
+    values: string[];
 }
 
 // Data structure for the uploaded Excel file content
+// One of several trees tested within a study; the dashboard analyzes one variant at a time
+export interface AnalyzerTreeVariant {
+    id: string;
+    name: string;
+    treeStructure?: Item[]; // Falls back to UploadedData.treeStructure
+    expectedAnswers?: Record<string, string>; // Task ID → expected answer in this tree, falling back to the task's
+}
+
 export interface UploadedData {
     id: string; // Unique identifier for the study
     name?: string; // Study name for organization
@@ -147,9 +395,61 @@ export interface UploadedData {
         index: number;
         description: string;
         expectedAnswer: string;
+        followUpQuestions?: TaskFollowUpQuestion[];
+        timeLimitSeconds?: number;
     }[];
     treeStructure?: Item[]; // Optional if provided separately or inferred
+    treeVariants?: AnalyzerTreeVariant[]; // Set when participants were split between trees; the main tree comes first
+    selectedTreeVariant?: string; // Variant every analysis tab shows (defaults to the first)
     createdAt: string; // ISO timestamp
     updatedAt: string; // ISO timestamp
     sourceStudyId?: string; // Optional: ID of the source study in Creator (for tracking imports)
+    confidenceIntervalMethod?: ConfidenceIntervalMethod; // Defaults to Wilson when not set
+    confidenceScale?: ConfidenceScaleSettings; // Scale the confidence ratings were given on, inferred from the ratings when not set
+    qualityRules?: QualityRule[]; // Defaults to DEFAULT_QUALITY_RULES when not set
+    exclusions?: ParticipantExclusion[]; // Participants left out of stats and reports
+    exclusionAudit?: ExclusionAuditEntry[]; // Every exclude/include action, oldest first
+    showExcluded?: boolean; // Count excluded participants in every metric again (the exclusion list is kept)
+    segmentFilters?: SegmentFilter[]; // Restrict the dashboard to a subset of participants
+    questions?: QuestionnaireQuestion[]; // Questionnaire definitions, in the order participants saw them
+}
+
+export type ComparisonTaskMatch = "description" | "id";
+
+export type ComparisonWinner = "A" | "B" | null;
+
+export interface ComparisonMetric {
+    a: RateInterval;
+    b: RateInterval;
+    test: "z-test" | "fisher-exact";
+    pValue: number;
+    significant: boolean;
+    winner: ComparisonWinner;
+}
+
+export interface TaskComparison {
+    description: string;
+    taskA: { id: string; index: number; description: string };
+    taskB: { id: string; index: number; description: string };
+    success: ComparisonMetric;
+    directness: ComparisonMetric;
+    time: {
+        medianA: number;
+        medianB: number;
+        test: "mann-whitney";
+        pValue: number;
+        significant: boolean;
+        winner: ComparisonWinner; // Faster study
+    };
+    winner: ComparisonWinner; // Decided by success, then directness, then time
+}
+
+export interface StudyComparison {
+    studyA: { id: string; name: string; participants: number };
+    studyB: { id: string; name: string; participants: number };
+    matchBy: ComparisonTaskMatch;
+    alpha: number;
+    tasks: TaskComparison[];
+    unmatchedA: { id: string; index: number; description: string }[];
+    unmatchedB: { id: string; index: number; description: string }[];
 }
@@ -1,16 +1,61 @@
+import type { ConfidenceIntervalMethod } from "@/lib/types";
+
 export interface TreeNode {
     id: string;
     name: string;
     link?: string; // Destination URL for leaf nodes
     children?: TreeNode[];
+    shuffleChildren?: boolean; // Shuffle this node's children when StudySettings.treeOrderScope is 'branches'
+    pinned?: boolean; // Keep this node at its authored position when its siblings are shuffled (e.g. "Other" last)
+}
+
+// An alternative tree tested in the same study; participants are split between the main tree (StudyConfig.tree) and the variants
+export interface TreeVariant {
+    id: string;
+    name: string; // Shown to researchers only, e.g. "B: Plain-language labels"
+    tree: TreeNode[];
+    correctPaths?: Record<string, string[]>; // Task ID → expected paths in this tree (replaces Task.correctPath)
+    weight?: number; // Relative share of participants with weighted assignment (default 1)
 }
 
+// 'round-robin': each participant gets the variant with the fewest participants so far, 'weighted': random draw by weight
+export type TreeVariantAssignment = 'round-robin' | 'weighted';
+
 export interface Task {
     id: string;
     description: string;
     correctPath?: string[]; // Optional: defines the "correct" answer path
+    followUpQuestions?: TaskFollowUpQuestion[]; // Asked after the confidence rating
+    timeLimitSeconds?: number; // Optional: the task ends with a 'timeout' outcome when time runs out
+}
+
+// Questionnaire blocks shown around the tasks: screener → pre-test → (instructions, tasks) → post-test
+export type QuestionnaireBlock = 'screener' | 'pre-test' | 'post-test';
+export type QuestionType = 'single-choice' | 'multiple-choice' | 'likert' | 'free-text' | 'sus';
+
+export interface Question {
+    id: string;
+    type: QuestionType;
+    text: string; // Not used for SUS, which always asks the 10 standard statements
+    required?: boolean;
+    options?: string[]; // Choices for single and multiple choice
+    scalePoints?: number; // Likert points (default 5)
+    minLabel?: string; // Likert label for the lowest point, e.g. "Strongly disagree"
+    maxLabel?: string; // Likert label for the highest point, e.g. "Strongly agree"
+    qualifyingOptions?: string[]; // Screener choice questions: participants must pick one of these to continue (unset = everyone qualifies)
+    quotas?: Record<string, number>; // Screener choice questions: maximum qualified participants per option
+}
+
+// When a task follow-up is asked; skipped tasks count as failures
+export type FollowUpCondition = 'always' | 'failure' | 'success';
+
+export interface TaskFollowUpQuestion extends Question {
+    showWhen?: FollowUpCondition; // Defaults to 'always'
 }
 
+// single-choice and free-text: string, multiple-choice: string[], likert: number, sus: number[] (10 ratings, 1-5)
+export type QuestionAnswer = string | string[] | number | number[];
+
 export type StorageType = 'hosted-backend' | 'google-sheets' | 'custom-api' | 'local-download';
 
 export interface StorageConfig {
@@ -31,7 +76,22 @@ export interface StudySettings {
     welcomeMessage: string;
     instructions: string;
     completedMessage: string;
-    randomizeTasks?: boolean; // Randomize task order for each participant
+    screenedOutMessage?: string; // Shown to participants the screener disqualifies (defaults to DEFAULT_SCREENED_OUT_MESSAGE)
+    randomizeTasks?: boolean; // Randomize task order for each participant (older studies; taskOrder takes precedence)
+    taskOrder?: TaskOrderStrategy; // How tasks are ordered for each participant (default 'random' if randomizeTasks is set, else 'fixed')
+    tasksPerParticipant?: number; // Show each participant this many of the tasks, spreading exposure evenly (default: all)
+    randomizeTreeOrder?: boolean; // Shuffle sibling order in the tree for each participant
+    treeOrderScope?: TreeOrderScope; // Which sibling lists are shuffled (default 'all')
+    shuffleTopLevel?: boolean; // With the 'branches' scope, also shuffle the top-level nodes
+    treeVariantAssignment?: TreeVariantAssignment; // How participants are split between tree variants (default 'round-robin')
+    mainTreeName?: string; // Name of the main tree when the study has variants (defaults to DEFAULT_MAIN_TREE_NAME)
+    mainTreeWeight?: number; // Relative share of participants for the main tree with weighted assignment (default 1)
+    confidenceIntervalMethod?: ConfidenceIntervalMethod; // Interval used for success/directness in analysis
+    capturedUrlParameters?: string[]; // Query parameters recorded on each result (e.g., PROLIFIC_PID)
+    participantIdParameter?: string; // Captured parameter used as the participant ID when present
+    sessionResumeMinutes?: number; // Reloading within this many minutes of the last activity resumes the session (default DEFAULT_SESSION_RESUME_MINUTES, 0 turns it off)
+    completion?: CompletionSettings; // Redirects and completion code for recruitment panels
+    confidenceScale?: ConfidenceScaleSettings; // Rating asked after each answer (defaults to DEFAULT_CONFIDENCE_SCALE)
     customText?: {
         startTest?: string;
         nextButton?: string;
@@ -40,6 +100,34 @@ export interface StudySettings {
     };
 }
 
+// 'fixed': as listed, 'random': shuffled per participant, 'latin-square': balanced Latin square rows,
+// 'fixed-first': the first task stays first and the rest are shuffled
+export type TaskOrderStrategy = 'fixed' | 'random' | 'latin-square' | 'fixed-first';
+
+// 'all': every sibling list in the tree, 'branches': only nodes marked shuffleChildren (and the top level with shuffleTopLevel)
+export type TreeOrderScope = 'all' | 'branches';
+
+// Rating asked after each task answer; unset fields fall back to DEFAULT_CONFIDENCE_SCALE
+export interface ConfidenceScaleSettings {
+    enabled?: boolean; // Ask for a rating at all (default true)
+    min?: number; // Lowest rating, e.g. 0 or 1
+    max?: number; // Highest rating, e.g. 5, 7 or 10
+    minLabel?: string; // Label for the lowest rating
+    maxLabel?: string; // Label for the highest rating
+    question?: string; // Wording shown to participants
+    required?: boolean; // Participants must rate before continuing (default true)
+}
+
+// Where participants are sent when they leave the study
+// URL templates may contain {participantId} and any captured URL parameter, e.g. {PROLIFIC_PID}
+export interface CompletionSettings {
+    redirectUrl?: string; // Redirect after completing the study
+    completionCode?: string; // Code shown on the completion screen (e.g., Prolific/MTurk completion code)
+    redirectDelaySeconds?: number; // Seconds to wait before redirecting (default 3)
+    screenedOutRedirectUrl?: string; // Redirect for participants who don't pass the screener
+    closedRedirectUrl?: string; // Redirect for participants who open a closed study
+}
+
 export type StudyStatus = 'draft' | 'published';
 export type StudyAccessStatus = 'active' | 'closed';
 
@@ -48,9 +136,11 @@ export interface StudyConfig {
     name: string;
     creator?: string; // Optional creator/researcher name
     tree: TreeNode[];
+    treeVariants?: TreeVariant[]; // Alternative trees compared against the main tree within this study
     tasks: Task[];
     storage: StorageConfig;
     settings: StudySettings;
+    questionnaires?: Partial<Record<QuestionnaireBlock, Question[]>>;
     status?: StudyStatus; // 'draft' | 'published' - whether study is published
     accessStatus?: StudyAccessStatus; // 'active' | 'closed' - whether study accepts new participants
     publishedAt?: string; // ISO timestamp when study was published
@@ -61,26 +151,47 @@ export interface StudyConfig {
 
 // Participant result data structures
 // Participant result data structures
-export type PathOutcome = 'direct-success' | 'indirect-success' | 'failure' | 'direct-skip' | 'indirect-skip';
+export type PathOutcome = 'direct-success' | 'indirect-success' | 'failure' | 'direct-skip' | 'indirect-skip' | 'timeout';
+
+// What a participant did in the tree during a task; clicking a leaf counts as expanding it
+export type TaskEventType = 'expand' | 'collapse' | 'breadcrumb-back' | 'select' | 'skip';
+
+export interface TaskEvent {
+    type: TaskEventType;
+    path: string; // Node path, e.g. "/Home/Products"; for a skip, where the participant was
+    time: number; // Milliseconds since the task started
+}
 
 export interface TaskResult {
     taskId: string;
     taskDescription: string;
     pathTaken: string[]; // Array of node names clicked
     outcome: PathOutcome;
-    confidence?: number; // 1-7 rating
+    confidence?: number; // Rating on the study's confidence scale
     timeSeconds: number; // Time spent on this task in seconds
     timestamp: string;
+    followUpAnswers?: Record<string, QuestionAnswer>; // Keyed by TaskFollowUpQuestion.id
+    events?: TaskEvent[]; // Every click in order, with timing
 }
 
+// Why a participant was stopped by the screener
+export type DisqualificationReason = 'screened-out' | 'quota-full';
+
 export interface ParticipantResult {
     participantId: string;
     studyId: string;
     studyName: string;
-    status: 'completed' | 'incomplete';
+    status: 'completed' | 'incomplete' | 'disqualified';
+    disqualificationReason?: DisqualificationReason; // Set when status is 'disqualified'
     startedAt: string; // ISO timestamp
     completedAt?: string; // ISO timestamp (null if incomplete)
     totalActiveTime: number; // Total active time in seconds
-    taskResults: TaskResult[];
+    taskResults: TaskResult[]; // One per study task in study order; tasks not reached or not shown have an empty outcome
+    taskOrder?: string[]; // Task IDs in the order presented to the participant
+    randomSeed?: number; // Seed of the participant's task and tree order; replay with ?seed=
+    treeOrder?: Record<string, string[]>; // Shuffled sibling lists as displayed, keyed by parent path ("/" for the top level)
+    treeVariant?: string; // ID of the tree variant the participant was assigned (MAIN_TREE_VARIANT_ID for the main tree)
     userAgent?: string;
+    urlParameters?: Record<string, string>; // Captured query parameters, see StudySettings.capturedUrlParameters
+    questionnaireAnswers?: Record<string, QuestionAnswer>; // Keyed by Question.id
 }
@@ -0,0 +1,69 @@
+/**
+ * Completion Action Utility
+ *
+ * Builds the redirect URLs that hand participants back to recruitment panels
+ * (Prolific, MTurk, ...) when they finish, are screened out, or find the study closed.
+ */
+
+import type { CompletionSettings } from "@/lib/types/study";
+
+export type CompletionOutcome = "completed" | "screened-out" | "closed";
+
+/** Delay before redirecting when the study doesn't set one, so the completion code can be read */
+export const DEFAULT_REDIRECT_DELAY_SECONDS = 3;
+
+/**
+ * Substitute {participantId} and captured URL parameters (e.g. {PROLIFIC_PID}) into a URL template
+ * Values are URL-encoded; placeholders without a value are replaced with an empty string
+ * @param template URL template
+ * @param participantId Participant ID for this session
+ * @param urlParameters Captured query parameters
+ * @returns URL with placeholders filled in
+ */
+export function fillUrlTemplate(template: string, participantId: string, urlParameters: Record<string, string> = {}): string {
+    return template.replace(/\{([^{}]+)\}/g, (_match, name: string) => {
+        const key = name.trim();
+        const value = key === "participantId" ? participantId : urlParameters[key];
+        return encodeURIComponent(value ?? "");
+    });
+}
+
+/**
+ * Only allow http(s) redirects so a misconfigured template can't run script
+ */
+export function isSafeRedirectUrl(url: string): boolean {
+    try {
+        const parsed = new URL(url);
+        return parsed.protocol === "http:" || parsed.protocol === "https:";
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the redirect URL for an outcome
+ * @param completion Study completion settings
+ * @param outcome Why the participant is leaving the study
+ * @param participantId Participant ID for this session
+ * @param urlParameters Captured query parameters
+ * @returns Redirect URL, or null if the study doesn't redirect for this outcome
+ */
+export function getCompletionRedirectUrl(
+    completion: CompletionSettings | undefined,
+    outcome: CompletionOutcome,
+    participantId: string,
+    urlParameters: Record<string, string> = {}
+): string | null {
+    if (!completion) return null;
+
+    const template = outcome === "completed"
+        ? completion.redirectUrl
+        : outcome === "screened-out"
+            ? completion.screenedOutRedirectUrl
+            : completion.closedRedirectUrl;
+
+    if (!template || !template.trim()) return null;
+
+    const url = fillUrlTemplate(template.trim(), participantId, urlParameters);
+    return isSafeRedirectUrl(url) ? url : null;
+}
@@ -0,0 +1,129 @@
+/**
+ * Confidence Scale Utility
+ *
+ * The rating participants give after each answer: its range, labels and wording,
+ * shared by the Creator, the participant flow, storage adapters and the Analyzer.
+ */
+
+import type { ConfidenceScaleSettings } from "@/lib/types/study";
+import type { UploadedData } from "@/lib/types";
+
+export const DEFAULT_CONFIDENCE_QUESTION = "How confident are you with your answer?";
+
+export const DEFAULT_CONFIDENCE_SCALE: Required<ConfidenceScaleSettings> = {
+    enabled: true,
+    min: 1,
+    max: 7,
+    minLabel: "Not confident at all",
+    maxLabel: "Very confident",
+    question: DEFAULT_CONFIDENCE_QUESTION,
+    required: true,
+};
+
+/** Ranges offered in the Creator */
+export const CONFIDENCE_SCALE_RANGES: { min: number; max: number }[] = [
+    { min: 1, max: 5 },
+    { min: 1, max: 7 },
+    { min: 0, max: 10 },
+];
+
+/**
+ * Fill in the defaults for unset fields
+ * A range that doesn't go up (max <= min) falls back to the default range
+ */
+export function resolveConfidenceScale(settings?: ConfidenceScaleSettings): Required<ConfidenceScaleSettings> {
+    const scale: Required<ConfidenceScaleSettings> = {
+        enabled: settings?.enabled ?? DEFAULT_CONFIDENCE_SCALE.enabled,
+        min: settings?.min ?? DEFAULT_CONFIDENCE_SCALE.min,
+        max: settings?.max ?? DEFAULT_CONFIDENCE_SCALE.max,
+        minLabel: settings?.minLabel ?? DEFAULT_CONFIDENCE_SCALE.minLabel,
+        maxLabel: settings?.maxLabel ?? DEFAULT_CONFIDENCE_SCALE.maxLabel,
+        question: settings?.question ?? DEFAULT_CONFIDENCE_SCALE.question,
+        required: settings?.required ?? DEFAULT_CONFIDENCE_SCALE.required,
+    };
+    if (!Number.isInteger(scale.min) || !Number.isInteger(scale.max) || scale.max <= scale.min) {
+        scale.min = DEFAULT_CONFIDENCE_SCALE.min;
+        scale.max = DEFAULT_CONFIDENCE_SCALE.max;
+    }
+    if (!scale.question.trim()) scale.question = DEFAULT_CONFIDENCE_QUESTION;
+    return scale;
+}
+
+/**
+ * Every rating on the scale, lowest first
+ */
+export function getConfidenceValues(scale: Pick<Required<ConfidenceScaleSettings>, "min" | "max">): number[] {
+    return Array.from({ length: scale.max - scale.min + 1 }, (_, i) => scale.min + i);
+}
+
+/**
+ * Check whether a rating lies on the scale
+ */
+export function isOnConfidenceScale(value: number | null | undefined, scale: Pick<Required<ConfidenceScaleSettings>, "min" | "max">): value is number {
+    return typeof value === "number" && Number.isInteger(value) && value >= scale.min && value <= scale.max;
+}
+
+/**
+ * Spreadsheet column for a task's rating
+ * The header keeps the original wording whatever the study asks, so existing sheets keep lining up
+ */
+export function getConfidenceColumn(taskNumber: number): string {
+    return `Task ${taskNumber}: ${DEFAULT_CONFIDENCE_QUESTION}`;
+}
+
+/**
+ * Find a task's rating column in an imported sheet
+ * Falls back to any "Task N: ..." column that mentions confidence, for sheets exported with other wording
+ */
+export function findConfidenceColumn(columns: Iterable<string>, taskNumber: number): string | undefined {
+    const names = Array.from(columns);
+    const exact = getConfidenceColumn(taskNumber);
+    if (names.includes(exact)) return exact;
+    const prefix = `Task ${taskNumber}:`;
+    return names.find(name => name.startsWith(prefix) && /confiden/i.test(name));
+}
+
+/**
+ * Parse a rating cell; 0 is a valid rating on 0-10 scales
+ */
+export function parseConfidenceRating(value: unknown): number | null {
+    if (value === undefined || value === null || value === "") return null;
+    const rating = typeof value === "number" ? value : parseInt(String(value));
+    return isNaN(rating) ? null : rating;
+}
+
+/**
+ * Get the scale an analyzer study was rated on
+ * Studies imported from spreadsheets don't carry one, so it is inferred from the ratings:
+ * 0-based if anyone answered 0, and the 1-7 scale older studies used unless a rating goes past 7 (then up to 10)
+ */
+export function getAnalyzerConfidenceScale(data: UploadedData): Required<ConfidenceScaleSettings> {
+    if (data.confidenceScale) return resolveConfidenceScale(data.confidenceScale);
+
+    const ratings = data.participants.flatMap(p =>
+        p.taskResults.map(r => r.confidenceRating).filter((rating): rating is number => typeof rating === "number")
+    );
+    const min = ratings.some(rating => rating === 0) ? 0 : DEFAULT_CONFIDENCE_SCALE.min;
+    const highest = ratings.reduce((max, rating) => Math.max(max, rating), DEFAULT_CONFIDENCE_SCALE.max);
+    const max = highest > DEFAULT_CONFIDENCE_SCALE.max ? Math.max(10, highest) : highest;
+    return resolveConfidenceScale({ min, max });
+}
+
+/**
+ * Label a rating for display, e.g. "7 - Very confident" at the ends of the scale and "4" in between
+ */
+export function formatConfidenceRating(value: number, scale: Required<ConfidenceScaleSettings>): string {
+    if (value === scale.min && scale.minLabel) return `${value} - ${scale.minLabel}`;
+    if (value === scale.max && scale.maxLabel) return `${value} - ${scale.maxLabel}`;
+    return `${value}`;
+}
+
+/**
+ * Bucket a rating by where it falls on the scale (on 1-7: 6-7 High, 4-5 Med, 1-3 Low)
+ */
+export function getConfidenceLevel(value: number, scale: Pick<Required<ConfidenceScaleSettings>, "min" | "max">): "High" | "Med" | "Low" {
+    const position = (value - scale.min) / (scale.max - scale.min);
+    if (position >= 0.75) return "High";
+    if (position >= 0.45) return "Med";
+    return "Low";
+}
@@ -0,0 +1,109 @@
+import type { ExclusionSource, UploadedData } from "@/lib/types";
+
+/**
+ * Get the IDs of participants excluded from analysis
+ */
+export function getExcludedParticipantIds(data: UploadedData): Set<string> {
+    return new Set((data.exclusions || []).map(e => e.participantId));
+}
+
+/**
+ * Count participants left out of analysis: manual exclusions plus participants the screener disqualified
+ */
+export function getExcludedCount(data: UploadedData): number {
+    const excludedIds = getExcludedParticipantIds(data);
+    const disqualified = data.participants.filter(p => p.status === "Disqualified" && !excludedIds.has(p.id)).length;
+    return excludedIds.size + disqualified;
+}
+
+/**
+ * Remove excluded participants so stats, charts and reports only see included ones
+ * Participants disqualified by the screener are removed too, unless keepDisqualified is set (screening funnel)
+ * The exclusion list and audit trail are kept so reports can describe what was left out
+ * Does nothing while "show excluded" is switched on
+ */
+export function applyExclusions(data: UploadedData, options: { keepDisqualified?: boolean } = {}): UploadedData {
+    const excludedIds = getExcludedParticipantIds(data);
+    const removeDisqualified = !options.keepDisqualified && data.participants.some(p => p.status === "Disqualified");
+    if (data.showExcluded || (excludedIds.size === 0 && !removeDisqualified)) {
+        return data;
+    }
+
+    return {
+        ...data,
+        participants: data.participants.filter(p =>
+            !excludedIds.has(p.id) && !(removeDisqualified && p.status === "Disqualified")
+        ),
+    };
+}
+
+/**
+ * Exclude participants, recording each change in the audit trail
+ */
+export function excludeParticipants(
+    data: UploadedData,
+    participantIds: string[],
+    reason: string,
+    source: ExclusionSource,
+    ruleIds?: Map<string, string[]>
+): UploadedData {
+    const timestamp = new Date().toISOString();
+    const excludedIds = getExcludedParticipantIds(data);
+    const newIds = participantIds.filter(id => !excludedIds.has(id));
+
+    if (newIds.length === 0) {
+        return data;
+    }
+
+    return {
+        ...data,
+        exclusions: [
+            ...(data.exclusions || []),
+            ...newIds.map(participantId => ({
+                participantId,
+                reason,
+                source,
+                ruleIds: ruleIds?.get(participantId),
+                excludedAt: timestamp,
+            })),
+        ],
+        exclusionAudit: [
+            ...(data.exclusionAudit || []),
+            ...newIds.map(participantId => ({
+                participantId,
+                action: "excluded" as const,
+                reason,
+                source,
+                timestamp,
+            })),
+        ],
+    };
+}
+
+/**
+ * Restore previously excluded participants, recording each change in the audit trail
+ */
+export function includeParticipants(data: UploadedData, participantIds: string[], reason: string): UploadedData {
+    const timestamp = new Date().toISOString();
+    const toRestore = new Set(participantIds);
+    const restored = (data.exclusions || []).filter(e => toRestore.has(e.participantId));
+
+    if (restored.length === 0) {
+        return data;
+    }
+
+    return {
+        ...data,
+        exclusions: (data.exclusions || []).filter(e => !toRestore.has(e.participantId)),
+        exclusionAudit: [
+            ...(data.exclusionAudit || []),
+            ...restored.map(exclusion => ({
+                participantId: exclusion.participantId,
+                action: "included" as const,
+                reason,
+                source: exclusion.source,
+                timestamp,
+            })),
+        ],
+    };
+}
@@ -0,0 +1,125 @@
+/**
+ * Participant Session Utility
+ *
+ * Saves a participant's progress in localStorage so that reloading /test/:studyId picks up
+ * where they left off, as the same participant, instead of starting over. Sessions expire
+ * after StudySettings.sessionResumeMinutes without activity.
+ */
+
+import type { QuestionAnswer, StudySettings, TaskEvent } from "@/lib/types/study";
+
+export const DEFAULT_SESSION_RESUME_MINUTES = 60;
+
+const SESSION_STORAGE_PREFIX = "tree-test-session:";
+
+export type TestPhase = "welcome" | "screener" | "screened-out" | "pre-test" | "instructions" | "task" | "follow-up" | "post-test" | "completed";
+
+// Answer the participant gave for one task, keyed by the position it was shown at
+export interface TaskAnswer {
+    taskIndex: number;
+    selectedPath: string;
+    confidence?: number;
+    timedOut?: boolean;
+}
+
+// Where the participant is in the test, as tracked by ParticipantPreview
+export interface ParticipantProgress {
+    phase: TestPhase;
+    currentTaskIndex: number;
+    taskResults: TaskAnswer[];
+}
+
+export interface ParticipantSession {
+    participantId: string;
+    randomSeed: number;
+    treeVariant?: string; // Assigned tree variant ID
+    taskOrder?: string[]; // Task IDs in the order presented
+    startedAt: number; // Epoch ms the test started
+    pausedMs?: number; // Time away between a save and a resume, left out of the active time
+    taskStartTimes: Record<number, number>; // Epoch ms each task started, by display index, moved forward past any time away
+    taskPaths: Record<number, string[]>; // Nodes clicked so far, by display index
+    taskClicks: Record<number, number>;
+    taskEvents: Record<number, TaskEvent[]>; // Event times are relative to the task start, so they survive the time shift
+    taskFollowUpAnswers: Record<number, Record<string, QuestionAnswer>>;
+    questionnaireAnswers: Record<string, QuestionAnswer>;
+    progress: ParticipantProgress;
+    savedAt: number; // Epoch ms of the last save
+    expiresAt: number; // Epoch ms after which the session is no longer resumed
+}
+
+/**
+ * Get how long an interrupted session can be resumed
+ * @returns Minutes since the last activity; 0 when resuming is turned off
+ */
+export function getSessionResumeMinutes(settings: Pick<StudySettings, "sessionResumeMinutes">): number {
+    return Math.max(0, settings.sessionResumeMinutes ?? DEFAULT_SESSION_RESUME_MINUTES);
+}
+
+/**
+ * Load the saved session for a study
+ * Expired or unreadable sessions are removed
+ * @returns The session, or null when there's nothing to resume
+ */
+export function loadSession(studyId: string): ParticipantSession | null {
+    const key = SESSION_STORAGE_PREFIX + studyId;
+    try {
+        const stored = localStorage.getItem(key);
+        if (!stored) return null;
+        const session: ParticipantSession = JSON.parse(stored);
+        if (!session.participantId || !session.progress || !(session.expiresAt > Date.now())) {
+            localStorage.removeItem(key);
+            return null;
+        }
+        return session;
+    } catch (error) {
+        console.error("Error loading participant session:", error);
+        return null;
+    }
+}
+
+/**
+ * Save a session, extending its expiry from now
+ * Nothing is saved when the study has resuming turned off
+ */
+export function saveSession(
+    studyId: string,
+    session: Omit<ParticipantSession, "savedAt" | "expiresAt">,
+    settings: Pick<StudySettings, "sessionResumeMinutes">
+): void {
+    const minutes = getSessionResumeMinutes(settings);
+    if (minutes === 0) return;
+
+    const savedAt = Date.now();
+    try {
+        localStorage.setItem(
+            SESSION_STORAGE_PREFIX + studyId,
+            JSON.stringify({ ...session, savedAt, expiresAt: savedAt + minutes * 60 * 1000 })
+        );
+    } catch (error) {
+        console.error("Error saving participant session:", error);
+    }
+}
+
+/**
+ * Prepare a loaded session for resuming
+ * The time the participant was away is added to pausedMs and task timers are moved forward by it,
+ * so it isn't counted as time on task; startedAt keeps the real start of the test
+ * @returns New session (the original is not modified)
+ */
+export function resumeSession(session: ParticipantSession): ParticipantSession {
+    const away = Math.max(0, Date.now() - session.savedAt);
+    return {
+        ...session,
+        pausedMs: (session.pausedMs ?? 0) + away,
+        taskStartTimes: Object.fromEntries(
+            Object.entries(session.taskStartTimes).map(([index, time]) => [index, time + away])
+        ),
+    };
+}
+
+/**
+ * Convert a record keyed by display index back to a map
+ */
+export function toIndexMap<T>(record: Record<number, T> | undefined): Map<number, T> {
+    return new Map(Object.entries(record || {}).map(([index, value]) => [Number(index), value]));
+}
@@ -0,0 +1,212 @@
+/**
+ * Questionnaire Utility
+ *
+ * Definitions and helpers for the screener, pre-test and post-test questions
+ * shared by the Creator, the participant flow, storage adapters and the Analyzer.
+ */
+
+import type { Question, QuestionAnswer, QuestionnaireBlock, QuestionType, StudyConfig } from "@/lib/types/study";
+import type { Participant, QuestionnaireQuestion } from "@/lib/types";
+import { generateId } from "./id-generator";
+
+/** Spreadsheet column holding the answers as JSON, keyed by question ID */
+export const QUESTIONNAIRE_ANSWERS_COLUMN = "Questionnaire Answers";
+
+/** Blocks in the order participants see them */
+export const QUESTIONNAIRE_BLOCKS: { id: QuestionnaireBlock; label: string; description: string }[] = [
+    { id: "screener", label: "Screener", description: "Asked right after the welcome message to check who is taking part." },
+    { id: "pre-test", label: "Pre-test", description: "Asked before the instructions, e.g. background or familiarity with the site." },
+    { id: "post-test", label: "Post-test", description: "Asked after the last task, e.g. overall impressions or the SUS." },
+];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+    "single-choice": "Single choice",
+    "multiple-choice": "Multiple choice",
+    "likert": "Likert scale",
+    "free-text": "Free text",
+    "sus": "System Usability Scale (SUS)",
+};
+
+export const DEFAULT_LIKERT_POINTS = 5;
+
+/** The 10 standard SUS statements, rated 1 (strongly disagree) to 5 (strongly agree) */
+export const SUS_STATEMENTS = [
+    "I think that I would like to use this system frequently.",
+    "I found the system unnecessarily complex.",
+    "I thought the system was easy to use.",
+    "I think that I would need the support of a technical person to be able to use this system.",
+    "I found the various functions in this system were well integrated.",
+    "I thought there was too much inconsistency in this system.",
+    "I would imagine that most people would learn to use this system very quickly.",
+    "I found the system very cumbersome to use.",
+    "I felt very confident using the system.",
+    "I needed to learn a lot of things before I could get going with this system.",
+];
+
+/** SUS grades, highest first (thresholds from the Sauro-Lewis curved grading scale) */
+export const SUS_GRADES: { label: string; minScore: number }[] = [
+    { label: "Excellent (80.3+)", minScore: 80.3 },
+    { label: "Good (68-80.2)", minScore: 68 },
+    { label: "OK (51-67.9)", minScore: 51 },
+    { label: "Poor (below 51)", minScore: 0 },
+];
+
+/**
+ * Create a question with sensible defaults for its type
+ */
+export function createQuestion(type: QuestionType): Question {
+    return {
+        id: generateId(),
+        type,
+        text: "",
+        required: true,
+        ...((type === "single-choice" || type === "multiple-choice") && { options: ["", ""] }),
+        ...(type === "likert" && { scalePoints: DEFAULT_LIKERT_POINTS, minLabel: "Strongly disagree", maxLabel: "Strongly agree" }),
+    };
+}
+
+/**
+ * Flatten the study's questionnaires into one list, in the order participants see them
+ */
+export function getQuestionnaireQuestions(questionnaires: StudyConfig["questionnaires"]): QuestionnaireQuestion[] {
+    return QUESTIONNAIRE_BLOCKS.flatMap(block =>
+        (questionnaires?.[block.id] || []).map(question => ({ ...question, block: block.id }))
+    );
+}
+
+/**
+ * Display text for a question (SUS questions may have no text of their own)
+ */
+export function getQuestionLabel(question: Question): string {
+    if (question.text.trim()) return question.text;
+    return question.type === "sus" ? "System Usability Scale" : "Untitled question";
+}
+
+/**
+ * Check whether a question has been answered
+ */
+export function isAnswered(question: Question, answer: QuestionAnswer | undefined): boolean {
+    if (answer === undefined || answer === null) return false;
+    if (question.type === "sus") {
+        return Array.isArray(answer) && answer.length === SUS_STATEMENTS.length && answer.every(v => typeof v === "number" && v >= 1);
+    }
+    if (Array.isArray(answer)) return answer.length > 0;
+    if (typeof answer === "string") return answer.trim() !== "";
+    return true;
+}
+
+/**
+ * Get the required questions that are still unanswered
+ */
+export function getMissingRequiredQuestions(questions: Question[], answers: Record<string, QuestionAnswer>): Question[] {
+    return questions.filter(q => q.required && !isAnswered(q, answers[q.id]));
+}
+
+/**
+ * Calculate the SUS score (0-100) from the 10 ratings
+ * Odd statements contribute rating - 1, even statements 5 - rating; the sum is scaled by 2.5
+ * @returns Score, or null if any rating is missing
+ */
+export function calculateSusScore(ratings: number[]): number | null {
+    if (ratings.length !== SUS_STATEMENTS.length || ratings.some(r => typeof r !== "number" || r < 1 || r > 5)) {
+        return null;
+    }
+    const sum = ratings.reduce((total, rating, index) => total + (index % 2 === 0 ? rating - 1 : 5 - rating), 0);
+    return sum * 2.5;
+}
+
+/**
+ * Get the grade label for a SUS score
+ */
+export function getSusGrade(score: number): string {
+    return (SUS_GRADES.find(grade => score >= grade.minScore) || SUS_GRADES[SUS_GRADES.length - 1]).label;
+}
+
+/**
+ * Format an answer for exports and tables
+ */
+export function formatAnswer(question: Pick<Question, "type">, answer: QuestionAnswer | undefined): string {
+    if (answer === undefined || answer === null) return "";
+    if (question.type === "sus" && Array.isArray(answer)) {
+        const score = calculateSusScore(answer.map(Number));
+        return score === null ? "" : `${score}`;
+    }
+    if (Array.isArray(answer)) return answer.join(", ");
+    return `${answer}`;
+}
+
+/**
+ * Serialize answers for a spreadsheet cell
+ * @returns JSON string, or null when nothing was answered
+ */
+export function serializeQuestionnaireAnswers(answers?: Record<string, QuestionAnswer>): string | null {
+    if (!answers || Object.keys(answers).length === 0) return null;
+    return JSON.stringify(answers);
+}
+
+/**
+ * Parse a spreadsheet cell written by serializeQuestionnaireAnswers
+ * @returns Answers, or undefined if the cell is empty or not valid JSON
+ */
+export function parseQuestionnaireAnswers(value: unknown): Record<string, QuestionAnswer> | undefined {
+    if (typeof value !== "string" || value.trim() === "") return undefined;
+    try {
+        const parsed = JSON.parse(value);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+        const answers: Record<string, QuestionAnswer> = {};
+        Object.entries(parsed).forEach(([id, answer]) => {
+            if (typeof answer === "string" || typeof answer === "number") {
+                answers[id] = answer;
+            } else if (Array.isArray(answer)) {
+                answers[id] = answer.every(v => typeof v === "number") ? answer.map(Number) : answer.map(String);
+            }
+        });
+        return answers;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Rebuild question definitions from the answers alone (spreadsheets don't carry the study config)
+ * Types are inferred from the values: 10 numbers → SUS, other arrays → multiple choice,
+ * numbers → Likert, strings with a handful of repeated values → single choice, otherwise free text
+ */
+export function inferQuestionsFromAnswers(participants: Participant[]): QuestionnaireQuestion[] {
+    const valuesById = new Map<string, QuestionAnswer[]>();
+    participants.forEach(p => {
+        Object.entries(p.questionnaireAnswers || {}).forEach(([id, answer]) => {
+            valuesById.set(id, [...(valuesById.get(id) || []), answer]);
+        });
+    });
+
+    return Array.from(valuesById.entries()).map(([id, values]) => {
+        let type: QuestionType = "free-text";
+        if (values.every(v => Array.isArray(v) && v.length === SUS_STATEMENTS.length && v.every(n => typeof n === "number"))) {
+            type = "sus";
+        } else if (values.some(Array.isArray)) {
+            type = "multiple-choice";
+        } else if (values.every(v => typeof v === "number")) {
+            type = "likert";
+        } else {
+            const distinct = new Set(values.map(String)).size;
+            if (distinct < values.length && distinct <= Math.max(2, Math.floor(values.length / 2))) {
+                type = "single-choice";
+            }
+        }
+
+        const options = type === "single-choice" || type === "multiple-choice"
+            ? Array.from(new Set(values.flatMap(v => Array.isArray(v) ? v.map(String) : [String(v)]))).sort()
+            : undefined;
+        const maxRating = type === "likert" ? Math.max(...values.map(Number)) : 0;
+
+        return {
+            id,
+            type,
+            text: id,
+            block: "post-test", // The block isn't recorded in the spreadsheet
+            ...(options && { options }),
+            ...(type === "likert" && { scalePoints: Math.max(DEFAULT_LIKERT_POINTS, maxRating) }),
+        };
+    });
+}
@@ -0,0 +1,57 @@
+/**
+ * Seeded Random Utility
+ *
+ * Reproducible pseudo-random numbers, so the task and tree order a participant saw
+ * can be replayed from the seed stored with their result (e.g. /test/:studyId?seed=123).
+ */
+
+/** Query parameter that replays a seed in /preview and /test/:studyId */
+export const SEED_PARAMETER = "seed";
+
+/** Spreadsheet column holding the participant's seed */
+export const RANDOM_SEED_COLUMN = "Random Seed";
+
+/**
+ * Small deterministic PRNG (mulberry32)
+ * @param seed Unsigned 32-bit integer; the same seed always gives the same sequence
+ * @returns Function returning numbers in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Create the PRNG for one part of a participant's session
+ * Separate streams keep the task order, the tree order and the tree variant independent of each other,
+ * so a study that changes one setting still replays the others from the same seed
+ * @param seed The participant's seed
+ * @param stream What the numbers are used for
+ */
+export function createStudyRandom(seed: number, stream: "tasks" | "tree" | "variant"): () => number {
+    const offsets = { tasks: 0, tree: 0x9e3779b9, variant: 0x85ebca6b };
+    return createSeededRandom(seed ^ offsets[stream]);
+}
+
+/**
+ * Pick a new seed for a participant
+ */
+export function generateSeed(): number {
+    return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Parse a seed from a query parameter or spreadsheet cell
+ * @returns The seed, or undefined unless the value is an unsigned 32-bit integer
+ */
+export function parseSeed(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === "") return undefined;
+    const seed = Number(String(value).trim());
+    return Number.isInteger(seed) && seed >= 0 && seed < 4294967296 ? seed : undefined;
+}
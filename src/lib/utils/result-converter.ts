@@ -1,5 +1,8 @@
 import type { StudyConfig, ParticipantResult } from "@/lib/types/study";
 import type { UploadedData, Participant, TaskResult, Item } from "@/lib/types";
+import { getQuestionnaireQuestions } from "@/lib/utils/questionnaires";
+import { getTreeVariants, hasTreeVariants } from "@/lib/utils/tree-variants";
+import { parseDisqualificationReason } from "@/lib/utils/screener";
 
 /**
  * Convert ParticipantResult[] from storage format to Participant[] for analyzer
@@ -21,9 +24,22 @@ function convertParticipants(
         taskIndexToId.set(index + 1, task.id);
     });
 
+    // Extract task number from taskId (e.g., "task-1" -> 1, "task-2" -> 2)
+    // Or use the actual task ID if it's not in the format "task-N"
+    const getTaskIndex = (taskId: string): number | undefined => {
+        const taskNumMatch = taskId.match(/^task-(\d+)$/);
+        return taskNumMatch ? parseInt(taskNumMatch[1]) : taskIdToIndex.get(taskId);
+    };
+
     return participantResults.map((result) => {
-        // Convert task results
-        const taskResults: TaskResult[] = result.taskResults.map((task) => {
+        const urlParameters = result.urlParameters && Object.keys(result.urlParameters).length > 0
+            ? result.urlParameters
+            : undefined;
+
+        const taskOrder = result.taskOrder?.map(getTaskIndex).filter((index): index is number => index !== undefined);
+
+        // Convert task results, leaving out tasks the participant never reached or wasn't shown
+        const taskResults: TaskResult[] = result.taskResults.filter((task) => task.outcome).map((task) => {
             // Ensure pathTaken is an array
             const pathTakenArray = Array.isArray(task.pathTaken)
                 ? task.pathTaken
@@ -54,24 +70,16 @@ function convertParticipants(
                     successful = false;
                     directPathTaken = false;
                     break;
+                case 'timeout':
+                    successful = false;
+                    directPathTaken = false;
+                    break;
             }
 
-            // Extract task number from taskId (e.g., "task-1" -> 1, "task-2" -> 2)
-            // Or use the actual task ID if it's not in the format "task-N"
-            let actualTaskId = task.taskId;
-            let taskIndex = taskIdToIndex.get(task.taskId);
-
-            // If taskId is in format "task-N", extract the number and map to actual task ID
-            const taskNumMatch = task.taskId.match(/^task-(\d+)$/);
-            if (taskNumMatch) {
-                const taskNum = parseInt(taskNumMatch[1]);
-                taskIndex = taskNum;
-                // Map to the actual task ID from study config
-                actualTaskId = taskIndexToId.get(taskNum) || task.taskId;
-            } else {
-                // Use the task ID as-is and find its index
-                taskIndex = taskIdToIndex.get(task.taskId) || 1;
-            }
+            const foundIndex = getTaskIndex(task.taskId);
+            const taskIndex = foundIndex || 1;
+            // Map "task-N" IDs to the actual task ID from study config
+            const actualTaskId = (foundIndex && taskIndexToId.get(foundIndex)) || task.taskId;
 
             return {
                 taskId: actualTaskId, // Use the actual task ID from study config
@@ -82,7 +90,11 @@ function convertParticipants(
                 completionTimeSeconds: task.timeSeconds,
                 pathTaken: pathTakenArray.join('/'), // Join array to string
                 skipped: task.outcome === 'direct-skip' || task.outcome === 'indirect-skip',
-                confidenceRating: task.confidence || null,
+                confidenceRating: task.confidence ?? null,
+                ...(task.outcome === 'timeout' && { timedOut: true }),
+                ...(taskOrder?.includes(taskIndex) && { presentedPosition: taskOrder.indexOf(taskIndex) + 1 }),
+                followUpAnswers: task.followUpAnswers,
+                events: task.events,
             };
         });
 
@@ -101,13 +113,22 @@ function convertParticipants(
             }
         }
 
+        const rawStatus = (result.status || '').toString().toLowerCase();
+
         return {
             id: result.participantId,
-            status: (result.status || '').toString().toLowerCase() === 'completed' ? 'Completed' : 'Incomplete',
+            status: rawStatus === 'completed' ? 'Completed' : rawStatus === 'disqualified' ? 'Disqualified' : 'Incomplete',
+            disqualificationReason: rawStatus === 'disqualified' ? parseDisqualificationReason(result.disqualificationReason) : undefined,
             startedAt: new Date(result.startedAt),
             completedAt: result.completedAt ? new Date(result.completedAt) : null,
             durationSeconds: durationSeconds,
             taskResults: taskResults,
+            taskOrder: taskOrder,
+            randomSeed: result.randomSeed,
+            treeOrder: result.treeOrder,
+            treeVariant: result.treeVariant,
+            attributes: urlParameters, // Captured URL parameters are available for segmentation
+            questionnaireAnswers: result.questionnaireAnswers,
         };
     });
 }
@@ -115,7 +136,7 @@ function convertParticipants(
 /**
  * Convert StudyConfig.tasks to analyzer task format
  */
-function convertTasks(studyConfig: StudyConfig): { id: string; index: number; description: string; expectedAnswer: string }[] {
+function convertTasks(studyConfig: StudyConfig): UploadedData["tasks"] {
     return studyConfig.tasks.map((task, index) => {
         // Join correctPath array to comma-separated string
         const expectedAnswer = task.correctPath && task.correctPath.length > 0
@@ -127,6 +148,8 @@ function convertTasks(studyConfig: StudyConfig): { id: string; index: number; de
             index: index + 1, // Task index is 1-based in analyzer
             description: task.description,
             expectedAnswer: expectedAnswer,
+            followUpQuestions: task.followUpQuestions && task.followUpQuestions.length > 0 ? task.followUpQuestions : undefined,
+            timeLimitSeconds: task.timeLimitSeconds,
         };
     });
 }
@@ -165,6 +188,19 @@ export function convertResultsToUploadedData(
     const participants = convertParticipants(participantResults, studyConfig.tasks);
     const tasks = convertTasks(studyConfig);
     const treeStructure = convertTree(studyConfig.tree);
+    const questions = getQuestionnaireQuestions(studyConfig.questionnaires);
+
+    // Each variant carries its own tree and expected answers so the Analyzer can split by variant
+    const treeVariants = hasTreeVariants(studyConfig)
+        ? getTreeVariants(studyConfig).map(variant => ({
+            id: variant.id,
+            name: variant.name,
+            treeStructure: convertTree(variant.tree),
+            expectedAnswers: Object.fromEntries(
+                studyConfig.tasks.map(task => [task.id, (variant.correctPaths?.[task.id] || []).join(', ')])
+            ),
+        }))
+        : undefined;
 
     return {
         name: studyConfig.name,
@@ -172,6 +208,10 @@ export function convertResultsToUploadedData(
         participants: participants,
         tasks: tasks,
         treeStructure: treeStructure,
+        confidenceIntervalMethod: studyConfig.settings.confidenceIntervalMethod,
+        confidenceScale: studyConfig.settings.confidenceScale,
+        questions: questions.length > 0 ? questions : undefined,
+        treeVariants,
     };
 }
 
@@ -0,0 +1,105 @@
+/**
+ * Screener Utility
+ *
+ * Qualifying answers and quotas for screener questions, evaluated in the participant
+ * flow before the tasks start and again in the Analyzer to explain disqualifications.
+ */
+
+import type { DisqualificationReason, ParticipantResult, Question, QuestionAnswer } from "@/lib/types/study";
+
+export type ScreeningResult =
+    | { qualified: true }
+    | { qualified: false; reason: DisqualificationReason; questionId: string };
+
+/** Spreadsheet column holding why a disqualified participant was stopped */
+export const DISQUALIFICATION_REASON_COLUMN = "Disqualification Reason";
+
+const DISQUALIFICATION_REASONS: DisqualificationReason[] = ["screened-out", "quota-full"];
+
+export const DEFAULT_SCREENED_OUT_MESSAGE = "# Thank you for your interest\n\nUnfortunately you don't match the profile we're looking for in this study.";
+
+/** Qualified participants per question and option, see countQuotaUsage */
+export type QuotaUsage = Map<string, Map<string, number>>;
+
+/**
+ * Check whether a question screens participants (only choice questions can)
+ */
+export function hasQualifyingOptions(question: Question): boolean {
+    return (question.type === "single-choice" || question.type === "multiple-choice")
+        && (question.qualifyingOptions?.length || 0) > 0;
+}
+
+/**
+ * Check whether a question limits how many participants may pick each option
+ */
+export function hasQuotas(question: Question): boolean {
+    return question.type === "single-choice" && Object.keys(question.quotas || {}).length > 0;
+}
+
+/**
+ * Check whether an answer lets the participant continue
+ * Single choice must be a qualifying option; multiple choice must include at least one.
+ * Unanswered optional questions and questions without qualifying options never disqualify.
+ */
+export function isQualifyingAnswer(question: Question, answer: QuestionAnswer | undefined): boolean {
+    if (!hasQualifyingOptions(question) || answer === undefined) return true;
+    const qualifying = question.qualifyingOptions || [];
+    const selected = Array.isArray(answer) ? answer.map(String) : [String(answer)];
+    return selected.some(option => qualifying.includes(option));
+}
+
+/**
+ * Count qualified participants per quota option from the results stored so far
+ */
+export function countQuotaUsage(questions: Question[], results: ParticipantResult[]): QuotaUsage {
+    const usage: QuotaUsage = new Map();
+    questions.filter(hasQuotas).forEach(question => {
+        const counts = new Map<string, number>();
+        results
+            .filter(result => result.status !== "disqualified")
+            .forEach(result => {
+                const answer = result.questionnaireAnswers?.[question.id];
+                if (typeof answer === "string") {
+                    counts.set(answer, (counts.get(answer) || 0) + 1);
+                }
+            });
+        usage.set(question.id, counts);
+    });
+    return usage;
+}
+
+/**
+ * Decide whether a participant continues to the tasks
+ * Quotas are only enforced when usage is known (the storage backend can list results).
+ */
+export function evaluateScreener(
+    questions: Question[],
+    answers: Record<string, QuestionAnswer>,
+    quotaUsage?: QuotaUsage
+): ScreeningResult {
+    const screenedOut = questions.find(question => !isQualifyingAnswer(question, answers[question.id]));
+    if (screenedOut) {
+        return { qualified: false, reason: "screened-out", questionId: screenedOut.id };
+    }
+
+    const quotaFull = questions.filter(hasQuotas).find(question => {
+        const answer = answers[question.id];
+        if (typeof answer !== "string" || !quotaUsage) return false;
+        const limit = question.quotas?.[answer];
+        return limit !== undefined && (quotaUsage.get(question.id)?.get(answer) || 0) >= limit;
+    });
+    if (quotaFull) {
+        return { qualified: false, reason: "quota-full", questionId: quotaFull.id };
+    }
+
+    return { qualified: true };
+}
+
+/**
+ * Parse a spreadsheet cell holding a disqualification reason
+ * @returns The reason, or undefined if the cell is empty or not a known reason
+ */
+export function parseDisqualificationReason(value: unknown): DisqualificationReason | undefined {
+    const reason = typeof value === "string" ? value.trim() : "";
+    return DISQUALIFICATION_REASONS.find(known => known === reason);
+}
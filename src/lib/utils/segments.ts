@@ -0,0 +1,71 @@
+import type { Participant, SegmentFilter, UploadedData } from "@/lib/types";
+
+/**
+ * Collect every participant attribute and its distinct values, sorted for display
+ */
+export function getAttributeValues(data: UploadedData): Map<string, string[]> {
+    const values = new Map<string, Set<string>>();
+    data.participants.forEach(p => {
+        Object.entries(p.attributes || {}).forEach(([attribute, value]) => {
+            const set = values.get(attribute) || new Set<string>();
+            set.add(value);
+            values.set(attribute, set);
+        });
+    });
+
+    return new Map(
+        Array.from(values.entries())
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([attribute, set]) => [attribute, Array.from(set).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))])
+    );
+}
+
+/**
+ * Check a participant against a list of segment filters
+ * Filters with no values selected are ignored
+ */
+export function matchesSegmentFilters(participant: Participant, filters: SegmentFilter[]): boolean {
+    return filters.every(filter =>
+        filter.values.length === 0 || filter.values.includes(participant.attributes?.[filter.attribute] ?? "")
+    );
+}
+
+/**
+ * Keep only the participants in the active segment (data.segmentFilters)
+ */
+export function applySegmentFilters(data: UploadedData): UploadedData {
+    const filters = (data.segmentFilters || []).filter(f => f.values.length > 0);
+    if (filters.length === 0) {
+        return data;
+    }
+
+    return {
+        ...data,
+        participants: data.participants.filter(p => matchesSegmentFilters(p, filters)),
+    };
+}
+
+/**
+ * Split participants into one dataset per value of an attribute
+ * Participants without the attribute are grouped under "(not set)"
+ */
+export function splitBySegment(data: UploadedData, attribute: string): { value: string; data: UploadedData }[] {
+    const groups = new Map<string, Participant[]>();
+    data.participants.forEach(p => {
+        const value = p.attributes?.[attribute] ?? "(not set)";
+        groups.set(value, [...(groups.get(value) || []), p]);
+    });
+
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+        .map(([value, participants]) => ({ value, data: { ...data, participants } }));
+}
+
+/**
+ * Describe the active segment, e.g. "role = Admin, Editor; region = EU"
+ */
+export function describeSegmentFilters(filters: SegmentFilter[] | undefined): string | null {
+    const active = (filters || []).filter(f => f.values.length > 0);
+    if (active.length === 0) return null;
+    return active.map(f => `${f.attribute} = ${f.values.join(", ")}`).join("; ");
+}
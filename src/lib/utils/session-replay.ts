@@ -0,0 +1,113 @@
+/**
+ * Session Replay Utility
+ *
+ * Rebuilds what a participant saw in the tree at any moment of a task from their click
+ * event log, following the same expand and collapse rules as the participant view.
+ */
+
+import type { Item } from "@/lib/types";
+import type { TaskEvent } from "@/lib/types/study";
+import { getTreeOrderKey } from "./tree-randomizer";
+
+export interface ReplaySession {
+    id: string;
+    label: string; // e.g. the participant ID
+    events: TaskEvent[];
+    treeOrder?: Record<string, string[]>; // Sibling order the participant saw, when it was shuffled
+}
+
+export interface ReplayFrame {
+    expanded: Set<string>; // Paths of open nodes
+    current: string | null; // Last node clicked
+    selected: string | null; // Answer chosen with "I'd find it here"
+    skipped: boolean;
+    eventsApplied: number; // Events that happened up to this moment
+}
+
+/**
+ * Get the length of a session
+ * @returns Milliseconds from the task start to the last event
+ */
+export function getReplayDuration(events: TaskEvent[]): number {
+    return events.length > 0 ? events[events.length - 1].time : 0;
+}
+
+// Open paths that are ancestors of the given path, like the participant view keeps when another branch is opened
+function keepAncestors(expanded: Set<string>, path: string): Set<string> {
+    return new Set(Array.from(expanded).filter(expandedPath => path.startsWith(expandedPath + "/")));
+}
+
+/**
+ * Rebuild the state of the tree at a moment of the session
+ * @param events - Events of one attempt, in order
+ * @param time - Milliseconds since the task started
+ * @returns The tree state after every event up to and including that moment
+ */
+export function getReplayFrame(events: TaskEvent[], time: number): ReplayFrame {
+    let expanded = new Set<string>();
+    let current: string | null = null;
+    let selected: string | null = null;
+    let skipped = false;
+    let eventsApplied = 0;
+
+    for (const event of events) {
+        if (event.time > time) break;
+        eventsApplied++;
+
+        switch (event.type) {
+            case "expand":
+                expanded = keepAncestors(expanded, event.path);
+                expanded.add(event.path);
+                current = event.path;
+                break;
+            case "collapse":
+                expanded = keepAncestors(expanded, event.path);
+                current = event.path;
+                break;
+            case "breadcrumb-back": {
+                // Going back opens every level down to the breadcrumb
+                expanded = new Set();
+                const parts = event.path.split("/").filter(Boolean);
+                parts.forEach((_, i) => expanded.add("/" + parts.slice(0, i + 1).join("/")));
+                current = event.path;
+                selected = null;
+                break;
+            }
+            case "select":
+                selected = event.path;
+                break;
+            case "skip":
+                skipped = true;
+                break;
+        }
+    }
+
+    return { expanded, current, selected, skipped, eventsApplied };
+}
+
+/**
+ * Put the tree in the sibling order a participant saw
+ * Lists that weren't shuffled keep their authored order
+ * @param tree - Tree in its authored order
+ * @param treeOrder - Participant's recorded sibling order
+ * @returns New tree (the original is not modified)
+ */
+export function applyTreeOrder(tree: Item[], treeOrder: Record<string, string[]> | undefined): Item[] {
+    if (!treeOrder || Object.keys(treeOrder).length === 0) return tree;
+    const orderByKey = new Map(Object.entries(treeOrder).map(([key, names]) => [key.toLowerCase(), names.map(name => name.toLowerCase())]));
+
+    const reorder = (items: Item[], path: string[]): Item[] => {
+        const order = orderByKey.get(getTreeOrderKey(path).toLowerCase());
+        const position = (item: Item) => {
+            const index = order ? order.indexOf(item.name.toLowerCase()) : -1;
+            return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+        };
+        const sorted = order ? [...items].sort((a, b) => position(a) - position(b)) : items;
+        return sorted.map(item => ({
+            ...item,
+            children: item.children ? reorder(item.children, [...path, item.name]) : item.children,
+        }));
+    };
+
+    return reorder(tree, []);
+}
@@ -0,0 +1,69 @@
+/**
+ * Task Events Utility
+ *
+ * Every click a participant makes during a task (expand, collapse, breadcrumb-back, select, skip),
+ * with its node path and time since the task started. Stored as JSON in one spreadsheet cell,
+ * each event as a compact [type, path, milliseconds] array to stay well under cell size limits.
+ */
+
+import type { TaskEvent, TaskEventType } from "@/lib/types/study";
+
+/** Spreadsheet column holding the events as JSON, keyed by task number */
+export const TASK_EVENTS_COLUMN = "Task Events";
+
+export const TASK_EVENT_LABELS: Record<TaskEventType, string> = {
+    "expand": "Opened",
+    "collapse": "Closed",
+    "breadcrumb-back": "Went back to",
+    "select": "Chose",
+    "skip": "Skipped at",
+};
+
+type SerializedTaskEvent = [TaskEventType, string, number];
+
+function isTaskEventType(value: unknown): value is TaskEventType {
+    return typeof value === "string" && Object.hasOwn(TASK_EVENT_LABELS, value);
+}
+
+/**
+ * Serialize task events for a spreadsheet cell
+ * @param taskResults - Results in study task order; keys are 1-based task numbers like the task columns
+ * @returns JSON string, or null when no events were recorded
+ */
+export function serializeTaskEvents(taskResults: { events?: TaskEvent[] }[]): string | null {
+    const byTask: Record<string, SerializedTaskEvent[]> = {};
+    taskResults.forEach((result, index) => {
+        if (result.events && result.events.length > 0) {
+            byTask[`${index + 1}`] = result.events.map(event => [event.type, event.path, Math.round(event.time)]);
+        }
+    });
+    return Object.keys(byTask).length > 0 ? JSON.stringify(byTask) : null;
+}
+
+/**
+ * Parse a spreadsheet cell written by serializeTaskEvents
+ * Malformed events are dropped
+ * @returns Events by task number, or undefined if the cell is empty or not valid JSON
+ */
+export function parseTaskEvents(value: unknown): Map<number, TaskEvent[]> | undefined {
+    if (typeof value !== "string" || value.trim() === "") return undefined;
+    try {
+        const parsed = JSON.parse(value);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+        const byTask = new Map<number, TaskEvent[]>();
+        Object.entries(parsed).forEach(([taskNumber, events]) => {
+            if (!Array.isArray(events) || isNaN(parseInt(taskNumber))) return;
+            const parsedEvents = events
+                .filter((event): event is SerializedTaskEvent =>
+                    Array.isArray(event) && isTaskEventType(event[0]) && typeof event[1] === "string" && typeof event[2] === "number"
+                )
+                .map(([type, path, time]) => ({ type, path, time }));
+            if (parsedEvents.length > 0) {
+                byTask.set(parseInt(taskNumber), parsedEvents);
+            }
+        });
+        return byTask;
+    } catch {
+        return undefined;
+    }
+}
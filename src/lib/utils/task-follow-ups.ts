@@ -0,0 +1,81 @@
+/**
+ * Task Follow-up Utility
+ *
+ * Questions asked after individual tasks (e.g. "What were you expecting to find?"),
+ * optionally only after a failed or a successful attempt.
+ */
+
+import type { FollowUpCondition, QuestionAnswer, QuestionType, Task, TaskFollowUpQuestion } from "@/lib/types/study";
+import { parseQuestionnaireAnswers } from "./questionnaires";
+
+/** Spreadsheet column holding the answers as JSON, keyed by task number and then question ID */
+export const TASK_FOLLOW_UP_ANSWERS_COLUMN = "Task Follow-up Answers";
+
+export const FOLLOW_UP_CONDITION_LABELS: Record<FollowUpCondition, string> = {
+    always: "After every attempt",
+    failure: "Only after a wrong answer or skip",
+    success: "Only after a correct answer",
+};
+
+/** SUS is a whole-study measure, so it isn't offered as a task follow-up */
+export const FOLLOW_UP_QUESTION_TYPES: QuestionType[] = ["free-text", "single-choice", "multiple-choice", "likert"];
+
+/**
+ * Check whether the selected answer is one of the task's correct paths
+ * A skip (empty selection) is never correct
+ */
+export function isCorrectSelection(task: Task, selectedPath: string): boolean {
+    const selectedParts = selectedPath.split("/").filter(Boolean);
+    if (selectedParts.length === 0) return false;
+    return (task.correctPath || []).some(correctPath => {
+        const correctParts = correctPath.split("/").filter(Boolean);
+        return correctParts.length === selectedParts.length && correctParts.every((part, i) => part === selectedParts[i]);
+    });
+}
+
+/**
+ * Get the follow-up questions to ask after an attempt
+ */
+export function getTaskFollowUpQuestions(task: Task, successful: boolean): TaskFollowUpQuestion[] {
+    return (task.followUpQuestions || []).filter(question => {
+        const condition = question.showWhen || "always";
+        return condition === "always" || (condition === "success") === successful;
+    });
+}
+
+/**
+ * Serialize follow-up answers for a spreadsheet cell
+ * @param taskResults - Results in study task order; keys are 1-based task numbers like the task columns
+ * @returns JSON string, or null when no follow-up was answered
+ */
+export function serializeTaskFollowUpAnswers(taskResults: { followUpAnswers?: Record<string, QuestionAnswer> }[]): string | null {
+    const byTask: Record<string, Record<string, QuestionAnswer>> = {};
+    taskResults.forEach((result, index) => {
+        if (result.followUpAnswers && Object.keys(result.followUpAnswers).length > 0) {
+            byTask[`${index + 1}`] = result.followUpAnswers;
+        }
+    });
+    return Object.keys(byTask).length > 0 ? JSON.stringify(byTask) : null;
+}
+
+/**
+ * Parse a spreadsheet cell written by serializeTaskFollowUpAnswers
+ * @returns Answers by task number, or undefined if the cell is empty or not valid JSON
+ */
+export function parseTaskFollowUpAnswers(value: unknown): Map<number, Record<string, QuestionAnswer>> | undefined {
+    if (typeof value !== "string" || value.trim() === "") return undefined;
+    try {
+        const parsed = JSON.parse(value);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+        const byTask = new Map<number, Record<string, QuestionAnswer>>();
+        Object.entries(parsed).forEach(([taskNumber, answers]) => {
+            const parsedAnswers = parseQuestionnaireAnswers(JSON.stringify(answers));
+            if (parsedAnswers && !isNaN(parseInt(taskNumber))) {
+                byTask.set(parseInt(taskNumber), parsedAnswers);
+            }
+        });
+        return byTask;
+    } catch {
+        return undefined;
+    }
+}
@@ -1,28 +1,191 @@
 /**
  * Task Randomization Utility
- * 
- * Implements Fisher-Yates shuffle algorithm to randomize task order
- * for each participant, reducing order bias in tree test results.
+ *
+ * Orders tasks for each participant to reduce order bias in tree test results:
+ * Fisher-Yates shuffles, balanced Latin squares, a fixed first task, and showing
+ * each participant a subset of tasks with exposure spread evenly across participants.
  */
 
+import type { ParticipantResult, StudySettings, TaskOrderStrategy } from "@/lib/types/study";
+
+/** Spreadsheet column holding the presented order as 1-based task numbers, e.g. "3,1,2" */
+export const TASK_ORDER_COLUMN = "Task Order";
+
+export const TASK_ORDER_LABELS: Record<TaskOrderStrategy, string> = {
+    "fixed": "Same order for everyone",
+    "random": "Random order",
+    "latin-square": "Balanced Latin square",
+    "fixed-first": "Fixed first task, rest random",
+};
+
+// What the participant's order depends on besides the settings; see getTaskOrderContext
+export interface TaskOrderContext {
+    participantNumber?: number; // 0-based arrival order, picks the Latin square row
+    exposure?: Map<string, number>; // Task ID → participants already shown the task
+    random?: () => number; // Source of randomness, e.g. createSeededRandom(seed) for replayable orders (default Math.random)
+}
+
 /**
- * Shuffles an array of tasks using Fisher-Yates algorithm
- * @param tasks Array of tasks with id property
+ * Shuffles an array of tasks (or any items) using Fisher-Yates algorithm
+ * @param tasks Array to shuffle
+ * @param random Source of randomness, e.g. a seeded PRNG
  * @returns New shuffled array (original array is not modified)
  */
-export function shuffleTasks<T extends { id: string }>(tasks: T[]): T[] {
+export function shuffleTasks<T>(tasks: T[], random: () => number = Math.random): T[] {
     // Create a copy to avoid mutating the original array
     const shuffled = [...tasks];
-    
+
     // Fisher-Yates shuffle algorithm
     for (let i = shuffled.length - 1; i > 0; i--) {
         // Pick a random index from 0 to i (inclusive)
-        const j = Math.floor(Math.random() * (i + 1));
-        
+        const j = Math.floor(random() * (i + 1));
+
         // Swap elements at positions i and j
         [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
-    
+
     return shuffled;
 }
 
+/**
+ * Get the ordering strategy, treating the older randomizeTasks flag as 'random'
+ */
+export function getTaskOrderStrategy(settings: Pick<StudySettings, "taskOrder" | "randomizeTasks">): TaskOrderStrategy {
+    return settings.taskOrder ?? (settings.randomizeTasks === true ? "random" : "fixed");
+}
+
+/**
+ * Get a row of a balanced Latin square (Williams design)
+ * Every item appears in every position, and before every other item, equally often across rows.
+ * With an odd number of items this takes twice as many rows, so odd rows are reversed.
+ * @param items Items in their original order
+ * @param row Row number, e.g. the participant number; wraps around
+ * @returns New array in the row's order
+ */
+export function balancedLatinSquare<T>(items: T[], row: number): T[] {
+    const n = items.length;
+    const result: T[] = [];
+
+    // First row is 0, 1, n-1, 2, n-2, ...; later rows add the row number to each entry
+    for (let i = 0, j = 0, h = 0; i < n; i++) {
+        let value: number;
+        if (i < 2 || i % 2 !== 0) {
+            value = j++;
+        } else {
+            value = n - h - 1;
+            h++;
+        }
+        result.push(items[(value + row) % n]);
+    }
+
+    if (n % 2 !== 0 && row % 2 !== 0) {
+        result.reverse();
+    }
+
+    return result;
+}
+
+/**
+ * Pick the tasks shown least so far, breaking ties at random
+ * @param tasks Candidate tasks
+ * @param count Number of tasks to pick
+ * @param exposure Task ID → participants already shown the task
+ * @param random Source of randomness for the ties
+ * @returns The picked tasks in their original order
+ */
+export function selectBalancedSubset<T extends { id: string }>(
+    tasks: T[],
+    count: number,
+    exposure: Map<string, number> = new Map(),
+    random: () => number = Math.random
+): T[] {
+    const picked = new Set(
+        shuffleTasks(tasks, random)
+            .sort((a, b) => (exposure.get(a.id) || 0) - (exposure.get(b.id) || 0))
+            .slice(0, Math.max(0, count))
+    );
+    return tasks.filter(task => picked.has(task));
+}
+
+/**
+ * Order (and, with tasksPerParticipant, select) the tasks one participant sees
+ * @param tasks Study tasks in their original order
+ * @param settings Study settings
+ * @param context Participant number, task exposure and randomness; without the first two rows and subsets are picked at random
+ * @returns New array of the tasks to present, in order
+ */
+export function orderTasks<T extends { id: string }>(
+    tasks: T[],
+    settings: Pick<StudySettings, "taskOrder" | "randomizeTasks" | "tasksPerParticipant">,
+    context: TaskOrderContext = {}
+): T[] {
+    const strategy = getTaskOrderStrategy(settings);
+    const random = context.random ?? Math.random;
+    const [first, ...rest] = tasks;
+    if (!first) return [];
+
+    // Choose which tasks to show; a fixed first task is always shown
+    let shown = tasks;
+    const count = settings.tasksPerParticipant;
+    if (count && count > 0 && count < tasks.length) {
+        shown = strategy === "fixed-first"
+            ? [first, ...selectBalancedSubset(rest, count - 1, context.exposure, random)]
+            : selectBalancedSubset(tasks, count, context.exposure, random);
+    }
+    const isShown = (task: T) => shown.includes(task);
+
+    switch (strategy) {
+        case "random":
+            return shuffleTasks(shown, random);
+        case "latin-square": {
+            // Rows come from the full task list so positions stay balanced when only some tasks are shown
+            const row = context.participantNumber ?? Math.floor(random() * tasks.length * 2);
+            return balancedLatinSquare(tasks, row).filter(isShown);
+        }
+        case "fixed-first":
+            return [first, ...shuffleTasks(rest.filter(isShown), random)];
+        default:
+            return shown;
+    }
+}
+
+/**
+ * Work out where a new participant falls among those already recorded
+ * Disqualified participants never saw the tasks, so they don't count
+ * @param results Results stored so far
+ * @returns Participant number and how often each task was shown
+ */
+export function getTaskOrderContext(results: ParticipantResult[]): TaskOrderContext {
+    const participants = results.filter(result => result.status !== "disqualified");
+    const exposure = new Map<string, number>();
+
+    participants.forEach(result => {
+        // Results from before the order was recorded only show which tasks were reached
+        const shownIds = result.taskOrder ?? result.taskResults.filter(task => task.outcome).map(task => task.taskId);
+        shownIds.forEach(id => exposure.set(id, (exposure.get(id) || 0) + 1));
+    });
+
+    return { participantNumber: participants.length, exposure };
+}
+
+/**
+ * Serialize the presented order for a spreadsheet cell
+ * @returns Comma-separated 1-based task numbers, or null when the order wasn't recorded
+ */
+export function serializeTaskOrder(result: Pick<ParticipantResult, "taskOrder" | "taskResults">): string | null {
+    if (!result.taskOrder || result.taskOrder.length === 0) return null;
+    const numbers = result.taskOrder
+        .map(id => result.taskResults.findIndex(task => task.taskId === id) + 1)
+        .filter(number => number > 0);
+    return numbers.length > 0 ? numbers.join(",") : null;
+}
+
+/**
+ * Parse a task order cell back into task numbers
+ * @returns 1-based task numbers, or undefined if the cell is empty or malformed
+ */
+export function parseTaskOrder(value: unknown): number[] | undefined {
+    if (value === undefined || value === null || value === "") return undefined;
+    const numbers = String(value).split(",").map(part => parseInt(part.trim()));
+    return numbers.length > 0 && numbers.every(number => !isNaN(number) && number > 0) ? numbers : undefined;
+}
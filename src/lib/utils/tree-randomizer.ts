@@ -0,0 +1,111 @@
+/**
+ * Tree Randomization Utility
+ *
+ * Shuffles the order of siblings in the tree shown to participants, so labels
+ * near the top of a list don't get picked just for their position. Pinned nodes
+ * keep their authored position, and the displayed order is recorded for analysis.
+ */
+
+import type { StudySettings, TreeNode, TreeOrderScope } from "@/lib/types/study";
+import { shuffleTasks } from "./task-randomizer";
+
+/** Spreadsheet column holding the displayed sibling order as JSON */
+export const TREE_ORDER_COLUMN = "Tree Order";
+
+/** Key of the top-level list in a recorded tree order */
+export const TREE_ORDER_ROOT = "/";
+
+export const TREE_ORDER_SCOPE_LABELS: Record<TreeOrderScope, string> = {
+    "all": "Every level of the tree",
+    "branches": "Selected branches only",
+};
+
+export interface ShuffledTree {
+    tree: TreeNode[]; // Tree as displayed to the participant
+    order: Record<string, string[]>; // Shuffled sibling lists by parent path, see ParticipantResult.treeOrder
+}
+
+/**
+ * Shuffle one list of siblings, leaving pinned nodes where they were authored
+ * @param nodes Siblings in their authored order
+ * @param random Source of randomness, e.g. createStudyRandom(seed, "tree")
+ * @returns New array; unpinned nodes fill the unpinned positions in random order
+ */
+export function shuffleSiblings(nodes: TreeNode[], random: () => number = Math.random): TreeNode[] {
+    const shuffled = shuffleTasks(nodes.filter(node => !node.pinned), random);
+    let next = 0;
+    return nodes.map(node => (node.pinned ? node : shuffled[next++]));
+}
+
+/**
+ * Get the path key of a node's children in a recorded tree order
+ * @param path Node names from the root; empty for the top level
+ */
+export function getTreeOrderKey(path: string[]): string {
+    return path.length > 0 ? `/${path.join("/")}` : TREE_ORDER_ROOT;
+}
+
+/**
+ * Shuffle the sibling lists selected by the study settings
+ * Lists with fewer than two unpinned nodes can't change order, so they aren't recorded
+ * @param tree Tree in its authored order
+ * @param settings Study settings; nothing is shuffled unless randomizeTreeOrder is set
+ * @param random Source of randomness, e.g. createStudyRandom(seed, "tree")
+ * @returns Displayed tree (the original is not modified; node names and paths are unchanged) and its order
+ */
+export function shuffleTree(
+    tree: TreeNode[],
+    settings: Pick<StudySettings, "randomizeTreeOrder" | "treeOrderScope" | "shuffleTopLevel">,
+    random: () => number = Math.random
+): ShuffledTree {
+    const order: Record<string, string[]> = {};
+    if (!settings.randomizeTreeOrder) return { tree, order };
+
+    const shufflesAll = (settings.treeOrderScope ?? "all") === "all";
+
+    const visit = (nodes: TreeNode[], path: string[], shuffle: boolean): TreeNode[] => {
+        let displayed = nodes;
+        if (shuffle && nodes.filter(node => !node.pinned).length > 1) {
+            displayed = shuffleSiblings(nodes, random);
+            order[getTreeOrderKey(path)] = displayed.map(node => node.name);
+        }
+        return displayed.map(node => (
+            node.children && node.children.length > 0
+                ? { ...node, children: visit(node.children, [...path, node.name], shufflesAll || node.shuffleChildren === true) }
+                : node
+        ));
+    };
+
+    return { tree: visit(tree, [], shufflesAll || settings.shuffleTopLevel === true), order };
+}
+
+/**
+ * Serialize the displayed order for a spreadsheet cell
+ * @returns JSON object of parent path → child names, or null when nothing was shuffled
+ */
+export function serializeTreeOrder(order: Record<string, string[]> | undefined): string | null {
+    if (!order || Object.keys(order).length === 0) return null;
+    return JSON.stringify(order);
+}
+
+/**
+ * Parse a tree order cell back into sibling lists
+ * @returns Parent path → child names, or undefined if the cell is empty or malformed
+ */
+export function parseTreeOrder(value: unknown): Record<string, string[]> | undefined {
+    if (value === undefined || value === null || value === "") return undefined;
+    try {
+        const parsed: unknown = typeof value === "string" ? JSON.parse(value) : value;
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+
+        const order: Record<string, string[]> = {};
+        Object.entries(parsed).forEach(([key, names]) => {
+            if (Array.isArray(names) && names.every(name => typeof name === "string")) {
+                order[key] = names;
+            }
+        });
+        return Object.keys(order).length > 0 ? order : undefined;
+    } catch {
+        return undefined;
+    }
+}
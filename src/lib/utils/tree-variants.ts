@@ -0,0 +1,241 @@
+/**
+ * Tree Variants Utility
+ *
+ * A study can test several trees side by side: the main tree (StudyConfig.tree, with each
+ * Task.correctPath) and alternative variants with their own tree and expected paths.
+ * Each participant is assigned one variant, and the Analyzer splits every tab by it.
+ */
+
+import type { ParticipantResult, StudyConfig, StudySettings, Task, TreeVariant, TreeVariantAssignment } from "@/lib/types/study";
+import type { AnalyzerTreeVariant, UploadedData } from "@/lib/types";
+
+/** Variant ID recorded for participants shown the main tree */
+export const MAIN_TREE_VARIANT_ID = "main";
+
+/** Spreadsheet column holding the assigned variant ID */
+export const TREE_VARIANT_COLUMN = "Tree Variant";
+
+export const DEFAULT_MAIN_TREE_NAME = "Tree A";
+
+export const TREE_VARIANT_ASSIGNMENT_LABELS: Record<TreeVariantAssignment, string> = {
+    "round-robin": "Round-robin (even split)",
+    "weighted": "By weight",
+};
+
+/**
+ * List every tree in the study, the main tree first
+ * @returns One entry per tree; a study without variants has only the main tree
+ */
+export function getTreeVariants(study: Pick<StudyConfig, "tree" | "tasks" | "settings" | "treeVariants">): TreeVariant[] {
+    const main: TreeVariant = {
+        id: MAIN_TREE_VARIANT_ID,
+        name: study.settings.mainTreeName || DEFAULT_MAIN_TREE_NAME,
+        tree: study.tree,
+        correctPaths: Object.fromEntries(study.tasks.map(task => [task.id, task.correctPath || []])),
+        weight: study.settings.mainTreeWeight,
+    };
+    return [main, ...(study.treeVariants || [])];
+}
+
+/**
+ * Check whether participants are split between more than one tree
+ */
+export function hasTreeVariants(study: Pick<StudyConfig, "treeVariants">): boolean {
+    return (study.treeVariants?.length ?? 0) > 0;
+}
+
+/**
+ * Get the study as seen by participants assigned a variant
+ * @returns The study with the variant's tree and expected paths; the main tree returns the study unchanged
+ */
+export function applyTreeVariant(study: StudyConfig, variant: TreeVariant | null): StudyConfig {
+    if (!variant || variant.id === MAIN_TREE_VARIANT_ID) return study;
+    return {
+        ...study,
+        tree: variant.tree,
+        tasks: study.tasks.map(task => ({ ...task, correctPath: variant.correctPaths?.[task.id] ?? [] })),
+    };
+}
+
+/**
+ * Create an empty variant, or a copy of another tree, with the next free letter
+ * @param study Study the variant is added to
+ * @param copyFrom Variant whose tree and expected paths are copied
+ */
+export function createTreeVariant(study: StudyConfig, copyFrom?: TreeVariant): TreeVariant {
+    const usedIds = new Set(getTreeVariants(study).map(variant => variant.id));
+
+    // The main tree is A, so variants start at B
+    let label = "";
+    for (let n = 1; !label || usedIds.has(`tree-${label.toLowerCase()}`); n++) {
+        label = n < 26 ? String.fromCharCode(65 + n) : String(n + 1);
+    }
+
+    return {
+        id: `tree-${label.toLowerCase()}`,
+        name: `Tree ${label}`,
+        tree: copyFrom ? structuredClone(copyFrom.tree) : [],
+        correctPaths: copyFrom?.correctPaths ? structuredClone(copyFrom.correctPaths) : {},
+    };
+}
+
+/**
+ * Update one tree of the study
+ * Changes to the main tree go to StudyConfig.tree, Task.correctPath and the main tree settings
+ * @param study Study to update
+ * @param variantId Variant to change
+ * @param updates Fields to replace
+ * @returns New study config
+ */
+export function updateTreeVariant(
+    study: StudyConfig,
+    variantId: string,
+    updates: Partial<Omit<TreeVariant, "id">>
+): StudyConfig {
+    if (variantId !== MAIN_TREE_VARIANT_ID) {
+        return {
+            ...study,
+            treeVariants: (study.treeVariants || []).map(variant =>
+                variant.id === variantId ? { ...variant, ...updates } : variant
+            ),
+        };
+    }
+
+    const settings: StudySettings = { ...study.settings };
+    if ("name" in updates) settings.mainTreeName = updates.name || undefined;
+    if ("weight" in updates) settings.mainTreeWeight = updates.weight;
+
+    const correctPaths = updates.correctPaths;
+    return {
+        ...study,
+        settings,
+        tree: updates.tree ?? study.tree,
+        tasks: correctPaths
+            ? study.tasks.map(task => ({ ...task, correctPath: correctPaths[task.id] ?? [] }))
+            : study.tasks,
+    };
+}
+
+/**
+ * Save tasks edited against a variant's expected paths
+ * Task text and settings are shared by every tree; only the expected paths belong to the variant
+ * @param study Study to update
+ * @param variantId Variant whose expected paths the tasks show
+ * @param tasks Edited tasks, with correctPath holding the variant's paths
+ * @returns New study config
+ */
+export function setTreeVariantTasks(study: StudyConfig, variantId: string, tasks: Task[]): StudyConfig {
+    if (variantId === MAIN_TREE_VARIANT_ID) return { ...study, tasks };
+
+    const originalPaths = new Map(study.tasks.map(task => [task.id, task.correctPath]));
+    return {
+        ...updateTreeVariant(study, variantId, {
+            correctPaths: Object.fromEntries(tasks.map(task => [task.id, task.correctPath || []])),
+        }),
+        tasks: tasks.map(task => ({ ...task, correctPath: originalPaths.get(task.id) ?? [] })),
+    };
+}
+
+/**
+ * Pick the tree variant for a new participant
+ * @param variants Every tree in the study, from getTreeVariants
+ * @param settings Study settings
+ * @param context Stored results (for round-robin) and the source of randomness
+ * @returns The assigned variant; round-robin falls back to a random pick when results can't be listed
+ */
+export function assignTreeVariant(
+    variants: TreeVariant[],
+    settings: Pick<StudySettings, "treeVariantAssignment">,
+    context: { results?: ParticipantResult[] | null; random?: () => number } = {}
+): TreeVariant {
+    const random = context.random ?? Math.random;
+
+    if ((settings.treeVariantAssignment ?? "round-robin") === "round-robin") {
+        if (context.results) {
+            // Disqualified participants never saw a tree, so they don't count
+            const counts = new Map<string, number>();
+            context.results
+                .filter(result => result.status !== "disqualified")
+                .forEach(result => {
+                    const id = result.treeVariant ?? MAIN_TREE_VARIANT_ID;
+                    counts.set(id, (counts.get(id) || 0) + 1);
+                });
+            return variants.reduce((fewest, variant) =>
+                (counts.get(variant.id) || 0) < (counts.get(fewest.id) || 0) ? variant : fewest
+            );
+        }
+        return variants[Math.floor(random() * variants.length)];
+    }
+
+    const weights = variants.map(variant => Math.max(0, variant.weight ?? 1));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total === 0) return variants[Math.floor(random() * variants.length)];
+
+    let draw = random() * total;
+    for (let i = 0; i < variants.length; i++) {
+        draw -= weights[i];
+        if (draw < 0 && weights[i] > 0) return variants[i];
+    }
+    return variants[variants.length - 1];
+}
+
+/**
+ * List the tree variants in analyzer data
+ * Variants recorded on participants but not described (e.g. a spreadsheet upload) are named after their ID
+ * @returns Variants in order, or an empty array when every participant saw the same tree
+ */
+export function getAnalyzerTreeVariants(data: UploadedData): AnalyzerTreeVariant[] {
+    const variants = [...(data.treeVariants || [])];
+    const known = new Set(variants.map(variant => variant.id));
+
+    data.participants.forEach(p => {
+        const id = p.treeVariant ?? MAIN_TREE_VARIANT_ID;
+        if (!known.has(id)) {
+            known.add(id);
+            variants.push({ id, name: id === MAIN_TREE_VARIANT_ID ? DEFAULT_MAIN_TREE_NAME : id });
+        }
+    });
+
+    // Keep the main tree first when it had to be added from the participants
+    variants.sort((a, b) => Number(b.id === MAIN_TREE_VARIANT_ID) - Number(a.id === MAIN_TREE_VARIANT_ID));
+
+    return variants.length > 1 ? variants : [];
+}
+
+/**
+ * Restrict analyzer data to one tree variant
+ * @returns The variant's participants, with its tree and expected answers
+ */
+export function applyAnalyzerTreeVariant(data: UploadedData, variant: AnalyzerTreeVariant): UploadedData {
+    return {
+        ...data,
+        participants: data.participants.filter(p => (p.treeVariant ?? MAIN_TREE_VARIANT_ID) === variant.id),
+        tasks: data.tasks.map(task => ({ ...task, expectedAnswer: variant.expectedAnswers?.[task.id] ?? task.expectedAnswer })),
+        treeStructure: variant.treeStructure ?? data.treeStructure,
+    };
+}
+
+/**
+ * Restrict analyzer data to the variant chosen in the dashboard (data.selectedTreeVariant, default the first)
+ * @returns The data unchanged when every participant saw the same tree
+ */
+export function applySelectedTreeVariant(data: UploadedData): UploadedData {
+    const variants = getAnalyzerTreeVariants(data);
+    if (variants.length === 0) return data;
+    const selected = variants.find(variant => variant.id === data.selectedTreeVariant) || variants[0];
+    return applyAnalyzerTreeVariant(data, selected);
+}
+
+/**
+ * Split analyzer data into one study per tree variant, e.g. to compare variants against each other
+ * @returns Studies named and identified after their variant, or an empty array when every participant saw the same tree
+ */
+export function splitByTreeVariant(data: UploadedData): UploadedData[] {
+    return getAnalyzerTreeVariants(data).map(variant => ({
+        ...applyAnalyzerTreeVariant(data, variant),
+        id: `${data.id}:${variant.id}`,
+        name: `${data.name || "Untitled Analysis"} · ${variant.name}`,
+        treeVariants: undefined,
+        selectedTreeVariant: undefined,
+    }));
+}
@@ -0,0 +1,79 @@
+/**
+ * URL Parameter Capture Utility
+ *
+ * Records panel identifiers (e.g. ?PROLIFIC_PID=...) from the participant link
+ * so they can be stored with each result and used for segmentation in the Analyzer.
+ */
+
+import type { StudySettings } from "@/lib/types/study";
+
+/** Spreadsheet column holding the captured parameters as JSON */
+export const URL_PARAMETERS_COLUMN = "URL Parameters";
+
+/**
+ * Pick the configured parameters out of a query string
+ * Names are matched exactly first, then case-insensitively (panels are not consistent about casing)
+ * @param search Query string or URLSearchParams from the participant link
+ * @param names Parameter names to capture
+ * @returns Captured parameters with non-empty values, keyed by the configured name
+ */
+export function captureUrlParameters(search: string | URLSearchParams, names: string[]): Record<string, string> {
+    const params = typeof search === "string" ? new URLSearchParams(search) : search;
+    const captured: Record<string, string> = {};
+
+    names.forEach(name => {
+        let value = params.get(name);
+        if (value === null) {
+            const lowerName = name.toLowerCase();
+            for (const [key, candidate] of params.entries()) {
+                if (key.toLowerCase() === lowerName) {
+                    value = candidate;
+                    break;
+                }
+            }
+        }
+        if (value !== null && value.trim() !== "") {
+            captured[name] = value.trim();
+        }
+    });
+
+    return captured;
+}
+
+/**
+ * Get the participant ID from the captured parameters, if the study is configured to use one
+ * @returns The parameter value, or null to fall back to a generated ID
+ */
+export function getParticipantIdFromParameters(
+    captured: Record<string, string>,
+    settings: Pick<StudySettings, "participantIdParameter">
+): string | null {
+    if (!settings.participantIdParameter) return null;
+    return captured[settings.participantIdParameter] || null;
+}
+
+/**
+ * Serialize captured parameters for a spreadsheet cell
+ * @returns JSON string, or null when nothing was captured
+ */
+export function serializeUrlParameters(params?: Record<string, string>): string | null {
+    if (!params || Object.keys(params).length === 0) return null;
+    return JSON.stringify(params);
+}
+
+/**
+ * Parse a spreadsheet cell written by serializeUrlParameters
+ * @returns Parameters, or undefined if the cell is empty or not valid JSON
+ */
+export function parseUrlParameters(value: unknown): Record<string, string> | undefined {
+    if (typeof value !== "string" || value.trim() === "") return undefined;
+    try {
+        const parsed = JSON.parse(value);
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+        return Object.fromEntries(
+            Object.entries(parsed).map(([key, v]) => [key, String(v)])
+        );
+    } catch {
+        return undefined;
+    }
+}
@@ -2,6 +2,10 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { resumeOutbox } from './lib/storage/outbox'
+
+// Send participant results left unsent by an earlier visit
+resumeOutbox()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
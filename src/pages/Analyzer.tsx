@@ -102,6 +102,7 @@ export function Analyzer() {
             data={currentStudy}
             onDataChange={handleDataChange}
             onDelete={() => handleDeleteStudy(currentStudy.id)}
+            studies={studies}
         />
     );
 }
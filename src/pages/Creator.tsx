@@ -1,11 +1,14 @@
 import { useState, useEffect, useRef } from "react";
 import { useSearchParams, useParams, useNavigate } from "react-router-dom";
-import { Network, ClipboardList, Settings, Database, Share2, Eye, ExternalLink, Edit2, BarChart3 } from "lucide-react";
+import { Network, ClipboardList, Settings, Database, Share2, Eye, ExternalLink, Edit2, BarChart3, MessageSquare } from "lucide-react";
 import type { StudyConfig } from "@/lib/types/study";
 import { generateStudyId } from "@/lib/utils/id-generator";
 import { TreeEditor } from "@/components/creator/TreeEditor";
+import { TreeRandomizationSettings } from "@/components/creator/TreeRandomizationSettings";
+import { TreeVariantsEditor } from "@/components/creator/TreeVariantsEditor";
 import { TaskEditor } from "@/components/creator/TaskEditor";
 import { SettingsEditor } from "@/components/creator/SettingsEditor";
+import { QuestionnaireEditor } from "@/components/creator/QuestionnaireEditor";
 import { StorageEditor } from "@/components/creator/StorageEditor";
 import { AnalyzeStudyTab } from "@/components/creator/AnalyzeStudyTab";
 import { Card, CardContent } from "@/components/ui/card";
@@ -16,8 +19,9 @@ import { Download, Globe, CheckCircle2, XCircle, AlertCircle, Loader2 } from "lu
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { createStorageAdapter } from "@/lib/storage/factory";
 import { getGlobalCustomApiConfig, saveGlobalCustomApiConfig } from "@/lib/utils/global-settings";
+import { applyTreeVariant, getTreeVariants, hasTreeVariants, MAIN_TREE_VARIANT_ID, setTreeVariantTasks, updateTreeVariant } from "@/lib/utils/tree-variants";
 
-type TabType = "tree" | "tasks" | "settings" | "preview" | "storage" | "export" | "analyze";
+type TabType = "tree" | "tasks" | "questionnaires" | "settings" | "preview" | "storage" | "export" | "analyze";
 
 const STORAGE_KEY_STUDIES = "tree-test-studies";
 
@@ -111,6 +115,7 @@ export function Creator() {
     const [editingName, setEditingName] = useState(false);
     const [editingCreator, setEditingCreator] = useState(false);
     const [study, setStudy] = useState<StudyConfig | null>(null);
+    const [activeVariantId, setActiveVariantId] = useState(MAIN_TREE_VARIANT_ID);
     const [isSaving, setIsSaving] = useState(false);
     const [saveError, setSaveError] = useState<string | null>(null);
 
@@ -208,6 +213,7 @@ export function Creator() {
     const tabs = [
         { id: "tree" as TabType, name: "Tree Structure", icon: Network },
         { id: "tasks" as TabType, name: "Tasks", icon: ClipboardList },
+        { id: "questionnaires" as TabType, name: "Questionnaires", icon: MessageSquare },
         { id: "settings" as TabType, name: "Settings", icon: Settings },
         { id: "preview" as TabType, name: "Preview", icon: Eye },
         { id: "storage" as TabType, name: "Storage", icon: Database },
@@ -238,6 +244,11 @@ export function Creator() {
         );
     }
 
+    // Tree and expected paths being edited; the main tree unless a variant is selected
+    const treeVariants = getTreeVariants(study);
+    const activeVariant = treeVariants.find((variant) => variant.id === activeVariantId) || treeVariants[0];
+    const variantStudy = applyTreeVariant(study, activeVariant);
+
     return (
         <div className="min-h-screen bg-gray-50">
             {/* Header */}
@@ -381,25 +392,64 @@ export function Creator() {
                                 <p className="text-gray-600 mb-6">
                                     Define the hierarchical structure that participants will navigate.
                                 </p>
+                                <TreeVariantsEditor
+                                    study={study}
+                                    activeVariantId={activeVariant.id}
+                                    onActiveVariantChange={setActiveVariantId}
+                                    onChange={(updated) => setStudy({ ...updated, updatedAt: new Date().toISOString() })}
+                                />
                                 <TreeEditor
-                                    tree={study.tree}
-                                    onChange={(tree) => setStudy({ ...study, tree, updatedAt: new Date().toISOString() })}
+                                    key={activeVariant.id}
+                                    tree={activeVariant.tree}
+                                    settings={study.settings}
+                                    onChange={(tree) => setStudy({ ...updateTreeVariant(study, activeVariant.id, { tree }), updatedAt: new Date().toISOString() })}
                                 />
+                                <div className="mt-6">
+                                    <TreeRandomizationSettings
+                                        settings={study.settings}
+                                        onChange={(settings) => setStudy({ ...study, settings, updatedAt: new Date().toISOString() })}
+                                    />
+                                </div>
                             </div>
                         )}
 
                         {activeTab === "tasks" && (
                             <div>
+                                {hasTreeVariants(study) && (
+                                    <div className="flex flex-wrap items-center gap-2 mb-6">
+                                        <span className="text-sm text-gray-600">Expected paths for</span>
+                                        {treeVariants.map((variant) => (
+                                            <Button
+                                                key={variant.id}
+                                                variant={variant.id === activeVariant.id ? "default" : "outline"}
+                                                size="sm"
+                                                onClick={() => setActiveVariantId(variant.id)}
+                                            >
+                                                {variant.name}
+                                            </Button>
+                                        ))}
+                                    </div>
+                                )}
                                 <TaskEditor
-                                    tasks={study.tasks}
-                                    tree={study.tree}
+                                    key={activeVariant.id}
+                                    tasks={variantStudy.tasks}
+                                    tree={variantStudy.tree}
                                     settings={study.settings}
-                                    onChange={(tasks) => setStudy({ ...study, tasks, updatedAt: new Date().toISOString() })}
+                                    onChange={(tasks) => setStudy({ ...setTreeVariantTasks(study, activeVariant.id, tasks), updatedAt: new Date().toISOString() })}
                                     onSettingsChange={(settings) => setStudy({ ...study, settings, updatedAt: new Date().toISOString() })}
                                 />
                             </div>
                         )}
 
+                        {activeTab === "questionnaires" && (
+                            <div>
+                                <QuestionnaireEditor
+                                    questionnaires={study.questionnaires}
+                                    onChange={(questionnaires) => setStudy({ ...study, questionnaires, updatedAt: new Date().toISOString() })}
+                                />
+                            </div>
+                        )}
+
                         {activeTab === "settings" && (
                             <div>
                                 <SettingsEditor
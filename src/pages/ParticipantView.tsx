@@ -1,11 +1,21 @@
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useMemo, useState, useRef } from "react";
 import { useParams } from "react-router-dom";
 import { ParticipantPreview } from "@/components/participant/ParticipantPreview";
-import type { StudyConfig, ParticipantResult, TaskResult, PathOutcome, Task } from "@/lib/types/study";
+import { SavingIndicator } from "@/components/participant/SavingIndicator";
+import type { StudyConfig, StudySettings, ParticipantResult, TaskResult, TaskEvent, TaskEventType, PathOutcome, Task, TreeNode, TreeVariant, QuestionAnswer, QuestionnaireBlock } from "@/lib/types/study";
 import { createStorageAdapter } from "@/lib/storage/factory";
+import { queueResult, waitForDelivery } from "@/lib/storage/outbox";
 import { Loader2, AlertCircle, XCircle } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { shuffleTasks } from "@/lib/utils/task-randomizer";
+import { getTaskOrderContext, getTaskOrderStrategy, orderTasks, type TaskOrderContext } from "@/lib/utils/task-randomizer";
+import { shuffleTree, type ShuffledTree } from "@/lib/utils/tree-randomizer";
+import { applyTreeVariant, assignTreeVariant, getTreeVariants } from "@/lib/utils/tree-variants";
+import { createStudyRandom, generateSeed, parseSeed, SEED_PARAMETER } from "@/lib/utils/random";
+import { captureUrlParameters, getParticipantIdFromParameters } from "@/lib/utils/url-parameters";
+import { DEFAULT_REDIRECT_DELAY_SECONDS, getCompletionRedirectUrl } from "@/lib/utils/completion";
+import { isCorrectSelection } from "@/lib/utils/task-follow-ups";
+import { countQuotaUsage, evaluateScreener, hasQuotas, type QuotaUsage, type ScreeningResult } from "@/lib/utils/screener";
+import { loadSession, resumeSession, saveSession, toIndexMap, type ParticipantProgress, type ParticipantSession } from "@/lib/utils/participant-session";
 
 type LoadingState = 'loading' | 'error' | 'closed' | 'ready';
 
@@ -14,8 +24,16 @@ interface ParticipantViewState {
     loadingState: LoadingState;
     errorMessage: string | null;
     loadedFromApi?: boolean; // Track if study was loaded from API (true) or local fallback (false)
+    closedStudySettings?: StudySettings; // Settings of a closed study, used for the closed redirect
 }
 
+const getClosedState = (config: StudyConfig): ParticipantViewState => ({
+    study: null,
+    loadingState: 'closed',
+    errorMessage: 'This study is currently closed and not accepting new participants.',
+    closedStudySettings: config.settings,
+});
+
 export function ParticipantView() {
     const { studyId } = useParams<{ studyId: string }>();
     const [state, setState] = useState<ParticipantViewState>({
@@ -24,27 +42,54 @@ export function ParticipantView() {
         errorMessage: null,
     });
 
+    // Every random choice comes from this seed; a ?seed= parameter replays the session of the participant who had it
+    const [replaySeed] = useState(() => parseSeed(new URLSearchParams(window.location.search).get(SEED_PARAMETER)));
+
+    // A participant who reloads mid-test continues their saved session; replays always start fresh
+    const [resumedSession] = useState<ParticipantSession | null>(() => {
+        const saved = studyId && replaySeed === undefined ? loadSession(studyId) : null;
+        return saved ? resumeSession(saved) : null;
+    });
+    const [randomSeed] = useState(() => replaySeed ?? resumedSession?.randomSeed ?? generateSeed());
+    // Time already spent on the task the session left off on, taken off its time limit
+    const [resumedTaskElapsedSeconds] = useState(() => {
+        const startedAt = resumedSession?.taskStartTimes[resumedSession.progress.currentTaskIndex];
+        return startedAt ? Math.max(0, (Date.now() - startedAt) / 1000) : 0;
+    });
+
     // Track test data
-    const [participantId] = useState(() => `P${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
-    const testStartTime = useRef<number>(Date.now());
-    const taskStartTimes = useRef<Map<number, number>>(new Map());
-    const taskPaths = useRef<Map<number, string[]>>(new Map());
-    const taskClicks = useRef<Map<number, number>>(new Map());
+    const [participantId, setParticipantId] = useState(() => resumedSession?.participantId ?? `P${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+    const [urlParameters, setUrlParameters] = useState<Record<string, string>>({});
+    const testStartTime = useRef<number>(resumedSession?.startedAt ?? Date.now());
+    const pausedMs = resumedSession?.pausedMs ?? 0; // Time away before this session was resumed
+    const taskStartTimes = useRef<Map<number, number>>(toIndexMap(resumedSession?.taskStartTimes));
+    const taskPaths = useRef<Map<number, string[]>>(toIndexMap(resumedSession?.taskPaths));
+    const taskClicks = useRef<Map<number, number>>(toIndexMap(resumedSession?.taskClicks));
+    const taskEvents = useRef<Map<number, TaskEvent[]>>(toIndexMap(resumedSession?.taskEvents)); // Every click with its timing, by display index
+    const questionnaireAnswers = useRef<Record<string, QuestionAnswer>>(resumedSession?.questionnaireAnswers ?? {});
+    const taskFollowUpAnswers = useRef<Map<number, Record<string, QuestionAnswer>>>(toIndexMap(resumedSession?.taskFollowUpAnswers)); // Keyed by display index
+    const progress = useRef<ParticipantProgress | null>(resumedSession?.progress ?? null); // Phase and answers reported by ParticipantPreview
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const isSubmittingRealTime = useRef(false);
-    const pendingUpdate = useRef<{ status: 'incomplete' | 'completed', results: any[] } | null>(null);
+    const [completionRedirectUrl, setCompletionRedirectUrl] = useState<string | null>(null);
+    const [screenedOutRedirectUrl, setScreenedOutRedirectUrl] = useState<string | null>(null);
 
     // Maintain a list of completed task results for real-time submission
     const currentTaskResults = useRef<Array<{
         taskIndex: number;
         selectedPath: string;
         confidence?: number;
-    }>>([]);
+        timedOut?: boolean;
+    }>>(resumedSession?.progress.taskResults ?? []);
 
     // Task randomization state
     const [shuffledTasks, setShuffledTasks] = useState<Task[] | null>(null);
     const shuffledTaskIdToIndex = useRef<Map<string, number>>(new Map()); // Maps task ID → shuffled index
     const shuffledIndexToTaskId = useRef<Map<number, string>>(new Map()); // Maps shuffled index → task ID
+    const [isTaskOrderReady, setIsTaskOrderReady] = useState(false); // Ordering may wait for previous results
+    const [shuffledTree, setShuffledTree] = useState<ShuffledTree | null>(null); // Tree with shuffled siblings, if enabled
+    const [treeVariant, setTreeVariant] = useState<TreeVariant | null>(null); // Assigned tree when the study has variants
+    // The study as this participant sees it: the assigned variant's tree and expected paths
+    const variantStudy = useMemo(() => state.study ? applyTreeVariant(state.study, treeVariant) : null, [state.study, treeVariant]);
 
     useEffect(() => {
         if (!studyId) {
@@ -62,30 +107,176 @@ export function ParticipantView() {
     // Initialize shuffled tasks when study loads
     useEffect(() => {
         if (state.study && state.loadingState === 'ready') {
-            initializeShuffledTasks(state.study);
+            initializeShuffledTasks(state.study, randomSeed, replaySeed, resumedSession);
+            if (resumedSession) {
+                resumeFinishedSession(state.study, resumedSession);
+            }
+        }
+    }, [state.study, state.loadingState, randomSeed, replaySeed, resumedSession]);
+
+    // Capture configured URL parameters (e.g. PROLIFIC_PID) once the study settings are known
+    useEffect(() => {
+        if (!state.study || state.loadingState !== 'ready') return;
+
+        const captured = captureUrlParameters(window.location.search, state.study.settings.capturedUrlParameters || []);
+        setUrlParameters(captured);
+
+        const idFromUrl = getParticipantIdFromParameters(captured, state.study.settings);
+        if (idFromUrl) {
+            setParticipantId(idFromUrl);
         }
     }, [state.study, state.loadingState]);
 
-    const initializeShuffledTasks = (study: StudyConfig) => {
-        if (study.settings.randomizeTasks === true && study.tasks.length > 1) {
-            const shuffled = shuffleTasks(study.tasks);
-            setShuffledTasks(shuffled);
-
-            // Create mapping: taskId → shuffled index
-            const idToIndex = new Map<string, number>();
-            const indexToId = new Map<number, string>();
-            shuffled.forEach((task, index) => {
-                idToIndex.set(task.id, index);
-                indexToId.set(index, task.id);
-            });
-            shuffledTaskIdToIndex.current = idToIndex;
-            shuffledIndexToTaskId.current = indexToId;
-        } else {
-            // No randomization
+    // Send participants back to the recruitment panel when the study is closed
+    // URL parameters are only captured for a ready study, so capture them here for the redirect
+    const closedRedirectUrl = (() => {
+        const settings = state.closedStudySettings;
+        if (state.loadingState !== 'closed' || !settings?.completion?.closedRedirectUrl) return null;
+        const captured = captureUrlParameters(window.location.search, settings.capturedUrlParameters || []);
+        const id = getParticipantIdFromParameters(captured, settings) || participantId;
+        return getCompletionRedirectUrl(settings.completion, 'closed', id, captured);
+    })();
+
+    useEffect(() => {
+        if (closedRedirectUrl) {
+            window.location.assign(closedRedirectUrl);
+        }
+    }, [closedRedirectUrl]);
+
+    // Redirect after a successful submission (or a disqualification), leaving time to read the message
+    const redirectUrl = completionRedirectUrl || screenedOutRedirectUrl;
+    useEffect(() => {
+        if (!redirectUrl) return;
+        const delaySeconds = state.study?.settings.completion?.redirectDelaySeconds ?? DEFAULT_REDIRECT_DELAY_SECONDS;
+        const timer = window.setTimeout(() => window.location.assign(redirectUrl), Math.max(0, delaySeconds) * 1000);
+        return () => window.clearTimeout(timer);
+    }, [redirectUrl, state.study]);
+
+    // A session that had already finished shows its final screen again, and redirects once its result is stored
+    const resumeFinishedSession = (study: StudyConfig, session: ParticipantSession) => {
+        const outcome = session.progress.phase === 'completed' ? 'completed'
+            : session.progress.phase === 'screened-out' ? 'screened-out'
+                : null;
+        if (!outcome) return;
+
+        const captured = captureUrlParameters(window.location.search, study.settings.capturedUrlParameters || []);
+        const url = getCompletionRedirectUrl(study.settings.completion, outcome, session.participantId, captured);
+        const setRedirectUrl = outcome === 'completed' ? setCompletionRedirectUrl : setScreenedOutRedirectUrl;
+        waitForDelivery({ studyId: study.id, participantId: session.participantId }).then(() => setRedirectUrl(url));
+    };
+
+    const initializeShuffledTasks = async (baseStudy: StudyConfig, seed: number, replayOf?: number, session?: ParticipantSession | null) => {
+        const variants = getTreeVariants(baseStudy);
+        const strategy = getTaskOrderStrategy(baseStudy.settings);
+        const showsAllTasks = !baseStudy.settings.tasksPerParticipant || baseStudy.settings.tasksPerParticipant >= baseStudy.tasks.length;
+        const reordersTasks = !(strategy === 'fixed' && showsAllTasks) && baseStudy.tasks.length >= 2;
+
+        // Latin square rows, balanced subsets and round-robin variants depend on who came before, so they are
+        // counted from the stored results when the backend can list them (random otherwise).
+        // A replay reuses the order and variant stored with the seed, since earlier participants have changed since;
+        // a resumed session reuses the ones it saved.
+        const needsTaskResults = reordersTasks && (strategy === 'latin-square' || !showsAllTasks);
+        const needsVariantResults = variants.length > 1
+            && ((baseStudy.settings.treeVariantAssignment ?? 'round-robin') === 'round-robin' || replayOf !== undefined);
+        let results: ParticipantResult[] | null = null;
+        const adapter = createStorageAdapter(baseStudy.storage);
+        if (!session && (needsTaskResults || needsVariantResults) && adapter.fetchResults) {
+            try {
+                const fetched = await adapter.fetchResults(baseStudy.id);
+                results = fetched.results;
+                if (!results) {
+                    console.warn("Could not load previous results, ordering and assigning at random:", fetched.error);
+                }
+            } catch (error) {
+                console.warn("Could not load previous results, ordering and assigning at random:", error);
+            }
+        }
+        const replayed: Pick<ParticipantResult, 'treeVariant' | 'taskOrder'> | undefined = session
+            ?? (replayOf !== undefined ? results?.find(result => result.randomSeed === replayOf) : undefined);
+
+        const variant = variants.length > 1
+            ? variants.find(v => v.id === replayed?.treeVariant)
+                ?? assignTreeVariant(variants, baseStudy.settings, { results, random: createStudyRandom(seed, 'variant') })
+            : null;
+        setTreeVariant(variant);
+        const study = applyTreeVariant(baseStudy, variant);
+
+        setShuffledTree(study.settings.randomizeTreeOrder ? shuffleTree(study.tree, study.settings, createStudyRandom(seed, 'tree')) : null);
+
+        if (!reordersTasks) {
+            // No reordering
             setShuffledTasks(null);
             shuffledTaskIdToIndex.current.clear();
             shuffledIndexToTaskId.current.clear();
+            setIsTaskOrderReady(true);
+            return;
         }
+
+        let context: TaskOrderContext = {};
+        let replayedOrder: Task[] | undefined;
+        if ((needsTaskResults || session) && replayed?.taskOrder) {
+            replayedOrder = replayed.taskOrder
+                .map(id => study.tasks.find(task => task.id === id))
+                .filter((task): task is Task => task !== undefined);
+        } else if (needsTaskResults && results) {
+            context = getTaskOrderContext(results);
+        }
+
+        const shuffled = replayedOrder && replayedOrder.length > 0
+            ? replayedOrder
+            : orderTasks(study.tasks, study.settings, { ...context, random: createStudyRandom(seed, 'tasks') });
+        setShuffledTasks(shuffled);
+
+        // Create mapping: taskId → shuffled index
+        const idToIndex = new Map<string, number>();
+        const indexToId = new Map<number, string>();
+        shuffled.forEach((task, index) => {
+            idToIndex.set(task.id, index);
+            indexToId.set(index, task.id);
+        });
+        shuffledTaskIdToIndex.current = idToIndex;
+        shuffledIndexToTaskId.current = indexToId;
+        setIsTaskOrderReady(true);
+    };
+
+    // Sibling lists that were shuffled, as displayed; omitted when the tree was shown as authored
+    const getDisplayedTreeOrder = (): Record<string, string[]> | undefined => {
+        return shuffledTree && Object.keys(shuffledTree.order).length > 0 ? shuffledTree.order : undefined;
+    };
+
+    // Task IDs in the order this participant sees them
+    const getPresentedTaskOrder = (study: StudyConfig): string[] => {
+        return shuffledIndexToTaskId.current.size > 0
+            ? Array.from(shuffledIndexToTaskId.current.values())
+            : study.tasks.map(task => task.id);
+    };
+
+    // Seconds since the test started, leaving out time away between a save and a resume
+    const getActiveSeconds = () => Math.floor((Date.now() - testStartTime.current - pausedMs) / 1000);
+
+    // Save the participant's progress so a reload resumes it; replays aren't saved
+    const persistSession = () => {
+        if (!variantStudy || !progress.current || replaySeed !== undefined) return;
+        saveSession(variantStudy.id, {
+            participantId,
+            randomSeed,
+            treeVariant: treeVariant?.id,
+            taskOrder: getPresentedTaskOrder(variantStudy),
+            startedAt: testStartTime.current,
+            pausedMs,
+            taskStartTimes: Object.fromEntries(taskStartTimes.current),
+            taskPaths: Object.fromEntries(taskPaths.current),
+            taskClicks: Object.fromEntries(taskClicks.current),
+            taskEvents: Object.fromEntries(taskEvents.current),
+            taskFollowUpAnswers: Object.fromEntries(taskFollowUpAnswers.current),
+            questionnaireAnswers: questionnaireAnswers.current,
+            progress: progress.current,
+        }, variantStudy.settings);
+    };
+
+    const handleProgressChange = (next: ParticipantProgress) => {
+        progress.current = next;
+        persistSession();
     };
 
     const loadStudyConfig = async (id: string) => {
@@ -106,11 +297,7 @@ export function ParticipantView() {
                     if (parsed.id === id) {
                         // Check status FIRST - check in-memory config immediately
                         if (parsed.accessStatus === 'closed') {
-                            setState({
-                                study: null,
-                                loadingState: 'closed',
-                                errorMessage: 'This study is currently closed and not accepting new participants.',
-                            });
+                            setState(getClosedState(parsed));
                             return;
                         }
 
@@ -120,22 +307,14 @@ export function ParticipantView() {
                             const statusResult = await adapter.checkStatus(id);
 
                             if (statusResult.status === 'closed') {
-                                setState({
-                                    study: null,
-                                    loadingState: 'closed',
-                                    errorMessage: 'This study is currently closed and not accepting new participants.',
-                                });
+                                setState(getClosedState(parsed));
                                 return;
                             }
                         } catch (statusError) {
                             console.warn("Could not check status from storage, using in-memory status:", statusError);
                             // If storage check fails but in-memory says closed, still block
                             if (parsed.accessStatus === 'closed') {
-                                setState({
-                                    study: null,
-                                    loadingState: 'closed',
-                                    errorMessage: 'This study is currently closed and not accepting new participants.',
-                                });
+                                setState(getClosedState(parsed));
                                 return;
                             }
                         }
@@ -167,11 +346,7 @@ export function ParticipantView() {
                         // Check status FIRST - before any other checks
                         const isStudyClosed = parsed.accessStatus === 'closed';
                         if (isStudyClosed) {
-                            setState({
-                                study: null,
-                                loadingState: 'closed',
-                                errorMessage: 'This study is currently closed and not accepting new participants.',
-                            });
+                            setState(getClosedState(parsed));
                             return;
                         }
 
@@ -186,11 +361,7 @@ export function ParticipantView() {
                             console.log("Using local config (local-download storage)");
                             // Check status from in-memory config first (already checked above, but double-check)
                             if (isStudyClosed) {
-                                setState({
-                                    study: null,
-                                    loadingState: 'closed',
-                                    errorMessage: 'This study is currently closed and not accepting new participants.',
-                                });
+                                setState(getClosedState(parsed));
                                 return;
                             }
                             setState({
@@ -214,21 +385,13 @@ export function ParticipantView() {
                                 const statusResult = await adapter.checkStatus(id);
 
                                 if (statusResult.status === 'closed') {
-                                    setState({
-                                        study: null,
-                                        loadingState: 'closed',
-                                        errorMessage: 'This study is currently closed and not accepting new participants.',
-                                    });
+                                    setState(getClosedState(fetchResult.config));
                                     return;
                                 }
 
                                 // Also check the config's accessStatus as a double-check
                                 if (fetchResult.config.accessStatus === 'closed') {
-                                    setState({
-                                        study: null,
-                                        loadingState: 'closed',
-                                        errorMessage: 'This study is currently closed and not accepting new participants.',
-                                    });
+                                    setState(getClosedState(fetchResult.config));
                                     return;
                                 }
 
@@ -246,11 +409,7 @@ export function ParticipantView() {
                             console.error("Failed to fetch from storage:", fetchError);
                             // Fall back to local config if fetch fails, but check status first
                             if (isStudyClosed) {
-                                setState({
-                                    study: null,
-                                    loadingState: 'closed',
-                                    errorMessage: 'This study is currently closed and not accepting new participants.',
-                                });
+                                setState(getClosedState(parsed));
                                 return;
                             }
                         }
@@ -258,11 +417,7 @@ export function ParticipantView() {
                         // Use local config as fallback, but check status first
                         console.log("Using local config as fallback");
                         if (isStudyClosed) {
-                            setState({
-                                study: null,
-                                loadingState: 'closed',
-                                errorMessage: 'This study is currently closed and not accepting new participants.',
-                            });
+                            setState(getClosedState(parsed));
                             return;
                         }
                         setState({
@@ -300,21 +455,13 @@ export function ParticipantView() {
                         const statusResult = await adapter.checkStatus(id);
 
                         if (statusResult.status === 'closed') {
-                            setState({
-                                study: null,
-                                loadingState: 'closed',
-                                errorMessage: 'This study is currently closed and not accepting new participants.',
-                            });
+                            setState(getClosedState(fetchResult.config));
                             return;
                         }
 
                         // Also check the config's accessStatus as a double-check
                         if (fetchResult.config.accessStatus === 'closed') {
-                            setState({
-                                study: null,
-                                loadingState: 'closed',
-                                errorMessage: 'This study is currently closed and not accepting new participants.',
-                            });
+                            setState(getClosedState(fetchResult.config));
                             return;
                         }
 
@@ -354,9 +501,19 @@ export function ParticipantView() {
     };
 
     const handleTestStart = (taskIndex: number) => {
+        // Already started, e.g. the task a resumed session left off on
+        if (taskStartTimes.current.has(taskIndex)) return;
         taskStartTimes.current.set(taskIndex, Date.now());
         taskPaths.current.set(taskIndex, []);
         taskClicks.current.set(taskIndex, 0);
+        taskEvents.current.set(taskIndex, []);
+    };
+
+    const handleTaskEvent = (taskIndex: number, type: TaskEventType, path: string) => {
+        const taskStartTime = taskStartTimes.current.get(taskIndex) ?? Date.now();
+        const events = taskEvents.current.get(taskIndex) || [];
+        taskEvents.current.set(taskIndex, [...events, { type, path, time: Date.now() - taskStartTime }]);
+        persistSession();
     };
 
     const handleNodeClick = (taskIndex: number, path: string) => {
@@ -378,19 +535,21 @@ export function ParticipantView() {
             // Increment click count
             const clicks = taskClicks.current.get(taskIndex) || 0;
             taskClicks.current.set(taskIndex, clicks + 1);
+            persistSession();
         }
     };
 
     const calculateTaskResult = (
         task: Task,
-        allTaskResults: Array<{ taskIndex: number; selectedPath: string; confidence?: number }>
+        allTaskResults: Array<{ taskIndex: number; selectedPath: string; confidence?: number; timedOut?: boolean }>
     ): TaskResult => {
         // Find result by taskId (handles both randomized and non-randomized cases)
         // If randomized, we need to find the shuffled index for this task
+        // Tasks left out of a partial task set have no shuffled index and are never shown
         const shuffledIndex = shuffledTaskIdToIndex.current.get(task.id);
         const displayIndex = shuffledIndex !== undefined
             ? shuffledIndex
-            : (state.study?.tasks.findIndex(t => t.id === task.id) ?? -1);
+            : shuffledTaskIdToIndex.current.size > 0 ? -1 : (variantStudy?.tasks.findIndex(t => t.id === task.id) ?? -1);
 
         const taskResult = allTaskResults.find(tr => tr.taskIndex === displayIndex);
 
@@ -407,28 +566,25 @@ export function ParticipantView() {
             };
         }
 
-        const taskStartTime = taskStartTimes.current.get(displayIndex) || testStartTime.current;
+        const taskStartTime = taskStartTimes.current.get(displayIndex) || testStartTime.current + pausedMs;
         const taskTime = Math.floor((Date.now() - taskStartTime) / 1000);
         const pathTaken = taskPaths.current.get(displayIndex) || [];
 
         // Determine outcome based on correct path
         let outcome: PathOutcome = 'failure';
-        // Check if task was skipped (empty selectedPath)
-        if (!taskResult.selectedPath || taskResult.selectedPath === "") {
+        if (taskResult.timedOut) {
+            // The time limit ran out before the participant chose an answer
+            outcome = 'timeout';
+        } else if (!taskResult.selectedPath || taskResult.selectedPath === "") {
             // Determine if direct skip (no interaction) or indirect skip (some interaction)
             const clicks = taskClicks.current.get(displayIndex) || 0;
             const pathTakenForSkip = taskPaths.current.get(displayIndex) || [];
             outcome = (clicks === 0 && pathTakenForSkip.length === 0) ? 'direct-skip' : 'indirect-skip';
         } else {
-            const selectedPathParts = taskResult.selectedPath.split('/').filter(Boolean);
             const pathTakenForCheck = taskPaths.current.get(displayIndex) || [];
             const correctPaths = task.correctPath || [];
 
-            const isCorrect = correctPaths.some(correctPath => {
-                const correctParts = correctPath.split('/').filter(Boolean);
-                if (selectedPathParts.length !== correctParts.length) return false;
-                return selectedPathParts.every((part, i) => part === correctParts[i]);
-            });
+            const isCorrect = isCorrectSelection(task, taskResult.selectedPath);
 
             if (isCorrect) {
                 const pathTakenMatchesExactly = correctPaths.some(correctPath => {
@@ -450,73 +606,64 @@ export function ParticipantView() {
             confidence: taskResult?.confidence,
             timeSeconds: taskTime,
             timestamp: new Date().toISOString(),
+            followUpAnswers: taskFollowUpAnswers.current.get(displayIndex),
+            events: taskEvents.current.get(displayIndex),
         };
     };
 
     const submitRealTimeUpdate = async (
         status: 'incomplete' | 'completed',
-        allTaskResults: Array<{ taskIndex: number; selectedPath: string; confidence?: number }>
+        allTaskResults: Array<{ taskIndex: number; selectedPath: string; confidence?: number; timedOut?: boolean }>
     ) => {
-        if (!state.study) return;
-
-        // If a submission is already in progress, queue this one and return
-        if (isSubmittingRealTime.current) {
-            pendingUpdate.current = { status, results: allTaskResults };
-            return;
-        }
-
-        isSubmittingRealTime.current = true;
+        if (!variantStudy) return;
 
         try {
-            const totalActiveTime = Math.floor((Date.now() - testStartTime.current) / 1000);
-            const taskResults = state.study.tasks.map(task => calculateTaskResult(task, allTaskResults));
+            const totalActiveTime = getActiveSeconds();
+            const taskResults = variantStudy.tasks.map(task => calculateTaskResult(task, allTaskResults));
 
             const result: ParticipantResult = {
                 participantId: participantId,
-                studyId: state.study.id,
-                studyName: state.study.name,
+                studyId: variantStudy.id,
+                studyName: variantStudy.name,
                 status: status,
                 startedAt: new Date(testStartTime.current).toISOString(),
                 completedAt: status === 'completed' ? new Date().toISOString() : undefined,
                 totalActiveTime: totalActiveTime,
                 taskResults: taskResults,
+                taskOrder: getPresentedTaskOrder(variantStudy),
+                randomSeed: randomSeed,
+                treeOrder: getDisplayedTreeOrder(),
+                treeVariant: treeVariant?.id,
                 userAgent: navigator.userAgent,
+                urlParameters: Object.keys(urlParameters).length > 0 ? urlParameters : undefined,
+                questionnaireAnswers: Object.keys(questionnaireAnswers.current).length > 0 ? questionnaireAnswers.current : undefined,
             };
 
-            const adapter = createStorageAdapter(state.study.storage);
-
             console.log(`[RealTime] Submitting update (${status}) with ${allTaskResults.length} task results...`, {
                 participantId,
                 tasksInPayload: taskResults.filter(t => t.outcome !== ('' as PathOutcome)).length
             });
 
-            const submitResult = await adapter.submitResult(result);
+            // The outbox replaces any earlier update still waiting to be sent, and retries until it gets through
+            const delivered = await queueResult(result, variantStudy.storage);
 
-            if (!submitResult.success) {
-                console.error("Failed to submit real-time update:", submitResult.error);
+            if (!delivered) {
+                console.warn(`Real-time update (${status}) not sent yet, queued for retry`);
             } else {
                 console.log(`Real-time update submitted successfully (${status})`);
             }
         } catch (error) {
             console.error("Error during real-time submission:", error);
-        } finally {
-            isSubmittingRealTime.current = false;
-
-            // If an update was queued while we were submitting, trigger it now
-            if (pendingUpdate.current) {
-                const next = pendingUpdate.current;
-                pendingUpdate.current = null;
-                submitRealTimeUpdate(next.status, next.results);
-            }
         }
     };
 
     const handleTaskComplete = (
         taskIndex: number,
         selectedPath: string,
-        confidence?: number
+        confidence?: number,
+        timedOut?: boolean
     ) => {
-        const newResult = { taskIndex, selectedPath, confidence };
+        const newResult = { taskIndex, selectedPath, confidence, timedOut };
         console.log(`[RealTime] Task ${taskIndex} complete. Accumulating result. Current count:`, currentTaskResults.current.length);
 
         currentTaskResults.current = [...currentTaskResults.current, newResult];
@@ -525,16 +672,86 @@ export function ParticipantView() {
         submitRealTimeUpdate('incomplete', currentTaskResults.current);
     };
 
+    // Follow-ups are answered after the task is recorded, so resend the results to save them
+    // After the last task the final submission includes them
+    const handleTaskFollowUpSubmit = (taskIndex: number, answers: Record<string, QuestionAnswer>) => {
+        if (Object.keys(answers).length === 0) return;
+        taskFollowUpAnswers.current.set(taskIndex, answers);
+        // After the last task shown, the final submission follows and already includes the answers
+        const shownTaskCount = shuffledIndexToTaskId.current.size || variantStudy?.tasks.length || 0;
+        if (variantStudy && currentTaskResults.current.length < shownTaskCount) {
+            submitRealTimeUpdate('incomplete', currentTaskResults.current);
+        }
+    };
+
+    const handleQuestionnaireSubmit = (_block: QuestionnaireBlock, answers: Record<string, QuestionAnswer>) => {
+        questionnaireAnswers.current = { ...questionnaireAnswers.current, ...answers };
+    };
+
+    // Screen the participant before the tasks; disqualified participants are recorded and don't see the tasks
+    const handleScreenerSubmit = async (answers: Record<string, QuestionAnswer>): Promise<ScreeningResult> => {
+        if (!variantStudy) return { qualified: true };
+        const questions = variantStudy.questionnaires?.screener || [];
+        const adapter = createStorageAdapter(variantStudy.storage);
+
+        // Quotas are counted from the stored results, so they are only enforced when the backend can list them
+        let quotaUsage: QuotaUsage | undefined;
+        if (questions.some(hasQuotas) && adapter.fetchResults) {
+            try {
+                const { results, error } = await adapter.fetchResults(variantStudy.id);
+                if (results) {
+                    quotaUsage = countQuotaUsage(questions, results);
+                } else {
+                    console.warn("Could not check screener quotas, letting the participant continue:", error);
+                }
+            } catch (error) {
+                console.warn("Could not check screener quotas, letting the participant continue:", error);
+            }
+        }
+
+        const screening = evaluateScreener(questions, answers, quotaUsage);
+        if (screening.qualified) {
+            return screening;
+        }
+
+        try {
+            const result: ParticipantResult = {
+                participantId: participantId,
+                studyId: variantStudy.id,
+                studyName: variantStudy.name,
+                status: 'disqualified',
+                disqualificationReason: screening.reason,
+                startedAt: new Date(testStartTime.current).toISOString(),
+                totalActiveTime: getActiveSeconds(),
+                taskResults: variantStudy.tasks.map(task => calculateTaskResult(task, [])), // Placeholders keep the sheet columns aligned
+                userAgent: navigator.userAgent,
+                urlParameters: Object.keys(urlParameters).length > 0 ? urlParameters : undefined,
+                questionnaireAnswers: Object.keys(questionnaireAnswers.current).length > 0 ? questionnaireAnswers.current : undefined,
+            };
+            const screenedOutUrl = getCompletionRedirectUrl(variantStudy.settings.completion, 'screened-out', participantId, urlParameters);
+            if (!await queueResult(result, variantStudy.storage)) {
+                console.warn("Disqualified participant not recorded yet, queued for retry");
+            }
+            // Redirecting away before the result is sent would leave it queued until the participant returns
+            waitForDelivery(result).then(() => setScreenedOutRedirectUrl(screenedOutUrl));
+        } catch (error) {
+            console.error("Error recording disqualified participant:", error);
+        }
+
+        return screening;
+    };
+
     const handleTestComplete = async (allTaskResults: Array<{
         taskIndex: number;
         selectedPath: string;
         confidence?: number;
+        timedOut?: boolean;
     }>) => {
-        if (!state.study || isSubmitting) return;
+        if (!variantStudy || isSubmitting) return;
 
         // Check study status before allowing submission
         // First check the in-memory study config (fast check)
-        if (state.study.accessStatus === 'closed') {
+        if (variantStudy.accessStatus === 'closed') {
             alert('This study is currently closed and not accepting new submissions.');
             return;
         }
@@ -544,8 +761,8 @@ export function ParticipantView() {
         // If loaded from local fallback, trust the local config's accessStatus
         if (state.loadedFromApi === true) {
             try {
-                const adapter = createStorageAdapter(state.study.storage);
-                const statusResult = await adapter.checkStatus(state.study.id);
+                const adapter = createStorageAdapter(variantStudy.storage);
+                const statusResult = await adapter.checkStatus(variantStudy.id);
 
                 if (statusResult.status === 'closed') {
                     alert('This study is currently closed and not accepting new submissions.');
@@ -571,39 +788,44 @@ export function ParticipantView() {
 
         try {
             // Use the consistent participantId
-            const totalActiveTime = Math.floor((Date.now() - testStartTime.current) / 1000);
-            const taskResults = state.study.tasks.map((task) => calculateTaskResult(task, allTaskResults));
+            const totalActiveTime = getActiveSeconds();
+            const taskResults = variantStudy.tasks.map((task) => calculateTaskResult(task, allTaskResults));
 
             // Build participant result
             const result: ParticipantResult = {
                 participantId: participantId,
-                studyId: state.study.id,
-                studyName: state.study.name,
+                studyId: variantStudy.id,
+                studyName: variantStudy.name,
                 status: 'completed',
                 startedAt: new Date(testStartTime.current).toISOString(),
                 completedAt: new Date().toISOString(),
                 totalActiveTime: totalActiveTime,
                 taskResults: taskResults,
+                taskOrder: getPresentedTaskOrder(variantStudy),
+                randomSeed: randomSeed,
+                treeOrder: getDisplayedTreeOrder(),
+                treeVariant: treeVariant?.id,
                 userAgent: navigator.userAgent,
+                urlParameters: Object.keys(urlParameters).length > 0 ? urlParameters : undefined,
+                questionnaireAnswers: Object.keys(questionnaireAnswers.current).length > 0 ? questionnaireAnswers.current : undefined,
             };
 
-            // Submit to storage
-            const adapter = createStorageAdapter(state.study.storage);
-            const submitResult = await adapter.submitResult(result);
-
-            if (!submitResult.success) {
-                throw new Error(submitResult.error || 'Failed to submit results');
+            // Submit to storage; if that fails the result stays queued on this device and the
+            // ParticipantPreview shows the completion message while the outbox keeps retrying
+            const completionUrl = getCompletionRedirectUrl(variantStudy.settings.completion, 'completed', participantId, urlParameters);
+            if (!await queueResult(result, variantStudy.storage)) {
+                console.warn("Results not submitted yet, queued for retry");
             }
-            // Success - the ParticipantPreview will show completion message
+            // Only redirect once the results are stored
+            waitForDelivery(result).then(() => setCompletionRedirectUrl(completionUrl));
         } catch (error) {
             console.error("Failed to submit results:", error);
-            alert(`Failed to submit results: ${error instanceof Error ? error.message : 'Unknown error'}`);
         } finally {
             setIsSubmitting(false);
         }
     };
 
-    if (state.loadingState === 'loading') {
+    if (state.loadingState === 'loading' || (state.loadingState === 'ready' && !isTaskOrderReady)) {
         return (
             <div className="min-h-screen bg-gray-50 flex items-center justify-center">
                 <div className="text-center">
@@ -639,6 +861,9 @@ export function ParticipantView() {
                         <AlertTitle>Study Closed</AlertTitle>
                         <AlertDescription>
                             {state.errorMessage || 'This study is currently closed and not accepting new participants.'}
+                            {closedRedirectUrl && (
+                                <span className="block mt-2">Redirecting...</span>
+                            )}
                         </AlertDescription>
                     </Alert>
                 </div>
@@ -646,19 +871,29 @@ export function ParticipantView() {
         );
     }
 
-    if (!state.study) {
+    if (!variantStudy) {
         return null;
     }
 
     return (
         <ParticipantViewWithTracking
-            study={state.study}
+            study={variantStudy}
             shuffledTasks={shuffledTasks}
+            displayTree={shuffledTree?.tree ?? null}
             onTestStart={handleTestStart}
             onNodeClick={handleNodeClick}
+            onTaskEvent={handleTaskEvent}
             onTestComplete={handleTestComplete}
             isSubmitting={isSubmitting}
             handleTaskComplete={handleTaskComplete}
+            onQuestionnaireSubmit={handleQuestionnaireSubmit}
+            onScreenerSubmit={handleScreenerSubmit}
+            onTaskFollowUpSubmit={handleTaskFollowUpSubmit}
+            completionRedirectUrl={completionRedirectUrl}
+            screenedOutRedirectUrl={screenedOutRedirectUrl}
+            initialProgress={resumedSession?.progress}
+            initialTaskElapsedSeconds={resumedTaskElapsedSeconds}
+            onProgressChange={handleProgressChange}
         />
     );
 }
@@ -667,32 +902,65 @@ export function ParticipantView() {
 interface ParticipantViewWithTrackingProps {
     study: StudyConfig;
     shuffledTasks: Task[] | null;
+    displayTree: TreeNode[] | null;
     onTestStart: (taskIndex: number) => void;
     onNodeClick: (taskIndex: number, path: string) => void;
-    onTestComplete: (results: Array<{ taskIndex: number; selectedPath: string; confidence?: number }>) => void;
+    onTaskEvent: (taskIndex: number, type: TaskEventType, path: string) => void;
+    onTestComplete: (results: Array<{ taskIndex: number; selectedPath: string; confidence?: number; timedOut?: boolean }>) => void;
     isSubmitting: boolean;
-    handleTaskComplete: (taskIndex: number, selectedPath: string, confidence?: number) => void;
+    handleTaskComplete: (taskIndex: number, selectedPath: string, confidence?: number, timedOut?: boolean) => void;
+    onQuestionnaireSubmit: (block: QuestionnaireBlock, answers: Record<string, QuestionAnswer>) => void;
+    onScreenerSubmit: (answers: Record<string, QuestionAnswer>) => Promise<ScreeningResult>;
+    onTaskFollowUpSubmit: (taskIndex: number, answers: Record<string, QuestionAnswer>) => void;
+    completionRedirectUrl: string | null;
+    screenedOutRedirectUrl: string | null;
+    initialProgress?: ParticipantProgress;
+    initialTaskElapsedSeconds: number;
+    onProgressChange: (progress: ParticipantProgress) => void;
 }
 
 function ParticipantViewWithTracking({
     study,
     shuffledTasks,
+    displayTree,
     onTestStart,
     onNodeClick,
+    onTaskEvent,
     onTestComplete,
     isSubmitting,
     handleTaskComplete,
+    onQuestionnaireSubmit,
+    onScreenerSubmit,
+    onTaskFollowUpSubmit,
+    completionRedirectUrl,
+    screenedOutRedirectUrl,
+    initialProgress,
+    initialTaskElapsedSeconds,
+    onProgressChange,
 }: ParticipantViewWithTrackingProps) {
     return (
-        <ParticipantPreview
-            study={study}
-            shuffledTasks={shuffledTasks}
-            onTestStart={onTestStart}
-            onNodeClick={onNodeClick}
-            onTaskComplete={handleTaskComplete}
-            onTestComplete={onTestComplete}
-            isSubmitting={isSubmitting}
-            isPreview={false}
-        />
+        <>
+            <ParticipantPreview
+                study={study}
+                shuffledTasks={shuffledTasks}
+                displayTree={displayTree}
+                onTestStart={onTestStart}
+                onNodeClick={onNodeClick}
+                onTaskEvent={onTaskEvent}
+                onTaskComplete={handleTaskComplete}
+                onTestComplete={onTestComplete}
+                onQuestionnaireSubmit={onQuestionnaireSubmit}
+                onScreenerSubmit={onScreenerSubmit}
+                onTaskFollowUpSubmit={onTaskFollowUpSubmit}
+                isSubmitting={isSubmitting}
+                isPreview={false}
+                completionRedirectUrl={completionRedirectUrl}
+                screenedOutRedirectUrl={screenedOutRedirectUrl}
+                initialProgress={initialProgress}
+                initialTaskElapsedSeconds={initialTaskElapsedSeconds}
+                onProgressChange={onProgressChange}
+            />
+            <SavingIndicator />
+        </>
     );
 }
@@ -1,11 +1,17 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { ParticipantPreview } from "@/components/participant/ParticipantPreview";
-import type { StudyConfig, Task } from "@/lib/types/study";
-import { shuffleTasks } from "@/lib/utils/task-randomizer";
+import type { StudyConfig, Task, TreeNode } from "@/lib/types/study";
+import { getTaskOrderStrategy, orderTasks } from "@/lib/utils/task-randomizer";
+import { shuffleTree } from "@/lib/utils/tree-randomizer";
+import { createStudyRandom, generateSeed, parseSeed, SEED_PARAMETER } from "@/lib/utils/random";
+import { applyTreeVariant, assignTreeVariant, getTreeVariants } from "@/lib/utils/tree-variants";
 
 export function Preview() {
     const [study, setStudy] = useState<StudyConfig | null>(null);
     const [shuffledTasks, setShuffledTasks] = useState<Task[] | null>(null);
+    const [displayTree, setDisplayTree] = useState<TreeNode[] | null>(null);
+    // ?seed= shows the same task and tree order again, e.g. to reproduce what a participant reported
+    const [seed] = useState(() => parseSeed(new URLSearchParams(window.location.search).get(SEED_PARAMETER)) ?? generateSeed());
 
     useEffect(() => {
         // Load study from sessionStorage
@@ -20,19 +26,29 @@ export function Preview() {
         }
     }, []);
 
+    // Previews don't count towards round-robin assignment either, so the tree variant is picked from the seed
+    const treeVariant = useMemo(() => {
+        if (!study) return null;
+        const variants = getTreeVariants(study);
+        return variants.length > 1 ? assignTreeVariant(variants, study.settings, { random: createStudyRandom(seed, "variant") }) : null;
+    }, [study, seed]);
+    const variantStudy = useMemo(() => study ? applyTreeVariant(study, treeVariant) : null, [study, treeVariant]);
+
     // Initialize shuffled tasks when study loads
     useEffect(() => {
-        if (study) {
-            if (study.settings.randomizeTasks === true && study.tasks.length > 1) {
-                const shuffled = shuffleTasks(study.tasks);
-                setShuffledTasks(shuffled);
+        if (variantStudy) {
+            const study = variantStudy;
+            // Previews don't count towards Latin square rows or task exposure, so those are picked from the seed
+            if (getTaskOrderStrategy(study.settings) !== "fixed" || (study.settings.tasksPerParticipant ?? 0) > 0) {
+                setShuffledTasks(orderTasks(study.tasks, study.settings, { random: createStudyRandom(seed, "tasks") }));
             } else {
                 setShuffledTasks(null);
             }
+            setDisplayTree(study.settings.randomizeTreeOrder ? shuffleTree(study.tree, study.settings, createStudyRandom(seed, "tree")).tree : null);
         }
-    }, [study]);
+    }, [variantStudy, seed]);
 
-    if (!study) {
+    if (!variantStudy) {
         return (
             <div className="min-h-screen bg-gray-50 flex items-center justify-center">
                 <div className="text-center">
@@ -45,6 +61,15 @@ export function Preview() {
         );
     }
 
-    return <ParticipantPreview study={study} shuffledTasks={shuffledTasks} isPreview={true} />;
+    return (
+        <ParticipantPreview
+            study={variantStudy}
+            shuffledTasks={shuffledTasks}
+            displayTree={displayTree}
+            seed={seed}
+            treeVariantName={treeVariant?.name}
+            isPreview={true}
+        />
+    );
 }
 